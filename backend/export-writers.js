@@ -0,0 +1,432 @@
+// Streaming writers for the product export. Each writer takes a `write`
+// callback for its output and a { columns, labels, lang } description of the
+// table, and is driven by begin(), writeRows(rows) for each batch and
+// end(totals) once the rows are done.
+const zlib = require("zlib");
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+// CRC-32 of `buffer`, continuing from a previous `crc`
+const crc32 = (buffer, crc = 0) => {
+  let c = crc ^ 0xffffffff;
+  for (const byte of buffer) c = CRC32_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// Streaming zip archive. Each entry is deflated as it is written and its
+// checksum and sizes follow in a data descriptor, so no entry has to be
+// held in memory. `write` receives the archive bytes in order.
+const createZipStream = (write) => {
+  const entries = [];
+  let offset = 0;
+  const emit = (chunk) => {
+    offset += chunk.length;
+    write(chunk);
+  };
+
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  // Bit 3: sizes in a data descriptor; bit 11: UTF-8 names
+  const FLAGS = 0x0808;
+  const DEFLATE = 8;
+
+  const addEntry = (name) => {
+    const entry = { name: Buffer.from(name), offset, crc: 0, size: 0, compressedSize: 0 };
+    entries.push(entry);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    emit(Buffer.concat([header, entry.name]));
+
+    const deflate = zlib.createDeflateRaw();
+    deflate.on("data", (chunk) => {
+      entry.compressedSize += chunk.length;
+      emit(chunk);
+    });
+    const finished = new Promise((resolve, reject) => {
+      deflate.on("end", resolve);
+      deflate.on("error", reject);
+    });
+
+    return {
+      // Resolves once the deflater can take more
+      write: (text) => {
+        const data = Buffer.from(text);
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        return deflate.write(data) ? Promise.resolve() : new Promise((resolve) => deflate.once("drain", resolve));
+      },
+      end: async () => {
+        deflate.end();
+        await finished;
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.size, 12);
+        emit(descriptor);
+      }
+    };
+  };
+
+  const addFile = async (name, text) => {
+    const file = addEntry(name);
+    await file.write(text);
+    await file.end();
+  };
+
+  // Central directory, written once every entry has ended
+  const end = () => {
+    const start = offset;
+    for (const entry of entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(dosTime, 12);
+      header.writeUInt16LE(dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      emit(Buffer.concat([header, entry.name]));
+    }
+    const record = Buffer.alloc(22);
+    record.writeUInt32LE(0x06054b50, 0);
+    record.writeUInt16LE(entries.length, 8);
+    record.writeUInt16LE(entries.length, 10);
+    record.writeUInt32LE(offset - start, 12);
+    record.writeUInt32LE(start, 16);
+    emit(record);
+  };
+
+  return { addEntry, addFile, end };
+};
+
+const csvValue = (value) => {
+  const text = value == null ? "" : String(value);
+  return /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+const csvLine = (values) => `${values.map(csvValue).join(",")}\r\n`;
+
+// CSV with a BOM so Excel reads Arabic and accented text as UTF-8
+const createCsvExport = (write, { columns, labels }) => ({
+  begin: async () => write(`\uFEFF${csvLine(columns.map((column) => labels[column.key]))}`),
+  writeRows: async (rows) => write(rows.map(csvLine).join("")),
+  end: async () => {}
+});
+
+const xmlEscape = (value) =>
+  String(value)
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/[&<>"]/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]);
+
+// "A", "B", ... "AA" for a zero-based column index
+const columnName = (index) => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const XLSX_MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const XLSX_RELATIONSHIP_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Cell styles in styles.xml: 0 plain, 1 bold, 2 "#,##0", 3 "#,##0.00", 4 bold "#,##0.00"
+const XLSX_STYLES = `${XML_HEADER}<styleSheet xmlns="${XLSX_MAIN_NS}">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// Single-sheet workbook. Text goes in inline strings rather than a shared
+// string table, so the sheet can be written row by row.
+const createXlsxExport = (write, { columns, labels, lang }) => {
+  const zip = createZipStream(write);
+  let sheet = null;
+  let rowNumber = 0;
+
+  const textCell = (reference, value, style = 0) =>
+    `<c r="${reference}" t="inlineStr"${style ? ` s="${style}"` : ""}><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+
+  const rowXml = (values) => {
+    rowNumber++;
+    const cells = values.map((value, index) => {
+      const reference = `${columnName(index)}${rowNumber}`;
+      if (value == null || value === "") return "";
+      const { type } = columns[index];
+      if (type === "text") return textCell(reference, value);
+      return `<c r="${reference}" s="${type === "money" ? 3 : 2}"><v>${Number(value)}</v></c>`;
+    });
+    return `<row r="${rowNumber}">${cells.join("")}</row>`;
+  };
+
+  return {
+    begin: async () => {
+      await zip.addFile(
+        "[Content_Types].xml",
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+      );
+      await zip.addFile(
+        "_rels/.rels",
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${XLSX_RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+      );
+      await zip.addFile(
+        "xl/workbook.xml",
+        `${XML_HEADER}<workbook xmlns="${XLSX_MAIN_NS}" xmlns:r="${XLSX_RELATIONSHIP_NS}">
+<sheets><sheet name="${xmlEscape(labels.title)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+      );
+      await zip.addFile(
+        "xl/_rels/workbook.xml.rels",
+        `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${XLSX_RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="${XLSX_RELATIONSHIP_NS}/styles" Target="styles.xml"/>
+</Relationships>`
+      );
+      await zip.addFile("xl/styles.xml", XLSX_STYLES);
+
+      sheet = zip.addEntry("xl/worksheets/sheet1.xml");
+      rowNumber = 1;
+      await sheet.write(
+        `${XML_HEADER}<worksheet xmlns="${XLSX_MAIN_NS}">` +
+          `<sheetViews><sheetView workbookViewId="0"${lang === "ar" ? ' rightToLeft="1"' : ""}>` +
+          '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+          `<cols>${columns.map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`).join("")}</cols>` +
+          `<sheetData><row r="1">${columns.map((column, index) => textCell(`${columnName(index)}1`, labels[column.key], 1)).join("")}</row>`
+      );
+    },
+    writeRows: (rows) => sheet.write(rows.map(rowXml).join("")),
+    end: async (totals) => {
+      let footer = "";
+      // A SUM formula keeps the total right after rows are edited; the cached value shows it before recalculation
+      if (rowNumber > 1) {
+        const lastRow = rowNumber;
+        rowNumber++;
+        const cells = columns.map((column, index) => {
+          const reference = `${columnName(index)}${rowNumber}`;
+          if (index === 0) return textCell(reference, labels.total, 1);
+          if (totals[index] == null) return "";
+          const name = columnName(index);
+          return `<c r="${reference}" s="4"><f>SUM(${name}2:${name}${lastRow})</f><v>${totals[index]}</v></c>`;
+        });
+        footer = `<row r="${rowNumber}">${cells.join("")}</row>`;
+      }
+      await sheet.write(`${footer}</sheetData></worksheet>`);
+      await sheet.end();
+      zip.end();
+    }
+  };
+};
+
+// Advance widths of Helvetica for characters 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Windows-1252 bytes above 0x7f that differ from Latin-1
+const WIN_ANSI_EXTRA = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "Œ": 0x8c, "‘": 0x91, "’": 0x92,
+  "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "œ": 0x9c, "Ÿ": 0x9f
+};
+
+// Text in the WinAnsi encoding of the built-in PDF fonts, as a latin1 string.
+// Accents that have no WinAnsi form are dropped; other characters become "?".
+const toWinAnsi = (text) =>
+  [...String(text)]
+    .map((char) => {
+      const code = char.codePointAt(0);
+      if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) return char;
+      if (WIN_ANSI_EXTRA[char]) return String.fromCharCode(WIN_ANSI_EXTRA[char]);
+      const base = char.normalize("NFD")[0];
+      return base.charCodeAt(0) < 0x80 ? base : "?";
+    })
+    .join("");
+
+// Width in points of WinAnsi text; bold is taken as 10% wider
+const textWidth = (text, size, bold = false) => {
+  let width = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) width += HELVETICA_WIDTHS[code - 32];
+    else width += code === 0x85 ? 1000 : 556;
+  }
+  return (width * size * (bold ? 1.1 : 1)) / 1000;
+};
+
+const pdfString = (text) => `(${text.replace(/[\\()]/g, "\\$&")})`;
+
+// "1234567.5" -> "1 234 567.50"
+const formatAmount = (value, decimals) =>
+  Number(value).toFixed(decimals).replace(/\B(?=(\d{3})+(?!\d))/g, " ");
+
+// A4 landscape table in the built-in Helvetica fonts. Pages are written as
+// they fill up; the page tree and cross-reference table follow at the end.
+const createPdfExport = (write, { columns, labels }) => {
+  const PAGE_WIDTH = 842;
+  const PAGE_HEIGHT = 595;
+  const MARGIN = 30;
+  const FONT_SIZE = 8;
+  const ROW_HEIGHT = 12;
+  const PADDING = 3;
+  const TABLE_TOP = PAGE_HEIGHT - MARGIN - 30;
+  const ROWS_PER_PAGE = Math.floor((TABLE_TOP - MARGIN - ROW_HEIGHT) / ROW_HEIGHT);
+
+  const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = columns.map((column) => ((PAGE_WIDTH - MARGIN * 2) * column.width) / totalWidth);
+  const title = `${labels.title} - ${new Date().toISOString().slice(0, 10)}`;
+
+  // Object 1 is the catalog, 2 the page tree, 3 and 4 the fonts
+  const offsets = [];
+  const pageIds = [];
+  let offset = 0;
+  let nextId = 5;
+  let pageRows = [];
+
+  const emit = (text) => {
+    const buffer = Buffer.from(text, "latin1");
+    offset += buffer.length;
+    write(buffer);
+  };
+  const writeObject = (id, body) => {
+    offsets[id] = offset;
+    emit(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+  const writeStream = (id, content) => {
+    const data = zlib.deflateSync(Buffer.from(content, "latin1"));
+    offsets[id] = offset;
+    emit(`${id} 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`);
+    offset += data.length;
+    write(data);
+    emit("\nendstream\nendobj\n");
+  };
+
+  const cellText = (value, index) => {
+    if (value == null) return "";
+    const { type } = columns[index];
+    if (type === "money") return formatAmount(value, 2);
+    if (type === "integer") return formatAmount(value, 0);
+    return toWinAnsi(value);
+  };
+
+  // Text drawn inside its column: numbers right-aligned, long text cut with an ellipsis
+  const rowContent = (cells, y, bold) => {
+    const font = bold ? "/F2" : "/F1";
+    let x = MARGIN;
+    let content = "";
+    cells.forEach((cell, index) => {
+      const room = widths[index] - PADDING * 2;
+      let text = cell;
+      if (textWidth(text, FONT_SIZE, bold) > room) {
+        while (text && textWidth(`${text}\x85`, FONT_SIZE, bold) > room) text = text.slice(0, -1);
+        text = `${text}\x85`;
+      }
+      const alignRight = columns[index].type !== "text";
+      const textX = alignRight ? x + widths[index] - PADDING - textWidth(text, FONT_SIZE, bold) : x + PADDING;
+      if (text) content += `BT ${font} ${FONT_SIZE} Tf ${textX.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET\n`;
+      x += widths[index];
+    });
+    return content;
+  };
+
+  const writePage = () => {
+    const pageNumber = pageIds.length + 1;
+    let content = `BT /F2 12 Tf ${MARGIN} ${PAGE_HEIGHT - MARGIN - 12} Td ${pdfString(toWinAnsi(title))} Tj ET\n`;
+    const pageLabel = `${pageNumber}`;
+    content += `BT /F1 ${FONT_SIZE} Tf ${PAGE_WIDTH - MARGIN - textWidth(pageLabel, FONT_SIZE)} ${PAGE_HEIGHT - MARGIN - 12} Td ${pdfString(pageLabel)} Tj ET\n`;
+
+    let y = TABLE_TOP;
+    content += rowContent(columns.map((column) => toWinAnsi(labels[column.key])), y, true);
+    content += `0.5 w ${MARGIN} ${y - 3} m ${PAGE_WIDTH - MARGIN} ${y - 3} l S\n`;
+    for (const row of pageRows) {
+      y -= ROW_HEIGHT;
+      if (row.total) content += `0.5 w ${MARGIN} ${y + ROW_HEIGHT - 3} m ${PAGE_WIDTH - MARGIN} ${y + ROW_HEIGHT - 3} l S\n`;
+      content += rowContent(row.cells, y, row.total);
+    }
+
+    const contentId = nextId++;
+    const pageId = nextId++;
+    writeStream(contentId, content);
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    pageIds.push(pageId);
+    pageRows = [];
+  };
+
+  const addRow = (row) => {
+    if (pageRows.length === ROWS_PER_PAGE) writePage();
+    pageRows.push(row);
+  };
+
+  return {
+    begin: async () => {
+      emit("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+      writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+      writeObject(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      writeObject(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    },
+    writeRows: async (rows) => {
+      for (const values of rows) addRow({ cells: values.map(cellText), total: false });
+    },
+    end: async (totals) => {
+      if (pageIds.length > 0 || pageRows.length > 0) {
+        addRow({ cells: totals.map((value, index) => (index === 0 ? toWinAnsi(labels.total) : cellText(value, index))), total: true });
+      }
+      writePage();
+      writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+
+      const xrefOffset = offset;
+      let xref = `xref\n0 ${nextId}\n0000000000 65535 f \n`;
+      for (let id = 1; id < nextId; id++) xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+      emit(`${xref}trailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    }
+  };
+};
+
+module.exports = {
+  crc32,
+  createZipStream,
+  createCsvExport,
+  createXlsxExport,
+  createPdfExport
+};
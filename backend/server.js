@@ -6,15 +6,25 @@ const { v4: uuidv4 } = require("uuid");
 const path = require("path");
 const fs = require("fs").promises;
 const mysql = require("mysql2/promise");
+const crypto = require("crypto");
+const { createCsvExport, createXlsxExport, createPdfExport } = require("./export-writers");
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Proxies whose X-Forwarded-For is believed, so req.ip is the client's
+// address rather than the proxy's (login throttling counts failures per IP).
+// A hop count, or addresses/subnets as Express takes them; by default only a
+// proxy on this machine, such as the Vite dev server.
+const TRUST_PROXY = process.env.TRUST_PROXY || "loopback";
+app.set("trust proxy", /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY);
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Product imports send the whole catalogue in one request
+app.use(express.json({ limit: "20mb" }));
 app.use("/uploads", express.static("uploads"));
 
 // MySQL setup
@@ -38,6 +48,34 @@ try {
   process.exit(1);
 }
 
+// Add a column to an existing table when upgrading an older database
+const ensureColumn = async (table, column, definition) => {
+  const [rows] = await pool.execute(`
+    SELECT COUNT(*) as count
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?
+  `, [table, column]);
+
+  if (rows[0].count === 0) {
+    await pool.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+const indexExists = async (table, index) => {
+  const [rows] = await pool.execute(`
+    SELECT COUNT(*) as count
+    FROM information_schema.STATISTICS
+    WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?
+  `, [table, index]);
+  return rows[0].count > 0;
+};
+
+const ensureIndex = async (table, index, definition) => {
+  if (!(await indexExists(table, index))) {
+    await pool.execute(`ALTER TABLE ${table} ADD ${definition}`);
+  }
+};
+
 // Initialize database tables
 const initializeDatabase = async () => {
   try {
@@ -59,10 +97,87 @@ const initializeDatabase = async () => {
       ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
     `);
 
+    // Create users table (staff accounts and roles)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        password_hash VARCHAR(255) NOT NULL,
+        role ENUM('admin', 'staff', 'viewer') DEFAULT 'staff',
+        name VARCHAR(255),
+        token_version INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_email (email),
+        INDEX idx_role (role)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+    await ensureColumn('users', 'token_version', 'INT NOT NULL DEFAULT 0 AFTER name');
+
+    // Create audit_log table (who changed what, with a field-level diff).
+    // No foreign keys: entries must outlive deleted users and records.
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id INT NULL,
+        action VARCHAR(50) NOT NULL,
+        changes JSON,
+        user_id INT NULL,
+        user_name VARCHAR(255),
+        ip_address VARCHAR(45),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_audit_entity (entity_type, entity_id),
+        INDEX idx_audit_user (user_id),
+        INDEX idx_audit_date (created_at)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create suppliers table (wholesalers we buy from)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS suppliers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL UNIQUE,
+        contact_name VARCHAR(255),
+        phone VARCHAR(50),
+        email VARCHAR(255),
+        address TEXT,
+        tax_id VARCHAR(50),
+        payment_terms VARCHAR(100),
+        lead_time_days INT NOT NULL DEFAULT 0,
+        notes TEXT,
+        is_active BOOLEAN DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_supplier_name (name)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create locations table (places stock is kept: the shop, depots, branches)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS locations (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL UNIQUE,
+        type ENUM('shop', 'depot', 'branch') NOT NULL DEFAULT 'shop',
+        address TEXT,
+        is_default BOOLEAN NOT NULL DEFAULT 0,
+        is_active BOOLEAN NOT NULL DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Stock kept before locations existed belongs to the shop
+    const [locationCount] = await pool.execute("SELECT COUNT(*) as count FROM locations");
+    if (locationCount[0].count === 0) {
+      await pool.execute("INSERT INTO locations (name, type, is_default) VALUES ('Magasin', 'shop', 1)");
+    }
+
     // Create products table
     await pool.execute(`
       CREATE TABLE IF NOT EXISTS products (
         id INT AUTO_INCREMENT PRIMARY KEY,
+        parent_id INT NULL,
         name VARCHAR(255) NOT NULL,
         name_ar VARCHAR(255),
         name_fr VARCHAR(255),
@@ -80,6 +195,7 @@ const initializeDatabase = async () => {
         sku VARCHAR(100),
         brand VARCHAR(100),
         supplier VARCHAR(255),
+        supplier_id INT,
         location VARCHAR(255),
         weight DECIMAL(8,2),
         dimensions VARCHAR(100),
@@ -88,16 +204,55 @@ const initializeDatabase = async () => {
         is_active BOOLEAN DEFAULT 1,
         is_featured BOOLEAN DEFAULT 0,
         tags TEXT,
+        variant_attributes JSON,
+        variant_options JSON,
+        version INT NOT NULL DEFAULT 1,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (parent_id) REFERENCES products(id) ON DELETE RESTRICT,
         FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers(id) ON DELETE SET NULL,
+        INDEX idx_product_parent (parent_id),
         INDEX idx_product_name (name),
         INDEX idx_product_category (category_id),
+        INDEX idx_product_supplier (supplier_id),
+        INDEX idx_product_barcode (barcode),
+        INDEX idx_product_sku (sku),
         INDEX idx_stock_level (remaining_stock, min_stock_level),
-        FULLTEXT KEY idx_search_fulltext (name, description)
+        FULLTEXT KEY idx_product_search (name, name_ar, name_fr, description, brand)
       ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
     `);
 
+    // Databases created before optimistic locking lack the version column
+    await ensureColumn('products', 'version', 'INT NOT NULL DEFAULT 1');
+    await ensureColumn('products', 'supplier_id', 'INT NULL AFTER supplier');
+    await ensureColumn('products', 'parent_id', 'INT NULL AFTER id');
+    await ensureColumn('products', 'variant_attributes', 'JSON NULL AFTER tags');
+    await ensureColumn('products', 'variant_options', 'JSON NULL AFTER variant_attributes');
+    await ensureIndex('products', 'idx_product_parent', 'INDEX idx_product_parent (parent_id)');
+
+    // Older databases index only name and description for full-text search
+    await ensureIndex('products', 'idx_product_barcode', 'INDEX idx_product_barcode (barcode)');
+    await ensureIndex('products', 'idx_product_sku', 'INDEX idx_product_sku (sku)');
+    await ensureIndex('products', 'idx_product_search', 'FULLTEXT KEY idx_product_search (name, name_ar, name_fr, description, brand)');
+    if (await indexExists('products', 'idx_search_fulltext')) {
+      await pool.execute('ALTER TABLE products DROP INDEX idx_search_fulltext');
+    }
+
+    // Turn the legacy free-text supplier column into supplier records
+    await pool.execute(`
+      INSERT IGNORE INTO suppliers (name)
+      SELECT DISTINCT TRIM(supplier)
+      FROM products
+      WHERE supplier_id IS NULL AND supplier IS NOT NULL AND TRIM(supplier) <> ''
+    `);
+    await pool.execute(`
+      UPDATE products p
+      JOIN suppliers s ON s.name = TRIM(p.supplier)
+      SET p.supplier_id = s.id
+      WHERE p.supplier_id IS NULL
+    `);
+
     // Create stock_movements table
     await pool.execute(`
       CREATE TABLE IF NOT EXISTS stock_movements (
@@ -108,14 +263,258 @@ const initializeDatabase = async () => {
         reason VARCHAR(255),
         reference_number VARCHAR(100),
         notes TEXT,
+        location_id INT,
         created_by VARCHAR(100) DEFAULT 'system',
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (location_id) REFERENCES locations(id) ON DELETE SET NULL,
         INDEX idx_product_movement (product_id),
         INDEX idx_movement_date (created_at)
       ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
     `);
 
+    // Movements recorded before locations existed have no location
+    await ensureColumn('stock_movements', 'location_id', 'INT NULL AFTER notes');
+
+    // Create product_stock table (quantity of each product at each location).
+    // products.remaining_stock stays the total over all locations.
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS product_stock (
+        product_id INT NOT NULL,
+        location_id INT NOT NULL,
+        quantity INT NOT NULL DEFAULT 0,
+        PRIMARY KEY (product_id, location_id),
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (location_id) REFERENCES locations(id) ON DELETE CASCADE,
+        INDEX idx_product_stock_location (location_id)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create price_history table (one row per purchase/selling price change)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS price_history (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        product_id INT NOT NULL,
+        purchase_price DECIMAL(10,2) NOT NULL,
+        selling_price DECIMAL(10,2) NOT NULL,
+        source VARCHAR(50) NOT NULL,
+        reference_number VARCHAR(100),
+        changed_by VARCHAR(100) DEFAULT 'system',
+        changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        INDEX idx_price_product_date (product_id, changed_at)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Start the history of products created before it existed from their current prices
+    await pool.execute(`
+      INSERT INTO price_history (product_id, purchase_price, selling_price, source, changed_at)
+      SELECT p.id, p.purchase_price, p.selling_price, 'initial', p.created_at
+      FROM products p
+      WHERE NOT EXISTS (SELECT 1 FROM price_history ph WHERE ph.product_id = p.id)
+    `);
+
+    // Create customers table (credit book accounts)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS customers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        phone VARCHAR(50),
+        email VARCHAR(255),
+        address TEXT,
+        credit_limit DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+        notes TEXT,
+        is_active BOOLEAN DEFAULT 1,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_customer_name (name),
+        INDEX idx_customer_phone (phone)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create sales table (one row per counter sale)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS sales (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        sale_number VARCHAR(50) UNIQUE,
+        customer_id INT,
+        payment_type ENUM('cash', 'card', 'credit') NOT NULL DEFAULT 'cash',
+        subtotal DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+        discount_total DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+        total DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+        notes TEXT,
+        created_by VARCHAR(100) DEFAULT 'system',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE RESTRICT,
+        INDEX idx_sale_date (created_at),
+        INDEX idx_sale_payment (payment_type)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Sales tables created before the credit book have no customer link
+    await ensureColumn('sales', 'customer_id', 'INT NULL AFTER sale_number');
+
+    // Create customer_payments table (payments received against a credit account)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS customer_payments (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        customer_id INT NOT NULL,
+        amount DECIMAL(12,2) NOT NULL,
+        method ENUM('cash', 'card', 'transfer', 'cheque') NOT NULL DEFAULT 'cash',
+        reference VARCHAR(100),
+        notes TEXT,
+        created_by VARCHAR(100) DEFAULT 'system',
+        paid_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE RESTRICT,
+        INDEX idx_payment_customer (customer_id),
+        INDEX idx_payment_date (paid_at)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create sale_items table (sale lines)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS sale_items (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        sale_id INT NOT NULL,
+        product_id INT,
+        product_name VARCHAR(255) NOT NULL,
+        quantity INT NOT NULL,
+        unit_price DECIMAL(10,2) NOT NULL,
+        discount DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+        line_total DECIMAL(12,2) NOT NULL,
+        FOREIGN KEY (sale_id) REFERENCES sales(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE SET NULL,
+        INDEX idx_sale_item_sale (sale_id),
+        INDEX idx_sale_item_product (product_id)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create purchase_orders table
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        po_number VARCHAR(50) UNIQUE,
+        supplier_id INT NOT NULL,
+        status ENUM('draft', 'sent', 'partially_received', 'received', 'cancelled') NOT NULL DEFAULT 'draft',
+        expected_date DATE,
+        notes TEXT,
+        total DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+        created_by VARCHAR(100) DEFAULT 'system',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (supplier_id) REFERENCES suppliers(id) ON DELETE RESTRICT,
+        INDEX idx_po_supplier (supplier_id),
+        INDEX idx_po_status (status)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create purchase_order_items table (ordered and received quantities per line)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS purchase_order_items (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        purchase_order_id INT NOT NULL,
+        product_id INT,
+        product_name VARCHAR(255) NOT NULL,
+        quantity_ordered INT NOT NULL,
+        quantity_received INT NOT NULL DEFAULT 0,
+        unit_cost DECIMAL(10,2) NOT NULL,
+        last_received_at TIMESTAMP NULL,
+        FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE SET NULL,
+        INDEX idx_po_item_order (purchase_order_id),
+        INDEX idx_po_item_product (product_id)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create stocktakes table (inventory count sessions over a category or shelf location)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS stocktakes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        reference VARCHAR(50) UNIQUE,
+        scope_type ENUM('all', 'category', 'location') NOT NULL DEFAULT 'all',
+        scope_value VARCHAR(255),
+        location_id INT,
+        status ENUM('open', 'approved', 'cancelled') NOT NULL DEFAULT 'open',
+        notes TEXT,
+        created_by VARCHAR(100) DEFAULT 'system',
+        approved_by VARCHAR(100),
+        approved_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (location_id) REFERENCES locations(id) ON DELETE RESTRICT,
+        INDEX idx_stocktake_status (status)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Stocktakes started before locations existed counted the shop
+    await ensureColumn('stocktakes', 'location_id', 'INT NULL AFTER scope_value');
+    await pool.execute(`
+      UPDATE stocktakes
+      SET location_id = (SELECT id FROM locations WHERE is_default = 1 LIMIT 1)
+      WHERE location_id IS NULL
+    `);
+
+    // Create stocktake_items table (expected quantity snapshot and counted quantity per product)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS stocktake_items (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        stocktake_id INT NOT NULL,
+        product_id INT,
+        product_name VARCHAR(255) NOT NULL,
+        expected_quantity INT NOT NULL,
+        counted_quantity INT NULL,
+        unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+        counted_by VARCHAR(100),
+        counted_at TIMESTAMP NULL,
+        FOREIGN KEY (stocktake_id) REFERENCES stocktakes(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE SET NULL,
+        UNIQUE KEY uniq_stocktake_product (stocktake_id, product_id),
+        INDEX idx_stocktake_item_product (product_id)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create stock_transfers table (goods moved from one location to another)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS stock_transfers (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        reference VARCHAR(50) UNIQUE,
+        from_location_id INT NOT NULL,
+        to_location_id INT NOT NULL,
+        notes TEXT,
+        created_by VARCHAR(100) DEFAULT 'system',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (from_location_id) REFERENCES locations(id) ON DELETE RESTRICT,
+        FOREIGN KEY (to_location_id) REFERENCES locations(id) ON DELETE RESTRICT,
+        INDEX idx_transfer_date (created_at)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Create stock_transfer_items table (transfer lines)
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS stock_transfer_items (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        transfer_id INT NOT NULL,
+        product_id INT,
+        product_name VARCHAR(255) NOT NULL,
+        quantity INT NOT NULL,
+        FOREIGN KEY (transfer_id) REFERENCES stock_transfers(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE SET NULL,
+        INDEX idx_transfer_item_transfer (transfer_id),
+        INDEX idx_transfer_item_product (product_id)
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Creations replayed from a client's offline outbox, keyed by the id the
+    // client gave them, so a replay whose response was lost is not applied twice
+    await pool.execute(`
+      CREATE TABLE IF NOT EXISTS client_mutations (
+        id VARCHAR(64) PRIMARY KEY,
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id INT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
     // Insert default categories if they don't exist
     const defaultCategories = [
       {
@@ -289,6 +688,27 @@ const initializeDatabase = async () => {
       console.log('Sample data inserted successfully');
     }
 
+    // Put stock counted before locations existed (and the sample data) at the default location
+    await pool.execute(`
+      INSERT INTO product_stock (product_id, location_id, quantity)
+      SELECT p.id, l.id, COALESCE(p.remaining_stock, 0)
+      FROM products p
+      JOIN locations l ON l.is_default = 1
+      WHERE NOT EXISTS (SELECT 1 FROM product_stock ps WHERE ps.product_id = p.id)
+    `);
+
+    // Create the first admin so the shop can log in
+    const [userCount] = await pool.execute("SELECT COUNT(*) as count FROM users");
+    if (userCount[0].count === 0) {
+      const email = (process.env.ADMIN_EMAIL || 'admin@droguerie.local').toLowerCase();
+      const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
+      await pool.execute(
+        "INSERT INTO users (email, password_hash, role, name) VALUES (?, ?, 'admin', 'Admin')",
+        [email, await hashPassword(password)]
+      );
+      console.log(`👤 Created admin user ${email}${process.env.ADMIN_PASSWORD ? '' : ` with password ${password}`} - change it after logging in`);
+    }
+
     console.log('Database initialized successfully');
   } catch (error) {
     console.error('Error initializing database:', error);
@@ -321,6 +741,348 @@ const dbQuery = {
   }
 };
 
+// Build an error carrying the HTTP status a route should answer with
+const httpError = (status, message) => {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+};
+
+// Run a callback inside a MySQL transaction on a dedicated connection
+const withTransaction = async (callback) => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await callback(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+// Balance owed by customer `c`: credit sales minus payments received
+const CUSTOMER_BALANCE_SQL = `(
+  (SELECT COALESCE(SUM(s.total), 0) FROM sales s WHERE s.customer_id = c.id AND s.payment_type = 'credit') -
+  (SELECT COALESCE(SUM(cp.amount), 0) FROM customer_payments cp WHERE cp.customer_id = c.id)
+)`;
+
+const MOVEMENT_TYPES = ['IN', 'OUT', 'ADJUSTMENT'];
+
+// The location a stock change applies to: the given one, which must be
+// active, or the default location when none is given
+const stockLocation = async (connection, locationId = null) => {
+  const [locations] = locationId
+    ? await connection.execute("SELECT id, name, is_active FROM locations WHERE id = ?", [locationId])
+    : await connection.execute("SELECT id, name, is_active FROM locations WHERE is_default = 1 LIMIT 1");
+  if (locations.length === 0) {
+    throw httpError(404, "Location not found");
+  }
+  if (!locations[0].is_active) {
+    throw httpError(409, `${locations[0].name} is inactive`);
+  }
+  return locations[0];
+};
+
+// True for a product row (aliased p) that is the parent of variants. Parents
+// hold no stock of their own: each variant is a product with its own stock.
+const HAS_VARIANTS_SQL = "EXISTS (SELECT 1 FROM products pv WHERE pv.parent_id = p.id)";
+
+// Record a stock movement and apply it to the product's stock at a location
+// (the default one unless locationId is given) and to remaining_stock, the
+// total over all locations.
+// Must be called inside withTransaction so all writes commit together.
+// IN/OUT take a positive quantity, ADJUSTMENT takes a signed delta; the
+// ledger stores the signed delta so the history sums to the current stock.
+const recordStockMovement = async (connection, {
+  productId,
+  locationId = null,
+  movementType,
+  quantity,
+  reason = null,
+  referenceNumber = null,
+  notes = null,
+  createdBy = 'system'
+}) => {
+  const type = String(movementType || '').toUpperCase();
+  const qty = Number(quantity);
+
+  if (!MOVEMENT_TYPES.includes(type)) {
+    throw httpError(400, "Invalid movement type");
+  }
+  if (!Number.isInteger(qty) || qty === 0 || (type !== 'ADJUSTMENT' && qty < 0)) {
+    throw httpError(400, "Invalid movement quantity");
+  }
+
+  const [products] = await connection.execute(
+    `SELECT id, remaining_stock, ${HAS_VARIANTS_SQL} as has_variants FROM products p WHERE id = ? FOR UPDATE`,
+    [productId]
+  );
+  if (products.length === 0) {
+    throw httpError(404, "Product not found");
+  }
+  if (products[0].has_variants) {
+    throw httpError(409, "This product has variants; record stock on a variant");
+  }
+
+  const location = await stockLocation(connection, locationId);
+  const [stock] = await connection.execute(
+    "SELECT quantity FROM product_stock WHERE product_id = ? AND location_id = ? FOR UPDATE",
+    [productId, location.id]
+  );
+
+  const delta = type === 'OUT' ? -qty : qty;
+  const newStock = (products[0].remaining_stock || 0) + delta;
+  const newLocationStock = (stock[0]?.quantity || 0) + delta;
+  if (newStock < 0 || newLocationStock < 0) {
+    throw httpError(409, locationId ? `Insufficient stock at ${location.name}` : "Insufficient stock");
+  }
+
+  const [result] = await connection.execute(`
+    INSERT INTO stock_movements (product_id, movement_type, quantity, reason, reference_number, notes, location_id, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `, [productId, type, delta, reason, referenceNumber, notes, location.id, createdBy]);
+
+  await connection.execute(`
+    INSERT INTO product_stock (product_id, location_id, quantity)
+    VALUES (?, ?, ?)
+    ON DUPLICATE KEY UPDATE quantity = VALUES(quantity)
+  `, [productId, location.id, newLocationStock]);
+
+  await connection.execute(
+    "UPDATE products SET remaining_stock = ? WHERE id = ?",
+    [newStock, productId]
+  );
+
+  return {
+    id: result.insertId,
+    location_id: location.id,
+    previous_stock: products[0].remaining_stock || 0,
+    remaining_stock: newStock,
+    location_stock: newLocationStock
+  };
+};
+
+// Append the product's current prices to price_history when they differ from
+// the last recorded ones. Pass the transaction connection when called inside
+// withTransaction.
+const recordPriceChange = async (productId, {
+  source,
+  referenceNumber = null,
+  changedBy = 'system'
+}, connection = null) => {
+  const run = async (query, params) => connection
+    ? (await connection.execute(query, params))[0]
+    : dbQuery.execute(query, params);
+
+  const [current] = await run(
+    "SELECT purchase_price, selling_price FROM products WHERE id = ?",
+    [productId]
+  );
+  if (!current) return;
+
+  const [last] = await run(
+    "SELECT purchase_price, selling_price FROM price_history WHERE product_id = ? ORDER BY changed_at DESC, id DESC LIMIT 1",
+    [productId]
+  );
+  if (last &&
+      Number(last.purchase_price) === Number(current.purchase_price) &&
+      Number(last.selling_price) === Number(current.selling_price)) {
+    return;
+  }
+
+  await run(`
+    INSERT INTO price_history (product_id, purchase_price, selling_price, source, reference_number, changed_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [productId, current.purchase_price, current.selling_price, source, referenceNumber, changedBy]);
+};
+
+// How receiving goods updates purchase_price: 'last' keeps the latest
+// supplier price, 'average' keeps a weighted average cost of the stock on hand
+const COSTING_METHOD = process.env.COSTING_METHOD === 'average' ? 'average' : 'last';
+
+const PURCHASE_ORDER_STATUSES = ['draft', 'sent', 'partially_received', 'received', 'cancelled'];
+
+// Status changes allowed through the status endpoint; receiving sets the rest
+const PURCHASE_ORDER_TRANSITIONS = {
+  draft: ['sent', 'cancelled'],
+  sent: ['cancelled'],
+  partially_received: ['cancelled'],
+  received: [],
+  cancelled: []
+};
+
+// Validate order lines and default their cost to the product's purchase price
+const buildPurchaseOrderLines = async (connection, items) => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw httpError(400, "A purchase order needs at least one item");
+  }
+
+  const lines = [];
+  for (const item of items) {
+    const productId = parseInt(item.product_id);
+    const quantity = Number(item.quantity);
+
+    if (isNaN(productId) || !Number.isInteger(quantity) || quantity <= 0) {
+      throw httpError(400, "Invalid purchase order item");
+    }
+
+    const [products] = await connection.execute(
+      "SELECT id, name, purchase_price FROM products WHERE id = ?",
+      [productId]
+    );
+    if (products.length === 0) {
+      throw httpError(404, `Product ${productId} not found`);
+    }
+
+    const unitCost = item.unit_cost === undefined || item.unit_cost === ''
+      ? Number(products[0].purchase_price)
+      : Number(item.unit_cost);
+    if (isNaN(unitCost) || unitCost < 0) {
+      throw httpError(400, `Invalid unit cost for ${products[0].name}`);
+    }
+
+    lines.push({ productId, productName: products[0].name, quantity, unitCost });
+  }
+  return lines;
+};
+
+// Replace the lines of a draft order and refresh its total
+const writePurchaseOrderLines = async (connection, orderId, lines) => {
+  await connection.execute("DELETE FROM purchase_order_items WHERE purchase_order_id = ?", [orderId]);
+
+  for (const line of lines) {
+    await connection.execute(`
+      INSERT INTO purchase_order_items (purchase_order_id, product_id, product_name, quantity_ordered, unit_cost)
+      VALUES (?, ?, ?, ?, ?)
+    `, [orderId, line.productId, line.productName, line.quantity, line.unitCost]);
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+  await connection.execute(
+    "UPDATE purchase_orders SET total = ? WHERE id = ?",
+    [Math.round(total * 100) / 100, orderId]
+  );
+};
+
+const STOCKTAKE_STATUSES = ['open', 'approved', 'cancelled'];
+const STOCKTAKE_SCOPES = ['all', 'category', 'location'];
+
+// Counted minus expected, in units and at the snapshot cost. Lines nobody
+// counted have no variance; approval leaves their stock alone.
+const STOCKTAKE_VARIANCE_SQL = `
+  COUNT(*) as item_count,
+  COALESCE(SUM(si.counted_quantity IS NOT NULL), 0) as counted_count,
+  COALESCE(SUM(si.counted_quantity - si.expected_quantity), 0) as variance_quantity,
+  COALESCE(SUM((si.counted_quantity - si.expected_quantity) * si.unit_cost), 0) as variance_value
+`;
+
+// Inventory export
+// Columns of the product export. Cost columns are left out for viewers;
+// `total` columns get a sum at the end of XLSX and PDF files.
+const EXPORT_COLUMNS = [
+  { key: "sku", type: "text", width: 12 },
+  { key: "barcode", type: "text", width: 15 },
+  { key: "name", type: "text", width: 30 },
+  { key: "category", type: "text", width: 20 },
+  { key: "unit", type: "text", width: 8 },
+  { key: "location", type: "text", width: 14 },
+  { key: "stock", type: "integer", width: 9 },
+  { key: "purchase_price", type: "money", width: 12, cost: true },
+  { key: "selling_price", type: "money", width: 12 },
+  { key: "stock_value", type: "money", width: 14, cost: true, total: true },
+  { key: "retail_value", type: "money", width: 14, total: true }
+];
+
+const EXPORT_LABELS = {
+  fr: {
+    title: "Inventaire",
+    total: "Total",
+    sku: "Référence",
+    barcode: "Code-barres",
+    name: "Produit",
+    category: "Catégorie",
+    unit: "Unité",
+    location: "Emplacement",
+    stock: "Stock",
+    purchase_price: "Prix d'achat",
+    selling_price: "Prix de vente",
+    stock_value: "Valeur d'achat",
+    retail_value: "Valeur de vente"
+  },
+  ar: {
+    title: "الجرد",
+    total: "المجموع",
+    sku: "المرجع",
+    barcode: "الرمز الشريطي",
+    name: "المنتج",
+    category: "الفئة",
+    unit: "الوحدة",
+    location: "الموقع",
+    stock: "المخزون",
+    purchase_price: "سعر الشراء",
+    selling_price: "سعر البيع",
+    stock_value: "قيمة الشراء",
+    retail_value: "قيمة البيع"
+  }
+};
+
+// Products read per query while exporting
+const EXPORT_BATCH_SIZE = 500;
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+// Export values of a product, keyed by column, with names in the export language.
+// A location filtered export counts and values the stock at that location.
+const exportValues = (product, lang) => {
+  const stock = Number(product.location_stock ?? product.remaining_stock) || 0;
+  const purchasePrice = Number(product.purchase_price) || 0;
+  const sellingPrice = Number(product.selling_price) || 0;
+  return {
+    sku: product.sku,
+    barcode: product.barcode,
+    name: product[`name_${lang}`] || product.name,
+    category: product[`category_name_${lang}`] || product.category_name,
+    unit: product.unit,
+    location: product.location,
+    stock,
+    purchase_price: purchasePrice,
+    selling_price: sellingPrice,
+    stock_value: roundMoney(stock * purchasePrice),
+    retail_value: roundMoney(stock * sellingPrice)
+  };
+};
+
+// Rows of a query in batches, so a large export is never held in memory at once
+async function* queryBatches(query, params) {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const rows = await dbQuery.execute(`${query} LIMIT ? OFFSET ?`, [...params, EXPORT_BATCH_SIZE, offset]);
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+  }
+}
+
+// Wait until the client has taken what was written so far
+const drained = (res) =>
+  res.writableNeedDrain && !res.destroyed
+    ? new Promise((resolve) => {
+        res.once("drain", resolve);
+        res.once("close", resolve);
+      })
+    : Promise.resolve();
+
+const EXPORT_FORMATS = {
+  csv: { contentType: "text/csv; charset=utf-8", create: createCsvExport },
+  xlsx: { contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", create: createXlsxExport },
+  pdf: { contentType: "application/pdf", create: createPdfExport }
+};
+
+// Where DELETE /api/upload may remove images from
+const UPLOADS_DIR = path.join(__dirname, "uploads");
+
 // Ensure uploads directory exists
 async function ensureUploadsDir() {
   try {
@@ -357,110 +1119,3339 @@ const upload = multer({
 
 // API Routes
 
-// Get all categories
-app.get("/api/categories", async (req, res) => {
-  try {
-    const rows = await dbQuery.execute(
-      "SELECT * FROM categories ORDER BY name"
-    );
-    res.json({ success: true, categories: rows });
-  } catch (error) {
-    res.status(500).json({ success: false, error: error.message });
-  }
+// Authentication
+// Passwords are stored as scrypt hashes; sessions are stateless HS256 JWTs
+// sent by the client in the Authorization header.
+const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(32).toString("hex");
+const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const ROLE_LEVELS = { viewer: 1, staff: 2, admin: 3 };
+
+if (!process.env.JWT_SECRET) {
+  console.warn("⚠️ JWT_SECRET is not set; sessions will not survive a server restart");
+}
+
+const hashPassword = (password) => new Promise((resolve, reject) => {
+  const salt = crypto.randomBytes(16).toString("hex");
+  crypto.scrypt(String(password), salt, 64, (error, key) => {
+    if (error) return reject(error);
+    resolve(`scrypt$${salt}$${key.toString("hex")}`);
+  });
 });
 
-// Get single product by ID
-app.get("/api/products/:id", async (req, res) => {
-  try {
-    const { id } = req.params;
-    const productId = parseInt(id);
+const verifyPassword = (password, stored) => new Promise((resolve, reject) => {
+  const [scheme, salt, hash] = String(stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return resolve(false);
+  crypto.scrypt(String(password), salt, 64, (error, key) => {
+    if (error) return reject(error);
+    const expected = Buffer.from(hash, "hex");
+    resolve(expected.length === key.length && crypto.timingSafeEqual(expected, key));
+  });
+});
 
-    if (isNaN(productId)) {
-      return res.status(400).json({ success: false, error: "Invalid product ID" });
-    }
+// Checked against when no user has the email, so an unknown email takes as
+// long to refuse as a wrong password and does not reveal which accounts exist
+const DUMMY_PASSWORD_HASH = `scrypt$${crypto.randomBytes(16).toString("hex")}$${"0".repeat(128)}`;
 
-    const rows = await dbQuery.execute(`
-      SELECT p.*, c.name as category_name
-      FROM products p
+// Tokens carry the user's token_version; bumping it (logout, password or
+// role change) revokes every token issued before
+const signToken = (user) => {
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { sub: user.id, ver: user.token_version || 0, iat: now, exp: now + TOKEN_TTL_SECONDS };
+  const body = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const signature = crypto.createHmac("sha256", JWT_SECRET).update(body).digest("base64url");
+  return `${body}.${signature}`;
+};
+
+// Return the token payload, or null when the signature or expiry is invalid
+const verifyToken = (token) => {
+  const [header, payload, signature] = String(token || "").split(".");
+  if (!header || !payload || !signature) return null;
+
+  const expected = crypto.createHmac("sha256", JWT_SECRET).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return claims.exp > Math.floor(Date.now() / 1000) ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+// Every API route needs a logged-in user except login, the health check and
+// the customer-facing /public/ routes opened from shelf-tag QR codes.
+// The user is reloaded on each request so role changes apply immediately,
+// and tokens from before the user's last token_version bump are refused.
+const PUBLIC_API_PATHS = ["/auth/login", "/health"];
+
+app.use("/api", async (req, res, next) => {
+  if (PUBLIC_API_PATHS.includes(req.path) || req.path.startsWith("/public/")) return next();
+
+  try {
+    const header = req.headers.authorization || "";
+    const claims = header.startsWith("Bearer ") ? verifyToken(header.slice(7)) : null;
+    const users = claims
+      ? await dbQuery.execute("SELECT id, email, name, role, token_version FROM users WHERE id = ?", [claims.sub])
+      : [];
+
+    if (users.length === 0 || (claims.ver || 0) !== (users[0].token_version || 0)) {
+      return res.status(401).json({ success: false, error: "Authentication required" });
+    }
+
+    const { token_version, ...user } = users[0];
+    req.user = user;
+    next();
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Reject users below the given role (viewer < staff < admin)
+const requireRole = (role) => (req, res, next) => {
+  if ((ROLE_LEVELS[req.user?.role] || 0) < ROLE_LEVELS[role]) {
+    return res.status(403).json({ success: false, error: "You do not have permission to do this" });
+  }
+  next();
+};
+
+// Name recorded in created_by columns
+const actorName = (req) => req.user.name || req.user.email;
+
+// Viewers must not see what the shop pays for its goods
+const COST_FIELDS = ["purchase_price", "last_purchase_price"];
+const hideCosts = (req, rows) => {
+  if (req.user.role !== "viewer") return rows;
+  return rows.map((row) => {
+    const visible = { ...row };
+    for (const field of COST_FIELDS) delete visible[field];
+    return visible;
+  });
+};
+
+// Audit trail
+// Bookkeeping columns, joined names and secrets never appear in a diff
+const AUDIT_IGNORED_FIELDS = [
+  "created_at", "updated_at", "version", "category_name", "supplier_name", "password_hash", "token_version"
+];
+
+// Field-level { field: { before, after } } of what differs between two snapshots;
+// a create has no `before` and a delete has no `after`
+const auditDiff = (before, after) => {
+  const changes = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (AUDIT_IGNORED_FIELDS.includes(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+
+  return changes;
+};
+
+// Current row of `table` as an audit snapshot, or null when it does not exist
+const auditSnapshot = async (table, id, connection = null) => {
+  const query = `SELECT * FROM ${table} WHERE id = ?`;
+  const rows = connection
+    ? (await connection.execute(query, [id]))[0]
+    : await dbQuery.execute(query, [id]);
+  return rows[0] || null;
+};
+
+// Write an audit_log entry for the request's user. Pass the transaction
+// connection for changes made inside withTransaction so the entry commits
+// or rolls back with them. Updates that changed nothing are not logged.
+const recordAudit = async (req, { entityType, entityId = null, action, before = null, after = null }, connection = null) => {
+  const changes = auditDiff(before, after);
+  if (action === "update" && Object.keys(changes).length === 0) return;
+
+  const query = `
+    INSERT INTO audit_log (entity_type, entity_id, action, changes, user_id, user_name, ip_address)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+  const params = [
+    entityType,
+    entityId,
+    action,
+    JSON.stringify(changes),
+    req.user?.id || null,
+    req.user ? actorName(req) : null,
+    req.ip || req.socket?.remoteAddress || null
+  ];
+
+  if (connection) {
+    await connection.execute(query, params);
+  } else {
+    await dbQuery.execute(query, params);
+  }
+};
+
+// Get audit entries, newest first
+// (filters: entity_type, entity_id, user_id, action, from/to as YYYY-MM-DD)
+app.get("/api/audit", requireRole("staff"), async (req, res) => {
+  try {
+    const { entity_type, entity_id, user_id, action, from, to, page = "1", limit = "50" } = req.query;
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 50));
+    const offset = (pageNum - 1) * limitNum;
+
+    if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+      return res.status(400).json({ success: false, error: "Dates must be YYYY-MM-DD" });
+    }
+
+    let where = " WHERE 1=1";
+    const params = [];
+
+    if (entity_type) {
+      where += " AND entity_type = ?";
+      params.push(entity_type);
+    }
+    if (entity_id) {
+      where += " AND entity_id = ?";
+      params.push(parseInt(entity_id));
+    }
+    if (user_id) {
+      where += " AND user_id = ?";
+      params.push(parseInt(user_id));
+    }
+    if (action) {
+      where += " AND action = ?";
+      params.push(action);
+    }
+    if (from) {
+      where += " AND created_at >= ?";
+      params.push(from);
+    }
+    if (to) {
+      where += " AND created_at < DATE_ADD(?, INTERVAL 1 DAY)";
+      params.push(to);
+    }
+
+    const [entries, countResult] = await Promise.all([
+      dbQuery.execute(
+        `SELECT * FROM audit_log${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+        [...params, limitNum, offset]
+      ),
+      dbQuery.execute(`SELECT COUNT(*) as total FROM audit_log${where}`, params)
+    ]);
+
+    const total = countResult[0].total;
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      success: true,
+      entries,
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Failed logins are counted in memory per email and per client IP. Past the
+// free attempts, each failure locks the key for twice as long as the last
+// one, up to LOGIN_MAX_DELAY_MS. Counts are forgotten an hour after the last
+// failure, and a successful login clears its email's count.
+const LOGIN_FREE_ATTEMPTS = { email: 5, ip: 20 };
+const LOGIN_BASE_DELAY_MS = 30 * 1000;
+const LOGIN_MAX_DELAY_MS = 15 * 60 * 1000;
+const LOGIN_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+const loginFailures = new Map();
+
+const loginKeys = (req, email) => [["email", `email:${email}`], ["ip", `ip:${req.ip}`]];
+
+// Milliseconds until any of the keys may try again, 0 when none is locked
+const loginDelay = (keys, now) => Math.max(0, ...keys.map(([, key]) => (loginFailures.get(key)?.lockedUntil || 0) - now));
+
+const recordLoginFailure = (keys, now) => {
+  for (const [kind, key] of keys) {
+    const previous = loginFailures.get(key);
+    const count = previous && now - previous.lastFailure < LOGIN_FAILURE_WINDOW_MS ? previous.count + 1 : 1;
+    const excess = count - LOGIN_FREE_ATTEMPTS[kind];
+    const lockedUntil = excess > 0 ? now + Math.min(LOGIN_MAX_DELAY_MS, LOGIN_BASE_DELAY_MS * 2 ** (excess - 1)) : 0;
+    loginFailures.set(key, { count, lastFailure: now, lockedUntil });
+  }
+
+  if (loginFailures.size > 10000) {
+    for (const [key, entry] of loginFailures) {
+      if (now - entry.lastFailure >= LOGIN_FAILURE_WINDOW_MS) loginFailures.delete(key);
+    }
+  }
+};
+
+// Log in with email and password
+app.post("/api/auth/login", async (req, res) => {
+  try {
+    const { email, password } = req.body;
+    const normalizedEmail = String(email || "").trim().toLowerCase();
+    const keys = loginKeys(req, normalizedEmail);
+
+    const delay = loginDelay(keys, Date.now());
+    if (delay > 0) {
+      const retryAfter = Math.ceil(delay / 1000);
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({ success: false, error: "Too many failed logins", retry_after: retryAfter });
+    }
+
+    const users = await dbQuery.execute("SELECT * FROM users WHERE email = ?", [normalizedEmail]);
+
+    const passwordMatches = await verifyPassword(password, users[0]?.password_hash ?? DUMMY_PASSWORD_HASH);
+    if (users.length === 0 || !passwordMatches) {
+      recordLoginFailure(keys, Date.now());
+      return res.status(401).json({ success: false, error: "Invalid email or password" });
+    }
+
+    loginFailures.delete(keys[0][1]);
+
+    const { id, name, role } = users[0];
+    res.json({
+      success: true,
+      token: signToken(users[0]),
+      user: { id, email: users[0].email, name, role }
+    });
+  } catch (error) {
+    console.error("Error logging in:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get the logged-in user
+app.get("/api/auth/me", (req, res) => {
+  res.json({ success: true, user: req.user });
+});
+
+// Log out: revoke every token of the user, on all devices
+app.post("/api/auth/logout", async (req, res) => {
+  try {
+    await dbQuery.execute("UPDATE users SET token_version = token_version + 1 WHERE id = ?", [req.user.id]);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Change the logged-in user's password
+app.post("/api/auth/password", async (req, res) => {
+  try {
+    const { current_password, new_password } = req.body;
+
+    if (!new_password || String(new_password).length < 8) {
+      return res.status(400).json({ success: false, error: "Password must be at least 8 characters" });
+    }
+
+    const users = await dbQuery.execute("SELECT password_hash FROM users WHERE id = ?", [req.user.id]);
+    if (!(await verifyPassword(current_password, users[0].password_hash))) {
+      return res.status(400).json({ success: false, error: "Current password is incorrect" });
+    }
+
+    // Other sessions end; this one carries on with the token sent back
+    await dbQuery.execute(
+      "UPDATE users SET password_hash = ?, token_version = token_version + 1 WHERE id = ?",
+      [await hashPassword(new_password), req.user.id]
+    );
+    await recordAudit(req, { entityType: "user", entityId: req.user.id, action: "password_change" });
+    const [user] = await dbQuery.execute("SELECT id, token_version FROM users WHERE id = ?", [req.user.id]);
+    res.json({ success: true, token: signToken(user) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get all users
+app.get("/api/users", requireRole("admin"), async (req, res) => {
+  try {
+    const users = await dbQuery.execute(
+      "SELECT id, email, name, role, created_at, updated_at FROM users ORDER BY name, email"
+    );
+    res.json({ success: true, users });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Add new user
+app.post("/api/users", requireRole("admin"), async (req, res) => {
+  try {
+    const { email, name, role = "staff", password } = req.body;
+
+    if (!email || !String(email).includes("@")) {
+      return res.status(400).json({ success: false, error: "A valid email is required" });
+    }
+    if (!ROLE_LEVELS[role]) {
+      return res.status(400).json({ success: false, error: "Invalid role" });
+    }
+    if (!password || String(password).length < 8) {
+      return res.status(400).json({ success: false, error: "Password must be at least 8 characters" });
+    }
+
+    const result = await dbQuery.execute(
+      "INSERT INTO users (email, password_hash, role, name) VALUES (?, ?, ?, ?)",
+      [String(email).trim().toLowerCase(), await hashPassword(password), role, name || null]
+    );
+    await recordAudit(req, {
+      entityType: "user",
+      entityId: result.insertId,
+      action: "create",
+      after: await auditSnapshot("users", result.insertId)
+    });
+    res.json({ success: true, id: result.insertId });
+  } catch (error) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return res.status(409).json({ success: false, error: "A user with this email already exists" });
+    }
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Update a user's name, role and optionally password
+app.put("/api/users/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    const { name, role, password } = req.body;
+
+    if (isNaN(userId)) {
+      return res.status(400).json({ success: false, error: "Invalid user ID" });
+    }
+    if (!ROLE_LEVELS[role]) {
+      return res.status(400).json({ success: false, error: "Invalid role" });
+    }
+    if (userId === req.user.id && role !== "admin") {
+      return res.status(409).json({ success: false, error: "You cannot remove your own admin role" });
+    }
+    if (password && String(password).length < 8) {
+      return res.status(400).json({ success: false, error: "Password must be at least 8 characters" });
+    }
+
+    const before = await auditSnapshot("users", userId);
+    if (!before) {
+      return res.status(404).json({ success: false, error: "User not found" });
+    }
+
+    // A password reset or role change logs the user out everywhere
+    const revoke = password || role !== before.role ? 1 : 0;
+    if (password) {
+      await dbQuery.execute(
+        "UPDATE users SET name = ?, role = ?, password_hash = ?, token_version = token_version + ? WHERE id = ?",
+        [name || null, role, await hashPassword(password), revoke, userId]
+      );
+    } else {
+      await dbQuery.execute(
+        "UPDATE users SET name = ?, role = ?, token_version = token_version + ? WHERE id = ?",
+        [name || null, role, revoke, userId]
+      );
+    }
+
+    await recordAudit(req, {
+      entityType: "user",
+      entityId: userId,
+      action: password ? "password_reset" : "update",
+      before,
+      after: await auditSnapshot("users", userId)
+    });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete user
+app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+
+    if (userId === req.user.id) {
+      return res.status(409).json({ success: false, error: "You cannot delete your own account" });
+    }
+
+    const before = await auditSnapshot("users", userId);
+    await dbQuery.execute("DELETE FROM users WHERE id = ?", [userId]);
+    if (before) {
+      await recordAudit(req, { entityType: "user", entityId: userId, action: "delete", before });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+
+// Get all categories with the number of products in each
+app.get("/api/categories", async (req, res) => {
+  try {
+    const rows = await dbQuery.execute(`
+      SELECT c.*, COUNT(p.id) as product_count
+      FROM categories c
+      LEFT JOIN products p ON p.category_id = c.id
+      GROUP BY c.id
+      ORDER BY c.name
+    `);
+    res.json({ success: true, categories: rows });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Fields shared by category create and update
+const categoryParams = (body) => [
+  String(body.name).trim(),
+  body.name_ar || null,
+  body.name_fr || null,
+  body.description || null,
+  body.description_ar || null,
+  body.description_fr || null,
+  body.icon || null,
+  /^#[0-9a-fA-F]{6}$/.test(String(body.color || "")) ? body.color : "#0f766e"
+];
+
+// Add new category
+app.post("/api/categories", requireRole("admin"), async (req, res) => {
+  try {
+    if (!req.body.name || !String(req.body.name).trim()) {
+      return res.status(400).json({ success: false, error: "Category name is required" });
+    }
+
+    const result = await dbQuery.execute(`
+      INSERT INTO categories (name, name_ar, name_fr, description, description_ar, description_fr, icon, color)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, categoryParams(req.body));
+
+    await recordAudit(req, {
+      entityType: "category",
+      entityId: result.insertId,
+      action: "create",
+      after: await auditSnapshot("categories", result.insertId)
+    });
+    res.json({ success: true, id: result.insertId });
+  } catch (error) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return res.status(409).json({ success: false, error: "A category with this name already exists" });
+    }
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Update category
+app.put("/api/categories/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const categoryId = parseInt(req.params.id);
+
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ success: false, error: "Invalid category ID" });
+    }
+    if (!req.body.name || !String(req.body.name).trim()) {
+      return res.status(400).json({ success: false, error: "Category name is required" });
+    }
+
+    const before = await auditSnapshot("categories", categoryId);
+    const result = await dbQuery.execute(`
+      UPDATE categories
+      SET name = ?, name_ar = ?, name_fr = ?, description = ?, description_ar = ?, description_fr = ?,
+          icon = ?, color = ?
+      WHERE id = ?
+    `, [...categoryParams(req.body), categoryId]);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ success: false, error: "Category not found" });
+    }
+
+    await recordAudit(req, {
+      entityType: "category",
+      entityId: categoryId,
+      action: "update",
+      before,
+      after: await auditSnapshot("categories", categoryId)
+    });
+    res.json({ success: true });
+  } catch (error) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return res.status(409).json({ success: false, error: "A category with this name already exists" });
+    }
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete category. Products still in it block the delete (409 with their
+// count) unless ?reassign_to= names the category to move them to first.
+app.delete("/api/categories/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const categoryId = parseInt(req.params.id);
+    const reassignTo = req.query.reassign_to ? parseInt(req.query.reassign_to) : null;
+
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ success: false, error: "Invalid category ID" });
+    }
+    if (reassignTo !== null && (isNaN(reassignTo) || reassignTo === categoryId)) {
+      return res.status(400).json({ success: false, error: "Invalid category to move products to" });
+    }
+
+    const reassigned = await withTransaction(async (connection) => {
+      const before = await auditSnapshot("categories", categoryId, connection);
+      if (!before) {
+        throw httpError(404, "Category not found");
+      }
+
+      const [counts] = await connection.execute(
+        "SELECT COUNT(*) as count FROM products WHERE category_id = ?",
+        [categoryId]
+      );
+      const productCount = counts[0].count;
+
+      if (productCount > 0) {
+        if (reassignTo === null) {
+          const error = httpError(409, `Category still has ${productCount} products; move them to another category first`);
+          error.productCount = productCount;
+          throw error;
+        }
+        if (!(await auditSnapshot("categories", reassignTo, connection))) {
+          throw httpError(404, "Category to move products to not found");
+        }
+
+        // Bump versions so open product edits do not put the old category back
+        await connection.execute(
+          "UPDATE products SET category_id = ?, version = version + 1 WHERE category_id = ?",
+          [reassignTo, categoryId]
+        );
+      }
+
+      await connection.execute("DELETE FROM categories WHERE id = ?", [categoryId]);
+
+      await recordAudit(req, {
+        entityType: "category",
+        entityId: categoryId,
+        action: "delete",
+        before,
+        after: productCount > 0 ? { reassigned_to: reassignTo, reassigned_products: productCount } : null
+      }, connection);
+
+      return productCount;
+    });
+
+    res.json({ success: true, reassigned_products: reassigned });
+  } catch (error) {
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message,
+      product_count: error.productCount
+    });
+  }
+});
+
+// Products to print shelf labels for: the given ids, or every product whose
+// selling price differs from what it was at the start of `priceChangedSince`
+// (products created since then included)
+app.get("/api/products/labels", async (req, res) => {
+  try {
+    const { ids, priceChangedSince } = req.query;
+    const columns = `
+      p.id, p.name, p.name_ar, p.name_fr, p.selling_price, p.unit, p.barcode, p.sku, p.brand
+    `;
+    let rows;
+
+    if (ids) {
+      const productIds = String(ids).split(",").map((id) => parseInt(id)).filter((id) => !isNaN(id));
+      if (productIds.length === 0) {
+        return res.status(400).json({ success: false, error: "Invalid product IDs" });
+      }
+      rows = await dbQuery.execute(`
+        SELECT ${columns} FROM products p
+        WHERE p.id IN (${productIds.map(() => "?").join(", ")})
+        ORDER BY p.name
+      `, productIds);
+    } else if (priceChangedSince) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(String(priceChangedSince))) {
+        return res.status(400).json({ success: false, error: "priceChangedSince must be a YYYY-MM-DD date" });
+      }
+      rows = await dbQuery.execute(`
+        SELECT ${columns} FROM products p
+        WHERE p.is_active = 1
+          AND EXISTS (SELECT 1 FROM price_history ph WHERE ph.product_id = p.id AND ph.changed_at >= ?)
+          AND NOT p.selling_price <=> (
+            SELECT ph.selling_price FROM price_history ph
+            WHERE ph.product_id = p.id AND ph.changed_at < ?
+            ORDER BY ph.changed_at DESC, ph.id DESC LIMIT 1
+          )
+        ORDER BY p.name
+      `, [priceChangedSince, priceChangedSince]);
+    } else {
+      return res.status(400).json({ success: false, error: "Pass ids or priceChangedSince" });
+    }
+
+    res.json({ success: true, products: rows });
+  } catch (error) {
+    console.error("Error fetching label products:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Download the products matching the same search, category, location and sort as
+// GET /api/products (paging aside) as CSV, XLSX or PDF, with the stock valued
+// at purchase and selling price. Rows are read and sent in batches so the
+// whole catalogue is never held in memory.
+app.get("/api/products/export", async (req, res) => {
+  try {
+    const { format, lang } = req.query;
+    const exportFormat = EXPORT_FORMATS[format];
+    if (!exportFormat) throw httpError(400, "format must be csv, xlsx or pdf");
+    // The built-in PDF fonts have no Arabic glyphs
+    if (format === "pdf" && lang === "ar") {
+      throw httpError(400, "PDF exports are only available in French; use CSV or XLSX for Arabic");
+    }
+    const language = lang === "ar" ? "ar" : "fr";
+    const labels = EXPORT_LABELS[language];
+    const columns = EXPORT_COLUMNS.filter((column) => !column.cost || req.user.role !== "viewer");
+
+    const {
+      where, params, rankingColumns, rankingParams, stockColumns, joins, joinParams, orderBy
+    } = productListFilters(req.query);
+    const query = `
+      SELECT p.*, c.name as category_name, c.name_fr as category_name_fr, c.name_ar as category_name_ar${stockColumns}${rankingColumns}
+      FROM products p
+      ${joins}
+      LEFT JOIN categories c ON p.category_id = c.id
+      ${where}
+      ORDER BY ${orderBy}
+    `;
+    const batches = queryBatches(query, [...rankingParams, ...joinParams, ...params]);
+    // Read the first batch before answering so a failing query still gets a JSON error
+    let batch = await batches.next();
+
+    res.setHeader("Content-Type", exportFormat.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="inventory-${new Date().toISOString().slice(0, 10)}.${format}"`
+    );
+
+    const writer = exportFormat.create((chunk) => res.write(chunk), { columns, labels, lang: language });
+    const totals = columns.map((column) => (column.total ? 0 : null));
+    await writer.begin();
+
+    for (; !batch.done; batch = await batches.next()) {
+      if (res.destroyed) return;
+      const rows = batch.value.map((product) => {
+        const values = exportValues(product, language);
+        return columns.map((column, index) => {
+          if (column.total) totals[index] += values[column.key];
+          return values[column.key];
+        });
+      });
+      await writer.writeRows(rows);
+      await drained(res);
+    }
+
+    await writer.end(totals.map((total) => (total === null ? null : roundMoney(total))));
+    res.end();
+  } catch (error) {
+    console.error("Error exporting products:", error);
+    // Once the file has started there is no way to report an error but cutting it short
+    if (res.headersSent) return res.destroy(error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Get single product by ID
+app.get("/api/products/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const productId = parseInt(id);
+
+    if (isNaN(productId)) {
+      return res.status(400).json({ success: false, error: "Invalid product ID" });
+    }
+
+    const rows = await dbQuery.execute(`
+      SELECT p.*, c.name as category_name, s.name as supplier_name,
+             (SELECT COUNT(*) FROM products pv WHERE pv.parent_id = p.id) as variant_count
+      FROM products p
+      LEFT JOIN categories c ON p.category_id = c.id
+      LEFT JOIN suppliers s ON p.supplier_id = s.id
+      WHERE p.id = ?
+    `, [productId]);
+
+    if (rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Product not found" });
+    }
+
+    await withStockLocations(rows);
+    const product = hideCosts(req, rows)[0];
+
+    // A parent comes with its variants; a variant with its parent and siblings,
+    // so the product page can switch between them
+    if (product.variant_count > 0) {
+      await withVariants([product]);
+      product.variants = hideCosts(req, product.variants);
+    } else if (product.parent_id) {
+      const parents = await dbQuery.execute(
+        "SELECT id, name, variant_attributes, 1 as variant_count FROM products WHERE id = ?",
+        [product.parent_id]
+      );
+      await withVariants(parents);
+      if (parents.length > 0) {
+        const { variants, ...parent } = parents[0];
+        product.parent = parent;
+        product.variants = hideCosts(req, variants);
+      }
+    }
+
+    res.json({ success: true, product });
+  } catch (error) {
+    console.error("Error fetching product:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Customer view of a product, opened by scanning its QR code: price and
+// availability only, never costs, suppliers or exact stock counts
+app.get("/api/public/products/:id", async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+
+    if (isNaN(productId)) {
+      return res.status(400).json({ success: false, error: "Invalid product ID" });
+    }
+
+    const rows = await dbQuery.execute(`
+      SELECT p.id, p.name, p.name_ar, p.name_fr, p.description, p.description_ar, p.description_fr,
+             p.selling_price, p.unit, p.brand, p.image_url, p.warranty_months,
+             p.remaining_stock, p.min_stock_level,
+             c.name as category_name, c.name_ar as category_name_ar, c.name_fr as category_name_fr
+      FROM products p
+      LEFT JOIN categories c ON p.category_id = c.id
+      WHERE p.id = ? AND p.is_active = 1
+    `, [productId]);
+
+    if (rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Product not found" });
+    }
+
+    const {
+      remaining_stock, min_stock_level, category_name, category_name_ar, category_name_fr, ...product
+    } = rows[0];
+    const availability = remaining_stock <= 0
+      ? "out_of_stock"
+      : remaining_stock <= min_stock_level ? "low_stock" : "in_stock";
+    const category = category_name
+      ? { name: category_name, name_ar: category_name_ar, name_fr: category_name_fr }
+      : null;
+
+    res.json({ success: true, product: { ...product, category, availability } });
+  } catch (error) {
+    console.error("Error fetching public product:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get stock movement history for a product, newest first
+app.get("/api/products/:id/movements", async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+
+    if (isNaN(productId)) {
+      return res.status(400).json({ success: false, error: "Invalid product ID" });
+    }
+
+    const { page = "1", limit = "20" } = req.query;
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const offset = (pageNum - 1) * limitNum;
+
+    const [movements, countResult] = await Promise.all([
+      dbQuery.execute(`
+        SELECT sm.*, l.name as location_name
+        FROM stock_movements sm
+        LEFT JOIN locations l ON sm.location_id = l.id
+        WHERE sm.product_id = ?
+        ORDER BY sm.created_at DESC, sm.id DESC
+        LIMIT ? OFFSET ?
+      `, [productId, limitNum, offset]),
+      dbQuery.execute(
+        "SELECT COUNT(*) as total FROM stock_movements WHERE product_id = ?",
+        [productId]
+      )
+    ]);
+
+    const total = countResult[0].total;
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      success: true,
+      movements,
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching stock movements:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Record a stock movement and update remaining_stock in one transaction
+app.post("/api/products/:id/movements", requireRole("staff"), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+
+    if (isNaN(productId)) {
+      return res.status(400).json({ success: false, error: "Invalid product ID" });
+    }
+
+    const { movement_type, quantity, reason, reference_number, notes, location_id } = req.body;
+
+    const result = await withTransaction(async (connection) => {
+      const movement = await recordStockMovement(connection, {
+        productId,
+        locationId: parseInt(location_id) || null,
+        movementType: movement_type,
+        quantity,
+        reason: reason || null,
+        referenceNumber: reference_number || null,
+        notes: notes || null,
+        createdBy: actorName(req)
+      });
+
+      await recordAudit(req, {
+        entityType: "product",
+        entityId: productId,
+        action: "stock_movement",
+        before: { remaining_stock: movement.previous_stock },
+        after: { remaining_stock: movement.remaining_stock, reason: reason || null }
+      }, connection);
+
+      return movement;
+    });
+
+    res.json({
+      success: true,
+      id: result.id,
+      remaining_stock: result.remaining_stock,
+      location_id: result.location_id,
+      location_stock: result.location_stock
+    });
+  } catch (error) {
+    console.error("Error recording stock movement:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Price history of a product, oldest first, with the margin at each point
+app.get("/api/products/:id/price-history", requireRole("staff"), async (req, res) => {
+  try {
+    const productId = parseInt(req.params.id);
+
+    if (isNaN(productId)) {
+      return res.status(400).json({ success: false, error: "Invalid product ID" });
+    }
+
+    const rows = await dbQuery.execute(`
+      SELECT * FROM price_history
+      WHERE product_id = ?
+      ORDER BY changed_at ASC, id ASC
+    `, [productId]);
+
+    const history = rows.map((row) => {
+      const purchasePrice = Number(row.purchase_price);
+      const sellingPrice = Number(row.selling_price);
+      return {
+        ...row,
+        purchase_price: purchasePrice,
+        selling_price: sellingPrice,
+        margin: Math.round((sellingPrice - purchasePrice) * 100) / 100,
+        margin_percent: purchasePrice > 0
+          ? Math.round(((sellingPrice - purchasePrice) / purchasePrice) * 1000) / 10
+          : null
+      };
+    });
+
+    res.json({ success: true, history });
+  } catch (error) {
+    console.error("Error fetching price history:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Columns covered by the idx_product_search full-text index
+const FULLTEXT_SEARCH_COLUMNS = "p.name, p.name_ar, p.name_fr, p.description, p.brand";
+
+// Text columns a product search looks in, across every UI language.
+// LIKE on these catches what the full-text index skips (short words, stopwords).
+const LOCALIZED_SEARCH_COLUMNS = ["name", "name_ar", "name_fr", "description", "description_ar", "description_fr", "brand"];
+
+// Fields checked for a highlight, in the order a match is reported
+const HIGHLIGHT_FIELDS = ["barcode", "sku", "name", "name_fr", "name_ar", "brand", "description", "description_fr", "description_ar"];
+
+// Split a search into words, without the characters boolean full-text mode treats as operators
+const searchWords = (search) =>
+  String(search).replace(/[+\-<>()~*"@]/g, " ").split(/\s+/).filter(Boolean);
+
+// Every word must appear, each as a prefix so partially typed words still match
+const fullTextQuery = (words) => words.map((word) => `+${word}*`).join(" ");
+
+// First field containing a search word, split into matched and unmatched segments.
+// Long descriptions are cut down to the text around the first match.
+const searchHighlight = (product, search, words) => {
+  for (const field of ["barcode", "sku"]) {
+    if (product[field] && product[field] === search) {
+      return { field, segments: [{ text: product[field], match: true }] };
+    }
+  }
+  if (words.length === 0) return null;
+
+  const pattern = new RegExp(`(${words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi");
+
+  for (const field of HIGHLIGHT_FIELDS) {
+    let value = product[field] == null ? "" : String(product[field]);
+    const start = value.search(pattern);
+    if (!value || start < 0) continue;
+
+    if (field.startsWith("description") && value.length > 120) {
+      const from = Math.max(0, start - 40);
+      value = `${from > 0 ? "…" : ""}${value.slice(from, from + 120)}${from + 120 < value.length ? "…" : ""}`;
+    }
+
+    const segments = value
+      .split(pattern)
+      .filter(Boolean)
+      .map((text) => ({ text, match: words.some((word) => word.toLowerCase() === text.toLowerCase()) }));
+    return { field, segments };
+  }
+  return null;
+};
+
+// Search, category filter and sort of a product list, shared by the list and
+// its export. A search also ranks each row: exact barcode or SKU hits first,
+// then full-text relevance. With location_id only products kept at that
+// location are listed, each with its stock there as location_stock, which
+// the stock sort then uses.
+// With variants=nested only parent and standalone products are listed, and a
+// parent matches the search or location when one of its variants does.
+const productListFilters = ({
+  search = "", category = "all", location_id, variants = "flat", sortBy = "created_at", sortOrder = "DESC"
+}) => {
+  const words = searchWords(search);
+  const matchQuery = fullTextQuery(words);
+  const nested = variants === "nested";
+
+  let where = "WHERE 1=1";
+  const params = [];
+  let rankingColumns = "";
+  const rankingParams = [];
+  let stockColumns = "";
+  let joins = "";
+  const joinParams = [];
+
+  if (nested) {
+    where += " AND p.parent_id IS NULL";
+  }
+
+  // Add search filters
+  if (search) {
+    // Exact codes, the full-text index, or a substring of any localized column
+    const searchConditions = (alias) => {
+      const conditions = [`${alias}.barcode = ?`, `${alias}.sku = ?`];
+      params.push(search, search);
+      if (words.length > 0) {
+        conditions.push(`MATCH(${FULLTEXT_SEARCH_COLUMNS.replace(/p\./g, `${alias}.`)}) AGAINST (? IN BOOLEAN MODE)`);
+        params.push(matchQuery);
+      }
+      for (const column of LOCALIZED_SEARCH_COLUMNS) {
+        conditions.push(`${alias}.${column} LIKE ?`);
+        params.push(`%${search}%`);
+      }
+      return conditions.join(" OR ");
+    };
+
+    rankingColumns = `,
+        (p.barcode = ? OR p.sku = ?${nested ? " OR EXISTS (SELECT 1 FROM products pv WHERE pv.parent_id = p.id AND (pv.barcode = ? OR pv.sku = ?))" : ""}) as exact_match,
+        ${words.length > 0 ? `MATCH(${FULLTEXT_SEARCH_COLUMNS}) AGAINST (? IN BOOLEAN MODE)` : "0"} as relevance`;
+    rankingParams.push(search, search);
+    if (nested) rankingParams.push(search, search);
+    if (words.length > 0) rankingParams.push(matchQuery);
+
+    const own = searchConditions("p");
+    where += nested
+      ? ` AND (${own} OR EXISTS (SELECT 1 FROM products pv WHERE pv.parent_id = p.id AND (${searchConditions("pv")})))`
+      : ` AND (${own})`;
+  }
+
+  // Add category filter
+  if (category !== "all") {
+    where += " AND p.category_id = ?";
+    params.push(category);
+  }
+
+  // Add location filter
+  const locationId = parseInt(location_id);
+  if (!isNaN(locationId)) {
+    stockColumns = ", COALESCE(ls.quantity, 0) as location_stock";
+    if (nested) {
+      // Parents have no stock rows of their own
+      joins = "LEFT JOIN product_stock ls ON ls.product_id = p.id AND ls.location_id = ?";
+      where += ` AND (ls.product_id IS NOT NULL OR EXISTS (
+        SELECT 1 FROM products pv JOIN product_stock vs ON vs.product_id = pv.id
+        WHERE pv.parent_id = p.id AND vs.location_id = ?
+      ))`;
+      params.push(locationId);
+    } else {
+      joins = "JOIN product_stock ls ON ls.product_id = p.id AND ls.location_id = ?";
+    }
+    joinParams.push(locationId);
+  }
+
+  // sortBy=relevance keeps the search ranking; exact code hits always come first
+  const validSortColumns = ['name', 'created_at', 'updated_at', 'remaining_stock', 'selling_price'];
+  const sortColumn = validSortColumns.includes(sortBy) ? sortBy : 'created_at';
+  const sortExpression = sortColumn === 'remaining_stock' && joins ? 'COALESCE(ls.quantity, 0)' : `p.${sortColumn}`;
+  const order = String(sortOrder).toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+  const ranking = search ? `exact_match DESC, ${sortBy === 'relevance' ? 'relevance DESC, ' : ''}` : '';
+
+  return {
+    words,
+    where,
+    params,
+    rankingColumns,
+    rankingParams,
+    stockColumns,
+    joins,
+    joinParams,
+    locationId: isNaN(locationId) ? null : locationId,
+    nested,
+    // Ties go by id in the same direction, so pages don't overlap and the
+    // offline store (which walks its indexes the same way) orders them alike
+    orderBy: `${ranking}${sortExpression} ${order}, p.id ${order}`
+  };
+};
+
+// Attach each parent's variants, oldest first, with their stock per location
+// and, when the list is filtered by location, their stock there
+const withVariants = async (products, locationId = null) => {
+  const parents = products.filter((product) => product.variant_count > 0);
+  if (parents.length === 0) return products;
+  const variants = await dbQuery.execute(`
+    SELECT p.*, COALESCE(ls.quantity, 0) as location_stock, 0 as variant_count
+    FROM products p
+    LEFT JOIN product_stock ls ON ls.product_id = p.id AND ls.location_id = ?
+    WHERE p.parent_id IN (${parents.map(() => "?").join(", ")})
+    ORDER BY p.id
+  `, [locationId, ...parents.map((product) => product.id)]);
+  await withStockLocations(variants);
+  for (const variant of variants) {
+    if (locationId === null) delete variant.location_stock;
+  }
+  for (const parent of parents) {
+    parent.variants = variants.filter((variant) => variant.parent_id === parent.id);
+  }
+  return products;
+};
+
+// Attach each product's stock per location as stock_locations
+const withStockLocations = async (products) => {
+  if (products.length === 0) return products;
+  const rows = await dbQuery.execute(
+    `SELECT product_id, location_id, quantity FROM product_stock WHERE product_id IN (${products.map(() => "?").join(", ")})`,
+    products.map((product) => product.id)
+  );
+  for (const product of products) {
+    product.stock_locations = rows
+      .filter((row) => row.product_id === product.id)
+      .map(({ location_id, quantity }) => ({ location_id, quantity }));
+  }
+  return products;
+};
+
+// Get all products with optional filtering and pagination
+app.get("/api/products", async (req, res) => {
+  try {
+    const {
+      search = "",
+      page = "1",
+      limit = "50"
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit))); // Max 100 items per page
+    const offset = (pageNum - 1) * limitNum;
+
+    const {
+      words, where, params, rankingColumns, rankingParams, stockColumns, joins, joinParams, locationId, nested, orderBy
+    } = productListFilters(req.query);
+
+    const baseQuery = `
+      SELECT p.*, c.name as category_name, s.name as supplier_name,
+             (SELECT COUNT(*) FROM products pv WHERE pv.parent_id = p.id) as variant_count${stockColumns}${rankingColumns}
+      FROM products p
+      ${joins}
+      LEFT JOIN categories c ON p.category_id = c.id
+      LEFT JOIN suppliers s ON p.supplier_id = s.id
+      ${where}
+      ORDER BY ${orderBy} LIMIT ? OFFSET ?
+    `;
+
+    // Build count query for pagination
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM products p
+      ${joins}
+      ${where}
+    `;
+
+    // Execute both queries
+    const [products, countResult] = await Promise.all([
+      dbQuery.execute(baseQuery, [...rankingParams, ...joinParams, ...params, limitNum, offset]),
+      dbQuery.execute(countQuery, [...joinParams, ...params])
+    ]);
+    await withStockLocations(products);
+    if (nested) await withVariants(products, locationId);
+
+    const total = countResult[0].total;
+    const totalPages = Math.ceil(total / limitNum);
+
+    if (search) {
+      for (const product of products) {
+        product.exact_match = !!product.exact_match;
+        product.relevance = Number(product.relevance) || 0;
+        product.highlight = searchHighlight(product, search, words);
+      }
+    }
+
+    res.json({
+      success: true,
+      products: hideCosts(req, products).map((product) =>
+        product.variants ? { ...product, variants: hideCosts(req, product.variants) } : product
+      ),
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching products:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Units a product can be sold in
+const PRODUCT_UNITS = ["piece", "box", "pack", "set", "pair", "kg", "g", "liter", "ml", "meter", "m2", "roll", "tube", "bucket", "bag"];
+
+// Columns written by product create and update, in productParams order
+const PRODUCT_COLUMNS = [
+  "name", "name_ar", "name_fr", "description", "description_ar", "description_fr",
+  "category_id", "supplier_id", "purchase_price", "selling_price", "min_stock_level",
+  "max_stock_level", "unit", "barcode", "sku", "brand", "location", "weight",
+  "dimensions", "image_url", "warranty_months", "is_active", "is_featured", "tags"
+];
+
+// Validate a product body and return its values for PRODUCT_COLUMNS.
+// Throws a 400 naming the first invalid field.
+const productParams = (body) => {
+  const text = (field, max) => {
+    const value = body[field] == null ? "" : String(body[field]).trim();
+    if (value.length > max) throw httpError(400, `${field} must be at most ${max} characters`);
+    return value || null;
+  };
+  const number = (field, { integer = false, fallback = null } = {}) => {
+    if (body[field] === undefined || body[field] === null || body[field] === "") return fallback;
+    const value = Number(body[field]);
+    if (!Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+      throw httpError(400, `${field} must be a non-negative ${integer ? "whole number" : "number"}`);
+    }
+    return value;
+  };
+  const flag = (field, fallback) => {
+    if (body[field] === undefined || body[field] === null) return fallback;
+    return [true, 1, "1", "true"].includes(body[field]) ? 1 : 0;
+  };
+
+  const name = text("name", 255);
+  if (!name) throw httpError(400, "Product name is required");
+
+  const purchasePrice = number("purchase_price");
+  const sellingPrice = number("selling_price");
+  if (purchasePrice === null || sellingPrice === null) throw httpError(400, "Purchase and selling prices are required");
+
+  const minStock = number("min_stock_level", { integer: true, fallback: 10 });
+  const maxStock = number("max_stock_level", { integer: true, fallback: 1000 });
+  if (maxStock < minStock) throw httpError(400, "max_stock_level must not be below min_stock_level");
+
+  const unit = text("unit", 50) || "piece";
+  if (!PRODUCT_UNITS.includes(unit)) throw httpError(400, `Unknown unit "${unit}"`);
+
+  const barcode = text("barcode", 100);
+  const sku = text("sku", 100);
+  if ((barcode && /\s/.test(barcode)) || (sku && /\s/.test(sku))) throw httpError(400, "Barcode and SKU cannot contain spaces");
+
+  // Tags arrive as an array or a comma-separated string and are stored comma-separated
+  const tagList = Array.isArray(body.tags) ? body.tags : String(body.tags || "").split(",");
+  const tags = [...new Set(tagList.map((tag) => String(tag).trim()).filter(Boolean))].join(",");
+  if (tags.length > 1000) throw httpError(400, "tags must be at most 1000 characters");
+
+  return [
+    name,
+    text("name_ar", 255),
+    text("name_fr", 255),
+    text("description", 5000),
+    text("description_ar", 5000),
+    text("description_fr", 5000),
+    parseInt(body.category_id) || null,
+    parseInt(body.supplier_id) || null,
+    purchasePrice,
+    sellingPrice,
+    minStock,
+    maxStock,
+    unit,
+    barcode,
+    sku,
+    text("brand", 100),
+    text("location", 255),
+    number("weight"),
+    text("dimensions", 100),
+    text("image_url", 500),
+    number("warranty_months", { integer: true, fallback: 0 }),
+    flag("is_active", 1),
+    flag("is_featured", 0),
+    tags || null
+  ];
+};
+
+// Reject a barcode or SKU already used by another product
+const assertUniqueCodes = async (params, productId = 0, connection = null) => {
+  const barcode = params[PRODUCT_COLUMNS.indexOf("barcode")];
+  const sku = params[PRODUCT_COLUMNS.indexOf("sku")];
+  if (!barcode && !sku) return;
+
+  const query = "SELECT name, barcode, sku FROM products WHERE id <> ? AND ((barcode IS NOT NULL AND barcode = ?) OR (sku IS NOT NULL AND sku = ?)) LIMIT 1";
+  const rows = connection
+    ? (await connection.execute(query, [productId, barcode, sku]))[0]
+    : await dbQuery.execute(query, [productId, barcode, sku]);
+  if (rows.length > 0) {
+    const field = barcode && rows[0].barcode === barcode ? "Barcode" : "SKU";
+    throw httpError(409, `${field} already used by "${rows[0].name}"`);
+  }
+};
+
+// Most attributes (size, color, finish...) a product's variants can differ by
+const MAX_VARIANT_ATTRIBUTES = 5;
+
+// Validate the variant fields of a product body and return the columns to
+// write. A top-level product may list variant_attributes; a variant names its
+// parent_id (on create only) and gives one value per parent attribute in
+// variant_options. Fields absent from an update body are left unchanged.
+// Pass the transaction connection when called inside withTransaction.
+const variantFields = async (body, product = null, connection = null) => {
+  const run = async (query, params) => connection
+    ? (await connection.execute(query, params))[0]
+    : dbQuery.execute(query, params);
+  const fields = {};
+  const parentId = product ? product.parent_id : parseInt(body.parent_id) || null;
+
+  if (body.variant_attributes !== undefined) {
+    const list = Array.isArray(body.variant_attributes)
+      ? body.variant_attributes
+      : String(body.variant_attributes || "").split(",");
+    const attributes = [...new Set(list.map((attribute) => String(attribute).trim()).filter(Boolean))];
+    if (attributes.length > 0 && parentId) throw httpError(400, "A variant cannot have variant attributes");
+    if (attributes.length > MAX_VARIANT_ATTRIBUTES) {
+      throw httpError(400, `A product can have at most ${MAX_VARIANT_ATTRIBUTES} variant attributes`);
+    }
+    if (attributes.some((attribute) => attribute.length > 50)) {
+      throw httpError(400, "Variant attributes must be at most 50 characters");
+    }
+    if (product?.variant_count > 0 && JSON.stringify(attributes) !== JSON.stringify(product.variant_attributes || [])) {
+      throw httpError(409, "Variant attributes cannot change once the product has variants");
+    }
+    fields.variant_attributes = attributes.length > 0 ? JSON.stringify(attributes) : null;
+  }
+
+  if (parentId && (!product || body.variant_options !== undefined)) {
+    const parents = await run(
+      "SELECT id, parent_id, variant_attributes, remaining_stock FROM products WHERE id = ?",
+      [parentId]
+    );
+    const parent = parents[0];
+    if (!parent) throw httpError(400, "Parent product not found");
+    if (parent.parent_id) throw httpError(400, "A variant cannot have variants of its own");
+    const attributes = parent.variant_attributes || [];
+    if (attributes.length === 0) throw httpError(400, "The parent product has no variant attributes");
+    if (!product && parent.remaining_stock > 0) {
+      throw httpError(409, "Adjust the parent product's stock to zero before adding variants");
+    }
+
+    const given = body.variant_options && typeof body.variant_options === "object" ? body.variant_options : {};
+    const options = {};
+    for (const attribute of attributes) {
+      const value = given[attribute] == null ? "" : String(given[attribute]).trim();
+      if (!value) throw httpError(400, `A value for "${attribute}" is required`);
+      if (value.length > 100) throw httpError(400, `"${attribute}" must be at most 100 characters`);
+      options[attribute] = value;
+    }
+
+    const siblings = await run(
+      "SELECT name, variant_options FROM products WHERE parent_id = ? AND id <> ?",
+      [parentId, product?.id || 0]
+    );
+    const same = siblings.find((sibling) => attributes.every((attribute) =>
+      String(sibling.variant_options?.[attribute] ?? "").toLowerCase() === options[attribute].toLowerCase()
+    ));
+    if (same) throw httpError(409, `Same options as variant "${same.name}"`);
+
+    if (!product) fields.parent_id = parentId;
+    fields.variant_options = JSON.stringify(options);
+  }
+
+  return fields;
+};
+
+// Add new product
+app.post("/api/products", requireRole("staff"), async (req, res) => {
+  try {
+    const mutationId = req.get("Idempotency-Key") || null;
+    if (mutationId) {
+      const applied = await dbQuery.execute(
+        "SELECT entity_id FROM client_mutations WHERE id = ? AND entity_type = 'product'",
+        [mutationId]
+      );
+      if (applied.length > 0) {
+        return res.json({ success: true, id: applied[0].entity_id, replayed: true });
+      }
+    }
+
+    const params = productParams(req.body);
+    await assertUniqueCodes(params);
+    const variant = await variantFields(req.body);
+    const columns = [...PRODUCT_COLUMNS, ...Object.keys(variant)];
+
+    // Opening stock goes through the ledger like any other stock change
+    const insertId = await withTransaction(async (connection) => {
+      const [result] = await connection.execute(
+        `INSERT INTO products (${columns.join(", ")}, remaining_stock)
+         VALUES (${columns.map(() => "?").join(", ")}, 0)`,
+        [...params, ...Object.values(variant)]
+      );
+
+      const openingStock = parseInt(req.body.remaining_stock) || 0;
+      if (openingStock > 0) {
+        await recordStockMovement(connection, {
+          productId: result.insertId,
+          movementType: 'IN',
+          quantity: openingStock,
+          reason: 'Initial stock',
+          createdBy: actorName(req)
+        });
+      }
+
+      await recordPriceChange(result.insertId, { source: 'create', changedBy: actorName(req) }, connection);
+
+      await recordAudit(req, {
+        entityType: "product",
+        entityId: result.insertId,
+        action: "create",
+        after: await auditSnapshot("products", result.insertId, connection)
+      }, connection);
+
+      if (mutationId) {
+        await connection.execute(
+          "INSERT INTO client_mutations (id, entity_type, entity_id) VALUES (?, 'product', ?)",
+          [mutationId, result.insertId]
+        );
+      }
+
+      return result.insertId;
+    });
+
+    res.json({ success: true, id: insertId });
+  } catch (error) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Most rows accepted by one product import
+const MAX_IMPORT_ROWS = 10000;
+
+// Create or update products in bulk. Each row is matched to an existing
+// product by SKU, then by barcode; only the fields present in the row are
+// changed on a match. A given remaining_stock is reached through a stock
+// movement. With dryRun the plan is returned without writing anything;
+// otherwise every row is applied in one transaction, or none if any fails.
+app.post("/api/products/import", requireRole("staff"), async (req, res) => {
+  try {
+    const { rows, dryRun = false } = req.body;
+    if (!Array.isArray(rows) || rows.length === 0) throw httpError(400, "No rows to import");
+    if (rows.length > MAX_IMPORT_ROWS) throw httpError(400, `At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+
+    const code = (value) => (value == null ? "" : String(value).trim());
+    const existingCodes = await dbQuery.execute(
+      "SELECT id, name, barcode, sku FROM products WHERE barcode IS NOT NULL OR sku IS NOT NULL"
+    );
+    const bySku = new Map(existingCodes.filter((p) => p.sku).map((p) => [p.sku, p]));
+    const byBarcode = new Map(existingCodes.filter((p) => p.barcode).map((p) => [p.barcode, p]));
+
+    const matches = rows.map((row) => bySku.get(code(row.sku)) || byBarcode.get(code(row.barcode)) || null);
+    const matchedIds = [...new Set(matches.filter(Boolean).map((p) => p.id))];
+    const existingProducts = matchedIds.length > 0
+      ? await dbQuery.execute(
+          `SELECT * FROM products WHERE id IN (${matchedIds.map(() => "?").join(", ")})`,
+          matchedIds
+        )
+      : [];
+    const productsById = new Map(existingProducts.map((p) => [p.id, p]));
+
+    // Codes claimed by earlier rows of this file, to catch duplicates within it
+    const claimedSkus = new Map();
+    const claimedBarcodes = new Map();
+    const claimedProducts = new Map();
+
+    const plan = rows.map((row, index) => {
+      const match = matches[index];
+      try {
+        const fields = Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+        const params = productParams(match ? { ...productsById.get(match.id), ...fields } : fields);
+        const barcode = params[PRODUCT_COLUMNS.indexOf("barcode")];
+        const sku = params[PRODUCT_COLUMNS.indexOf("sku")];
+
+        if (match && claimedProducts.has(match.id)) {
+          throw httpError(409, `Same product as row ${claimedProducts.get(match.id) + 1}`);
+        }
+        for (const [value, owners, claimed, label] of [
+          [barcode, byBarcode, claimedBarcodes, "Barcode"],
+          [sku, bySku, claimedSkus, "SKU"]
+        ]) {
+          if (!value) continue;
+          const owner = owners.get(value);
+          if (owner && owner.id !== match?.id) throw httpError(409, `${label} already used by "${owner.name}"`);
+          if (claimed.has(value)) throw httpError(409, `${label} also used in row ${claimed.get(value) + 1}`);
+        }
+        if (barcode) claimedBarcodes.set(barcode, index);
+        if (sku) claimedSkus.set(sku, index);
+        if (match) claimedProducts.set(match.id, index);
+
+        const stock = fields.remaining_stock === "" || fields.remaining_stock == null
+          ? null
+          : Number(fields.remaining_stock);
+        if (stock !== null && (!Number.isInteger(stock) || stock < 0)) {
+          throw httpError(400, "remaining_stock must be a non-negative whole number");
+        }
+
+        return { row: index, action: match ? "update" : "create", productId: match?.id || null, params, stock };
+      } catch (error) {
+        return { row: index, action: match ? "update" : "create", productId: match?.id || null, error: error.message };
+      }
+    });
+
+    const results = plan.map(({ row, action, productId, error }) => ({ row, action, product_id: productId, error }));
+    const failed = plan.filter((entry) => entry.error).length;
+
+    if (dryRun) {
+      return res.json({ success: true, dryRun: true, results, failed });
+    }
+    if (failed > 0) {
+      return res.status(400).json({ success: false, error: `${failed} rows have errors`, results, failed });
+    }
+
+    const summary = await withTransaction(async (connection) => {
+      let created = 0;
+      let updated = 0;
+
+      for (const entry of plan) {
+        let productId = entry.productId;
+        let before = null;
+        let currentStock = 0;
+
+        if (productId) {
+          before = await auditSnapshot("products", productId, connection);
+          currentStock = before?.remaining_stock || 0;
+          await connection.execute(
+            `UPDATE products SET ${PRODUCT_COLUMNS.map((column) => `${column} = ?`).join(", ")}, version = version + 1 WHERE id = ?`,
+            [...entry.params, productId]
+          );
+          updated++;
+        } else {
+          const [result] = await connection.execute(
+            `INSERT INTO products (${PRODUCT_COLUMNS.join(", ")}, remaining_stock)
+             VALUES (${PRODUCT_COLUMNS.map(() => "?").join(", ")}, 0)`,
+            entry.params
+          );
+          productId = result.insertId;
+          created++;
+        }
+
+        if (entry.stock !== null && entry.stock !== currentStock) {
+          await recordStockMovement(connection, {
+            productId,
+            movementType: before ? 'ADJUSTMENT' : 'IN',
+            quantity: before ? entry.stock - currentStock : entry.stock,
+            reason: before ? 'Import' : 'Initial stock',
+            createdBy: actorName(req)
+          });
+        }
+
+        await recordPriceChange(productId, { source: 'import', changedBy: actorName(req) }, connection);
+
+        await recordAudit(req, {
+          entityType: "product",
+          entityId: productId,
+          action: before ? "update" : "create",
+          before,
+          after: await auditSnapshot("products", productId, connection)
+        }, connection);
+      }
+
+      return { created, updated };
+    });
+
+    res.json({ success: true, results, ...summary });
+  } catch (error) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Update product
+// Stock is not editable here: it only changes through stock movements.
+// The client must send the version it loaded; a stale version gets a 409
+// with the current product so the user can reload before saving again.
+app.put("/api/products", requireRole("staff"), async (req, res) => {
+  try {
+    const { id, version } = req.body;
+
+    const expectedVersion = parseInt(version);
+    if (isNaN(expectedVersion)) {
+      return res.status(400).json({ success: false, error: "Missing product version" });
+    }
+
+    const params = productParams(req.body);
+
+    // The product row stays locked from the version check to the audit entry,
+    // so the snapshot, the price history and the audit describe this one edit
+    const conflict = await withTransaction(async (connection) => {
+      const [current] = await connection.execute("SELECT * FROM products WHERE id = ? FOR UPDATE", [id]);
+      if (current.length === 0) {
+        throw httpError(404, "Product not found");
+      }
+      const before = current[0];
+
+      if (before.version !== expectedVersion) {
+        const [rows] = await connection.execute(`
+          SELECT p.*, c.name as category_name, s.name as supplier_name
+          FROM products p
+          LEFT JOIN categories c ON p.category_id = c.id
+          LEFT JOIN suppliers s ON p.supplier_id = s.id
+          WHERE p.id = ?
+        `, [id]);
+        return rows[0];
+      }
+
+      await assertUniqueCodes(params, before.id, connection);
+      const [variants] = await connection.execute(
+        "SELECT COUNT(*) as count FROM products WHERE parent_id = ?",
+        [before.id]
+      );
+      const variant = await variantFields(req.body, { ...before, variant_count: variants[0].count }, connection);
+      const columns = [...PRODUCT_COLUMNS, ...Object.keys(variant)];
+
+      await connection.execute(
+        `UPDATE products SET ${columns.map((column) => `${column} = ?`).join(", ")}, version = version + 1 WHERE id = ?`,
+        [...params, ...Object.values(variant), before.id]
+      );
+
+      await recordPriceChange(before.id, { source: 'edit', changedBy: actorName(req) }, connection);
+
+      await recordAudit(req, {
+        entityType: "product",
+        entityId: before.id,
+        action: "update",
+        before,
+        after: await auditSnapshot("products", before.id, connection)
+      }, connection);
+
+      return null;
+    });
+
+    if (conflict) {
+      return res.status(409).json({
+        success: false,
+        conflict: true,
+        error: "Product was changed by someone else",
+        product: conflict
+      });
+    }
+
+    res.json({ success: true, version: expectedVersion + 1 });
+  } catch (error) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete product
+app.delete("/api/products", requireRole("admin"), async (req, res) => {
+  try {
+    const { id } = req.query;
+
+    const variants = await dbQuery.execute("SELECT COUNT(*) as count FROM products WHERE parent_id = ?", [id]);
+    if (variants[0].count > 0) throw httpError(409, "Delete the product's variants first");
+
+    // Get the product to check if it has an image
+    const product = await auditSnapshot("products", id);
+
+    if (product && product.image_url) {
+      try {
+        const imagePath = path.join(__dirname, product.image_url);
+        await fs.unlink(imagePath);
+      } catch (unlinkError) {
+        console.error("Error deleting image file:", unlinkError);
+      }
+    }
+
+    await dbQuery.execute("DELETE FROM products WHERE id = ?", [id]);
+    if (product) {
+      await recordAudit(req, { entityType: "product", entityId: product.id, action: "delete", before: product });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Get a sale with its lines (used for the receipt)
+app.get("/api/sales/:id", async (req, res) => {
+  try {
+    const saleId = parseInt(req.params.id);
+
+    if (isNaN(saleId)) {
+      return res.status(400).json({ success: false, error: "Invalid sale ID" });
+    }
+
+    const sales = await dbQuery.execute("SELECT * FROM sales WHERE id = ?", [saleId]);
+    if (sales.length === 0) {
+      return res.status(404).json({ success: false, error: "Sale not found" });
+    }
+
+    const items = await dbQuery.execute(
+      "SELECT * FROM sale_items WHERE sale_id = ? ORDER BY id",
+      [saleId]
+    );
+
+    res.json({ success: true, sale: { ...sales[0], items } });
+  } catch (error) {
+    console.error("Error fetching sale:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Record a counter sale: header, lines and stock OUT movements in one transaction.
+// Prices come from the database; the client only sends quantities and line discounts.
+// Stock leaves the given location_id, or the default location.
+app.post("/api/sales", requireRole("staff"), async (req, res) => {
+  try {
+    const { items, payment_type = "cash", customer_id, location_id, notes } = req.body;
+    const customerId = customer_id ? parseInt(customer_id) : null;
+    const locationId = parseInt(location_id) || null;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: "A sale needs at least one item" });
+    }
+    if (!['cash', 'card', 'credit'].includes(payment_type)) {
+      return res.status(400).json({ success: false, error: "Invalid payment type" });
+    }
+    if (payment_type === 'credit' && !customerId) {
+      return res.status(400).json({ success: false, error: "A credit sale needs a customer" });
+    }
+
+    const sale = await withTransaction(async (connection) => {
+      const location = await stockLocation(connection, locationId);
+
+      if (customerId) {
+        const [customers] = await connection.execute(
+          "SELECT id FROM customers WHERE id = ? AND is_active = 1",
+          [customerId]
+        );
+        if (customers.length === 0) {
+          throw httpError(404, "Customer not found");
+        }
+      }
+
+      const lines = [];
+      for (const item of items) {
+        const productId = parseInt(item.product_id);
+        const quantity = Number(item.quantity);
+        const discount = Math.max(0, Number(item.discount) || 0);
+
+        if (isNaN(productId) || !Number.isInteger(quantity) || quantity <= 0) {
+          throw httpError(400, "Invalid sale item");
+        }
+
+        const [products] = await connection.execute(
+          "SELECT id, name, selling_price FROM products WHERE id = ?",
+          [productId]
+        );
+        if (products.length === 0) {
+          throw httpError(404, `Product ${productId} not found`);
+        }
+
+        const unitPrice = Number(products[0].selling_price);
+        const gross = unitPrice * quantity;
+        if (discount > gross) {
+          throw httpError(400, `Discount exceeds line amount for ${products[0].name}`);
+        }
+
+        lines.push({
+          productId,
+          productName: products[0].name,
+          quantity,
+          unitPrice,
+          discount,
+          lineTotal: Math.round((gross - discount) * 100) / 100
+        });
+      }
+
+      const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+      const discountTotal = lines.reduce((sum, line) => sum + line.discount, 0);
+      const total = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+      if (payment_type === 'credit') {
+        const [accounts] = await connection.execute(`
+          SELECT c.credit_limit, ${CUSTOMER_BALANCE_SQL} as balance
+          FROM customers c
+          WHERE c.id = ?
+          FOR UPDATE
+        `, [customerId]);
+        const creditLimit = Number(accounts[0].credit_limit);
+        if (creditLimit > 0 && Number(accounts[0].balance) + total > creditLimit) {
+          throw httpError(409, "Credit limit exceeded for this customer");
+        }
+      }
+
+      const [result] = await connection.execute(`
+        INSERT INTO sales (customer_id, payment_type, subtotal, discount_total, total, notes, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [customerId, payment_type, subtotal, discountTotal, total, notes || null, actorName(req)]);
+
+      const saleId = result.insertId;
+      const saleNumber = `VTE-${String(saleId).padStart(6, '0')}`;
+      await connection.execute("UPDATE sales SET sale_number = ? WHERE id = ?", [saleNumber, saleId]);
+
+      for (const line of lines) {
+        await connection.execute(`
+          INSERT INTO sale_items (sale_id, product_id, product_name, quantity, unit_price, discount, line_total)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [saleId, line.productId, line.productName, line.quantity, line.unitPrice, line.discount, line.lineTotal]);
+
+        await recordStockMovement(connection, {
+          productId: line.productId,
+          locationId,
+          movementType: 'OUT',
+          quantity: line.quantity,
+          reason: 'Sale',
+          referenceNumber: saleNumber,
+          createdBy: actorName(req)
+        });
+      }
+
+      await recordAudit(req, {
+        entityType: "sale",
+        entityId: saleId,
+        action: "create",
+        after: { sale_number: saleNumber, payment_type, customer_id: customerId, location_id: location.id, total }
+      }, connection);
+
+      return { id: saleId, sale_number: saleNumber, total };
+    });
+
+    res.json({ success: true, ...sale });
+  } catch (error) {
+    console.error("Error recording sale:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Get customers with their current balance
+app.get("/api/customers", async (req, res) => {
+  try {
+    const { search = "", includeInactive = "false" } = req.query;
+
+    let query = `
+      SELECT c.*, ${CUSTOMER_BALANCE_SQL} as balance
+      FROM customers c
+      WHERE 1=1
+    `;
+    const params = [];
+
+    if (includeInactive !== "true") {
+      query += " AND c.is_active = 1";
+    }
+    if (search) {
+      query += " AND (c.name LIKE ? OR c.phone LIKE ?)";
+      params.push(`%${search}%`, `%${search}%`);
+    }
+    query += " ORDER BY c.name";
+
+    const customers = await dbQuery.execute(query, params);
+    res.json({ success: true, customers });
+  } catch (error) {
+    console.error("Error fetching customers:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get a single customer with balance
+app.get("/api/customers/:id", async (req, res) => {
+  try {
+    const customerId = parseInt(req.params.id);
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({ success: false, error: "Invalid customer ID" });
+    }
+
+    const rows = await dbQuery.execute(`
+      SELECT c.*, ${CUSTOMER_BALANCE_SQL} as balance
+      FROM customers c
+      WHERE c.id = ?
+    `, [customerId]);
+
+    if (rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Customer not found" });
+    }
+
+    res.json({ success: true, customer: rows[0] });
+  } catch (error) {
+    console.error("Error fetching customer:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Add new customer
+app.post("/api/customers", requireRole("staff"), async (req, res) => {
+  try {
+    const { name, phone, email, address, credit_limit, notes } = req.body;
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ success: false, error: "Customer name is required" });
+    }
+
+    const result = await dbQuery.execute(`
+      INSERT INTO customers (name, phone, email, address, credit_limit, notes)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
+      String(name).trim(),
+      phone || null,
+      email || null,
+      address || null,
+      Number(credit_limit) || 0,
+      notes || null
+    ]);
+
+    await recordAudit(req, {
+      entityType: "customer",
+      entityId: result.insertId,
+      action: "create",
+      after: await auditSnapshot("customers", result.insertId)
+    });
+    res.json({ success: true, id: result.insertId });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Update customer
+app.put("/api/customers/:id", requireRole("staff"), async (req, res) => {
+  try {
+    const customerId = parseInt(req.params.id);
+    const { name, phone, email, address, credit_limit, notes, is_active } = req.body;
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({ success: false, error: "Invalid customer ID" });
+    }
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ success: false, error: "Customer name is required" });
+    }
+
+    const before = await auditSnapshot("customers", customerId);
+    if (!before) {
+      return res.status(404).json({ success: false, error: "Customer not found" });
+    }
+
+    // Leaving is_active out keeps the customer's current status
+    const result = await dbQuery.execute(`
+      UPDATE customers
+      SET name = ?, phone = ?, email = ?, address = ?, credit_limit = ?, notes = ?, is_active = ?
+      WHERE id = ?
+    `, [
+      String(name).trim(),
+      phone || null,
+      email || null,
+      address || null,
+      Number(credit_limit) || 0,
+      notes || null,
+      (is_active === undefined ? before.is_active : is_active) ? 1 : 0,
+      customerId
+    ]);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ success: false, error: "Customer not found" });
+    }
+
+    await recordAudit(req, {
+      entityType: "customer",
+      entityId: customerId,
+      action: "update",
+      before,
+      after: await auditSnapshot("customers", customerId)
+    });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete customer; accounts with history must be deactivated instead
+app.delete("/api/customers/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const customerId = parseInt(req.params.id);
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({ success: false, error: "Invalid customer ID" });
+    }
+
+    const [sales, payments] = await Promise.all([
+      dbQuery.execute("SELECT COUNT(*) as count FROM sales WHERE customer_id = ?", [customerId]),
+      dbQuery.execute("SELECT COUNT(*) as count FROM customer_payments WHERE customer_id = ?", [customerId])
+    ]);
+
+    if (sales[0].count > 0 || payments[0].count > 0) {
+      return res.status(409).json({
+        success: false,
+        error: "Customer has sales or payments; deactivate the account instead"
+      });
+    }
+
+    const before = await auditSnapshot("customers", customerId);
+    await dbQuery.execute("DELETE FROM customers WHERE id = ?", [customerId]);
+    if (before) {
+      await recordAudit(req, { entityType: "customer", entityId: customerId, action: "delete", before });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Record a payment received from a customer
+app.post("/api/customers/:id/payments", requireRole("staff"), async (req, res) => {
+  try {
+    const customerId = parseInt(req.params.id);
+    const { amount, method = "cash", reference, notes } = req.body;
+    const paymentAmount = Math.round(Number(amount) * 100) / 100;
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({ success: false, error: "Invalid customer ID" });
+    }
+    if (!(paymentAmount > 0)) {
+      return res.status(400).json({ success: false, error: "Payment amount must be positive" });
+    }
+    if (!['cash', 'card', 'transfer', 'cheque'].includes(method)) {
+      return res.status(400).json({ success: false, error: "Invalid payment method" });
+    }
+
+    const customers = await dbQuery.execute("SELECT id FROM customers WHERE id = ?", [customerId]);
+    if (customers.length === 0) {
+      return res.status(404).json({ success: false, error: "Customer not found" });
+    }
+
+    const result = await dbQuery.execute(`
+      INSERT INTO customer_payments (customer_id, amount, method, reference, notes, created_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [customerId, paymentAmount, method, reference || null, notes || null, actorName(req)]);
+
+    await recordAudit(req, {
+      entityType: "customer",
+      entityId: customerId,
+      action: "payment",
+      after: { amount: paymentAmount, method, reference: reference || null }
+    });
+    res.json({ success: true, id: result.insertId });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Customer statement: credit sales (debits) and payments (credits) with a
+// running balance, optionally limited to a date range (from/to, YYYY-MM-DD)
+app.get("/api/customers/:id/statement", async (req, res) => {
+  try {
+    const customerId = parseInt(req.params.id);
+    const { from, to } = req.query;
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (isNaN(customerId)) {
+      return res.status(400).json({ success: false, error: "Invalid customer ID" });
+    }
+    if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+      return res.status(400).json({ success: false, error: "Dates must be YYYY-MM-DD" });
+    }
+
+    const customers = await dbQuery.execute("SELECT * FROM customers WHERE id = ?", [customerId]);
+    if (customers.length === 0) {
+      return res.status(404).json({ success: false, error: "Customer not found" });
+    }
+
+    // Entries before the range are folded into the opening balance
+    let openingBalance = 0;
+    if (from) {
+      const opening = await dbQuery.execute(`
+        SELECT
+          (SELECT COALESCE(SUM(total), 0) FROM sales
+            WHERE customer_id = ? AND payment_type = 'credit' AND created_at < ?) -
+          (SELECT COALESCE(SUM(amount), 0) FROM customer_payments
+            WHERE customer_id = ? AND paid_at < ?) as balance
+      `, [customerId, from, customerId, from]);
+      openingBalance = Number(opening[0].balance);
+    }
+
+    let saleRange = "";
+    let paymentRange = "";
+    const saleParams = [customerId];
+    const paymentParams = [customerId];
+    if (from) {
+      saleRange += " AND created_at >= ?";
+      paymentRange += " AND paid_at >= ?";
+      saleParams.push(from);
+      paymentParams.push(from);
+    }
+    if (to) {
+      saleRange += " AND created_at < DATE_ADD(?, INTERVAL 1 DAY)";
+      paymentRange += " AND paid_at < DATE_ADD(?, INTERVAL 1 DAY)";
+      saleParams.push(to);
+      paymentParams.push(to);
+    }
+
+    const [sales, payments] = await Promise.all([
+      dbQuery.execute(`
+        SELECT id, sale_number, total, created_at
+        FROM sales
+        WHERE customer_id = ? AND payment_type = 'credit'${saleRange}
+      `, saleParams),
+      dbQuery.execute(`
+        SELECT id, amount, method, reference, paid_at
+        FROM customer_payments
+        WHERE customer_id = ?${paymentRange}
+      `, paymentParams)
+    ]);
+
+    const entries = [
+      ...sales.map((sale) => ({
+        date: sale.created_at,
+        type: 'sale',
+        reference: sale.sale_number,
+        debit: Number(sale.total),
+        credit: 0
+      })),
+      ...payments.map((payment) => ({
+        date: payment.paid_at,
+        type: 'payment',
+        reference: payment.reference || payment.method,
+        debit: 0,
+        credit: Number(payment.amount)
+      }))
+    ].sort((a, b) => new Date(a.date) - new Date(b.date));
+
+    let balance = openingBalance;
+    for (const entry of entries) {
+      balance = Math.round((balance + entry.debit - entry.credit) * 100) / 100;
+      entry.balance = balance;
+    }
+
+    res.json({
+      success: true,
+      statement: {
+        customer: customers[0],
+        from: from || null,
+        to: to || null,
+        opening_balance: openingBalance,
+        closing_balance: balance,
+        entries
+      }
+    });
+  } catch (error) {
+    console.error("Error building customer statement:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get suppliers with the number of products bought from each
+app.get("/api/suppliers", async (req, res) => {
+  try {
+    const { search = "", includeInactive = "false" } = req.query;
+
+    let query = `
+      SELECT s.*, (SELECT COUNT(*) FROM products p WHERE p.supplier_id = s.id) as product_count
+      FROM suppliers s
+      WHERE 1=1
+    `;
+    const params = [];
+
+    if (includeInactive !== "true") {
+      query += " AND s.is_active = 1";
+    }
+    if (search) {
+      query += " AND (s.name LIKE ? OR s.contact_name LIKE ? OR s.phone LIKE ?)";
+      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+    query += " ORDER BY s.name";
+
+    const suppliers = await dbQuery.execute(query, params);
+    res.json({ success: true, suppliers });
+  } catch (error) {
+    console.error("Error fetching suppliers:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get a supplier with the products we buy from them
+app.get("/api/suppliers/:id", async (req, res) => {
+  try {
+    const supplierId = parseInt(req.params.id);
+
+    if (isNaN(supplierId)) {
+      return res.status(400).json({ success: false, error: "Invalid supplier ID" });
+    }
+
+    const rows = await dbQuery.execute("SELECT * FROM suppliers WHERE id = ?", [supplierId]);
+
+    if (rows.length === 0) {
+      return res.status(404).json({ success: false, error: "Supplier not found" });
+    }
+
+    // Last price paid to this supplier, falling back to the product cost
+    // for products never received through a purchase order
+    const products = await dbQuery.execute(`
+      SELECT p.id, p.name, p.sku, p.barcode, p.remaining_stock, p.min_stock_level,
+             p.selling_price, p.purchase_price,
+             COALESCE(last_line.unit_cost, p.purchase_price) as last_purchase_price,
+             last_line.last_received_at,
+             c.name as category_name
+      FROM products p
       LEFT JOIN categories c ON p.category_id = c.id
-      WHERE p.id = ?
-    `, [productId]);
+      LEFT JOIN purchase_order_items last_line ON last_line.id = (
+        SELECT poi.id
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON poi.purchase_order_id = po.id
+        WHERE poi.product_id = p.id AND po.supplier_id = ? AND poi.last_received_at IS NOT NULL
+        ORDER BY poi.last_received_at DESC, poi.id DESC
+        LIMIT 1
+      )
+      WHERE p.supplier_id = ? OR p.id IN (
+        SELECT poi.product_id
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON poi.purchase_order_id = po.id
+        WHERE po.supplier_id = ?
+      )
+      ORDER BY p.name
+    `, [supplierId, supplierId, supplierId]);
+
+    res.json({ success: true, supplier: rows[0], products: hideCosts(req, products) });
+  } catch (error) {
+    console.error("Error fetching supplier:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Fields shared by supplier create and update
+const supplierParams = (body) => [
+  String(body.name).trim(),
+  body.contact_name || null,
+  body.phone || null,
+  body.email || null,
+  body.address || null,
+  body.tax_id || null,
+  body.payment_terms || null,
+  Math.max(0, parseInt(body.lead_time_days) || 0),
+  body.notes || null
+];
+
+// Add new supplier
+app.post("/api/suppliers", requireRole("staff"), async (req, res) => {
+  try {
+    if (!req.body.name || !String(req.body.name).trim()) {
+      return res.status(400).json({ success: false, error: "Supplier name is required" });
+    }
+
+    const result = await dbQuery.execute(`
+      INSERT INTO suppliers (name, contact_name, phone, email, address, tax_id, payment_terms, lead_time_days, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, supplierParams(req.body));
+
+    await recordAudit(req, {
+      entityType: "supplier",
+      entityId: result.insertId,
+      action: "create",
+      after: await auditSnapshot("suppliers", result.insertId)
+    });
+    res.json({ success: true, id: result.insertId });
+  } catch (error) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return res.status(409).json({ success: false, error: "A supplier with this name already exists" });
+    }
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Update supplier
+app.put("/api/suppliers/:id", requireRole("staff"), async (req, res) => {
+  try {
+    const supplierId = parseInt(req.params.id);
+
+    if (isNaN(supplierId)) {
+      return res.status(400).json({ success: false, error: "Invalid supplier ID" });
+    }
+    if (!req.body.name || !String(req.body.name).trim()) {
+      return res.status(400).json({ success: false, error: "Supplier name is required" });
+    }
+
+    const { is_active } = req.body;
+    const before = await auditSnapshot("suppliers", supplierId);
+    if (!before) {
+      return res.status(404).json({ success: false, error: "Supplier not found" });
+    }
+
+    // Leaving is_active out keeps the supplier's current status
+    const result = await dbQuery.execute(`
+      UPDATE suppliers
+      SET name = ?, contact_name = ?, phone = ?, email = ?, address = ?, tax_id = ?,
+          payment_terms = ?, lead_time_days = ?, notes = ?, is_active = ?
+      WHERE id = ?
+    `, [
+      ...supplierParams(req.body),
+      (is_active === undefined ? before.is_active : is_active) ? 1 : 0,
+      supplierId
+    ]);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ success: false, error: "Supplier not found" });
+    }
+
+    await recordAudit(req, {
+      entityType: "supplier",
+      entityId: supplierId,
+      action: "update",
+      before,
+      after: await auditSnapshot("suppliers", supplierId)
+    });
+    res.json({ success: true });
+  } catch (error) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return res.status(409).json({ success: false, error: "A supplier with this name already exists" });
+    }
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete supplier; suppliers with products or orders must be deactivated instead
+app.delete("/api/suppliers/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const supplierId = parseInt(req.params.id);
+
+    if (isNaN(supplierId)) {
+      return res.status(400).json({ success: false, error: "Invalid supplier ID" });
+    }
+
+    const [products, orders] = await Promise.all([
+      dbQuery.execute("SELECT COUNT(*) as count FROM products WHERE supplier_id = ?", [supplierId]),
+      dbQuery.execute("SELECT COUNT(*) as count FROM purchase_orders WHERE supplier_id = ?", [supplierId])
+    ]);
+
+    if (products[0].count > 0 || orders[0].count > 0) {
+      return res.status(409).json({
+        success: false,
+        error: "Supplier is linked to products or purchase orders; deactivate it instead"
+      });
+    }
+
+    const before = await auditSnapshot("suppliers", supplierId);
+    await dbQuery.execute("DELETE FROM suppliers WHERE id = ?", [supplierId]);
+    if (before) {
+      await recordAudit(req, { entityType: "supplier", entityId: supplierId, action: "delete", before });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+const LOCATION_TYPES = ['shop', 'depot', 'branch'];
+
+// Get stock locations, the default one first, with how much each holds
+app.get("/api/locations", async (req, res) => {
+  try {
+    const { includeInactive = "false" } = req.query;
+
+    const locations = await dbQuery.execute(`
+      SELECT l.*,
+             (SELECT COUNT(*) FROM product_stock ps WHERE ps.location_id = l.id AND ps.quantity > 0) as product_count,
+             (SELECT COALESCE(SUM(ps.quantity), 0) FROM product_stock ps WHERE ps.location_id = l.id) as stock_units
+      FROM locations l
+      ${includeInactive === "true" ? "" : "WHERE l.is_active = 1"}
+      ORDER BY l.is_default DESC, l.name
+    `);
+    res.json({ success: true, locations });
+  } catch (error) {
+    console.error("Error fetching locations:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Validate a location body and return name, type and address
+const locationParams = (body) => {
+  const name = String(body.name || "").trim();
+  if (!name) throw httpError(400, "Location name is required");
+  const type = body.type || "shop";
+  if (!LOCATION_TYPES.includes(type)) throw httpError(400, `Unknown location type "${type}"`);
+  return [name, type, body.address || null];
+};
+
+// Add a stock location
+app.post("/api/locations", requireRole("admin"), async (req, res) => {
+  try {
+    const result = await dbQuery.execute(
+      "INSERT INTO locations (name, type, address) VALUES (?, ?, ?)",
+      locationParams(req.body)
+    );
+
+    await recordAudit(req, {
+      entityType: "location",
+      entityId: result.insertId,
+      action: "create",
+      after: await auditSnapshot("locations", result.insertId)
+    });
+    res.json({ success: true, id: result.insertId });
+  } catch (error) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return res.status(409).json({ success: false, error: "A location with this name already exists" });
+    }
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Update a stock location. Making it the default takes that role from the
+// previous default; a location can only be deactivated once it holds no stock.
+app.put("/api/locations/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const locationId = parseInt(req.params.id);
+
+    if (isNaN(locationId)) {
+      return res.status(400).json({ success: false, error: "Invalid location ID" });
+    }
+
+    const params = locationParams(req.body);
+
+    await withTransaction(async (connection) => {
+      const [locations] = await connection.execute("SELECT * FROM locations WHERE id = ? FOR UPDATE", [locationId]);
+      if (locations.length === 0) {
+        throw httpError(404, "Location not found");
+      }
+      const before = locations[0];
+      const isDefault = req.body.is_default === undefined ? !!before.is_default : !!req.body.is_default;
+      const isActive = req.body.is_active === undefined ? !!before.is_active : !!req.body.is_active;
+
+      if (before.is_default && !isDefault) {
+        throw httpError(409, "Make another location the default first");
+      }
+      if (isDefault && !isActive) {
+        throw httpError(409, "The default location cannot be deactivated");
+      }
+      if (before.is_active && !isActive) {
+        const [stock] = await connection.execute(
+          "SELECT COALESCE(SUM(quantity), 0) as units FROM product_stock WHERE location_id = ?",
+          [locationId]
+        );
+        if (Number(stock[0].units) !== 0) {
+          throw httpError(409, "Transfer the stock out of this location before deactivating it");
+        }
+      }
+
+      if (isDefault && !before.is_default) {
+        await connection.execute("UPDATE locations SET is_default = 0 WHERE is_default = 1");
+      }
+      await connection.execute(
+        "UPDATE locations SET name = ?, type = ?, address = ?, is_default = ?, is_active = ? WHERE id = ?",
+        [...params, isDefault ? 1 : 0, isActive ? 1 : 0, locationId]
+      );
+
+      await recordAudit(req, {
+        entityType: "location",
+        entityId: locationId,
+        action: "update",
+        before,
+        after: await auditSnapshot("locations", locationId, connection)
+      }, connection);
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    if (error.code === "ER_DUP_ENTRY") {
+      return res.status(409).json({ success: false, error: "A location with this name already exists" });
+    }
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete a stock location; locations with stock or history must be deactivated instead
+app.delete("/api/locations/:id", requireRole("admin"), async (req, res) => {
+  try {
+    const locationId = parseInt(req.params.id);
+
+    if (isNaN(locationId)) {
+      return res.status(400).json({ success: false, error: "Invalid location ID" });
+    }
+
+    const before = await auditSnapshot("locations", locationId);
+    if (!before) {
+      return res.status(404).json({ success: false, error: "Location not found" });
+    }
+    if (before.is_default) {
+      return res.status(409).json({ success: false, error: "The default location cannot be deleted" });
+    }
+
+    const [movements, transfers, stocktakes] = await Promise.all([
+      dbQuery.execute("SELECT COUNT(*) as count FROM stock_movements WHERE location_id = ?", [locationId]),
+      dbQuery.execute(
+        "SELECT COUNT(*) as count FROM stock_transfers WHERE from_location_id = ? OR to_location_id = ?",
+        [locationId, locationId]
+      ),
+      dbQuery.execute("SELECT COUNT(*) as count FROM stocktakes WHERE location_id = ?", [locationId])
+    ]);
+
+    if (movements[0].count > 0 || transfers[0].count > 0 || stocktakes[0].count > 0) {
+      return res.status(409).json({
+        success: false,
+        error: "Location has stock history; deactivate it instead"
+      });
+    }
+
+    await dbQuery.execute("DELETE FROM locations WHERE id = ?", [locationId]);
+    await recordAudit(req, { entityType: "location", entityId: locationId, action: "delete", before });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get purchase orders, newest first
+app.get("/api/purchase-orders", requireRole("staff"), async (req, res) => {
+  try {
+    const { status = "all", supplier_id, page = "1", limit = "20" } = req.query;
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const offset = (pageNum - 1) * limitNum;
+
+    let where = " WHERE 1=1";
+    const params = [];
+
+    if (status !== "all" && PURCHASE_ORDER_STATUSES.includes(status)) {
+      where += " AND po.status = ?";
+      params.push(status);
+    }
+    if (supplier_id) {
+      where += " AND po.supplier_id = ?";
+      params.push(parseInt(supplier_id));
+    }
+
+    const [orders, countResult] = await Promise.all([
+      dbQuery.execute(`
+        SELECT po.*, s.name as supplier_name,
+               (SELECT COUNT(*) FROM purchase_order_items poi WHERE poi.purchase_order_id = po.id) as item_count
+        FROM purchase_orders po
+        JOIN suppliers s ON po.supplier_id = s.id
+        ${where}
+        ORDER BY po.created_at DESC, po.id DESC
+        LIMIT ? OFFSET ?
+      `, [...params, limitNum, offset]),
+      dbQuery.execute(`SELECT COUNT(*) as total FROM purchase_orders po${where}`, params)
+    ]);
+
+    const total = countResult[0].total;
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      success: true,
+      orders,
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching purchase orders:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get a purchase order with its lines
+app.get("/api/purchase-orders/:id", requireRole("staff"), async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: "Invalid purchase order ID" });
+    }
+
+    const orders = await dbQuery.execute(`
+      SELECT po.*, s.name as supplier_name
+      FROM purchase_orders po
+      JOIN suppliers s ON po.supplier_id = s.id
+      WHERE po.id = ?
+    `, [orderId]);
+
+    if (orders.length === 0) {
+      return res.status(404).json({ success: false, error: "Purchase order not found" });
+    }
+
+    const items = await dbQuery.execute(`
+      SELECT poi.*, p.sku, p.barcode, p.remaining_stock
+      FROM purchase_order_items poi
+      LEFT JOIN products p ON poi.product_id = p.id
+      WHERE poi.purchase_order_id = ?
+      ORDER BY poi.id
+    `, [orderId]);
+
+    res.json({ success: true, order: { ...orders[0], items } });
+  } catch (error) {
+    console.error("Error fetching purchase order:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Accept YYYY-MM-DD dates only
+const parseExpectedDate = (value) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(String(value || "")) ? value : null;
+
+// Create a draft purchase order
+app.post("/api/purchase-orders", requireRole("staff"), async (req, res) => {
+  try {
+    const { supplier_id, expected_date, notes, items } = req.body;
+    const supplierId = parseInt(supplier_id);
+
+    if (isNaN(supplierId)) {
+      return res.status(400).json({ success: false, error: "A purchase order needs a supplier" });
+    }
+
+    const order = await withTransaction(async (connection) => {
+      const [suppliers] = await connection.execute(
+        "SELECT id FROM suppliers WHERE id = ? AND is_active = 1",
+        [supplierId]
+      );
+      if (suppliers.length === 0) {
+        throw httpError(404, "Supplier not found");
+      }
+
+      const lines = await buildPurchaseOrderLines(connection, items);
+
+      const [result] = await connection.execute(`
+        INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by)
+        VALUES (?, ?, ?, ?)
+      `, [supplierId, parseExpectedDate(expected_date), notes || null, actorName(req)]);
+
+      const orderId = result.insertId;
+      const poNumber = `BC-${String(orderId).padStart(6, '0')}`;
+      await connection.execute("UPDATE purchase_orders SET po_number = ? WHERE id = ?", [poNumber, orderId]);
+      await writePurchaseOrderLines(connection, orderId, lines);
+
+      await recordAudit(req, {
+        entityType: "purchase_order",
+        entityId: orderId,
+        action: "create",
+        after: await auditSnapshot("purchase_orders", orderId, connection)
+      }, connection);
+
+      return { id: orderId, po_number: poNumber };
+    });
+
+    res.json({ success: true, ...order });
+  } catch (error) {
+    console.error("Error creating purchase order:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Update a draft purchase order; sent orders are frozen
+app.put("/api/purchase-orders/:id", requireRole("staff"), async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const { supplier_id, expected_date, notes, items } = req.body;
+    const supplierId = parseInt(supplier_id);
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: "Invalid purchase order ID" });
+    }
+    if (isNaN(supplierId)) {
+      return res.status(400).json({ success: false, error: "A purchase order needs a supplier" });
+    }
+
+    await withTransaction(async (connection) => {
+      const [orders] = await connection.execute(
+        "SELECT status FROM purchase_orders WHERE id = ? FOR UPDATE",
+        [orderId]
+      );
+      if (orders.length === 0) {
+        throw httpError(404, "Purchase order not found");
+      }
+      if (orders[0].status !== 'draft') {
+        throw httpError(409, "Only draft purchase orders can be edited");
+      }
+
+      const [suppliers] = await connection.execute(
+        "SELECT id FROM suppliers WHERE id = ? AND is_active = 1",
+        [supplierId]
+      );
+      if (suppliers.length === 0) {
+        throw httpError(404, "Supplier not found");
+      }
 
-    if (rows.length === 0) {
-      return res.status(404).json({ success: false, error: "Product not found" });
+      const lines = await buildPurchaseOrderLines(connection, items);
+      const before = await auditSnapshot("purchase_orders", orderId, connection);
+
+      await connection.execute(
+        "UPDATE purchase_orders SET supplier_id = ?, expected_date = ?, notes = ? WHERE id = ?",
+        [supplierId, parseExpectedDate(expected_date), notes || null, orderId]
+      );
+      await writePurchaseOrderLines(connection, orderId, lines);
+
+      await recordAudit(req, {
+        entityType: "purchase_order",
+        entityId: orderId,
+        action: "update",
+        before,
+        after: await auditSnapshot("purchase_orders", orderId, connection)
+      }, connection);
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error updating purchase order:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Send or cancel a purchase order
+app.post("/api/purchase-orders/:id/status", requireRole("staff"), async (req, res) => {
+  try {
+    const orderId = parseInt(req.params.id);
+    const { status } = req.body;
+
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: "Invalid purchase order ID" });
     }
 
-    res.json({ success: true, product: rows[0] });
+    await withTransaction(async (connection) => {
+      const [orders] = await connection.execute(
+        "SELECT status FROM purchase_orders WHERE id = ? FOR UPDATE",
+        [orderId]
+      );
+      if (orders.length === 0) {
+        throw httpError(404, "Purchase order not found");
+      }
+
+      const allowed = PURCHASE_ORDER_TRANSITIONS[orders[0].status] || [];
+      if (!allowed.includes(status)) {
+        throw httpError(409, `Cannot change a ${orders[0].status} purchase order to ${status}`);
+      }
+
+      await connection.execute("UPDATE purchase_orders SET status = ? WHERE id = ?", [status, orderId]);
+
+      await recordAudit(req, {
+        entityType: "purchase_order",
+        entityId: orderId,
+        action: "status",
+        before: { status: orders[0].status },
+        after: { status }
+      }, connection);
+    });
+
+    res.json({ success: true, status });
   } catch (error) {
-    console.error("Error fetching product:", error);
-    res.status(500).json({ success: false, error: error.message });
+    console.error("Error updating purchase order status:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
   }
 });
 
-// Get all products with optional filtering and pagination
-app.get("/api/products", async (req, res) => {
+// Receive goods against a sent purchase order.
+// Each received line becomes an IN movement referencing the order number, at
+// the given location_id or the default location, and the product cost is
+// updated with the configured COSTING_METHOD.
+app.post("/api/purchase-orders/:id/receive", requireRole("staff"), async (req, res) => {
   try {
-    const {
-      search = "",
-      category = "all",
-      page = "1",
-      limit = "50",
-      sortBy = "created_at",
-      sortOrder = "DESC"
-    } = req.query;
+    const orderId = parseInt(req.params.id);
+    const { items, reference, location_id, notes } = req.body;
+    const locationId = parseInt(location_id) || null;
 
-    const pageNum = Math.max(1, parseInt(page));
-    const limitNum = Math.min(100, Math.max(1, parseInt(limit))); // Max 100 items per page
+    if (isNaN(orderId)) {
+      return res.status(400).json({ success: false, error: "Invalid purchase order ID" });
+    }
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ success: false, error: "Nothing to receive" });
+    }
+
+    const result = await withTransaction(async (connection) => {
+      const [orders] = await connection.execute(
+        "SELECT * FROM purchase_orders WHERE id = ? FOR UPDATE",
+        [orderId]
+      );
+      if (orders.length === 0) {
+        throw httpError(404, "Purchase order not found");
+      }
+      const order = orders[0];
+      if (!['sent', 'partially_received'].includes(order.status)) {
+        throw httpError(409, "Only sent purchase orders can be received");
+      }
+
+      const [lines] = await connection.execute(
+        "SELECT * FROM purchase_order_items WHERE purchase_order_id = ? FOR UPDATE",
+        [orderId]
+      );
+
+      const movementNotes = [reference && `BL ${reference}`, notes].filter(Boolean).join(" - ") || null;
+      // Check the whole receipt before writing anything; each line may appear
+      // once since its open quantity is checked against what was read above
+      const receipts = [];
+      for (const item of items) {
+        const quantity = Number(item.quantity);
+        if (!quantity) continue;
+
+        const line = lines.find((l) => l.id === parseInt(item.item_id));
+        if (!line || !Number.isInteger(quantity) || quantity < 0) {
+          throw httpError(400, "Invalid receipt item");
+        }
+        if (receipts.some((receipt) => receipt.line.id === line.id)) {
+          throw httpError(400, `${line.product_name} is listed more than once`);
+        }
+        if (!line.product_id) {
+          throw httpError(409, `${line.product_name} no longer exists`);
+        }
+        if (quantity > line.quantity_ordered - line.quantity_received) {
+          throw httpError(409, `Cannot receive more than ordered for ${line.product_name}`);
+        }
+
+        const unitCost = item.unit_cost === undefined || item.unit_cost === ''
+          ? Number(line.unit_cost)
+          : Number(item.unit_cost);
+        if (isNaN(unitCost) || unitCost < 0) {
+          throw httpError(400, `Invalid unit cost for ${line.product_name}`);
+        }
+
+        receipts.push({ line, quantity, unitCost });
+      }
+
+      if (receipts.length === 0) {
+        throw httpError(400, "Nothing to receive");
+      }
+      const location = await stockLocation(connection, locationId);
+
+      for (const { line, quantity, unitCost } of receipts) {
+        const [products] = await connection.execute(
+          "SELECT remaining_stock, purchase_price, supplier_id FROM products WHERE id = ? FOR UPDATE",
+          [line.product_id]
+        );
+        const stockOnHand = Math.max(0, products[0].remaining_stock || 0);
+        const newCost = COSTING_METHOD === 'average' && stockOnHand > 0
+          ? (stockOnHand * Number(products[0].purchase_price) + quantity * unitCost) / (stockOnHand + quantity)
+          : unitCost;
+
+        await recordStockMovement(connection, {
+          productId: line.product_id,
+          locationId,
+          movementType: 'IN',
+          quantity,
+          reason: 'Purchase order receipt',
+          referenceNumber: order.po_number,
+          notes: movementNotes,
+          createdBy: actorName(req)
+        });
+
+        // Bump the version so an open product edit does not overwrite the new cost
+        await connection.execute(`
+          UPDATE products
+          SET purchase_price = ?, supplier_id = COALESCE(supplier_id, ?), version = version + 1
+          WHERE id = ?
+        `, [Math.round(newCost * 100) / 100, order.supplier_id, line.product_id]);
+
+        await recordPriceChange(line.product_id, {
+          source: 'purchase_order',
+          referenceNumber: order.po_number,
+          changedBy: actorName(req)
+        }, connection);
+
+        await recordAudit(req, {
+          entityType: "product",
+          entityId: line.product_id,
+          action: "receive",
+          before: {
+            remaining_stock: products[0].remaining_stock,
+            purchase_price: Number(products[0].purchase_price),
+            supplier_id: products[0].supplier_id
+          },
+          after: {
+            remaining_stock: products[0].remaining_stock + quantity,
+            purchase_price: Math.round(newCost * 100) / 100,
+            supplier_id: products[0].supplier_id || order.supplier_id,
+            reference_number: order.po_number
+          }
+        }, connection);
+
+        await connection.execute(`
+          UPDATE purchase_order_items
+          SET quantity_received = quantity_received + ?, unit_cost = ?, last_received_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `, [quantity, unitCost, line.id]);
+      }
+
+      const [outstanding] = await connection.execute(`
+        SELECT COALESCE(SUM(quantity_ordered - quantity_received), 0) as remaining,
+               COALESCE(SUM(quantity_ordered * unit_cost), 0) as total
+        FROM purchase_order_items
+        WHERE purchase_order_id = ?
+      `, [orderId]);
+
+      const status = Number(outstanding[0].remaining) === 0 ? 'received' : 'partially_received';
+      await connection.execute(
+        "UPDATE purchase_orders SET status = ?, total = ? WHERE id = ?",
+        [status, outstanding[0].total, orderId]
+      );
+
+      await recordAudit(req, {
+        entityType: "purchase_order",
+        entityId: orderId,
+        action: "receive",
+        before: { status: order.status },
+        after: { status, received_lines: receipts.length, location_id: location.id }
+      }, connection);
+
+      return { status, received_lines: receipts.length };
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error receiving purchase order:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Get stocktakes, newest first, with their count progress and variance
+app.get("/api/stocktakes", requireRole("staff"), async (req, res) => {
+  try {
+    const { status = "all", page = "1", limit = "20" } = req.query;
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
     const offset = (pageNum - 1) * limitNum;
 
-    // Build the base query
-    let baseQuery = `
-      SELECT p.*, c.name as category_name
-      FROM products p
-      LEFT JOIN categories c ON p.category_id = c.id
-      WHERE 1=1
-    `;
+    let where = " WHERE 1=1";
+    const params = [];
 
-    // Build count query for pagination
-    let countQuery = `
-      SELECT COUNT(*) as total
-      FROM products p
-      WHERE 1=1
-    `;
+    if (status !== "all" && STOCKTAKE_STATUSES.includes(status)) {
+      where += " AND st.status = ?";
+      params.push(status);
+    }
+
+    const [stocktakes, countResult] = await Promise.all([
+      dbQuery.execute(`
+        SELECT st.*, c.name as category_name, l.name as location_name, totals.*
+        FROM stocktakes st
+        LEFT JOIN categories c ON st.scope_type = 'category' AND c.id = st.scope_value
+        LEFT JOIN locations l ON st.location_id = l.id
+        JOIN (
+          SELECT si.stocktake_id, ${STOCKTAKE_VARIANCE_SQL}
+          FROM stocktake_items si
+          GROUP BY si.stocktake_id
+        ) totals ON totals.stocktake_id = st.id
+        ${where}
+        ORDER BY st.created_at DESC, st.id DESC
+        LIMIT ? OFFSET ?
+      `, [...params, limitNum, offset]),
+      dbQuery.execute(`SELECT COUNT(*) as total FROM stocktakes st${where}`, params)
+    ]);
+
+    const total = countResult[0].total;
+    const totalPages = Math.ceil(total / limitNum);
+
+    res.json({
+      success: true,
+      stocktakes,
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching stocktakes:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get a stocktake with its lines and variance report
+app.get("/api/stocktakes/:id", requireRole("staff"), async (req, res) => {
+  try {
+    const stocktakeId = parseInt(req.params.id);
+
+    if (isNaN(stocktakeId)) {
+      return res.status(400).json({ success: false, error: "Invalid stocktake ID" });
+    }
+
+    const stocktakes = await dbQuery.execute(`
+      SELECT st.*, c.name as category_name, l.name as location_name
+      FROM stocktakes st
+      LEFT JOIN categories c ON st.scope_type = 'category' AND c.id = st.scope_value
+      LEFT JOIN locations l ON st.location_id = l.id
+      WHERE st.id = ?
+    `, [stocktakeId]);
+
+    if (stocktakes.length === 0) {
+      return res.status(404).json({ success: false, error: "Stocktake not found" });
+    }
+
+    const [items, totals] = await Promise.all([
+      dbQuery.execute(`
+        SELECT si.*, p.sku, p.barcode, p.location,
+               si.counted_quantity - si.expected_quantity as variance_quantity,
+               (si.counted_quantity - si.expected_quantity) * si.unit_cost as variance_value
+        FROM stocktake_items si
+        LEFT JOIN products p ON si.product_id = p.id
+        WHERE si.stocktake_id = ?
+        ORDER BY p.location, si.product_name, si.id
+      `, [stocktakeId]),
+      dbQuery.execute(`
+        SELECT ${STOCKTAKE_VARIANCE_SQL}
+        FROM stocktake_items si
+        WHERE si.stocktake_id = ?
+      `, [stocktakeId])
+    ]);
+
+    res.json({ success: true, stocktake: { ...stocktakes[0], ...totals[0], items } });
+  } catch (error) {
+    console.error("Error fetching stocktake:", error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Open a stocktake of one stock location (the default one unless
+// location_id is given): snapshot the stock there and the cost of every
+// product in scope. A location scope matches shelf locations starting with
+// the given text, so "Allée 3" takes in every shelf of that aisle.
+app.post("/api/stocktakes", requireRole("staff"), async (req, res) => {
+  try {
+    const { scope_type = "all", scope_value, location_id, notes } = req.body;
+    const scopeValue = String(scope_value ?? "").trim();
+
+    if (!STOCKTAKE_SCOPES.includes(scope_type)) {
+      return res.status(400).json({ success: false, error: "Invalid stocktake scope" });
+    }
+    if (scope_type !== "all" && !scopeValue) {
+      return res.status(400).json({ success: false, error: "A stocktake scope needs a category or location" });
+    }
 
+    // Variant parents hold no stock, so there is nothing to count
+    let where = ` WHERE NOT ${HAS_VARIANTS_SQL}`;
     const params = [];
-    const countParams = [];
+    if (scope_type === "category") {
+      if (isNaN(parseInt(scopeValue))) {
+        return res.status(400).json({ success: false, error: "Invalid category ID" });
+      }
+      where += " AND p.category_id = ?";
+      params.push(parseInt(scopeValue));
+    } else if (scope_type === "location") {
+      where += " AND p.location LIKE ?";
+      params.push(`${scopeValue}%`);
+    }
 
-    // Add search filters
-    if (search) {
-      const searchCondition = " AND (p.name LIKE ? OR p.description LIKE ?)";
-      baseQuery += searchCondition;
-      countQuery += searchCondition;
-      params.push(`%${search}%`, `%${search}%`);
-      countParams.push(`%${search}%`, `%${search}%`);
+    const stocktake = await withTransaction(async (connection) => {
+      const location = await stockLocation(connection, parseInt(location_id) || null);
+
+      const [result] = await connection.execute(`
+        INSERT INTO stocktakes (scope_type, scope_value, location_id, notes, created_by)
+        VALUES (?, ?, ?, ?, ?)
+      `, [scope_type, scope_type === "all" ? null : scopeValue, location.id, notes || null, actorName(req)]);
+
+      const stocktakeId = result.insertId;
+      const reference = `INV-${String(stocktakeId).padStart(6, '0')}`;
+      await connection.execute("UPDATE stocktakes SET reference = ? WHERE id = ?", [reference, stocktakeId]);
+
+      // One statement, so every line is read at the same point in time
+      const [snapshot] = await connection.execute(`
+        INSERT INTO stocktake_items (stocktake_id, product_id, product_name, expected_quantity, unit_cost)
+        SELECT ?, p.id, p.name, COALESCE(ps.quantity, 0), COALESCE(p.purchase_price, 0)
+        FROM products p
+        LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.location_id = ?${where}
+      `, [stocktakeId, location.id, ...params]);
+      if (snapshot.affectedRows === 0) {
+        throw httpError(404, "No products in this scope");
+      }
+
+      await recordAudit(req, {
+        entityType: "stocktake",
+        entityId: stocktakeId,
+        action: "create",
+        after: { ...await auditSnapshot("stocktakes", stocktakeId, connection), item_count: snapshot.affectedRows }
+      }, connection);
+
+      return { id: stocktakeId, reference, item_count: snapshot.affectedRows };
+    });
+
+    res.json({ success: true, ...stocktake });
+  } catch (error) {
+    console.error("Error creating stocktake:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Enter counted quantities on an open stocktake. Several people count at
+// once: 'add' increments the line (one per scan) so concurrent scans add
+// up, 'set' replaces it with a typed quantity, and a null 'set' clears it.
+app.post("/api/stocktakes/:id/counts", requireRole("staff"), async (req, res) => {
+  try {
+    const stocktakeId = parseInt(req.params.id);
+    const { counts } = req.body;
+
+    if (isNaN(stocktakeId)) {
+      return res.status(400).json({ success: false, error: "Invalid stocktake ID" });
     }
+    if (!Array.isArray(counts) || counts.length === 0) {
+      return res.status(400).json({ success: false, error: "Nothing to count" });
+    }
+
+    const items = await withTransaction(async (connection) => {
+      const [stocktakes] = await connection.execute(
+        "SELECT status FROM stocktakes WHERE id = ? LOCK IN SHARE MODE",
+        [stocktakeId]
+      );
+      if (stocktakes.length === 0) {
+        throw httpError(404, "Stocktake not found");
+      }
+      if (stocktakes[0].status !== 'open') {
+        throw httpError(409, "Only open stocktakes can be counted");
+      }
+
+      const updated = [];
+      for (const count of counts) {
+        const productId = parseInt(count.product_id);
+        const mode = count.mode === 'add' ? 'add' : 'set';
+        const quantity = count.quantity === null || count.quantity === '' ? null : Number(count.quantity);
+
+        if (isNaN(productId) ||
+            (quantity !== null && !Number.isInteger(quantity)) ||
+            (mode === 'set' && quantity !== null && quantity < 0) ||
+            (mode === 'add' && !quantity)) {
+          throw httpError(400, "Invalid count");
+        }
+
+        const [lines] = await connection.execute(
+          "SELECT id, product_name, counted_quantity FROM stocktake_items WHERE stocktake_id = ? AND product_id = ? FOR UPDATE",
+          [stocktakeId, productId]
+        );
+        if (lines.length === 0) {
+          throw httpError(404, "This product is not part of the stocktake");
+        }
+
+        const counted = mode === 'add' ? (lines[0].counted_quantity || 0) + quantity : quantity;
+        if (counted !== null && counted < 0) {
+          throw httpError(409, `Count for ${lines[0].product_name} cannot go below zero`);
+        }
+
+        await connection.execute(`
+          UPDATE stocktake_items
+          SET counted_quantity = ?, counted_by = ?, counted_at = IF(? IS NULL, NULL, CURRENT_TIMESTAMP)
+          WHERE id = ?
+        `, [counted, counted === null ? null : actorName(req), counted, lines[0].id]);
+
+        updated.push({ product_id: productId, counted_quantity: counted });
+      }
+      return updated;
+    });
+
+    res.json({ success: true, items });
+  } catch (error) {
+    console.error("Error recording stocktake counts:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Approve an open stocktake: each counted line that differs from its
+// snapshot becomes an ADJUSTMENT of counted minus expected at the counted
+// location. The difference is applied to the current stock, so sales and
+// receipts made while the count was running are kept.
+app.post("/api/stocktakes/:id/approve", requireRole("admin"), async (req, res) => {
+  try {
+    const stocktakeId = parseInt(req.params.id);
 
-    // Add category filter
-    if (category !== "all") {
-      const categoryCondition = " AND p.category_id = ?";
-      baseQuery += categoryCondition;
-      countQuery += categoryCondition;
-      params.push(category);
-      countParams.push(category);
+    if (isNaN(stocktakeId)) {
+      return res.status(400).json({ success: false, error: "Invalid stocktake ID" });
     }
 
-    // Add sorting and pagination
-    const validSortColumns = ['name', 'created_at', 'updated_at', 'remaining_stock', 'selling_price'];
-    const sortColumn = validSortColumns.includes(sortBy) ? sortBy : 'created_at';
-    const order = sortOrder.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+    const result = await withTransaction(async (connection) => {
+      const [stocktakes] = await connection.execute(
+        "SELECT * FROM stocktakes WHERE id = ? FOR UPDATE",
+        [stocktakeId]
+      );
+      if (stocktakes.length === 0) {
+        throw httpError(404, "Stocktake not found");
+      }
+      const stocktake = stocktakes[0];
+      if (stocktake.status !== 'open') {
+        throw httpError(409, "Only open stocktakes can be approved");
+      }
 
-    baseQuery += ` ORDER BY p.${sortColumn} ${order} LIMIT ? OFFSET ?`;
-    params.push(limitNum, offset);
+      const [lines] = await connection.execute(`
+        SELECT * FROM stocktake_items
+        WHERE stocktake_id = ? AND product_id IS NOT NULL AND counted_quantity IS NOT NULL
+          AND counted_quantity <> expected_quantity
+      `, [stocktakeId]);
 
-    // Execute both queries
-    const [products, countResult] = await Promise.all([
-      dbQuery.execute(baseQuery, params),
-      dbQuery.execute(countQuery, countParams)
+      let adjustedLines = 0;
+      for (const line of lines) {
+        const [stock] = await connection.execute(
+          "SELECT quantity FROM product_stock WHERE product_id = ? AND location_id = ? FOR UPDATE",
+          [line.product_id, stocktake.location_id]
+        );
+        // Stock sold since the snapshot can make the difference larger than what is left
+        const delta = Math.max(line.counted_quantity - line.expected_quantity, -(stock[0]?.quantity || 0));
+        if (delta === 0) continue;
+
+        const movement = await recordStockMovement(connection, {
+          productId: line.product_id,
+          locationId: stocktake.location_id,
+          movementType: 'ADJUSTMENT',
+          quantity: delta,
+          reason: 'stocktake',
+          referenceNumber: stocktake.reference,
+          notes: `${line.expected_quantity} → ${line.counted_quantity}`,
+          createdBy: actorName(req)
+        });
+
+        await recordAudit(req, {
+          entityType: "product",
+          entityId: line.product_id,
+          action: "stock_movement",
+          before: { remaining_stock: movement.previous_stock },
+          after: { remaining_stock: movement.remaining_stock, reason: 'stocktake', reference_number: stocktake.reference }
+        }, connection);
+
+        adjustedLines++;
+      }
+
+      await connection.execute(
+        "UPDATE stocktakes SET status = 'approved', approved_by = ?, approved_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [actorName(req), stocktakeId]
+      );
+
+      await recordAudit(req, {
+        entityType: "stocktake",
+        entityId: stocktakeId,
+        action: "approve",
+        before: { status: stocktake.status },
+        after: { status: 'approved', adjusted_lines: adjustedLines }
+      }, connection);
+
+      return { status: 'approved', adjusted_lines: adjustedLines };
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error approving stocktake:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Cancel an open stocktake without touching stock
+app.post("/api/stocktakes/:id/cancel", requireRole("staff"), async (req, res) => {
+  try {
+    const stocktakeId = parseInt(req.params.id);
+
+    if (isNaN(stocktakeId)) {
+      return res.status(400).json({ success: false, error: "Invalid stocktake ID" });
+    }
+
+    await withTransaction(async (connection) => {
+      const [stocktakes] = await connection.execute(
+        "SELECT status FROM stocktakes WHERE id = ? FOR UPDATE",
+        [stocktakeId]
+      );
+      if (stocktakes.length === 0) {
+        throw httpError(404, "Stocktake not found");
+      }
+      if (stocktakes[0].status !== 'open') {
+        throw httpError(409, "Only open stocktakes can be cancelled");
+      }
+
+      await connection.execute("UPDATE stocktakes SET status = 'cancelled' WHERE id = ?", [stocktakeId]);
+
+      await recordAudit(req, {
+        entityType: "stocktake",
+        entityId: stocktakeId,
+        action: "status",
+        before: { status: 'open' },
+        after: { status: 'cancelled' }
+      }, connection);
+    });
+
+    res.json({ success: true, status: 'cancelled' });
+  } catch (error) {
+    console.error("Error cancelling stocktake:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// Get stock transfers, newest first (`location_id` matches either end)
+app.get("/api/transfers", requireRole("staff"), async (req, res) => {
+  try {
+    const { location_id, page = "1", limit = "20" } = req.query;
+    const pageNum = Math.max(1, parseInt(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit) || 20));
+    const offset = (pageNum - 1) * limitNum;
+
+    let where = " WHERE 1=1";
+    const params = [];
+
+    if (location_id) {
+      where += " AND (t.from_location_id = ? OR t.to_location_id = ?)";
+      params.push(parseInt(location_id), parseInt(location_id));
+    }
+
+    const [transfers, countResult] = await Promise.all([
+      dbQuery.execute(`
+        SELECT t.*, lf.name as from_location_name, lt.name as to_location_name,
+               (SELECT COUNT(*) FROM stock_transfer_items ti WHERE ti.transfer_id = t.id) as item_count,
+               (SELECT COALESCE(SUM(ti.quantity), 0) FROM stock_transfer_items ti WHERE ti.transfer_id = t.id) as total_quantity
+        FROM stock_transfers t
+        JOIN locations lf ON t.from_location_id = lf.id
+        JOIN locations lt ON t.to_location_id = lt.id
+        ${where}
+        ORDER BY t.created_at DESC, t.id DESC
+        LIMIT ? OFFSET ?
+      `, [...params, limitNum, offset]),
+      dbQuery.execute(`SELECT COUNT(*) as total FROM stock_transfers t${where}`, params)
     ]);
 
     const total = countResult[0].total;
@@ -468,7 +4459,7 @@ app.get("/api/products", async (req, res) => {
 
     res.json({
       success: true,
-      products,
+      transfers,
       pagination: {
         currentPage: pageNum,
         totalPages,
@@ -479,131 +4470,246 @@ app.get("/api/products", async (req, res) => {
       }
     });
   } catch (error) {
-    console.error("Error fetching products:", error);
+    console.error("Error fetching transfers:", error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Add new product
-app.post("/api/products", async (req, res) => {
+// Get a stock transfer with its lines
+app.get("/api/transfers/:id", requireRole("staff"), async (req, res) => {
   try {
-    const {
-      name,
-      description,
-      category_id,
-      purchase_price,
-      selling_price,
-      remaining_stock,
-      min_stock_level,
-      image_url,
-    } = req.body;
+    const transferId = parseInt(req.params.id);
 
-    const result = await dbQuery.execute(
-      `
-      INSERT INTO products (name, description, category_id, purchase_price, selling_price, remaining_stock, min_stock_level, image_url)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `,
-      [
-        name,
-        description,
-        category_id,
-        purchase_price,
-        selling_price,
-        remaining_stock,
-        min_stock_level || 10,
-        image_url || null,
-      ]
-    );
+    if (isNaN(transferId)) {
+      return res.status(400).json({ success: false, error: "Invalid transfer ID" });
+    }
 
-    const insertId = result.insertId;
-    res.json({ success: true, id: insertId });
+    const transfers = await dbQuery.execute(`
+      SELECT t.*, lf.name as from_location_name, lt.name as to_location_name
+      FROM stock_transfers t
+      JOIN locations lf ON t.from_location_id = lf.id
+      JOIN locations lt ON t.to_location_id = lt.id
+      WHERE t.id = ?
+    `, [transferId]);
+
+    if (transfers.length === 0) {
+      return res.status(404).json({ success: false, error: "Transfer not found" });
+    }
+
+    const items = await dbQuery.execute(`
+      SELECT ti.*, p.sku, p.barcode
+      FROM stock_transfer_items ti
+      LEFT JOIN products p ON ti.product_id = p.id
+      WHERE ti.transfer_id = ?
+      ORDER BY ti.id
+    `, [transferId]);
+
+    res.json({ success: true, transfer: { ...transfers[0], items } });
   } catch (error) {
+    console.error("Error fetching transfer:", error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Update product
-app.put("/api/products", async (req, res) => {
+// Move stock from one location to another. Each line becomes an OUT
+// movement at the source and an IN movement at the destination, both
+// referencing the transfer number, so the total stock is unchanged.
+app.post("/api/transfers", requireRole("staff"), async (req, res) => {
   try {
-    const {
-      id,
-      name,
-      description,
-      category_id,
-      purchase_price,
-      selling_price,
-      remaining_stock,
-      min_stock_level,
-      image_url,
-    } = req.body;
-
-    const updateQuery = `UPDATE products SET name = ?, description = ?, category_id = ?, purchase_price = ?, selling_price = ?, remaining_stock = ?, min_stock_level = ?, image_url = ? WHERE id = ?`;
-
-    await dbQuery.execute(updateQuery, [
-      name,
-      description,
-      category_id,
-      purchase_price,
-      selling_price,
-      remaining_stock,
-      min_stock_level,
-      image_url,
-      id,
-    ]);
+    const { from_location_id, to_location_id, notes, items } = req.body;
+    const fromId = parseInt(from_location_id);
+    const toId = parseInt(to_location_id);
 
-    res.json({ success: true });
+    if (isNaN(fromId) || isNaN(toId)) {
+      return res.status(400).json({ success: false, error: "A transfer needs a source and a destination" });
+    }
+    if (fromId === toId) {
+      return res.status(400).json({ success: false, error: "Source and destination must differ" });
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ success: false, error: "A transfer needs at least one item" });
+    }
+
+    const transfer = await withTransaction(async (connection) => {
+      const from = await stockLocation(connection, fromId);
+      const to = await stockLocation(connection, toId);
+
+      const [result] = await connection.execute(`
+        INSERT INTO stock_transfers (from_location_id, to_location_id, notes, created_by)
+        VALUES (?, ?, ?, ?)
+      `, [from.id, to.id, notes || null, actorName(req)]);
+
+      const transferId = result.insertId;
+      const reference = `TRF-${String(transferId).padStart(6, '0')}`;
+      await connection.execute("UPDATE stock_transfers SET reference = ? WHERE id = ?", [reference, transferId]);
+
+      const transferred = new Set();
+      for (const item of items) {
+        const productId = parseInt(item.product_id);
+        const quantity = Number(item.quantity);
+
+        if (isNaN(productId) || !Number.isInteger(quantity) || quantity <= 0) {
+          throw httpError(400, "Invalid transfer item");
+        }
+        if (transferred.has(productId)) {
+          throw httpError(400, "A product can only appear once in a transfer");
+        }
+        transferred.add(productId);
+
+        const [products] = await connection.execute("SELECT name FROM products WHERE id = ?", [productId]);
+        if (products.length === 0) {
+          throw httpError(404, `Product ${productId} not found`);
+        }
+
+        const movement = {
+          productId,
+          quantity,
+          reason: 'Transfer',
+          referenceNumber: reference,
+          notes: `${from.name} → ${to.name}`,
+          createdBy: actorName(req)
+        };
+        await recordStockMovement(connection, { ...movement, locationId: from.id, movementType: 'OUT' });
+        await recordStockMovement(connection, { ...movement, locationId: to.id, movementType: 'IN' });
+
+        await connection.execute(`
+          INSERT INTO stock_transfer_items (transfer_id, product_id, product_name, quantity)
+          VALUES (?, ?, ?, ?)
+        `, [transferId, productId, products[0].name, quantity]);
+      }
+
+      await recordAudit(req, {
+        entityType: "stock_transfer",
+        entityId: transferId,
+        action: "create",
+        after: { ...await auditSnapshot("stock_transfers", transferId, connection), item_count: items.length }
+      }, connection);
+
+      return { id: transferId, reference };
+    });
+
+    res.json({ success: true, ...transfer });
   } catch (error) {
-    res.status(500).json({ success: false, error: error.message });
+    console.error("Error creating transfer:", error);
+    res.status(error.status || 500).json({ success: false, error: error.message });
   }
 });
 
-// Delete product
-app.delete("/api/products", async (req, res) => {
+// Suggest what to reorder, grouped by supplier.
+// A product needs reordering when stock plus open orders no longer covers the
+// minimum level plus expected sales during the supplier lead time; the
+// suggestion fills it back up to max_stock_level.
+app.get("/api/reorder-suggestions", requireRole("staff"), async (req, res) => {
   try {
-    const { id } = req.query;
+    const days = Math.min(365, Math.max(1, parseInt(req.query.days) || 30));
 
-    // Get the product to check if it has an image
-    const products = await dbQuery.execute(
-      "SELECT image_url FROM products WHERE id = ?",
-      [id]
-    );
+    const products = await dbQuery.execute(`
+      SELECT p.id, p.name, p.sku, p.barcode, p.remaining_stock, p.min_stock_level, p.max_stock_level,
+             p.purchase_price, p.supplier_id, s.name as supplier_name,
+             COALESCE(s.lead_time_days, 0) as lead_time_days,
+             COALESCE(sold.quantity, 0) as sold_quantity,
+             COALESCE(ordered.quantity, 0) as on_order
+      FROM products p
+      LEFT JOIN suppliers s ON p.supplier_id = s.id
+      LEFT JOIN (
+        SELECT si.product_id, SUM(si.quantity) as quantity
+        FROM sale_items si
+        JOIN sales sa ON si.sale_id = sa.id
+        WHERE sa.created_at >= DATE_SUB(NOW(), INTERVAL ? DAY)
+        GROUP BY si.product_id
+      ) sold ON sold.product_id = p.id
+      LEFT JOIN (
+        SELECT poi.product_id, SUM(poi.quantity_ordered - poi.quantity_received) as quantity
+        FROM purchase_order_items poi
+        JOIN purchase_orders po ON poi.purchase_order_id = po.id
+        WHERE po.status IN ('draft', 'sent', 'partially_received')
+        GROUP BY poi.product_id
+      ) ordered ON ordered.product_id = p.id
+      WHERE p.is_active = 1 AND NOT ${HAS_VARIANTS_SQL}
+      ORDER BY p.name
+    `, [days]);
 
-    if (products.length > 0 && products[0].image_url) {
-      try {
-        const imagePath = path.join(__dirname, products[0].image_url);
-        await fs.unlink(imagePath);
-      } catch (unlinkError) {
-        console.error("Error deleting image file:", unlinkError);
+    const groups = new Map();
+    for (const product of products) {
+      const avgDailySales = Number(product.sold_quantity) / days;
+      const leadTimeDemand = avgDailySales * product.lead_time_days;
+      const available = (product.remaining_stock || 0) + Number(product.on_order);
+
+      if (available > product.min_stock_level + leadTimeDemand) continue;
+
+      const target = Math.max(product.max_stock_level || 0, product.min_stock_level) + leadTimeDemand;
+      const suggestedQuantity = Math.ceil(target - available);
+      if (suggestedQuantity <= 0) continue;
+
+      const key = product.supplier_id || 0;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          supplier_id: product.supplier_id,
+          supplier_name: product.supplier_name,
+          lead_time_days: product.lead_time_days,
+          items: [],
+          total: 0
+        });
       }
+
+      const group = groups.get(key);
+      const unitCost = Number(product.purchase_price);
+      group.items.push({
+        product_id: product.id,
+        name: product.name,
+        sku: product.sku,
+        barcode: product.barcode,
+        remaining_stock: product.remaining_stock,
+        min_stock_level: product.min_stock_level,
+        max_stock_level: product.max_stock_level,
+        on_order: Number(product.on_order),
+        avg_daily_sales: Math.round(avgDailySales * 100) / 100,
+        suggested_quantity: suggestedQuantity,
+        unit_cost: unitCost
+      });
+      group.total = Math.round((group.total + suggestedQuantity * unitCost) * 100) / 100;
     }
 
-    await dbQuery.execute("DELETE FROM products WHERE id = ?", [id]);
-    res.json({ success: true });
+    // Products without a supplier come last: they cannot become an order yet
+    const sortedGroups = [...groups.values()].sort((a, b) =>
+      !a.supplier_id ? 1 : !b.supplier_id ? -1 : a.supplier_name.localeCompare(b.supplier_name)
+    );
+
+    res.json({ success: true, days, groups: sortedGroups });
   } catch (error) {
+    console.error("Error computing reorder suggestions:", error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // File upload endpoint
-app.post("/api/upload", upload.single("image"), (req, res) => {
+app.post("/api/upload", requireRole("staff"), upload.single("image"), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ success: false, error: "No file uploaded" });
+    }
 
-  if (!req.file) {
-    return res.status(400).json({ success: false, error: "No file uploaded" });
+    const imageUrl = `/uploads/${req.file.filename}`;
+    await recordAudit(req, { entityType: "upload", action: "create", after: { image_url: imageUrl } });
+    res.json({ success: true, imageUrl });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
   }
-
-  imageUrl =`/uploads/${req.file.filename}`
-  console.log(imageUrl)
-  res.json({ success: true, imageUrl });
 });
 
 // Delete uploaded image
-app.delete("/api/upload", async (req, res) => {
+app.delete("/api/upload", requireRole("staff"), async (req, res) => {
   try {
     const { imageUrl } = req.body;
 
     if (imageUrl) {
-      const imagePath = path.join(__dirname, imageUrl);
+      // Only a file directly inside the uploads directory, never a path out of it
+      const imagePath = path.resolve(__dirname, String(imageUrl).replace(/^\/+/, ""));
+      if (path.dirname(imagePath) !== UPLOADS_DIR) {
+        return res.status(400).json({ success: false, error: "Invalid image URL" });
+      }
       await fs.unlink(imagePath);
+      await recordAudit(req, { entityType: "upload", action: "delete", before: { image_url: imageUrl } });
     }
 
     res.json({ success: true });
@@ -683,4 +4789,9 @@ async function startServer() {
   }
 }
 
-startServer();
+// Start listening when run directly; tests require the app without a database
+if (require.main === module) {
+  startServer();
+}
+
+module.exports = { app };
@@ -0,0 +1,249 @@
+import crypto from 'node:crypto';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { USERS, startServer, tokenFor } from './helpers.js';
+
+const PASSWORD = 'correct horse';
+const salt = 'a1b2c3d4e5f60718';
+const PASSWORD_HASH = `scrypt$${salt}$${crypto.scryptSync(PASSWORD, salt, 64).toString('hex')}`;
+
+describe('authentication', () => {
+  let api;
+  let clock = Date.parse('2026-01-01T08:00:00Z');
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    // Each test starts a day later so earlier failed logins are forgotten
+    clock += 24 * 60 * 60 * 1000;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(clock);
+    api.db.reset();
+    api.db.on(/SELECT \* FROM users WHERE email = \?/, ([email]) =>
+      email === 'staff@example.com' ? [{ ...USERS[2], password_hash: PASSWORD_HASH }] : []
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const login = (email, password) => api.request('POST', '/auth/login', { body: { email, password } });
+  const advance = (ms) => vi.setSystemTime(Date.now() + ms);
+
+  describe('POST /api/auth/login', () => {
+    it('returns a working token for valid credentials', async () => {
+      const response = await login(' Staff@Example.com ', PASSWORD);
+
+      expect(response.status).toBe(200);
+      expect(response.body.user).toEqual({ id: 2, email: 'staff@example.com', name: 'Staff', role: 'staff' });
+
+      const me = await api.request('GET', '/auth/me', { token: response.body.token });
+      expect(me.status).toBe(200);
+      expect(me.body.user.id).toBe(2);
+    });
+
+    it('answers the same 401 for a wrong password and an unknown email', async () => {
+      const wrongPassword = await login('staff@example.com', 'nope');
+      const unknownEmail = await login('nobody@example.com', PASSWORD);
+
+      expect(wrongPassword.status).toBe(401);
+      expect(unknownEmail.status).toBe(401);
+      expect(wrongPassword.body.error).toBe(unknownEmail.body.error);
+    });
+
+    it('hashes the password for an unknown email too, so both take as long', async () => {
+      const scrypt = vi.spyOn(crypto, 'scrypt');
+
+      await login('nobody@example.com', PASSWORD);
+      await login('staff@example.com', 'nope');
+
+      expect(scrypt).toHaveBeenCalledTimes(2);
+      scrypt.mockRestore();
+    });
+
+    it('locks an email after five failures, doubling the wait each time', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        expect((await login('staff@example.com', 'nope')).status).toBe(401);
+      }
+      expect((await login('staff@example.com', 'nope')).status).toBe(401);
+
+      const locked = await login('staff@example.com', PASSWORD);
+      expect(locked.status).toBe(429);
+      expect(locked.body.retry_after).toBe(30);
+      expect(locked.headers.get('retry-after')).toBe('30');
+
+      advance(30 * 1000);
+      expect((await login('staff@example.com', 'nope')).status).toBe(401);
+      expect((await login('staff@example.com', PASSWORD)).body.retry_after).toBe(60);
+
+      advance(60 * 1000);
+      expect((await login('staff@example.com', PASSWORD)).status).toBe(200);
+    });
+
+    it('clears the count after a successful login', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await login('staff@example.com', 'nope');
+      }
+      expect((await login('staff@example.com', PASSWORD)).status).toBe(200);
+
+      expect((await login('staff@example.com', 'nope')).status).toBe(401);
+      expect((await login('staff@example.com', PASSWORD)).status).toBe(200);
+    });
+
+    it('caps the wait at fifteen minutes', async () => {
+      for (let attempt = 0; attempt < 20; attempt++) {
+        await login('staff@example.com', 'nope');
+        advance(15 * 60 * 1000);
+      }
+      await login('staff@example.com', 'nope');
+
+      expect((await login('staff@example.com', PASSWORD)).body.retry_after).toBe(15 * 60);
+    });
+
+    it('locks a client IP trying many emails', async () => {
+      for (let attempt = 0; attempt < 21; attempt++) {
+        expect((await login(`guess${attempt}@example.com`, 'nope')).status).toBe(401);
+      }
+
+      const locked = await login('staff@example.com', PASSWORD);
+      expect(locked.status).toBe(429);
+    });
+
+    it('tells clients behind the same local proxy apart by X-Forwarded-For', async () => {
+      const loginFrom = (ip, email, password) =>
+        api.request('POST', '/auth/login', { body: { email, password }, headers: { 'X-Forwarded-For': ip } });
+
+      for (let attempt = 0; attempt < 21; attempt++) {
+        await loginFrom('203.0.113.5', `guess${attempt}@example.com`, 'nope');
+      }
+
+      expect((await loginFrom('203.0.113.5', 'staff@example.com', PASSWORD)).status).toBe(429);
+      expect((await loginFrom('198.51.100.7', 'staff@example.com', PASSWORD)).status).toBe(200);
+    });
+  });
+
+  describe('session tokens', () => {
+    it('expire twelve hours after login', async () => {
+      const { token } = (await login('staff@example.com', PASSWORD)).body;
+
+      advance(12 * 60 * 60 * 1000 - 1000);
+      expect((await api.request('GET', '/auth/me', { token })).status).toBe(200);
+
+      advance(1000);
+      expect((await api.request('GET', '/auth/me', { token })).status).toBe(401);
+    });
+
+    it('are rejected when tampered with', async () => {
+      const [header, , signature] = tokenFor(2).split('.');
+      const payload = Buffer.from(JSON.stringify({ sub: 1, iat: 0, exp: 9999999999 })).toString('base64url');
+
+      const response = await api.request('GET', '/auth/me', { token: `${header}.${payload}.${signature}` });
+      expect(response.status).toBe(401);
+    });
+
+    it('are required outside the public routes', async () => {
+      expect((await api.request('GET', '/categories')).status).toBe(401);
+      expect((await api.request('GET', '/public/products/1')).status).not.toBe(401);
+    });
+
+    it('stop working once the user is deleted', async () => {
+      const response = await api.request('GET', '/auth/me', { token: tokenFor(99) });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('token revocation', () => {
+    let versions;
+
+    // Keep each user's token_version in the fake, bumped like the UPDATEs do
+    beforeEach(() => {
+      versions = { 1: 0, 2: 0, 3: 0 };
+      const row = (id) => ({ ...USERS[id], password_hash: PASSWORD_HASH, token_version: versions[id] });
+      api.db.on(/FROM users WHERE id = \?/, ([id]) => (USERS[id] ? [row(id)] : []));
+      api.db.on(/SELECT \* FROM users WHERE email = \?/, ([email]) => (email === 'staff@example.com' ? [row(2)] : []));
+      api.db.on(/^UPDATE users SET/, (params, sql) => {
+        const id = params.at(-1);
+        if (sql.includes('token_version + 1')) versions[id] += 1;
+        else if (sql.includes('token_version + ?')) versions[id] += params.at(-2);
+        return { affectedRows: 1 };
+      });
+    });
+
+    const me = (token) => api.request('GET', '/auth/me', { token });
+
+    it('logs the user out on every device', async () => {
+      const phone = (await login('staff@example.com', PASSWORD)).body.token;
+      const laptop = (await login('staff@example.com', PASSWORD)).body.token;
+
+      expect((await api.request('POST', '/auth/logout', { token: phone })).status).toBe(200);
+
+      expect((await me(phone)).status).toBe(401);
+      expect((await me(laptop)).status).toBe(401);
+      expect((await me((await login('staff@example.com', PASSWORD)).body.token)).status).toBe(200);
+    });
+
+    it('ends other sessions on a password change and hands this one a new token', async () => {
+      const old = (await login('staff@example.com', PASSWORD)).body.token;
+      const other = (await login('staff@example.com', PASSWORD)).body.token;
+
+      const response = await api.request('POST', '/auth/password', {
+        token: old,
+        body: { current_password: PASSWORD, new_password: 'battery staple' },
+      });
+
+      expect(response.status).toBe(200);
+      expect((await me(old)).status).toBe(401);
+      expect((await me(other)).status).toBe(401);
+      expect((await me(response.body.token)).status).toBe(200);
+    });
+
+    it('logs a user out when an admin changes their role or password, not their name', async () => {
+      const update = (body) => api.request('PUT', '/users/2', { user: 1, body: { name: 'Staff', role: 'staff', ...body } });
+      const token = (await login('staff@example.com', PASSWORD)).body.token;
+
+      expect((await update({ name: 'Sam' })).status).toBe(200);
+      expect((await me(token)).status).toBe(200);
+
+      expect((await update({ role: 'viewer' })).status).toBe(200);
+      expect((await me(token)).status).toBe(401);
+
+      const next = (await login('staff@example.com', PASSWORD)).body.token;
+      expect((await me(next)).status).toBe(200);
+      expect((await update({ role: 'viewer', password: 'battery staple' })).status).toBe(200);
+      expect((await me(next)).status).toBe(401);
+    });
+
+    it('refuses tokens signed before the last bump', async () => {
+      versions[2] = 1;
+      expect((await me(tokenFor(2))).status).toBe(401);
+    });
+  });
+
+  describe('requireRole', () => {
+    it.each([
+      ['viewer', 3, 403],
+      ['staff', 2, 403],
+      ['admin', 1, 200],
+    ])('lets only admins list users (%s)', async (_role, user, status) => {
+      expect((await api.request('GET', '/users', { user })).status).toBe(status);
+    });
+
+    it.each([
+      ['viewer', 3, 403],
+      ['staff', 2, 200],
+    ])('lets staff and above record stock movements (%s)', async (_role, user, status) => {
+      api.db.on(/FROM products p WHERE id = \? FOR UPDATE/, () => [{ id: 7, remaining_stock: 0, has_variants: 0 }]);
+      api.db.on(/FROM locations WHERE is_default = 1/, () => [{ id: 1, name: 'Shop', is_active: 1 }]);
+
+      const response = await api.request('POST', '/products/7/movements', {
+        body: { movement_type: 'IN', quantity: 1 },
+        user,
+      });
+      expect(response.status).toBe(status);
+    });
+  });
+});
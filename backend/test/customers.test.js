@@ -0,0 +1,39 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const CUSTOMER = { id: 4, name: 'Hassan', phone: '0612345678', credit_limit: '500.00', is_active: 0 };
+
+describe('PUT /api/customers/:id', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    api.db.on(/SELECT \* FROM customers WHERE id = \?/, ([id]) => (id === CUSTOMER.id ? [CUSTOMER] : []));
+  });
+
+  const update = (id, body) => api.request('PUT', `/customers/${id}`, { body, user: 2 });
+  const savedStatus = () => api.db.find(/UPDATE customers/)[0].params.at(-2);
+
+  it('keeps a deactivated customer inactive when is_active is left out', async () => {
+    const response = await update(4, { name: 'Hassan B.', credit_limit: 500 });
+
+    expect(response.status).toBe(200);
+    expect(savedStatus()).toBe(0);
+  });
+
+  it('changes the status when is_active is given', async () => {
+    await update(4, { name: 'Hassan', is_active: true });
+    expect(savedStatus()).toBe(1);
+  });
+
+  it('answers 404 for unknown customers without writing', async () => {
+    expect((await update(99, { name: 'Nobody' })).status).toBe(404);
+    expect(api.db.find(/UPDATE customers/)).toHaveLength(0);
+  });
+});
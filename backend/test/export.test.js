@@ -0,0 +1,235 @@
+import { createRequire } from 'node:module';
+import zlib from 'node:zlib';
+import { strFromU8, unzipSync } from 'fflate';
+import Papa from 'papaparse';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const require = createRequire(import.meta.url);
+const { crc32, createZipStream, createCsvExport, createXlsxExport, createPdfExport } = require('../export-writers.js');
+
+const COLUMNS = [
+  { key: 'name', type: 'text', width: 30 },
+  { key: 'stock', type: 'integer', width: 9 },
+  { key: 'retail_value', type: 'money', width: 14, total: true },
+];
+const LABELS = {
+  fr: { title: 'Inventaire', total: 'Total', name: 'Produit', stock: 'Stock', retail_value: 'Valeur de vente' },
+  ar: { title: 'الجرد', total: 'المجموع', name: 'المنتج', stock: 'المخزون', retail_value: 'قيمة البيع' },
+};
+
+// Run a writer over the given batches and return everything it wrote
+const runWriter = async (create, batches, { lang = 'fr', totals = [null, null, 0] } = {}) => {
+  const chunks = [];
+  const writer = create((chunk) => chunks.push(Buffer.from(chunk)), { columns: COLUMNS, labels: LABELS[lang], lang });
+  await writer.begin();
+  for (const rows of batches) await writer.writeRows(rows);
+  await writer.end(totals);
+  return Buffer.concat(chunks);
+};
+
+describe('crc32', () => {
+  it('matches the standard check value, also when computed in parts', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZipStream', () => {
+  it('writes an archive other tools can read', async () => {
+    const chunks = [];
+    const zip = createZipStream((chunk) => chunks.push(chunk));
+    const large = Array.from({ length: 20000 }, (_, i) => `ligne ${i} ${(i * 7919) % 1000}\n`).join('');
+
+    await zip.addFile('a.txt', 'bonjour');
+    const entry = zip.addEntry('dossier/é.txt');
+    await entry.write(large.slice(0, 100000));
+    await entry.write(large.slice(100000));
+    await entry.end();
+    zip.end();
+
+    const files = unzipSync(new Uint8Array(Buffer.concat(chunks)));
+    expect(Object.keys(files)).toEqual(['a.txt', 'dossier/é.txt']);
+    expect(strFromU8(files['a.txt'])).toBe('bonjour');
+    expect(strFromU8(files['dossier/é.txt'])).toBe(large);
+  });
+});
+
+describe('createCsvExport', () => {
+  it('starts with a BOM and quotes values holding separators, quotes or line breaks', async () => {
+    const rows = [
+      ['Vis 4,5 x 40', 120, 60],
+      ['Colle "forte"; 50 ml', 3, 45.5],
+      ['Ruban\nadhésif', 0, 0],
+      ['مطرقة', 7, 210],
+    ];
+    const output = (await runWriter(createCsvExport, [rows.slice(0, 2), rows.slice(2)])).toString('utf8');
+
+    expect(output.startsWith('\uFEFF')).toBe(true);
+    const parsed = Papa.parse(output.slice(1), { skipEmptyLines: true });
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.data).toEqual([
+      ['Produit', 'Stock', 'Valeur de vente'],
+      ...rows.map((row) => row.map(String)),
+    ]);
+  });
+});
+
+describe('createXlsxExport', () => {
+  const read = async (batches, options) => {
+    const files = unzipSync(new Uint8Array(await runWriter(createXlsxExport, batches, options)));
+    return Object.fromEntries(Object.entries(files).map(([name, data]) => [name, strFromU8(data)]));
+  };
+
+  it('packs a workbook with one sheet and its styles', async () => {
+    const files = await read([[['Marteau', 4, 240]]], { totals: [null, null, 240] });
+
+    expect(Object.keys(files).sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Inventaire" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('writes typed cells, escapes text and sums total columns with a formula', async () => {
+    const files = await read([[['Clé <12> & "13"', 4, 240]], [['Scie', null, 0.5]]], { totals: [null, null, 240.5] });
+    const sheet = files['xl/worksheets/sheet1.xml'];
+
+    expect(sheet).toContain(
+      '<row r="1"><c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Produit</t></is></c>'
+    );
+    expect(sheet).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Clé &lt;12&gt; &amp; &quot;13&quot;</t></is></c>' +
+        '<c r="B2" s="2"><v>4</v></c><c r="C2" s="3"><v>240</v></c></row>'
+    );
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">Scie</t></is></c><c r="C3" s="3">');
+    expect(sheet).toContain('<c r="C4" s="4"><f>SUM(C2:C3)</f><v>240.5</v></c>');
+    expect(sheet.endsWith('</sheetData></worksheet>')).toBe(true);
+  });
+
+  it('writes Arabic sheets right to left', async () => {
+    const files = await read([[['مطرقة', 4, 240]]], { lang: 'ar' });
+
+    expect(files['xl/worksheets/sheet1.xml']).toContain('rightToLeft="1"');
+    expect(files['xl/worksheets/sheet1.xml']).toContain('مطرقة');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="الجرد"');
+  });
+
+  it('leaves out the total row of an empty export', async () => {
+    const files = await read([]);
+    expect(files['xl/worksheets/sheet1.xml']).not.toContain('SUM(');
+  });
+});
+
+describe('createPdfExport', () => {
+  const rows = Array.from({ length: 100 }, (_, i) => [i === 0 ? 'Clé à molette – 24 mm' : `Produit ${i}`, i, i * 10]);
+
+  // Objects by number, as listed in the cross-reference table
+  const readPdf = (buffer) => {
+    const text = buffer.toString('latin1');
+    const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)[1]);
+    expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+
+    const [, first, count] = text.slice(startxref).match(/^xref\n(\d+) (\d+)\n/);
+    expect(Number(first)).toBe(0);
+    const entries = text.slice(startxref).split('\n').slice(2, 2 + Number(count));
+    expect(text).toContain(`/Size ${count} /Root 1 0 R`);
+
+    const offsets = entries.slice(1).map((entry) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      return Number(entry.slice(0, 10));
+    });
+    return { text, offsets };
+  };
+
+  const inflateStreams = (buffer, text) =>
+    [...text.matchAll(/\/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g)].map((match) => {
+      const start = match.index + match[0].length;
+      return zlib.inflateSync(buffer.subarray(start, start + Number(match[1]))).toString('latin1');
+    });
+
+  it('lists the byte offset of every object in the cross-reference table', async () => {
+    const buffer = await runWriter(createPdfExport, [rows.slice(0, 50), rows.slice(50)], { totals: [null, null, 49500] });
+    const { text, offsets } = readPdf(buffer);
+
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+  });
+
+  it('splits rows over pages and ends with the totals', async () => {
+    const buffer = await runWriter(createPdfExport, [rows], { totals: [null, null, 49500] });
+    const { text } = readPdf(buffer);
+    const pages = inflateStreams(buffer, text);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(text).toContain(`/Count ${pages.length} >>`);
+    expect(pages[0]).toContain('(Cl\xe9 \xe0 molette \x96 24 mm)');
+    expect(pages.at(-1)).toContain('(Total)');
+    expect(pages.at(-1)).toContain('(49 500.00)');
+  });
+
+  it('still writes a page for an empty export', async () => {
+    const buffer = await runWriter(createPdfExport, []);
+    const { text } = readPdf(buffer);
+
+    expect(text).toContain('/Count 1 >>');
+  });
+});
+
+describe('GET /api/products/export', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    api.db.on(/FROM products p/, () => [
+      { id: 1, name: 'Marteau', name_ar: 'مطرقة', sku: 'HAM-1', remaining_stock: 4, purchase_price: 40, selling_price: 60 },
+    ]);
+  });
+
+  const download = (query, user = 2) => api.request('GET', `/products/export?${query}`, { user });
+
+  it('refuses Arabic PDFs instead of making them in French', async () => {
+    const response = await download('format=pdf&lang=ar');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('PDF exports are only available in French; use CSV or XLSX for Arabic');
+  });
+
+  it('makes French PDFs', async () => {
+    const response = await download('format=pdf&lang=fr');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/pdf');
+    expect(response.body.subarray(0, 8).toString()).toBe('%PDF-1.4');
+  });
+
+  it('gives Arabic headers and names in CSV', async () => {
+    const response = await download('format=csv&lang=ar');
+    const [header, row] = Papa.parse(response.body.toString('utf8').slice(1), { skipEmptyLines: true }).data;
+
+    expect(header[0]).toBe('المرجع');
+    expect(row.slice(0, 3)).toEqual(['HAM-1', '', 'مطرقة']);
+  });
+
+  it('leaves the cost columns out for viewers', async () => {
+    const [header] = Papa.parse((await download('format=csv', 3)).body.toString('utf8').slice(1)).data;
+
+    expect(header).not.toContain("Prix d'achat");
+    expect(header).toContain('Prix de vente');
+  });
+
+  it('rejects unknown formats', async () => {
+    expect((await download('format=docx')).status).toBe(400);
+  });
+});
@@ -0,0 +1,118 @@
+import crypto from 'node:crypto';
+import { createRequire } from 'node:module';
+import { vi } from 'vitest';
+
+const require = createRequire(import.meta.url);
+
+const JWT_SECRET = 'test-secret';
+
+// Users the auth middleware reloads on every request, by id
+export const USERS = {
+  1: { id: 1, email: 'admin@example.com', name: 'Admin', role: 'admin' },
+  2: { id: 2, email: 'staff@example.com', name: 'Staff', role: 'staff' },
+  3: { id: 3, email: 'viewer@example.com', name: 'Viewer', role: 'viewer' },
+};
+
+// A stand-in for the mysql2 pool. Queries are answered by the last handler
+// whose pattern matches the SQL; unmatched SELECTs return no rows and
+// unmatched writes report one affected row. Every query is logged, with
+// BEGIN/COMMIT/ROLLBACK marking transactions.
+const createFakeDb = () => {
+  let handlers = [];
+  const queries = [];
+
+  const run = async (sql, params = []) => {
+    queries.push({ sql, params });
+    const handler = handlers.find(([pattern]) => pattern.test(sql));
+    if (handler) return [await handler[1](params, sql), []];
+    if (/^\s*(INSERT|UPDATE|DELETE)/i.test(sql)) return [{ insertId: 1, affectedRows: 1 }, []];
+    return [[], []];
+  };
+
+  const mark = (sql) => async () => {
+    queries.push({ sql, params: [] });
+  };
+
+  const connection = {
+    execute: run,
+    query: run,
+    beginTransaction: mark('BEGIN'),
+    commit: mark('COMMIT'),
+    rollback: mark('ROLLBACK'),
+    release: () => {},
+    ping: async () => {},
+  };
+
+  const db = {
+    pool: { execute: run, query: run, getConnection: async () => connection },
+    queries,
+    on(pattern, handler) {
+      handlers.unshift([pattern, handler]);
+    },
+    // Queries whose SQL matches the pattern, in the order they ran
+    find(pattern) {
+      return queries.filter(({ sql }) => pattern.test(sql));
+    },
+    reset() {
+      handlers = [];
+      queries.length = 0;
+      db.on(/FROM users WHERE id = \?/, ([id]) => (USERS[id] ? [USERS[id]] : []));
+    },
+  };
+  db.reset();
+  return db;
+};
+
+// Load server.js with mysql2 replaced by a fake pool and start it on a free port
+export const startServer = async () => {
+  const db = createFakeDb();
+  // The routes log the errors the tests provoke on purpose
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  process.env.JWT_SECRET = JWT_SECRET;
+  const mysqlPath = require.resolve('mysql2/promise', { paths: [new URL('..', import.meta.url).pathname] });
+  require.cache[mysqlPath] = {
+    id: mysqlPath,
+    filename: mysqlPath,
+    loaded: true,
+    exports: { createPool: () => db.pool },
+  };
+
+  const { app } = require('../server.js');
+  const server = await new Promise((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+
+  // Call the API, as the given user id unless a raw token is passed
+  const request = async (method, path, { body, user, token, headers = {} } = {}) => {
+    const authorization = token ?? (user ? tokenFor(user) : null);
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(authorization && { Authorization: `Bearer ${authorization}` }),
+        ...headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const type = response.headers.get('content-type') || '';
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: type.includes('json') ? await response.json() : Buffer.from(await response.arrayBuffer()),
+    };
+  };
+
+  const close = () => new Promise((resolve) => server.close(resolve));
+
+  return { db, request, close };
+};
+
+// A session token for a user id, signed like the server signs them
+export const tokenFor = (userId, { issuedAt = Math.floor(Date.now() / 1000), ttl = 60 * 60 } = {}) => {
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const body = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: userId, iat: issuedAt, exp: issuedAt + ttl })}`;
+  const signature = crypto.createHmac('sha256', JWT_SECRET).update(body).digest('base64url');
+  return `${body}.${signature}`;
+};
@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const HAMMER = {
+  id: 7,
+  name: 'Hammer',
+  barcode: '6111234567895',
+  sku: 'HAM-1',
+  purchase_price: 40,
+  selling_price: 60,
+  min_stock_level: 10,
+  max_stock_level: 1000,
+  unit: 'piece',
+  remaining_stock: 4,
+};
+const MALLET = { ...HAMMER, id: 8, name: 'Mallet', barcode: null, sku: 'MAL-1', remaining_stock: 0 };
+const PRODUCTS = { 7: HAMMER, 8: MALLET };
+
+describe('POST /api/products/import', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    api.db.on(/SELECT id, name, barcode, sku FROM products WHERE barcode IS NOT NULL/, () => [
+      { id: 7, name: 'Hammer', barcode: HAMMER.barcode, sku: HAMMER.sku },
+      { id: 8, name: 'Mallet', barcode: null, sku: MALLET.sku },
+    ]);
+    api.db.on(/SELECT \* FROM products WHERE id (IN \(|= \?)/, (ids) => ids.map((id) => PRODUCTS[id]).filter(Boolean));
+    api.db.on(/INSERT INTO products/, () => ({ insertId: 20, affectedRows: 1 }));
+    api.db.on(/FROM products p WHERE id = \? FOR UPDATE/, ([id]) => [
+      { id, remaining_stock: id === 7 ? 4 : 0, has_variants: 0 },
+    ]);
+    api.db.on(/FROM locations WHERE is_default = 1/, () => [{ id: 1, name: 'Shop', is_active: 1 }]);
+    api.db.on(/FROM product_stock WHERE product_id = \? AND location_id = \?/, ([id]) =>
+      id === 7 ? [{ quantity: 4 }] : []
+    );
+  });
+
+  const importRows = (rows, { dryRun = false, user = 2 } = {}) =>
+    api.request('POST', '/products/import', { body: { rows, dryRun }, user });
+  const writes = () => api.db.find(/^\s*(INSERT|UPDATE)/);
+
+  it('plans updates by SKU or barcode and creates for the rest without writing on a dry run', async () => {
+    const response = await importRows(
+      [
+        { sku: 'HAM-1', selling_price: 65 },
+        { barcode: '6111234567895', selling_price: 70 },
+        { name: 'Nails', purchase_price: 1, selling_price: 2, remaining_stock: 100 },
+      ],
+      { dryRun: true }
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body.failed).toBe(1);
+    expect(response.body.results).toEqual([
+      { row: 0, action: 'update', product_id: 7 },
+      { row: 1, action: 'update', product_id: 7, error: 'Same product as row 1' },
+      { row: 2, action: 'create', product_id: null },
+    ]);
+    expect(writes()).toHaveLength(0);
+  });
+
+  it('reports invalid rows with the first problem found', async () => {
+    const response = await importRows(
+      [
+        { name: '', purchase_price: 1, selling_price: 2 },
+        { name: 'Glue', purchase_price: 'cheap', selling_price: 2 },
+        { name: 'Tape', purchase_price: 1, selling_price: 2, unit: 'crate' },
+        { name: 'Saw', purchase_price: 1, selling_price: 2, remaining_stock: -1 },
+        { name: 'Drill', purchase_price: 1, selling_price: 2, sku: 'DR 1' },
+      ],
+      { dryRun: true }
+    );
+
+    expect(response.body.results.map((result) => result.error)).toEqual([
+      'Product name is required',
+      'purchase_price must be a non-negative number',
+      'Unknown unit "crate"',
+      'remaining_stock must be a non-negative whole number',
+      'Barcode and SKU cannot contain spaces',
+    ]);
+  });
+
+  it('catches codes used by other products or earlier rows', async () => {
+    const response = await importRows(
+      [
+        { sku: 'MAL-1', barcode: '6111234567895' },
+        { name: 'Glue', purchase_price: 1, selling_price: 2, sku: 'GLU-1' },
+        { name: 'Glue XL', purchase_price: 1, selling_price: 2, sku: 'GLU-1' },
+      ],
+      { dryRun: true }
+    );
+
+    expect(response.body.results.map((result) => result.error)).toEqual([
+      'Barcode already used by "Hammer"',
+      undefined,
+      'SKU also used in row 2',
+    ]);
+  });
+
+  it('writes nothing when any row fails', async () => {
+    const response = await importRows([
+      { sku: 'HAM-1', selling_price: 65 },
+      { name: 'Glue', purchase_price: -1, selling_price: 2 },
+    ]);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('1 rows have errors');
+    expect(api.db.find(/^BEGIN$/)).toHaveLength(0);
+    expect(writes()).toHaveLength(0);
+  });
+
+  it('applies every row in one transaction, reaching the given stock through the ledger', async () => {
+    const response = await importRows([
+      { sku: 'HAM-1', selling_price: 65, remaining_stock: 10 },
+      { name: 'Nails', purchase_price: 1, selling_price: 2, remaining_stock: 100 },
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ created: 1, updated: 1 });
+
+    const movements = api.db.find(/INSERT INTO stock_movements/).map(({ params }) => params.slice(0, 4));
+    expect(movements).toEqual([
+      [7, 'ADJUSTMENT', 6, 'Import'],
+      [20, 'IN', 100, 'Initial stock'],
+    ]);
+    expect(api.db.find(/^BEGIN$/)).toHaveLength(1);
+    expect(api.db.queries.at(-1).sql).toBe('COMMIT');
+  });
+
+  it('keeps the stock when a row gives none', async () => {
+    await importRows([{ sku: 'HAM-1', selling_price: 65 }]);
+
+    expect(api.db.find(/INSERT INTO stock_movements/)).toHaveLength(0);
+  });
+
+  it('rejects empty imports and viewers', async () => {
+    expect((await importRows([])).status).toBe(400);
+    expect((await importRows([{ name: 'Glue' }], { user: 3 })).status).toBe(403);
+  });
+});
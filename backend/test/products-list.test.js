@@ -0,0 +1,40 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+describe('GET /api/products ordering', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    api.db.on(/SELECT COUNT\(\*\) as total/, () => [{ total: 0 }]);
+  });
+
+  // The ORDER BY of the page query, as sent to MySQL
+  const orderBy = async (query) => {
+    await api.request('GET', `/products?${query}`, { user: 2 });
+    const { sql } = api.db.find(/LIMIT \? OFFSET \?/).at(-1);
+    return sql.match(/ORDER BY (.*) LIMIT/)[1];
+  };
+
+  it('breaks ties by id in the sort direction, as the offline store does', async () => {
+    expect(await orderBy('sortBy=selling_price&sortOrder=ASC')).toBe('p.selling_price ASC, p.id ASC');
+    expect(await orderBy('sortBy=name')).toBe('p.name DESC, p.id DESC');
+  });
+
+  it('ranks exact code hits first, then relevance only when asked', async () => {
+    expect(await orderBy('search=PVC')).toBe('exact_match DESC, p.created_at DESC, p.id DESC');
+    expect(await orderBy('search=PVC&sortBy=relevance&sortOrder=ASC')).toBe(
+      'exact_match DESC, relevance DESC, p.created_at ASC, p.id ASC'
+    );
+  });
+
+  it('sorts on the location quantity when filtering by location', async () => {
+    expect(await orderBy('location_id=2&sortBy=remaining_stock')).toBe('COALESCE(ls.quantity, 0) DESC, p.id DESC');
+  });
+});
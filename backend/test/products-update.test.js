@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const PRODUCT = {
+  id: 7,
+  name: 'Hammer',
+  purchase_price: 40,
+  selling_price: 60,
+  sku: 'HAM-1',
+  barcode: null,
+  parent_id: null,
+  variant_attributes: null,
+  version: 3,
+};
+
+describe('PUT /api/products', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    api.db.on(/SELECT \* FROM products WHERE id = \? FOR UPDATE/, ([id]) => (id === 7 ? [PRODUCT] : []));
+    api.db.on(/SELECT p\.\*, c\.name as category_name/, () => [{ ...PRODUCT, category_name: 'Tools' }]);
+    api.db.on(/SELECT COUNT\(\*\) as count FROM products WHERE parent_id/, () => [{ count: 0 }]);
+    api.db.on(/SELECT purchase_price, selling_price FROM products/, () => [{ purchase_price: 40, selling_price: 65 }]);
+    api.db.on(/SELECT \* FROM products WHERE id = \?$/, () => [{ ...PRODUCT, selling_price: 65, version: 4 }]);
+  });
+
+  const update = (changes, user = 2) =>
+    api.request('PUT', '/products', { body: { ...PRODUCT, ...changes }, user });
+
+  it('updates the product, its price history and the audit in one transaction', async () => {
+    const response = await update({ selling_price: 65 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, version: 4 });
+
+    const steps = api.db.queries.map(({ sql }) => sql);
+    const begin = steps.indexOf('BEGIN');
+    const commit = steps.indexOf('COMMIT');
+    const inTransaction = (pattern) => {
+      const index = steps.findIndex((sql) => pattern.test(sql));
+      return index > begin && index < commit;
+    };
+    expect(steps[begin + 1]).toMatch(/SELECT \* FROM products WHERE id = \? FOR UPDATE/);
+    expect(inTransaction(/^UPDATE products SET/)).toBe(true);
+    expect(inTransaction(/INSERT INTO price_history/)).toBe(true);
+    expect(inTransaction(/INSERT INTO audit_log/)).toBe(true);
+
+    const audit = api.db.find(/INSERT INTO audit_log/)[0];
+    expect(JSON.parse(audit.params[3])).toEqual({ selling_price: { before: 60, after: 65 } });
+  });
+
+  it('answers 409 with the current product when the version is stale', async () => {
+    const response = await update({ selling_price: 65, version: 2 });
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({ conflict: true, product: { id: 7, version: 3, category_name: 'Tools' } });
+    expect(api.db.find(/^UPDATE products SET/)).toHaveLength(0);
+    expect(api.db.find(/INSERT INTO (price_history|audit_log)/)).toHaveLength(0);
+  });
+
+  it('requires the version the edit was based on', async () => {
+    const response = await update({ version: undefined });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Missing product version');
+  });
+
+  it('answers 404 for an unknown product', async () => {
+    const response = await update({ id: 8 });
+
+    expect(response.status).toBe(404);
+    expect(api.db.queries.at(-1).sql).toBe('ROLLBACK');
+  });
+
+  it('rolls back when the SKU belongs to another product', async () => {
+    api.db.on(/SELECT name, barcode, sku FROM products WHERE id <> \?/, () => [
+      { name: 'Mallet', barcode: null, sku: 'HAM-1' },
+    ]);
+
+    const response = await update({ selling_price: 65 });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('SKU already used by "Mallet"');
+    expect(api.db.find(/^UPDATE products SET/)).toHaveLength(0);
+    expect(api.db.queries.at(-1).sql).toBe('ROLLBACK');
+  });
+});
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const ORDER = { id: 5, po_number: 'PO-0005', status: 'sent', supplier_id: 2 };
+
+const LOCATIONS = {
+  1: { id: 1, name: 'Shop', is_active: 1 },
+  2: { id: 2, name: 'Depot', is_active: 1 },
+  3: { id: 3, name: 'Old store', is_active: 0 },
+};
+
+// Line 11 has 10 hammers open; line 12 is fully received
+const LINES = [
+  { id: 11, product_id: 7, product_name: 'Hammer', quantity_ordered: 10, quantity_received: 0, unit_cost: '40.00' },
+  { id: 12, product_id: 8, product_name: 'Nails', quantity_ordered: 5, quantity_received: 5, unit_cost: '2.00' },
+];
+
+describe('POST /api/purchase-orders/:id/receive', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    api.db.on(/FROM purchase_orders WHERE id = \? FOR UPDATE/, ([id]) => (id === 5 ? [ORDER] : []));
+    api.db.on(/FROM purchase_order_items WHERE purchase_order_id = \? FOR UPDATE/, () =>
+      LINES.map((line) => ({ ...line }))
+    );
+    api.db.on(/SELECT remaining_stock, purchase_price, supplier_id FROM products/, () => [
+      { remaining_stock: 2, purchase_price: '40.00', supplier_id: 2 },
+    ]);
+    api.db.on(/FROM products p WHERE id = \? FOR UPDATE/, ([id]) => [{ id, remaining_stock: 2, has_variants: 0 }]);
+    api.db.on(/FROM locations WHERE is_default = 1/, () => [LOCATIONS[1]]);
+    api.db.on(/FROM locations WHERE id = \?/, ([id]) => (LOCATIONS[id] ? [LOCATIONS[id]] : []));
+    api.db.on(/FROM product_stock WHERE product_id = \? AND location_id = \?/, () => [{ quantity: 2 }]);
+    api.db.on(/SUM\(quantity_ordered - quantity_received\)/, () => [{ remaining: 4, total: 400 }]);
+  });
+
+  const receive = (items, fields = {}) =>
+    api.request('POST', '/purchase-orders/5/receive', { body: { items, ...fields }, user: 2 });
+
+  it('receives part of a line into stock', async () => {
+    const response = await receive([{ item_id: 11, quantity: 6 }]);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ status: 'partially_received', received_lines: 1 });
+    expect(api.db.find(/INSERT INTO stock_movements/)[0].params.slice(0, 5)).toEqual([
+      7,
+      'IN',
+      6,
+      'Purchase order receipt',
+      'PO-0005',
+    ]);
+    expect(api.db.find(/UPDATE purchase_order_items/)[0].params).toEqual([6, 40, 11]);
+    expect(api.db.find(/INSERT INTO stock_movements/)[0].params[6]).toBe(1);
+  });
+
+  it('receives into the chosen location', async () => {
+    const response = await receive([{ item_id: 11, quantity: 6 }], { location_id: 2 });
+
+    expect(response.status).toBe(200);
+    expect(api.db.find(/INSERT INTO stock_movements/)[0].params[6]).toBe(2);
+    expect(api.db.find(/INSERT INTO product_stock/)[0].params).toEqual([7, 2, 8]);
+  });
+
+  it('refuses unknown and inactive locations before writing', async () => {
+    const unknown = await receive([{ item_id: 11, quantity: 6 }], { location_id: 99 });
+    const inactive = await receive([{ item_id: 11, quantity: 6 }], { location_id: 3 });
+
+    expect(unknown.status).toBe(404);
+    expect(inactive.status).toBe(409);
+    expect(inactive.body.error).toBe('Old store is inactive');
+    expect(api.db.find(/^\s*(INSERT|UPDATE)/)).toHaveLength(0);
+  });
+
+  it('rejects a line listed twice even when each row fits the open quantity', async () => {
+    const response = await receive([
+      { item_id: 11, quantity: 6 },
+      { item_id: 11, quantity: 6 },
+    ]);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Hammer is listed more than once');
+    expect(api.db.find(/UPDATE purchase_order_items/)).toHaveLength(0);
+    expect(api.db.queries.at(-1).sql).toBe('ROLLBACK');
+  });
+
+  it('refuses more than the open quantity of a line', async () => {
+    const response = await receive([{ item_id: 11, quantity: 11 }]);
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Cannot receive more than ordered for Hammer');
+  });
+
+  it('refuses lines that are already fully received', async () => {
+    const response = await receive([{ item_id: 12, quantity: 1 }]);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('rejects unknown lines and invalid quantities', async () => {
+    expect((await receive([{ item_id: 99, quantity: 1 }])).status).toBe(400);
+    expect((await receive([{ item_id: 11, quantity: 1.5 }])).status).toBe(400);
+    expect((await receive([{ item_id: 11, quantity: -1 }])).status).toBe(400);
+  });
+
+  it('needs at least one quantity', async () => {
+    const response = await receive([{ item_id: 11, quantity: 0 }]);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Nothing to receive');
+  });
+
+  it('only receives sent orders', async () => {
+    api.db.on(/FROM purchase_orders WHERE id = \? FOR UPDATE/, () => [{ ...ORDER, status: 'draft' }]);
+
+    const response = await receive([{ item_id: 11, quantity: 1 }]);
+    expect(response.status).toBe(409);
+  });
+});
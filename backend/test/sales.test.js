@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const LOCATIONS = {
+  1: { id: 1, name: 'Shop', is_active: 1 },
+  2: { id: 2, name: 'Depot', is_active: 1 },
+  3: { id: 3, name: 'Old store', is_active: 0 },
+};
+
+describe('POST /api/sales', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  // The hammer sells at 60 and has 5 in stock: 4 at the shop and 1 at the depot
+  beforeEach(() => {
+    const stock = { 1: 4, 2: 1 };
+    api.db.reset();
+    api.db.on(/SELECT id, name, selling_price FROM products WHERE id = \?/, ([id]) =>
+      id === 7 ? [{ id: 7, name: 'Hammer', selling_price: '60.00' }] : []
+    );
+    api.db.on(/INSERT INTO sales /, () => ({ insertId: 30, affectedRows: 1 }));
+    api.db.on(/FROM products p WHERE id = \? FOR UPDATE/, ([id]) => [{ id, remaining_stock: 5, has_variants: 0 }]);
+    api.db.on(/FROM locations WHERE is_default = 1/, () => [LOCATIONS[1]]);
+    api.db.on(/FROM locations WHERE id = \?/, ([id]) => (LOCATIONS[id] ? [LOCATIONS[id]] : []));
+    api.db.on(/FROM product_stock WHERE product_id = \? AND location_id = \?/, ([, locationId]) => [
+      { quantity: stock[locationId] },
+    ]);
+  });
+
+  const sell = (fields) =>
+    api.request('POST', '/sales', { body: { items: [{ product_id: 7, quantity: 1 }], ...fields }, user: 2 });
+  const movements = () => api.db.find(/INSERT INTO stock_movements/).map(({ params }) => params);
+
+  it('takes stock out of the default location', async () => {
+    const response = await sell({});
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: 30, sale_number: 'VTE-000030', total: 60 });
+    expect(movements()).toEqual([[7, 'OUT', -1, 'Sale', 'VTE-000030', null, 1, 'Staff']]);
+  });
+
+  it('takes stock out of the chosen location', async () => {
+    const response = await sell({ location_id: 2 });
+
+    expect(response.status).toBe(200);
+    expect(movements()[0][6]).toBe(2);
+    expect(api.db.find(/INSERT INTO product_stock/)[0].params).toEqual([7, 2, 0]);
+  });
+
+  it('refuses more than the chosen location holds', async () => {
+    const response = await sell({ location_id: 2, items: [{ product_id: 7, quantity: 2 }] });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Insufficient stock at Depot');
+    expect(api.db.queries.at(-1).sql).toBe('ROLLBACK');
+  });
+
+  it('refuses unknown and inactive locations before writing', async () => {
+    expect((await sell({ location_id: 99 })).status).toBe(404);
+    expect((await sell({ location_id: 3 })).body.error).toBe('Old store is inactive');
+    expect(api.db.find(/^\s*(INSERT|UPDATE)/)).toHaveLength(0);
+  });
+});
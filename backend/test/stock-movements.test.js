@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const LOCATIONS = {
+  1: { id: 1, name: 'Shop', is_active: 1 },
+  2: { id: 2, name: 'Depot', is_active: 1 },
+  3: { id: 3, name: 'Old store', is_active: 0 },
+};
+
+describe('POST /api/products/:id/movements', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  // Product 7 has 5 in stock: 4 at the shop and 1 at the depot
+  const givenStock = ({ hasVariants = 0 } = {}) => {
+    const stock = { 1: 4, 2: 1 };
+    api.db.on(/FROM products p WHERE id = \? FOR UPDATE/, ([id]) =>
+      id === 7 ? [{ id: 7, remaining_stock: 5, has_variants: hasVariants }] : []
+    );
+    api.db.on(/FROM locations WHERE is_default = 1/, () => [LOCATIONS[1]]);
+    api.db.on(/FROM locations WHERE id = \?/, ([id]) => (LOCATIONS[id] ? [LOCATIONS[id]] : []));
+    api.db.on(/FROM product_stock WHERE product_id = \? AND location_id = \?/, ([, locationId]) =>
+      stock[locationId] !== undefined ? [{ quantity: stock[locationId] }] : []
+    );
+    api.db.on(/INSERT INTO stock_movements/, () => ({ insertId: 42, affectedRows: 1 }));
+  };
+
+  const record = (body, user = 2) => api.request('POST', '/products/7/movements', { body, user });
+
+  beforeEach(() => {
+    api.db.reset();
+    givenStock();
+  });
+
+  it('records an IN movement at the default location', async () => {
+    const response = await record({ movement_type: 'IN', quantity: 3 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: 42, remaining_stock: 8, location_id: 1, location_stock: 7 });
+    expect(api.db.find(/INSERT INTO stock_movements/)[0].params).toEqual([7, 'IN', 3, null, null, null, 1, 'Staff']);
+    expect(api.db.find(/INSERT INTO product_stock/)[0].params).toEqual([7, 1, 7]);
+    expect(api.db.find(/UPDATE products SET remaining_stock/)[0].params).toEqual([8, 7]);
+    expect(api.db.queries.at(-1).sql).toBe('COMMIT');
+  });
+
+  it('stores OUT movements as a negative delta', async () => {
+    const response = await record({ movement_type: 'out', quantity: 2 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.remaining_stock).toBe(3);
+    expect(api.db.find(/INSERT INTO stock_movements/)[0].params[2]).toBe(-2);
+  });
+
+  it('accepts a signed ADJUSTMENT', async () => {
+    const response = await record({ movement_type: 'ADJUSTMENT', quantity: -4 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ remaining_stock: 1, location_stock: 0 });
+  });
+
+  it('refuses to take stock below zero and rolls back', async () => {
+    const response = await record({ movement_type: 'OUT', quantity: 6 });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Insufficient stock');
+    expect(api.db.find(/INSERT INTO stock_movements/)).toHaveLength(0);
+    expect(api.db.queries.at(-1).sql).toBe('ROLLBACK');
+  });
+
+  it('checks the stock at the chosen location, not only the total', async () => {
+    const response = await record({ movement_type: 'OUT', quantity: 2, location_id: 2 });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Insufficient stock at Depot');
+  });
+
+  it('applies the movement to the chosen location', async () => {
+    const response = await record({ movement_type: 'IN', quantity: 2, location_id: 2 });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ remaining_stock: 7, location_id: 2, location_stock: 3 });
+  });
+
+  it('rejects unknown and inactive locations', async () => {
+    expect((await record({ movement_type: 'IN', quantity: 1, location_id: 9 })).status).toBe(404);
+
+    const inactive = await record({ movement_type: 'IN', quantity: 1, location_id: 3 });
+    expect(inactive.status).toBe(409);
+    expect(inactive.body.error).toBe('Old store is inactive');
+  });
+
+  it('rejects invalid types and quantities', async () => {
+    expect((await record({ movement_type: 'LOST', quantity: 1 })).status).toBe(400);
+    expect((await record({ movement_type: 'IN', quantity: -1 })).status).toBe(400);
+    expect((await record({ movement_type: 'IN', quantity: 1.5 })).status).toBe(400);
+    expect((await record({ movement_type: 'ADJUSTMENT', quantity: 0 })).status).toBe(400);
+  });
+
+  it('refuses stock on a product that has variants', async () => {
+    givenStock({ hasVariants: 1 });
+
+    const response = await record({ movement_type: 'IN', quantity: 1 });
+    expect(response.status).toBe(409);
+  });
+
+  it('is not open to viewers', async () => {
+    const response = await record({ movement_type: 'IN', quantity: 1 }, 3);
+
+    expect(response.status).toBe(403);
+    expect(api.db.find(/INSERT INTO stock_movements/)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+// Stocktake 9 counts the depot (location 2)
+const STOCKTAKE = { id: 9, reference: 'INV-000009', location_id: 2, status: 'open' };
+
+// Snapshot lines and what is at the depot now: product 11 sold 3 since the snapshot
+const ITEMS = [
+  { id: 101, product_id: 7, product_name: 'Hammer', expected_quantity: 10, counted_quantity: 7 },
+  { id: 102, product_id: 8, product_name: 'Nails', expected_quantity: 5, counted_quantity: 8 },
+  { id: 103, product_id: 9, product_name: 'Glue', expected_quantity: 4, counted_quantity: null },
+  { id: 104, product_id: 10, product_name: 'Saw', expected_quantity: 6, counted_quantity: 6 },
+  { id: 105, product_id: 11, product_name: 'Tape', expected_quantity: 5, counted_quantity: 0 },
+];
+const DEPOT_STOCK = { 7: 10, 8: 5, 9: 4, 10: 6, 11: 2 };
+
+describe('stocktakes', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  const givenStocktake = (fields = {}) => {
+    api.db.on(/FROM stocktakes WHERE id = \?/, ([id]) => (id === STOCKTAKE.id ? [{ ...STOCKTAKE, ...fields }] : []));
+  };
+
+  beforeEach(() => {
+    api.db.reset();
+    givenStocktake();
+    // What the approve query's WHERE keeps: counted lines that differ from the snapshot
+    api.db.on(/SELECT \* FROM stocktake_items/, () =>
+      ITEMS.filter((item) => item.counted_quantity !== null && item.counted_quantity !== item.expected_quantity)
+    );
+    api.db.on(/FROM stocktake_items WHERE stocktake_id = \? AND product_id = \? FOR UPDATE/, ([, productId]) =>
+      ITEMS.filter((item) => item.product_id === productId)
+    );
+    api.db.on(/FROM products p WHERE id = \? FOR UPDATE/, ([id]) => [
+      { id, remaining_stock: DEPOT_STOCK[id] + 1, has_variants: 0 },
+    ]);
+    api.db.on(/FROM locations WHERE id = \?/, ([id]) => [{ id, name: 'Depot', is_active: 1 }]);
+    api.db.on(/FROM product_stock WHERE product_id = \? AND location_id = \?/, ([id]) => [
+      { quantity: DEPOT_STOCK[id] },
+    ]);
+  });
+
+  describe('POST /api/stocktakes/:id/approve', () => {
+    const approve = (user = 1) => api.request('POST', `/stocktakes/${STOCKTAKE.id}/approve`, { body: {}, user });
+
+    it('adjusts each counted line by counted minus expected at the counted location', async () => {
+      const response = await approve();
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, status: 'approved', adjusted_lines: 3 });
+      expect(api.db.find(/INSERT INTO stock_movements/).map(({ params }) => params)).toEqual([
+        [7, 'ADJUSTMENT', -3, 'stocktake', 'INV-000009', '10 → 7', 2, 'Admin'],
+        [8, 'ADJUSTMENT', 3, 'stocktake', 'INV-000009', '5 → 8', 2, 'Admin'],
+        [11, 'ADJUSTMENT', -2, 'stocktake', 'INV-000009', '5 → 0', 2, 'Admin'],
+      ]);
+      expect(api.db.find(/INSERT INTO product_stock/).map(({ params }) => params)).toEqual([
+        [7, 2, 7],
+        [8, 2, 8],
+        [11, 2, 0],
+      ]);
+      expect(api.db.find(/UPDATE stocktakes SET status = 'approved'/)[0].params).toEqual(['Admin', 9]);
+      expect(api.db.queries.at(-1).sql).toBe('COMMIT');
+    });
+
+    it('skips a shortfall that sales since the snapshot already took', async () => {
+      api.db.on(/FROM product_stock WHERE product_id = \? AND location_id = \?/, () => [{ quantity: 0 }]);
+      api.db.on(/SELECT \* FROM stocktake_items/, () => [ITEMS[4]]);
+
+      const response = await approve();
+
+      expect(response.body.adjusted_lines).toBe(0);
+      expect(api.db.find(/INSERT INTO stock_movements/)).toHaveLength(0);
+    });
+
+    it('only approves open stocktakes', async () => {
+      givenStocktake({ status: 'approved' });
+
+      const response = await approve();
+
+      expect(response.status).toBe(409);
+      expect(api.db.find(/INSERT INTO stock_movements/)).toHaveLength(0);
+      expect(api.db.queries.at(-1).sql).toBe('ROLLBACK');
+    });
+
+    it('is for admins only', async () => {
+      expect((await approve(2)).status).toBe(403);
+    });
+  });
+
+  describe('POST /api/stocktakes/:id/counts', () => {
+    const count = (counts) => api.request('POST', `/stocktakes/${STOCKTAKE.id}/counts`, { body: { counts }, user: 2 });
+    const counted = () => api.db.find(/UPDATE stocktake_items/).map(({ params }) => [params[3], params[0]]);
+
+    it('adds scans to the count, replaces typed quantities and clears nulls', async () => {
+      const response = await count([
+        { product_id: 7, mode: 'add', quantity: 1 },
+        { product_id: 8, quantity: 12 },
+        { product_id: 11, quantity: null },
+      ]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.items).toEqual([
+        { product_id: 7, counted_quantity: 8 },
+        { product_id: 8, counted_quantity: 12 },
+        { product_id: 11, counted_quantity: null },
+      ]);
+      expect(counted()).toEqual([
+        [101, 8],
+        [102, 12],
+        [105, null],
+      ]);
+    });
+
+    it('starts an uncounted line from zero', async () => {
+      const response = await count([{ product_id: 9, mode: 'add', quantity: 2 }]);
+      expect(response.body.items).toEqual([{ product_id: 9, counted_quantity: 2 }]);
+    });
+
+    it('refuses counts below zero, fractions and products outside the stocktake', async () => {
+      expect((await count([{ product_id: 11, mode: 'add', quantity: -1 }])).status).toBe(409);
+      expect((await count([{ product_id: 7, quantity: 1.5 }])).status).toBe(400);
+      expect((await count([{ product_id: 7, quantity: -2 }])).status).toBe(400);
+      expect((await count([{ product_id: 99, quantity: 1 }])).status).toBe(404);
+      expect(counted()).toEqual([]);
+    });
+
+    it('only counts open stocktakes', async () => {
+      givenStocktake({ status: 'cancelled' });
+      expect((await count([{ product_id: 7, quantity: 1 }])).status).toBe(409);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const SUPPLIER = { id: 2, name: 'Quincaillerie Atlas', lead_time_days: 7, is_active: 0 };
+
+describe('PUT /api/suppliers/:id', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    api.db.on(/SELECT \* FROM suppliers WHERE id = \?/, ([id]) => (id === SUPPLIER.id ? [SUPPLIER] : []));
+  });
+
+  const update = (id, body) => api.request('PUT', `/suppliers/${id}`, { body, user: 2 });
+  const savedStatus = () => api.db.find(/UPDATE suppliers/)[0].params.at(-2);
+
+  it('keeps an archived supplier inactive when is_active is left out', async () => {
+    const response = await update(2, { name: 'Atlas', lead_time_days: 5 });
+
+    expect(response.status).toBe(200);
+    expect(savedStatus()).toBe(0);
+  });
+
+  it('changes the status when is_active is given', async () => {
+    await update(2, { name: 'Atlas', is_active: true });
+    expect(savedStatus()).toBe(1);
+  });
+
+  it('answers 404 for unknown suppliers without writing', async () => {
+    expect((await update(99, { name: 'Nobody' })).status).toBe(404);
+    expect(api.db.find(/UPDATE suppliers/)).toHaveLength(0);
+  });
+});
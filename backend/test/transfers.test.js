@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startServer } from './helpers.js';
+
+const LOCATIONS = {
+  1: { id: 1, name: 'Shop', is_active: 1 },
+  2: { id: 2, name: 'Depot', is_active: 1 },
+  3: { id: 3, name: 'Old store', is_active: 0 },
+};
+
+describe('POST /api/transfers', () => {
+  let api;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  // Hammers (7) and nails (8), with what each location holds; movements update it
+  beforeEach(() => {
+    const stock = { 7: { 1: 4, 2: 6 }, 8: { 1: 0, 2: 50 } };
+    api.db.reset();
+    api.db.on(/FROM locations WHERE id = \?/, ([id]) => (LOCATIONS[id] ? [LOCATIONS[id]] : []));
+    api.db.on(/INSERT INTO stock_transfers /, () => ({ insertId: 3, affectedRows: 1 }));
+    api.db.on(/SELECT name FROM products WHERE id = \?/, ([id]) =>
+      ({ 7: [{ name: 'Hammer' }], 8: [{ name: 'Nails' }] })[id] || []
+    );
+    api.db.on(/FROM products p WHERE id = \? FOR UPDATE/, ([id]) => [
+      { id, remaining_stock: stock[id][1] + stock[id][2], has_variants: 0 },
+    ]);
+    api.db.on(/FROM product_stock WHERE product_id = \? AND location_id = \?/, ([id, locationId]) => [
+      { quantity: stock[id][locationId] },
+    ]);
+    api.db.on(/INSERT INTO product_stock/, ([id, locationId, quantity]) => {
+      stock[id][locationId] = quantity;
+      return { affectedRows: 1 };
+    });
+  });
+
+  const transfer = (body) =>
+    api.request('POST', '/transfers', { body: { from_location_id: 2, to_location_id: 1, ...body }, user: 2 });
+
+  it('moves each line out of the source and into the destination', async () => {
+    const response = await transfer({
+      items: [
+        { product_id: 7, quantity: 2 },
+        { product_id: 8, quantity: 20 },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, id: 3, reference: 'TRF-000003' });
+    expect(api.db.find(/INSERT INTO stock_movements/).map(({ params }) => params)).toEqual([
+      [7, 'OUT', -2, 'Transfer', 'TRF-000003', 'Depot → Shop', 2, 'Staff'],
+      [7, 'IN', 2, 'Transfer', 'TRF-000003', 'Depot → Shop', 1, 'Staff'],
+      [8, 'OUT', -20, 'Transfer', 'TRF-000003', 'Depot → Shop', 2, 'Staff'],
+      [8, 'IN', 20, 'Transfer', 'TRF-000003', 'Depot → Shop', 1, 'Staff'],
+    ]);
+    expect(api.db.find(/INSERT INTO stock_transfer_items/).map(({ params }) => params)).toEqual([
+      [3, 7, 'Hammer', 2],
+      [3, 8, 'Nails', 20],
+    ]);
+    expect(api.db.queries.at(-1).sql).toBe('COMMIT');
+  });
+
+  it('keeps the total stock unchanged', async () => {
+    await transfer({ items: [{ product_id: 7, quantity: 2 }] });
+
+    expect(api.db.find(/INSERT INTO product_stock/).map(({ params }) => params)).toEqual([
+      [7, 2, 4],
+      [7, 1, 6],
+    ]);
+    expect(api.db.find(/UPDATE products SET remaining_stock/).map(({ params }) => params)).toEqual([
+      [8, 7],
+      [10, 7],
+    ]);
+  });
+
+  it('refuses the whole transfer when the source lacks stock for a line', async () => {
+    const response = await transfer({
+      from_location_id: 1,
+      to_location_id: 2,
+      items: [
+        { product_id: 7, quantity: 2 },
+        { product_id: 8, quantity: 1 },
+      ],
+    });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Insufficient stock at Shop');
+    expect(api.db.queries.at(-1).sql).toBe('ROLLBACK');
+  });
+
+  it('rejects the same location at both ends, a product listed twice and bad quantities', async () => {
+    expect((await transfer({ to_location_id: 2, items: [{ product_id: 7, quantity: 1 }] })).status).toBe(400);
+    expect(
+      (
+        await transfer({
+          items: [
+            { product_id: 7, quantity: 1 },
+            { product_id: 7, quantity: 1 },
+          ],
+        })
+      ).body.error
+    ).toBe('A product can only appear once in a transfer');
+    expect((await transfer({ items: [{ product_id: 7, quantity: 0 }] })).status).toBe(400);
+    expect((await transfer({ items: [] })).status).toBe(400);
+  });
+
+  it('refuses inactive and unknown locations', async () => {
+    expect((await transfer({ to_location_id: 3, items: [{ product_id: 7, quantity: 1 }] })).status).toBe(409);
+    expect((await transfer({ to_location_id: 99, items: [{ product_id: 7, quantity: 1 }] })).status).toBe(404);
+    expect(api.db.find(/INSERT INTO stock_movements/)).toHaveLength(0);
+  });
+
+  it('is not open to viewers', async () => {
+    const response = await api.request('POST', '/transfers', {
+      body: { from_location_id: 2, to_location_id: 1, items: [{ product_id: 7, quantity: 1 }] },
+      user: 3,
+    });
+    expect(response.status).toBe(403);
+  });
+});
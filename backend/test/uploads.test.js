@@ -0,0 +1,50 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startServer } from './helpers.js';
+
+const UPLOADS_DIR = path.join(new URL('..', import.meta.url).pathname, 'uploads');
+
+describe('DELETE /api/upload', () => {
+  let api;
+  let unlink;
+
+  beforeAll(async () => {
+    api = await startServer();
+  });
+
+  afterAll(() => api.close());
+
+  beforeEach(() => {
+    api.db.reset();
+    unlink = vi.spyOn(fs.promises, 'unlink').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => unlink.mockRestore());
+
+  const remove = (imageUrl) => api.request('DELETE', '/upload', { body: { imageUrl }, user: 2 });
+
+  it('deletes an uploaded image and audits it', async () => {
+    const response = await remove('/uploads/3f2a.png');
+
+    expect(response.status).toBe(200);
+    expect(unlink).toHaveBeenCalledWith(path.join(UPLOADS_DIR, '3f2a.png'));
+    expect(api.db.find(/INSERT INTO audit_log/)).toHaveLength(1);
+  });
+
+  it.each([
+    '/uploads/../server.js',
+    '/uploads/../../.env',
+    '../../etc/passwd',
+    '/etc/passwd',
+    '/uploads/products/3f2a.png',
+    '/uploads',
+    'server.js',
+  ])('refuses %s before touching the disk or the audit log', async (imageUrl) => {
+    const response = await remove(imageUrl);
+
+    expect(response.status).toBe(400);
+    expect(unlink).not.toHaveBeenCalled();
+    expect(api.db.find(/INSERT INTO audit_log/)).toHaveLength(0);
+  });
+});
@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useTranslation } from "react-i18next";
-import { Plus, Package, TrendingUp, AlertTriangle, ArrowLeft, Edit } from "lucide-react";
+import { Plus, Package, TrendingUp, AlertTriangle, ArrowLeft, Edit, ScanBarcode, Printer, Upload } from "lucide-react";
 import { Navbar } from "./components/Navbar";
 import { ProductTable } from "./components/ProductTable";
 import { ProductForm } from "./components/ProductForm";
 import { SearchBar } from "./components/SearchBar";
 import { CategoryFilter } from "./components/CategoryFilter";
+import { LocationFilter } from "./components/LocationFilter";
 import { ProductTableSkeleton } from "./components/ProductTableSkeleton";
 import { StatsCardsSkeleton } from "./components/StatsCardsSkeleton";
 import { PageLoading } from "./components/ui/Spinner";
@@ -17,7 +18,25 @@ import type { Product, Category } from "./types";
 import { Route, Routes, useParams, useNavigate } from "react-router-dom";
 import { ViewProduct } from "./components/ViewProduct";
 import { ProductNotFound } from "./components/ProductNotFound";
+import { PointOfSale } from "./components/PointOfSale";
+import { CustomersPage, CustomerAccountPage } from "./components/Customers";
+import { SuppliersPage, SupplierDetailPage } from "./components/Suppliers";
+import { PurchaseOrdersPage, PurchaseOrderPage } from "./components/PurchaseOrders";
+import { ReorderSuggestionsPage } from "./components/ReorderSuggestions";
+import { StocktakesPage, StocktakePage } from "./components/Stocktakes";
+import { StockTransfersPage, StockTransferPage } from "./components/StockTransfers";
+import { LocationsPage } from "./components/Locations";
+import { LoginPage } from "./components/Login";
+import { PublicProductPage } from "./components/PublicProduct";
+import { CategoriesPage } from "./components/Categories";
+import { BarcodeScanner } from "./components/BarcodeScanner";
+import { LabelSheetsPage } from "./components/LabelSheets";
+import { ProductImport } from "./components/ProductImport";
+import { ExportButton } from "./components/ExportButton";
+import { useAuth } from "./components/auth-provider";
 import { useDebounce } from "./hooks/useDebounce";
+import { useLocations } from "./hooks/useLocations";
+import { shownStock } from "./lib/stock";
 import {
   useProducts,
   useCategories,
@@ -44,12 +63,20 @@ function ViewProductPage({
 
 function Dashboard() {
   const { i18n, t } = useTranslation();
+  const { hasRole } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
+  const [selectedLocation, setSelectedLocation] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [scannedBarcode, setScannedBarcode] = useState("");
+  const [selectedProductIds, setSelectedProductIds] = useState<number[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const navigate = useNavigate();
 
 
 
@@ -67,7 +94,9 @@ function Dashboard() {
     currentPage,
     50,
     "created_at",
-    "DESC"
+    "DESC",
+    selectedLocation,
+    "nested"
   );
 
   const {
@@ -75,6 +104,8 @@ function Dashboard() {
     isLoading: categoriesLoading,
   } = useCategories();
 
+  const { data: locationsResponse } = useLocations();
+
   // Mutation hooks for CRUD operations
   const createProductMutation = useCreateProduct();
   const updateProductMutation = useUpdateProduct();
@@ -83,6 +114,7 @@ function Dashboard() {
   // Extract data from responses
   const products = productsResponse?.products || [];
   const categories = categoriesResponse?.categories || [];
+  const locations = locationsResponse?.locations || [];
   const pagination =
     productsResponse?.pagination || {
       currentPage: 1,
@@ -112,10 +144,10 @@ function Dashboard() {
     }
   }, [i18n.language]);
 
-  // Reset to first page when search or category changes
+  // Reset to first page when search, category or location changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [debouncedSearch, selectedCategory]);
+  }, [debouncedSearch, selectedCategory, selectedLocation]);
 
   // Handle errors
   useEffect(() => {
@@ -142,9 +174,12 @@ function Dashboard() {
       }
       setIsFormOpen(false);
       setEditingProduct(null);
+      setVariantParent(null);
     } catch (error) {
-      // Error handling is done in the mutation hooks
+      // Toasts are shown by the mutation hooks; rethrow so ProductForm
+      // stays open and can offer a reload on an edit conflict
       console.error("Error saving product:", error);
+      throw error;
     }
   };
 
@@ -168,6 +203,7 @@ function Dashboard() {
         return;
       }
 
+      setVariantParent(null);
       setEditingProduct(product);
       setIsFormOpen(true);
     } catch (error) {
@@ -178,9 +214,36 @@ function Dashboard() {
 
   const handleAddProduct = () => {
     setEditingProduct(null);
+    setVariantParent(null);
+    setScannedBarcode("");
+    setIsFormOpen(true);
+  };
+
+  const handleAddVariant = (parent: Product) => {
+    setEditingProduct(null);
+    setVariantParent(parent);
+    setScannedBarcode("");
     setIsFormOpen(true);
   };
 
+  // Open the scanned product, or start a new one with that barcode when it is unknown
+  const handleBarcodeScanned = async (code: string) => {
+    setIsScannerOpen(false);
+    const { api } = await import("./services/api");
+    const product = await api.findProductByCode(code);
+    if (product) {
+      navigate(`/view/product/${product.id}`);
+    } else if (hasRole("staff")) {
+      toast.info(t("scanner.unknownBarcode", { code }));
+      setEditingProduct(null);
+      setVariantParent(null);
+      setScannedBarcode(code);
+      setIsFormOpen(true);
+    } else {
+      toast.error(t("scanner.noMatch", { code }));
+    }
+  };
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
     // Scroll to top when page changes
@@ -192,13 +255,10 @@ function Dashboard() {
     const totalProducts = pagination.totalItems;
     const totalValue = products.reduce((sum, product) => {
       const price = Number(product.selling_price) || 0;
-      const stock = Number(product.remaining_stock) || 0;
-      return sum + price * stock;
+      return sum + price * shownStock(product);
     }, 0);
     const lowStockProducts = products.filter(
-      (product) =>
-        (Number(product.remaining_stock) || 0) <=
-        (Number(product.min_stock_level) || 0)
+      (product) => shownStock(product) <= (Number(product.min_stock_level) || 0)
     ).length;
 
     return { totalProducts, totalValue, lowStockProducts };
@@ -266,17 +326,19 @@ function Dashboard() {
               {t("dashboard.title")}
             </h1>
           </div>
-          <Button
-            onClick={handleAddProduct}
-            disabled={isMutating}
-            className="text-white shadow-lg transition-all duration-300 hover:shadow-xl transform hover:scale-105"
-            style={{
-              backgroundColor: "#1e40af",
-            }}
-          >
-            <Plus className="mr-2 h-4 w-4" />
-            {t("products.add")}
-          </Button>
+          {hasRole("staff") && (
+            <Button
+              onClick={handleAddProduct}
+              disabled={isMutating}
+              className="text-white shadow-lg transition-all duration-300 hover:shadow-xl transform hover:scale-105"
+              style={{
+                backgroundColor: "#1e40af",
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t("products.add")}
+            </Button>
+          )}
         </div>
 
         {/* Stats Cards */}
@@ -341,6 +403,16 @@ function Dashboard() {
           <div className="flex-1">
             <SearchBar value={searchTerm} onChange={setSearchTerm} />
           </div>
+          <Button variant="outline" onClick={() => setIsScannerOpen(true)}>
+            <ScanBarcode className="mr-2 h-4 w-4" />
+            {t("scanner.scan")}
+          </Button>
+          {hasRole("staff") && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              {t("import.button")}
+            </Button>
+          )}
           <div className="md:w-64">
             <CategoryFilter
               categories={categories}
@@ -348,14 +420,46 @@ function Dashboard() {
               onChange={setSelectedCategory}
             />
           </div>
+          {locations.length > 1 && (
+            <div className="md:w-48">
+              <LocationFilter
+                locations={locations}
+                value={selectedLocation}
+                onChange={setSelectedLocation}
+              />
+            </div>
+          )}
+          <ExportButton
+            filters={{
+              search: debouncedSearch,
+              category: selectedCategory,
+              location_id: selectedLocation,
+              sortBy: "created_at",
+              sortOrder: "DESC",
+            }}
+          />
         </div>
 
         {/* Products Table */}
         <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle className="text-blue-800 dark:text-blue-400">
               {t("products.list")}
             </CardTitle>
+            {selectedProductIds.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSelectedProductIds([])}>
+                  {t("products.clearSelection")}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => navigate(`/labels?ids=${selectedProductIds.join(",")}`)}
+                >
+                  <Printer className="mr-2 h-4 w-4" />
+                  {t("labels.printSelected", { count: selectedProductIds.length })}
+                </Button>
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             {/* Show loading indicator during search without replacing content */}
@@ -376,6 +480,10 @@ function Dashboard() {
                   categories={categories}
                   onEdit={handleEditProduct}
                   onDelete={handleProductDelete}
+                  onAddVariant={handleAddVariant}
+                  locations={locations}
+                  selectedIds={selectedProductIds}
+                  onSelectionChange={hasRole("staff") ? setSelectedProductIds : undefined}
                 />
 
                 {/* Pagination */}
@@ -403,10 +511,26 @@ function Dashboard() {
           onClose={() => {
             setIsFormOpen(false);
             setEditingProduct(null);
+            setVariantParent(null);
+            setScannedBarcode("");
           }}
           onSave={handleProductSave}
           categories={categories}
           editingProduct={editingProduct}
+          defaultBarcode={scannedBarcode}
+          parentProduct={variantParent}
+        />
+
+        <BarcodeScanner
+          isOpen={isScannerOpen}
+          onClose={() => setIsScannerOpen(false)}
+          onDetected={handleBarcodeScanned}
+        />
+
+        <ProductImport
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          categories={categories}
         />
       </main>
       <Toaster />
@@ -415,11 +539,46 @@ function Dashboard() {
 }
 
 function App() {
+  const { user, isLoading, hasRole } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <PageLoading />
+      </div>
+    );
+  }
+
+  // Customers scanning a product QR code see its public page; everything else asks for a login
+  if (!user) {
+    return (
+      <Routes>
+        <Route path="/view/product/:id" element={<PublicProductPage />} />
+        <Route path="*" element={<LoginPage />} />
+      </Routes>
+    );
+  }
+
   return (
     <Routes>
       <Route path="/" element={<Dashboard />} />
       <Route path="/view/product/:id" element={<ViewProductPageWrapper />} />
       <Route path="/edit/product/:id" element={<EditProductPageWrapper />} />
+      <Route path="/pos" element={<PointOfSale />} />
+      <Route path="/customers" element={<CustomersPage />} />
+      <Route path="/customers/:id" element={<CustomerAccountPage />} />
+      <Route path="/suppliers" element={<SuppliersPage />} />
+      <Route path="/suppliers/:id" element={<SupplierDetailPage />} />
+      <Route path="/purchase-orders" element={<PurchaseOrdersPage />} />
+      <Route path="/purchase-orders/:id" element={<PurchaseOrderPage />} />
+      <Route path="/reorder" element={<ReorderSuggestionsPage />} />
+      <Route path="/stocktakes" element={<StocktakesPage />} />
+      <Route path="/stocktakes/:id" element={<StocktakePage />} />
+      <Route path="/transfers" element={<StockTransfersPage />} />
+      <Route path="/transfers/:id" element={<StockTransferPage />} />
+      {hasRole("staff") && <Route path="/labels" element={<LabelSheetsPage />} />}
+      {hasRole("admin") && <Route path="/categories" element={<CategoriesPage />} />}
+      {hasRole("admin") && <Route path="/locations" element={<LocationsPage />} />}
     </Routes>
   );
 }
@@ -480,7 +639,13 @@ function ViewProductPageWrapper() {
     return <ProductNotFound />;
   }
 
-  return <ViewProduct product={product} categories={categories} />;
+  return (
+    <ViewProduct
+      product={product}
+      categories={categories}
+      onStockChange={fetchData}
+    />
+  );
 }
 
 function EditProductPageWrapper() {
@@ -488,6 +653,7 @@ function EditProductPageWrapper() {
   const productId = Number(id);
   const navigate = useNavigate();
   const { t } = useTranslation();
+  const updateProductMutation = useUpdateProduct();
   const [product, setProduct] = useState<Product | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
@@ -572,10 +738,10 @@ function EditProductPageWrapper() {
           editingProduct={product}
           onClose={() => navigate(-1)}
           onSave={async (formData) => {
-            // Handle product update here
-            console.log('Product update:', formData);
-            // TODO: Implement actual update logic with API
-            navigate(-1);
+            await updateProductMutation.mutateAsync({
+              ...formData,
+              id: product.id,
+            });
           }}
         />
       </div>
@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Camera, ImageIcon, ScanBarcode } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { decodeEan13 } from "@/lib/barcode";
+
+// Time between two decode attempts on the camera stream
+const SCAN_INTERVAL_MS = 250;
+
+// Frames and photos are scaled down to this width before decoding
+const MAX_DECODE_WIDTH = 1280;
+
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+
+type NativeBarcodeDetectorConstructor = new (options: { formats: string[] }) => NativeBarcodeDetector;
+
+// The browser's built-in detector (Chrome on Android, the Capacitor WebView)
+// also reads Code 128 SKU labels; elsewhere only the EAN-13 decoder runs.
+const createNativeDetector = (): NativeBarcodeDetector | null => {
+  const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor })
+    .BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: ["ean_13", "ean_8", "upc_a", "code_128"] });
+  } catch {
+    return null;
+  }
+};
+
+const detectBarcode = async (
+  source: HTMLVideoElement | HTMLImageElement,
+  canvas: HTMLCanvasElement,
+  nativeDetector: NativeBarcodeDetector | null
+): Promise<string | null> => {
+  if (nativeDetector) {
+    try {
+      const [barcode] = await nativeDetector.detect(source);
+      if (barcode?.rawValue) return barcode.rawValue;
+    } catch (error) {
+      console.error("Native barcode detection failed:", error);
+    }
+  }
+
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(1, MAX_DECODE_WIDTH / sourceWidth);
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeEan13(context.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+interface BarcodeScannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDetected: (code: string) => void;
+}
+
+// Reads a barcode from the camera, a photo, or typed digits, and hands it to onDetected
+export function BarcodeScanner({ isOpen, onClose, onDetected }: BarcodeScannerProps) {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [cameraError, setCameraError] = useState(false);
+  const [isDecodingPhoto, setIsDecodingPhoto] = useState(false);
+  const [manualCode, setManualCode] = useState("");
+
+  onDetectedRef.current = onDetected;
+
+  // Start the rear camera while the dialog is open and decode frames until a code is found
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    const nativeDetector = createNativeDetector();
+    setCameraError(false);
+    setManualCode("");
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (cancelled || !video || !canvas) return;
+
+      if (video.readyState >= video.HAVE_CURRENT_DATA) {
+        const code = await detectBarcode(video, canvas, nativeDetector);
+        if (cancelled) return;
+        if (code) {
+          onDetectedRef.current(code);
+          return;
+        }
+      }
+      timer = window.setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError(true);
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          for (const track of mediaStream.getTracks()) track.stop();
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          await videoRef.current.play();
+        }
+        scanFrame();
+      })
+      .catch((error) => {
+        console.error("Camera unavailable:", error);
+        if (!cancelled) setCameraError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      if (stream) {
+        for (const track of stream.getTracks()) track.stop();
+      }
+    };
+  }, [isOpen]);
+
+  const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !canvasRef.current) return;
+
+    setIsDecodingPhoto(true);
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      const code = await detectBarcode(image, canvasRef.current, createNativeDetector());
+      if (code) {
+        onDetected(code);
+      } else {
+        toast.error(t("scanner.notFound"));
+      }
+    } catch (error) {
+      console.error("Error reading photo:", error);
+      toast.error(t("scanner.notFound"));
+    } finally {
+      URL.revokeObjectURL(url);
+      setIsDecodingPhoto(false);
+    }
+  };
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const code = manualCode.trim();
+    if (code) onDetected(code);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanBarcode className="h-5 w-5" />
+            {t("scanner.title")}
+          </DialogTitle>
+          <DialogDescription>{t("scanner.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative aspect-video rounded-lg overflow-hidden bg-gray-900">
+          {cameraError ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-gray-300">
+              <Camera className="h-8 w-8" />
+              <p className="text-sm">{t("scanner.cameraUnavailable")}</p>
+            </div>
+          ) : (
+            <>
+              <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+              {/* Aiming line across the middle of the frame */}
+              <div className="absolute left-6 right-6 top-1/2 h-0.5 bg-red-500/80 shadow" />
+            </>
+          )}
+        </div>
+        <canvas ref={canvasRef} className="hidden" />
+
+        <div className="flex flex-col gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            onChange={handlePhoto}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isDecodingPhoto}
+          >
+            <ImageIcon className="h-4 w-4 mr-2" />
+            {isDecodingPhoto ? t("scanner.readingPhoto") : t("scanner.fromPhoto")}
+          </Button>
+
+          <form onSubmit={handleManualSubmit} className="flex gap-2">
+            <Input
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder={t("scanner.manualPlaceholder")}
+              inputMode="numeric"
+              dir="ltr"
+            />
+            <Button type="submit" disabled={!manualCode.trim()}>
+              {t("scanner.useCode")}
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
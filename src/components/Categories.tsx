@@ -0,0 +1,388 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "sonner";
+import type { Category, CategoryInput } from "@/types";
+import { useCategories, useSaveCategory, useDeleteCategory } from "@/hooks/useProducts";
+import { localizedName } from "@/lib/localize";
+import { Navbar } from "./Navbar";
+
+const DEFAULT_COLOR = "#0f766e";
+
+const EMPTY_CATEGORY: CategoryInput = {
+  name: "",
+  name_ar: "",
+  name_fr: "",
+  description: "",
+  description_ar: "",
+  description_fr: "",
+  icon: "",
+  color: DEFAULT_COLOR,
+};
+
+// Translated fields, edited side by side
+const LANGUAGE_FIELDS = [
+  { suffix: "fr", dir: "ltr" },
+  { suffix: "ar", dir: "rtl" },
+] as const;
+
+function CategoryFormDialog({
+  isOpen,
+  onClose,
+  category,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  category: Category | null;
+}) {
+  const { t } = useTranslation();
+  const saveCategory = useSaveCategory();
+  const [values, setValues] = useState<CategoryInput>(EMPTY_CATEGORY);
+
+  useEffect(() => {
+    setValues(
+      category
+        ? {
+            name: category.name,
+            name_ar: category.name_ar || "",
+            name_fr: category.name_fr || "",
+            description: category.description || "",
+            description_ar: category.description_ar || "",
+            description_fr: category.description_fr || "",
+            icon: category.icon || "",
+            color: category.color || DEFAULT_COLOR,
+          }
+        : EMPTY_CATEGORY
+    );
+  }, [category]);
+
+  const setField = (field: keyof CategoryInput, value: string) =>
+    setValues((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await saveCategory.mutateAsync({ category: values, id: category?.id });
+      onClose();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error saving category:", error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-primary">
+            {category ? t("categoryAdmin.edit") : t("categoryAdmin.add")}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto_auto] gap-4">
+            <div className="space-y-2">
+              <Label>{t("categoryAdmin.name")}</Label>
+              <Input
+                required
+                value={values.name}
+                onChange={(e) => setField("name", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("categoryAdmin.icon")}</Label>
+              <Input
+                className="w-20 text-center"
+                maxLength={8}
+                value={values.icon}
+                onChange={(e) => setField("icon", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("categoryAdmin.color")}</Label>
+              <Input
+                type="color"
+                className="w-16 p-1"
+                value={values.color}
+                onChange={(e) => setField("color", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {LANGUAGE_FIELDS.map(({ suffix, dir }) => (
+              <div key={suffix} className="space-y-2">
+                <Label>{t(`categoryAdmin.nameIn.${suffix}`)}</Label>
+                <Input
+                  dir={dir}
+                  value={values[`name_${suffix}`]}
+                  onChange={(e) => setField(`name_${suffix}`, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>{t("categoryAdmin.description")}</Label>
+            <Input
+              value={values.description}
+              onChange={(e) => setField("description", e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {LANGUAGE_FIELDS.map(({ suffix, dir }) => (
+              <div key={suffix} className="space-y-2">
+                <Label>{t(`categoryAdmin.descriptionIn.${suffix}`)}</Label>
+                <Input
+                  dir={dir}
+                  value={values[`description_${suffix}`]}
+                  onChange={(e) => setField(`description_${suffix}`, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t("form.cancel")}
+            </Button>
+            <Button type="submit" disabled={saveCategory.isPending}>
+              {saveCategory.isPending ? t("form.saving") : t("form.save")}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Deleting a category that still has products asks where to move them
+function DeleteCategoryDialog({
+  category,
+  categories,
+  onClose,
+}: {
+  category: Category | null;
+  categories: Category[];
+  onClose: () => void;
+}) {
+  const { t, i18n } = useTranslation();
+  const deleteCategory = useDeleteCategory();
+  const [reassignTo, setReassignTo] = useState("");
+
+  if (!category) return null;
+
+  const productCount = Number(category.product_count) || 0;
+  const targets = categories.filter((c) => c.id !== category.id);
+
+  const handleDelete = async () => {
+    try {
+      await deleteCategory.mutateAsync({
+        id: category.id,
+        reassignTo: productCount > 0 ? Number(reassignTo) : undefined,
+      });
+      onClose();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error deleting category:", error);
+    }
+  };
+
+  return (
+    <Dialog open={!!category} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{t("dialog.deleteTitle")}</DialogTitle>
+          <DialogDescription>
+            {productCount > 0
+              ? t("categoryAdmin.reassignMessage", {
+                  name: localizedName(category, i18n.language),
+                  count: productCount,
+                })
+              : t("categoryAdmin.deleteConfirm", { name: localizedName(category, i18n.language) })}
+          </DialogDescription>
+        </DialogHeader>
+        {productCount > 0 && (
+          <div className="space-y-2">
+            <Label>{t("categoryAdmin.moveTo")}</Label>
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("categoryAdmin.chooseCategory")} />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((target) => (
+                  <SelectItem key={target.id} value={target.id.toString()}>
+                    {target.icon && `${target.icon} `}
+                    {localizedName(target, i18n.language)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex justify-end space-x-3 pt-4">
+          <Button type="button" variant="outline" onClick={onClose}>
+            {t("dialog.cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={deleteCategory.isPending || (productCount > 0 && !reassignTo)}
+            onClick={handleDelete}
+          >
+            {productCount > 0 ? t("categoryAdmin.moveAndDelete") : t("dialog.delete")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CategoriesPage() {
+  const { t, i18n } = useTranslation();
+  const { data, isLoading } = useCategories();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+
+  const categories = data?.categories || [];
+
+  const openForm = (category: Category | null) => {
+    setEditingCategory(category);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("categoryAdmin.title")}
+          </h1>
+          <Button
+            onClick={() => openForm(null)}
+            className="text-white shadow-lg"
+            style={{ backgroundColor: "#1e40af" }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t("categoryAdmin.add")}
+          </Button>
+        </div>
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : categories.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("categoryAdmin.empty")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">{t("categoryAdmin.icon")}</TableHead>
+                      <TableHead>{t("categoryAdmin.name")}</TableHead>
+                      <TableHead>{t("categoryAdmin.nameIn.fr")}</TableHead>
+                      <TableHead>{t("categoryAdmin.nameIn.ar")}</TableHead>
+                      <TableHead>{t("categoryAdmin.productCount")}</TableHead>
+                      <TableHead className="text-center">{t("products.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categories.map((category) => (
+                      <TableRow key={category.id}>
+                        <TableCell>
+                          <span
+                            className="inline-flex h-9 w-9 items-center justify-center rounded-full text-lg"
+                            style={{ backgroundColor: `${category.color || DEFAULT_COLOR}33` }}
+                          >
+                            {category.icon}
+                          </span>
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="h-3 w-3 rounded-full"
+                              style={{ backgroundColor: category.color || DEFAULT_COLOR }}
+                            />
+                            {localizedName(category, i18n.language)}
+                          </span>
+                        </TableCell>
+                        <TableCell>{category.name_fr}</TableCell>
+                        <TableCell dir="rtl">{category.name_ar}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{category.product_count || 0}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              className="text-blue-700 hover:bg-blue-100 hover:text-blue-800 border border-gray-300 dark:border dark:border-gray-700"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openForm(category)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700 border border-gray-300 dark:border dark:border-gray-700"
+                              variant="outline"
+                              size="sm"
+                              disabled={categories.length < 2 && Number(category.product_count) > 0}
+                              onClick={() => setDeletingCategory(category)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <CategoryFormDialog
+          isOpen={isFormOpen}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingCategory(null);
+          }}
+          category={editingCategory}
+        />
+        {/* Keyed so the chosen target resets for each category */}
+        <DeleteCategoryDialog
+          key={deletingCategory?.id ?? "none"}
+          category={deletingCategory}
+          categories={categories}
+          onClose={() => setDeletingCategory(null)}
+        />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import type { Category } from "@/types";
+import { localizedName } from "@/lib/localize";
 
 interface CategoryFilterProps {
   categories: Category[];
@@ -19,7 +20,7 @@ export function CategoryFilter({
   value,
   onChange,
 }: CategoryFilterProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
 
   return (
     <Select value={value} onValueChange={onChange}>
@@ -41,7 +42,14 @@ export function CategoryFilter({
             value={category.id.toString()}
             className="hover:bg-blue-50 dark:focus:bg-accent  hover:dark:text-white hover:text-gray-950 focus:bg-blue-50 focus:text-black"
           >
-            {category.name}
+            <span className="flex items-center gap-2">
+              <span
+                className="h-2.5 w-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: category.color || "#0f766e" }}
+              />
+              {category.icon && <span aria-hidden="true">{category.icon}</span>}
+              {localizedName(category, i18n.language)}
+            </span>
           </SelectItem>
         ))}
       </SelectContent>
@@ -0,0 +1,574 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Eye,
+  ArrowLeft,
+  Download,
+  Wallet,
+  Users,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "sonner";
+import type { Customer, CustomerInput, CustomerPaymentMethod } from "@/types";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  useCustomers,
+  useCustomer,
+  useCustomerStatement,
+  useSaveCustomer,
+  useDeleteCustomer,
+  useRecordCustomerPayment,
+} from "@/hooks/useCustomers";
+import { downloadCsv } from "@/lib/csv";
+import { SearchBar } from "./SearchBar";
+import { Navbar } from "./Navbar";
+import { useAuth } from "./auth-provider";
+
+const EMPTY_CUSTOMER: CustomerInput = {
+  name: "",
+  phone: "",
+  email: "",
+  address: "",
+  credit_limit: 0,
+  notes: "",
+};
+
+const formatAmount = (value: number) => Number(value || 0).toFixed(2);
+
+function CustomerFormDialog({
+  isOpen,
+  onClose,
+  customer,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: Customer | null;
+}) {
+  const { t } = useTranslation();
+  const saveCustomer = useSaveCustomer();
+  const [values, setValues] = useState<CustomerInput>(EMPTY_CUSTOMER);
+
+  useEffect(() => {
+    setValues(
+      customer
+        ? {
+            name: customer.name,
+            phone: customer.phone || "",
+            email: customer.email || "",
+            address: customer.address || "",
+            credit_limit: Number(customer.credit_limit) || 0,
+            notes: customer.notes || "",
+          }
+        : EMPTY_CUSTOMER
+    );
+  }, [customer]);
+
+  const setField = (field: keyof CustomerInput, value: string | number) =>
+    setValues((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await saveCustomer.mutateAsync({ customer: values, id: customer?.id });
+      onClose();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error saving customer:", error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-primary">
+            {customer ? t("customers.edit") : t("customers.add")}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("customers.name")}</Label>
+            <Input
+              required
+              value={values.name}
+              onChange={(e) => setField("name", e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t("customers.phone")}</Label>
+              <Input
+                value={values.phone}
+                onChange={(e) => setField("phone", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("customers.email")}</Label>
+              <Input
+                type="email"
+                value={values.email}
+                onChange={(e) => setField("email", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("customers.address")}</Label>
+            <Input
+              value={values.address}
+              onChange={(e) => setField("address", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("customers.creditLimit")}</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={values.credit_limit}
+              onChange={(e) =>
+                setField("credit_limit", Number.parseFloat(e.target.value) || 0)
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("customers.creditLimitHint")}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("customers.notes")}</Label>
+            <Input
+              value={values.notes}
+              onChange={(e) => setField("notes", e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t("form.cancel")}
+            </Button>
+            <Button type="submit" disabled={saveCustomer.isPending}>
+              {saveCustomer.isPending ? t("form.saving") : t("form.save")}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CustomersPage() {
+  const { t } = useTranslation();
+  const { hasRole } = useAuth();
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const debouncedSearch = useDebounce(searchTerm, 300);
+  const { data, isLoading } = useCustomers(debouncedSearch);
+  const deleteCustomer = useDeleteCustomer();
+
+  const customers = data?.customers || [];
+  const totalOwed = customers.reduce(
+    (sum, customer) => sum + Math.max(0, Number(customer.balance) || 0),
+    0
+  );
+
+  const openForm = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("customers.title")}
+          </h1>
+          {hasRole("staff") && (
+            <Button
+              onClick={() => openForm(null)}
+              className="text-white shadow-lg"
+              style={{ backgroundColor: "#1e40af" }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t("customers.add")}
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-blue-800 dark:text-blue-400">
+                {t("customers.count")}
+              </CardTitle>
+              <Users className="h-4 w-4 text-blue-800 dark:text-blue-400" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-blue-800 dark:text-blue-400">
+                {customers.length}
+              </div>
+            </CardContent>
+          </Card>
+          <Card className="border-2 shadow-lg border-orange-600 dark:border-orange-400 dark:bg-gray-800">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-orange-600 dark:text-orange-400">
+                {t("customers.totalOwed")}
+              </CardTitle>
+              <Wallet className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">
+                {formatAmount(totalOwed)} {t("currency")}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="mb-6">
+          <SearchBar value={searchTerm} onChange={setSearchTerm} />
+        </div>
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : customers.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("customers.empty")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("customers.name")}</TableHead>
+                      <TableHead>{t("customers.phone")}</TableHead>
+                      <TableHead>{t("customers.creditLimit")}</TableHead>
+                      <TableHead>{t("customers.balance")}</TableHead>
+                      <TableHead className="text-center">{t("products.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {customers.map((customer) => {
+                      const balance = Number(customer.balance) || 0;
+                      return (
+                        <TableRow key={customer.id}>
+                          <TableCell className="font-medium">{customer.name}</TableCell>
+                          <TableCell>{customer.phone}</TableCell>
+                          <TableCell>
+                            {Number(customer.credit_limit) > 0
+                              ? `${formatAmount(customer.credit_limit)} ${t("currency")}`
+                              : "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={balance > 0 ? "destructive" : "default"}>
+                              {formatAmount(balance)} {t("currency")}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end space-x-2">
+                              {hasRole("staff") && (
+                                <Button
+                                  className="text-blue-700 hover:bg-blue-100 hover:text-blue-800 border border-gray-300 dark:border dark:border-gray-700"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openForm(customer)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {hasRole("admin") && (
+                                <Button
+                                  className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700 border border-gray-300 dark:border dark:border-gray-700"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    if (window.confirm(t("customers.deleteConfirm", { name: customer.name }))) {
+                                      deleteCustomer.mutate(customer.id);
+                                    }
+                                  }}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button
+                                className="text-green-700 hover:text-green-700 hover:bg-green-100 border border-gray-300 dark:border dark:border-gray-700"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => navigate(`/customers/${customer.id}`)}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <CustomerFormDialog
+          isOpen={isFormOpen}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingCustomer(null);
+          }}
+          customer={editingCustomer}
+        />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
+
+export function CustomerAccountPage() {
+  const { t } = useTranslation();
+  const { hasRole } = useAuth();
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const customerId = Number(id) || 0;
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<CustomerPaymentMethod>("cash");
+  const [paymentReference, setPaymentReference] = useState("");
+
+  const { data: customerResponse } = useCustomer(customerId);
+  const { data: statementResponse, isLoading } = useCustomerStatement(customerId, from, to);
+  const recordPayment = useRecordCustomerPayment(customerId);
+
+  const customer = customerResponse?.customer;
+  const statement = statementResponse?.statement;
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number.parseFloat(paymentAmount);
+    if (!(amount > 0)) return;
+
+    try {
+      await recordPayment.mutateAsync({
+        amount,
+        method: paymentMethod,
+        reference: paymentReference || undefined,
+      });
+      setPaymentAmount("");
+      setPaymentReference("");
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error recording payment:", error);
+    }
+  };
+
+  const handleExport = () => {
+    if (!statement) return;
+    const rows = [
+      [t("customers.statementFor", { name: statement.customer.name })],
+      [t("customers.from"), statement.from || "", t("customers.to"), statement.to || ""],
+      [],
+      [
+        t("customers.date"),
+        t("customers.entryType"),
+        t("customers.reference"),
+        t("customers.debit"),
+        t("customers.credit"),
+        t("customers.balance"),
+      ],
+      ["", t("customers.openingBalance"), "", "", "", formatAmount(statement.opening_balance)],
+      ...statement.entries.map((entry) => [
+        new Date(entry.date).toLocaleDateString(),
+        t(`customers.entryTypes.${entry.type}`),
+        entry.reference,
+        entry.debit ? formatAmount(entry.debit) : "",
+        entry.credit ? formatAmount(entry.credit) : "",
+        formatAmount(entry.balance),
+      ]),
+      ["", t("customers.closingBalance"), "", "", "", formatAmount(statement.closing_balance)],
+    ];
+    const suffix = [statement.from, statement.to].filter(Boolean).join("_");
+    downloadCsv(
+      rows,
+      `releve-${statement.customer.name.replace(/\s+/g, "-")}${suffix ? `-${suffix}` : ""}.csv`
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/customers")}
+            className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20 shadow-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("actions.goBack")}
+          </Button>
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {customer?.name}
+          </h1>
+          {customer && (
+            <Badge variant={Number(customer.balance) > 0 ? "destructive" : "default"} className="text-base">
+              {t("customers.balance")}: {formatAmount(customer.balance)} {t("currency")}
+            </Badge>
+          )}
+        </div>
+
+        {/* Payment receipt */}
+        {hasRole("staff") && (
+          <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            <CardHeader>
+              <CardTitle className="text-blue-800 dark:text-blue-400">
+                {t("customers.recordPayment")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleRecordPayment} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                  placeholder={t("customers.amount")}
+                />
+                <Select
+                  value={paymentMethod}
+                  onValueChange={(value) => setPaymentMethod(value as CustomerPaymentMethod)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(["cash", "card", "transfer", "cheque"] as const).map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {t(`customers.methods.${method}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                  placeholder={t("customers.reference")}
+                />
+                <Button type="submit" disabled={recordPayment.isPending}>
+                  {recordPayment.isPending ? t("form.saving") : t("customers.recordPayment")}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Statement */}
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4 space-y-0">
+            <CardTitle className="text-blue-800 dark:text-blue-400">
+              {t("customers.statement")}
+            </CardTitle>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label>{t("customers.from")}</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t("customers.to")}</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <Button variant="outline" onClick={handleExport} disabled={!statement}>
+                <Download className="h-4 w-4 mr-2" />
+                {t("customers.export")}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading || !statement ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("customers.date")}</TableHead>
+                      <TableHead>{t("customers.entryType")}</TableHead>
+                      <TableHead>{t("customers.reference")}</TableHead>
+                      <TableHead className="text-right">{t("customers.debit")}</TableHead>
+                      <TableHead className="text-right">{t("customers.credit")}</TableHead>
+                      <TableHead className="text-right">{t("customers.balance")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell colSpan={5} className="font-medium">
+                        {t("customers.openingBalance")}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatAmount(statement.opening_balance)}
+                      </TableCell>
+                    </TableRow>
+                    {statement.entries.map((entry) => (
+                      <TableRow key={`${entry.type}-${entry.reference}-${entry.date}`}>
+                        <TableCell>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                        <TableCell>{t(`customers.entryTypes.${entry.type}`)}</TableCell>
+                        <TableCell>{entry.reference}</TableCell>
+                        <TableCell className="text-right text-red-600">
+                          {entry.debit ? formatAmount(entry.debit) : ""}
+                        </TableCell>
+                        <TableCell className="text-right text-green-600">
+                          {entry.credit ? formatAmount(entry.credit) : ""}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(entry.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={5} className="font-bold">
+                        {t("customers.closingBalance")}
+                      </TableCell>
+                      <TableCell className="text-right font-bold">
+                        {formatAmount(statement.closing_balance)} {t("currency")}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Toaster />
+    </div>
+  );
+}
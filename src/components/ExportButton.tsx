@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ProductExportFormat, ProductListFilters } from "@/types";
+import { api } from "@/services/api";
+import { downloadBlob } from "@/lib/utils";
+
+const FORMATS: ProductExportFormat[] = ["csv", "xlsx", "pdf"];
+
+// Download the products matching the dashboard's current filters
+export function ExportButton({ filters }: { filters: ProductListFilters }) {
+  const { t, i18n } = useTranslation();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ProductExportFormat) => {
+    setExporting(true);
+    try {
+      // The server only makes PDFs in French; the Arabic menu says so
+      const lang = format === "pdf" ? "fr" : i18n.language;
+      const result = await api.exportProducts(filters, format, lang);
+      if (!result.success || !result.file) {
+        toast.error(result.error || t("export.error"));
+        return;
+      }
+      downloadBlob(result.file, `inventory-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting}>
+          <Download className="mr-2 h-4 w-4" />
+          {exporting ? t("export.exporting") : t("export.button")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {t(`export.formats.${format}`)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
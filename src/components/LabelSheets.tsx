@@ -0,0 +1,339 @@
+import { useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useSearchParams } from "react-router-dom";
+import { Printer, Tags } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Toaster, toast } from "sonner";
+import type { LabelProduct } from "@/types";
+import { api } from "@/services/api";
+import { encodeCode128, encodeEan13, isValidEan13 } from "@/lib/barcode";
+import { LABEL_LAYOUTS, type LabelLayout, labelsPerSheet, paginateLabels } from "@/lib/labels";
+import { localizedName } from "@/lib/localize";
+import { encodeQr, qrSvgPath } from "@/lib/qrcode";
+import { productLink } from "@/lib/utils";
+import { Navbar } from "./Navbar";
+
+// Blank modules each side of a barcode; scanners need at least 10 (Code 128) or 11 (EAN-13)
+const BARCODE_QUIET_ZONE = 11;
+
+const MAX_COPIES = 50;
+
+interface LabelGraphics {
+  barcode: { modules: string; text: string } | null;
+  qr: boolean[][];
+}
+
+// EAN-13 when the product has a valid one, otherwise Code 128 of its barcode or SKU
+const labelBarcode = (product: LabelProduct) => {
+  if (product.barcode && isValidEan13(product.barcode)) {
+    return { modules: encodeEan13(product.barcode), text: product.barcode };
+  }
+  const code = product.barcode || product.sku;
+  if (!code) return null;
+  try {
+    return { modules: encodeCode128(code), text: code };
+  } catch {
+    // Codes with characters Code 128 cannot carry are printed as text only
+    return null;
+  }
+};
+
+function BarcodeSvg({ modules, className }: { modules: string; className?: string }) {
+  const bars: string[] = [];
+  for (let x = 0; x < modules.length; x++) {
+    if (modules[x] !== "1") continue;
+    let width = 1;
+    while (modules[x + width] === "1") width++;
+    bars.push(`M${x},0h${width}v1h-${width}z`);
+    x += width - 1;
+  }
+
+  return (
+    <svg
+      viewBox={`${-BARCODE_QUIET_ZONE} 0 ${modules.length + BARCODE_QUIET_ZONE * 2} 1`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+      className={className}
+    >
+      <path d={bars.join("")} fill="#000000" />
+    </svg>
+  );
+}
+
+function ShelfLabel({ product, graphics, layout, showQr }: {
+  product: LabelProduct;
+  graphics: LabelGraphics;
+  layout: LabelLayout;
+  showQr: boolean;
+}) {
+  const { t, i18n } = useTranslation();
+  // Type scales with the label height so large labels stay readable from the aisle
+  const scale = layout.labelHeight / 38.1;
+  const qrSize = Math.min(layout.labelHeight - 6, 24 * scale);
+  // The label padding adds to this 2-module border to give the QR its quiet zone
+  const qrViewBox = graphics.qr.length + 4;
+
+  return (
+    <div className="flex h-full gap-[2mm] p-[2.5mm] text-black overflow-hidden">
+      <div className="flex flex-1 min-w-0 flex-col justify-between">
+        <p className="font-semibold leading-tight line-clamp-2" style={{ fontSize: `${9 * scale}pt` }}>
+          {localizedName(product, i18n.language)}
+        </p>
+        <p className="font-bold leading-none" style={{ fontSize: `${16 * scale}pt` }}>
+          {Number(product.selling_price).toFixed(2)} {t("currency")}
+          {product.unit && (
+            <span className="font-normal" style={{ fontSize: `${7 * scale}pt` }}>
+              {" "}/ {t(`units.${product.unit}`)}
+            </span>
+          )}
+        </p>
+        {graphics.barcode ? (
+          <div>
+            <BarcodeSvg modules={graphics.barcode.modules} className="w-full" />
+            <p className="text-center font-mono leading-none" style={{ fontSize: `${6 * scale}pt` }}>
+              {graphics.barcode.text}
+            </p>
+          </div>
+        ) : (
+          product.sku && (
+            <p className="font-mono" style={{ fontSize: `${6 * scale}pt` }}>{product.sku}</p>
+          )
+        )}
+      </div>
+      {showQr && (
+        <svg
+          viewBox={`0 0 ${qrViewBox} ${qrViewBox}`}
+          shapeRendering="crispEdges"
+          className="self-center shrink-0"
+          style={{ width: `${qrSize}mm`, height: `${qrSize}mm` }}
+        >
+          <path d={qrSvgPath(graphics.qr, 2)} fill="#000000" />
+        </svg>
+      )}
+    </div>
+  );
+}
+
+// Print-ready A4 sheets of shelf labels, for the products passed as ?ids=1,2,3
+// or for every product repriced since ?since=YYYY-MM-DD
+export function LabelSheetsPage() {
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const ids = searchParams.get("ids");
+  const since = searchParams.get("since");
+  const [products, setProducts] = useState<LabelProduct[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [showQr, setShowQr] = useState(true);
+  const [copies, setCopies] = useState(1);
+  const [skip, setSkip] = useState(0);
+  const [sinceDate, setSinceDate] = useState(since || "");
+
+  const layout = LABEL_LAYOUTS.find((item) => item.id === layoutId) || LABEL_LAYOUTS[0];
+
+  useEffect(() => {
+    const productIds = (ids || "").split(",").map(Number).filter((id) => id > 0);
+    if (productIds.length === 0 && !since) {
+      setProducts([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    api
+      .getLabelProducts(productIds.length > 0 ? { ids: productIds } : { priceChangedSince: since || "" })
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success) {
+          setProducts(result.products || []);
+        } else {
+          setProducts([]);
+          toast.error(result.error || t("labels.loadError"));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ids, since, t]);
+
+  // Encode each product once, however many copies are printed
+  const graphics = useMemo(
+    () =>
+      new Map<number, LabelGraphics>(
+        products.map((product) => [
+          product.id,
+          { barcode: labelBarcode(product), qr: encodeQr(productLink(product.id)) },
+        ])
+      ),
+    [products]
+  );
+
+  const labels = products.flatMap((product) =>
+    Array.from({ length: copies }, (_, copy) => ({ key: `${product.id}-${copy}`, product }))
+  );
+  const pages = paginateLabels(labels, layout, skip);
+
+  const handleLoadChanged = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (sinceDate) setSearchParams({ since: sinceDate });
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900 print:bg-white">
+      <div className="print:hidden">
+        <Navbar />
+      </div>
+      <main className="container mx-auto px-4 py-8 space-y-6 print:p-0 print:m-0 print:max-w-none">
+        <div className="print:hidden space-y-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+              {t("labels.title")}
+            </h1>
+            <Button
+              className="ml-auto text-white"
+              style={{ backgroundColor: "#1e40af" }}
+              disabled={labels.length === 0}
+              onClick={() => window.print()}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              {t("labels.print")}
+            </Button>
+          </div>
+
+          <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            <CardContent className="pt-6 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              <div className="space-y-2">
+                <Label>{t("labels.layout")}</Label>
+                <Select value={layoutId} onValueChange={setLayoutId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_LAYOUTS.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {t("labels.layoutOption", {
+                          id: item.id,
+                          count: labelsPerSheet(item),
+                          width: item.labelWidth,
+                          height: item.labelHeight,
+                        })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="label-copies">{t("labels.copies")}</Label>
+                <Input
+                  id="label-copies"
+                  type="number"
+                  min={1}
+                  max={MAX_COPIES}
+                  value={copies}
+                  onChange={(e) => setCopies(Math.min(MAX_COPIES, Math.max(1, Number(e.target.value) || 1)))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="label-skip">{t("labels.skip")}</Label>
+                <Input
+                  id="label-skip"
+                  type="number"
+                  min={0}
+                  max={labelsPerSheet(layout) - 1}
+                  value={skip}
+                  onChange={(e) =>
+                    setSkip(Math.min(labelsPerSheet(layout) - 1, Math.max(0, Number(e.target.value) || 0)))
+                  }
+                />
+              </div>
+              <label className="flex items-center gap-2 self-end pb-2 text-sm">
+                <input type="checkbox" checked={showQr} onChange={(e) => setShowQr(e.target.checked)} />
+                {t("labels.showQr")}
+              </label>
+
+              <form onSubmit={handleLoadChanged} className="md:col-span-2 lg:col-span-4 flex flex-wrap items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="label-since">{t("labels.priceChangedSince")}</Label>
+                  <Input
+                    id="label-since"
+                    type="date"
+                    value={sinceDate}
+                    onChange={(e) => setSinceDate(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" variant="outline" disabled={!sinceDate}>
+                  {t("labels.loadChanged")}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+          ) : labels.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Tags className="h-12 w-12 mx-auto mb-2 text-gray-400" />
+              {since ? t("labels.noChanges") : t("labels.empty")}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {t("labels.summary", { count: labels.length, pages: pages.length })}
+            </p>
+          )}
+        </div>
+
+        {!loading && (
+          <div className="overflow-x-auto print:overflow-visible space-y-6 print:space-y-0">
+            {pages.map((page) => (
+              <div
+                key={page.number}
+                className="label-sheet relative mx-auto bg-white shadow-lg print:shadow-none"
+                style={{ width: "210mm", height: "297mm" }}
+              >
+                {page.cells.map((label, index) => {
+                  if (!label) return null;
+                  const column = index % layout.columns;
+                  const row = Math.floor(index / layout.columns);
+                  return (
+                    <div
+                      key={label.key}
+                      className="absolute outline-dashed outline-1 outline-gray-200 print:outline-none"
+                      style={{
+                        left: `${layout.marginLeft + column * (layout.labelWidth + layout.gapX)}mm`,
+                        top: `${layout.marginTop + row * (layout.labelHeight + layout.gapY)}mm`,
+                        width: `${layout.labelWidth}mm`,
+                        height: `${layout.labelHeight}mm`,
+                      }}
+                    >
+                      <ShelfLabel
+                        product={label.product}
+                        graphics={graphics.get(label.product.id) as LabelGraphics}
+                        layout={layout}
+                        showQr={showQr}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+      <Toaster />
+    </div>
+  );
+}
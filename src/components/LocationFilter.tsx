@@ -0,0 +1,48 @@
+import { useTranslation } from "react-i18next";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Location } from "@/types";
+
+interface LocationFilterProps {
+  locations: Location[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function LocationFilter({
+  locations,
+  value,
+  onChange,
+}: LocationFilterProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="border-blue-200  focus:border-blue-400 focus:ring-blue-400">
+        <SelectValue placeholder={t("locations.filter")} />
+      </SelectTrigger>
+      <SelectContent className="bg-white  dark:bg-gray-900  border-blue-200">
+        <SelectItem
+          value="all"
+          className="hover:bg-blue-50  hover:text-gray-800 hover:font-bold font-bold text-white  focus:font-bold "
+        >
+          {t("locations.all")}
+        </SelectItem>
+        {locations.map((location) => (
+          <SelectItem
+            key={location.id}
+            value={location.id.toString()}
+            className="hover:bg-blue-50 dark:focus:bg-accent  hover:dark:text-white hover:text-gray-950 focus:bg-blue-50 focus:text-black"
+          >
+            {location.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
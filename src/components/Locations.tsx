@@ -0,0 +1,275 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { Plus, Edit, Trash2, Star } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "sonner";
+import type { Location, LocationInput, LocationType } from "@/types";
+import { useLocations, useSaveLocation, useDeleteLocation } from "@/hooks/useLocations";
+import { Navbar } from "./Navbar";
+
+const LOCATION_TYPES: LocationType[] = ["shop", "depot", "branch"];
+
+const EMPTY_LOCATION: LocationInput = {
+  name: "",
+  type: "shop",
+  address: "",
+  is_default: false,
+  is_active: true,
+};
+
+function LocationFormDialog({
+  isOpen,
+  onClose,
+  location,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  location: Location | null;
+}) {
+  const { t } = useTranslation();
+  const saveLocation = useSaveLocation();
+  const [values, setValues] = useState<LocationInput>(EMPTY_LOCATION);
+
+  useEffect(() => {
+    setValues(
+      location
+        ? {
+            name: location.name,
+            type: location.type,
+            address: location.address || "",
+            is_default: !!location.is_default,
+            is_active: !!location.is_active,
+          }
+        : EMPTY_LOCATION
+    );
+  }, [location]);
+
+  const setField = (field: keyof LocationInput, value: string | boolean) =>
+    setValues((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await saveLocation.mutateAsync({ location: values, id: location?.id });
+      onClose();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error saving location:", error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-primary">
+            {location ? t("locations.edit") : t("locations.add")}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("locations.name")}</Label>
+            <Input
+              required
+              value={values.name}
+              onChange={(e) => setField("name", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("locations.typeLabel")}</Label>
+            <Select value={values.type} onValueChange={(value) => setField("type", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCATION_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {t(`locations.types.${type}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("locations.address")}</Label>
+            <Input
+              value={values.address || ""}
+              onChange={(e) => setField("address", e.target.value)}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={!!values.is_default}
+              disabled={!!location?.is_default}
+              onChange={(e) => setField("is_default", e.target.checked)}
+            />
+            {t("locations.default")}
+          </label>
+          <p className="text-xs text-muted-foreground">{t("locations.defaultHint")}</p>
+          {location && !location.is_default && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!values.is_active}
+                onChange={(e) => setField("is_active", e.target.checked)}
+              />
+              {t("locations.active")}
+            </label>
+          )}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t("form.cancel")}
+            </Button>
+            <Button type="submit" disabled={saveLocation.isPending}>
+              {saveLocation.isPending ? t("form.saving") : t("form.save")}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function LocationsPage() {
+  const { t } = useTranslation();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const { data, isLoading } = useLocations(true);
+  const deleteLocation = useDeleteLocation();
+
+  const locations = data?.locations || [];
+
+  const openForm = (location: Location | null) => {
+    setEditingLocation(location);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("locations.title")}
+          </h1>
+          <Button
+            onClick={() => openForm(null)}
+            className="text-white shadow-lg"
+            style={{ backgroundColor: "#1e40af" }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t("locations.add")}
+          </Button>
+        </div>
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : locations.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("locations.empty")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("locations.name")}</TableHead>
+                      <TableHead>{t("locations.typeLabel")}</TableHead>
+                      <TableHead>{t("locations.address")}</TableHead>
+                      <TableHead>{t("locations.productCount")}</TableHead>
+                      <TableHead>{t("locations.stockUnits")}</TableHead>
+                      <TableHead className="text-center">{t("products.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {locations.map((location) => (
+                      <TableRow key={location.id} className={location.is_active ? "" : "opacity-60"}>
+                        <TableCell className="font-medium">
+                          <span className="flex items-center gap-2">
+                            {location.name}
+                            {!!location.is_default && (
+                              <Star className="h-4 w-4 text-amber-500" aria-label={t("locations.default")} />
+                            )}
+                            {!location.is_active && <Badge variant="outline">{t("locations.inactive")}</Badge>}
+                          </span>
+                        </TableCell>
+                        <TableCell>{t(`locations.types.${location.type}`)}</TableCell>
+                        <TableCell>{location.address}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{location.product_count || 0}</Badge>
+                        </TableCell>
+                        <TableCell>{Number(location.stock_units) || 0}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              className="text-blue-700 hover:bg-blue-100 hover:text-blue-800 border border-gray-300 dark:border dark:border-gray-700"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openForm(location)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {!location.is_default && (
+                              <Button
+                                className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700 border border-gray-300 dark:border dark:border-gray-700"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  if (window.confirm(t("locations.deleteConfirm", { name: location.name }))) {
+                                    deleteLocation.mutate(location.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <LocationFormDialog
+          isOpen={isFormOpen}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingLocation(null);
+          }}
+          location={editingLocation}
+        />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
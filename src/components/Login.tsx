@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { LogIn } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { ThemeToggle } from "./theme-toggle";
+import { useAuth } from "./auth-provider";
+
+export function LoginPage() {
+  const { t } = useTranslation();
+  const { login } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await login(email.trim(), password);
+    } catch (err) {
+      console.error("Login failed:", err);
+      const message = err instanceof Error ? err.message : "";
+      setError(
+        message === "Backend unavailable"
+          ? t("auth.offline")
+          : message === "Too many failed logins"
+            ? t("auth.tooManyAttempts")
+            : t("auth.invalidCredentials")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900 flex flex-col">
+      <div className="flex justify-end gap-3 p-4">
+        <ThemeToggle />
+        <LanguageSwitcher />
+      </div>
+      <main className="flex-1 flex items-center justify-center px-4 pb-16">
+        <Card className="w-full max-w-sm border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardHeader>
+            <CardTitle className="text-2xl text-center text-blue-800 dark:text-blue-400">
+              JAMALBRICO
+            </CardTitle>
+            <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+              {t("auth.subtitle")}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="login-email">{t("auth.email")}</Label>
+                <Input
+                  id="login-email"
+                  type="email"
+                  autoComplete="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="login-password">{t("auth.password")}</Label>
+                <Input
+                  id="login-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full text-white shadow-lg"
+                style={{ backgroundColor: "#1e40af" }}
+              >
+                <LogIn className="h-4 w-4 mr-2" />
+                {isSubmitting ? t("auth.signingIn") : t("auth.signIn")}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -5,14 +5,48 @@ import {
   Store,
   Menu,
   Settings,
+  Users,
+  Truck,
+  ClipboardList,
+  ClipboardCheck,
+  ArrowLeftRight,
+  Warehouse,
+  LogOut,
+  UserCircle,
+  Tags,
+  Printer,
 } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import { LanguageSwitcher } from "./LanguageSwitcher";
 import { ThemeToggle } from "./theme-toggle";
-import { Link } from "react-router-dom";
+import { SyncStatus } from "./SyncStatus";
+import { Link, NavLink } from "react-router-dom";
+import type { UserRole } from "@/types";
+import { useAuth } from "./auth-provider";
+
+const NAV_ITEMS: {
+  to: string;
+  labelKey: string;
+  fallback: string;
+  icon: typeof Package;
+  minRole: UserRole;
+}[] = [
+  { to: "/", labelKey: "nav.inventory", fallback: "Inventaire", icon: Package, minRole: "viewer" },
+  { to: "/pos", labelKey: "nav.pos", fallback: "Caisse", icon: ShoppingCart, minRole: "staff" },
+  { to: "/customers", labelKey: "nav.customers", fallback: "Clients", icon: Users, minRole: "viewer" },
+  { to: "/suppliers", labelKey: "nav.suppliers", fallback: "Fournisseurs", icon: Truck, minRole: "viewer" },
+  { to: "/purchase-orders", labelKey: "nav.purchaseOrders", fallback: "Achats", icon: ClipboardList, minRole: "staff" },
+  { to: "/stocktakes", labelKey: "nav.stocktakes", fallback: "Inventaires", icon: ClipboardCheck, minRole: "staff" },
+  { to: "/transfers", labelKey: "nav.transfers", fallback: "Transferts", icon: ArrowLeftRight, minRole: "staff" },
+  { to: "/labels", labelKey: "nav.labels", fallback: "Étiquettes", icon: Printer, minRole: "staff" },
+  { to: "/categories", labelKey: "nav.categories", fallback: "Catégories", icon: Tags, minRole: "admin" },
+  { to: "/locations", labelKey: "nav.locations", fallback: "Sites", icon: Warehouse, minRole: "admin" },
+];
 
 export function Navbar() {
   const { t } = useTranslation();
+  const { user, logout, hasRole } = useAuth();
+  const navItems = NAV_ITEMS.filter((item) => hasRole(item.minRole));
 
   return (
     <nav className="relative border-b bg-gradient-to-r from-blue-800 to-blue-900 dark:from-gray-900 dark:to-gray-800 shadow-xl backdrop-blur-sm">
@@ -28,16 +62,24 @@ export function Navbar() {
           </div>
 
           {/* Center Navigation */}
-          <div className="hidden lg:flex items-center space-x-8">
-            <div className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-white/5 border border-white/10 transition-all duration-300 hover:bg-white/10 hover:border-orange-400/30">
-              <ShoppingCart className="h-4 w-4 text-orange-400" />
-              <span className="text-sm font-medium text-white">
-                {t("nav.inventory", "Inventaire")}
-              </span>
-              <div className="ml-2 px-2 py-0.5 bg-orange-400 text-blue-900 text-xs font-semibold rounded-full">
-                Active
-              </div>
-            </div>
+          <div className="hidden lg:flex items-center space-x-4">
+            {navItems.map(({ to, labelKey, fallback, icon: Icon }) => (
+              <NavLink
+                key={to}
+                to={to}
+                end={to === "/"}
+                className={({ isActive }) =>
+                  `flex items-center space-x-2 px-3 py-2 rounded-lg border transition-all duration-300 hover:bg-white/10 hover:border-orange-400/30 ${
+                    isActive ? "bg-white/10 border-orange-400/40" : "bg-white/5 border-white/10"
+                  }`
+                }
+              >
+                <Icon className="h-4 w-4 text-orange-400" />
+                <span className="text-sm font-medium text-white">
+                  {t(labelKey, fallback)}
+                </span>
+              </NavLink>
+            ))}
           </div>
 
           {/* Right Section */}
@@ -47,29 +89,52 @@ export function Navbar() {
               <Menu className="h-5 w-5" />
             </button>
 
-            {/* Desktop status indicator */}
-            <div className="hidden md:flex items-center space-x-2 px-3 py-1.5 bg-green-500/20 border border-green-400/30 rounded-lg">
-              <div className="h-2 w-2 bg-green-400 rounded-full animate-pulse" />
-              <span className="text-xs text-green-300 font-medium">
-                En ligne
-              </span>
-            </div>
+            {/* Connection and offline outbox status */}
+            <SyncStatus />
 
             <ThemeToggle />
             <LanguageSwitcher />
+
+            {user && (
+              <div className="flex items-center space-x-2">
+                <div className="hidden md:flex items-center space-x-2 text-white">
+                  <UserCircle className="h-5 w-5 text-orange-400" />
+                  <div className="leading-tight">
+                    <p className="text-sm font-medium">{user.name || user.email}</p>
+                    <p className="text-xs text-blue-200">{t(`auth.roles.${user.role}`)}</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={logout}
+                  title={t("auth.logout")}
+                  className="p-2 rounded-lg text-white/80 hover:text-white hover:bg-white/10 transition-all duration-200"
+                >
+                  <LogOut className="h-5 w-5" />
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Mobile Navigation */}
         <div className="md:hidden border-t border-white/10 py-3">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2 text-sm text-white">
-              <ShoppingCart className="h-4 w-4 text-orange-400" />
-              <span>{t("nav.inventory", "Inventaire")}</span>
-            </div>
-            <div className="text-xs text-blue-200">
-              {t("business.tagline", "Solutions Pro")}
-            </div>
+          <div className="flex items-center gap-4 overflow-x-auto">
+            {navItems.map(({ to, labelKey, fallback, icon: Icon }) => (
+              <NavLink
+                key={to}
+                to={to}
+                end={to === "/"}
+                className={({ isActive }) =>
+                  `flex items-center space-x-2 text-sm whitespace-nowrap ${
+                    isActive ? "text-white font-semibold" : "text-blue-200"
+                  }`
+                }
+              >
+                <Icon className="h-4 w-4 text-orange-400" />
+                <span>{t(labelKey, fallback)}</span>
+              </NavLink>
+            ))}
           </div>
         </div>
       </div>
@@ -0,0 +1,419 @@
+import { useState, useRef } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  Search,
+  ShoppingCart,
+  Trash2,
+  Banknote,
+  CreditCard,
+  BookOpen,
+  Package,
+  ScanBarcode,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Toaster, toast } from "sonner";
+import type { PaymentType, Product } from "@/types";
+import { api } from "@/services/api";
+import { useProducts } from "@/hooks/useProducts";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useCart } from "@/hooks/useCart";
+import { useCreateSale } from "@/hooks/useSales";
+import { useCustomers } from "@/hooks/useCustomers";
+import { useLocations } from "@/hooks/useLocations";
+import { localizedName } from "@/lib/localize";
+import { holdsStock } from "@/lib/variants";
+import { Navbar } from "./Navbar";
+import { BarcodeScanner } from "./BarcodeScanner";
+
+const PAYMENT_TYPES: { value: PaymentType; icon: typeof Banknote }[] = [
+  { value: "cash", icon: Banknote },
+  { value: "card", icon: CreditCard },
+  { value: "credit", icon: BookOpen },
+];
+
+// Prefer an exact barcode/SKU hit, otherwise a single unambiguous result
+const findScannedProduct = (products: Product[], code: string) =>
+  products.find((p) => p.barcode === code || p.sku === code) ||
+  (products.length === 1 ? products[0] : undefined);
+
+export function PointOfSale() {
+  const { t, i18n } = useTranslation();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [paymentType, setPaymentType] = useState<PaymentType>("cash");
+  const [customerId, setCustomerId] = useState("");
+  const [stockLocation, setStockLocation] = useState("");
+  const searchRef = useRef<HTMLInputElement>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const cart = useCart();
+  const createSale = useCreateSale();
+  const { data: customersResponse } = useCustomers();
+  const customers = customersResponse?.customers || [];
+  const selectedCustomer = customers.find((c) => String(c.id) === customerId);
+  // Credit sales go on a customer's account
+  const needsCustomer = paymentType === "credit" && !selectedCustomer;
+
+  // With several locations, products are looked up with their stock where the sale takes place
+  const { data: locationsResponse } = useLocations();
+  const locations = locationsResponse?.locations || [];
+  const saleLocation = stockLocation || String(locations.find((location) => location.is_default)?.id ?? "");
+  const stockFilter = locations.length > 1 && saleLocation ? saleLocation : "all";
+  const stockOf = (product: Product) =>
+    stockFilter === "all" ? product.remaining_stock || 0 : Number(product.location_stock) || 0;
+
+  const debouncedSearch = useDebounce(searchTerm.trim(), 250);
+  const { data: searchResponse, isFetching } = useProducts(
+    debouncedSearch,
+    "all",
+    1,
+    10,
+    "created_at",
+    "DESC",
+    stockFilter
+  );
+  const results = debouncedSearch ? (searchResponse?.products || []).filter(holdsStock) : [];
+
+  const addToCart = (product: Product) => {
+    cart.addItem({ ...product, remaining_stock: stockOf(product) });
+    setSearchTerm("");
+    searchRef.current?.focus();
+  };
+
+  const addByCode = async (code: string) => {
+    const response = await api.getProducts(code, "all", 1, 10, "created_at", "DESC", stockFilter);
+    const match = response.success ? findScannedProduct(response.products.filter(holdsStock), code) : undefined;
+    if (match) {
+      addToCart(match);
+    } else {
+      toast.error(t("pos.noMatch", { code }));
+    }
+  };
+
+  // Barcode scanners type the code and press Enter
+  const handleSearchKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    const code = searchTerm.trim();
+    if (!code) return;
+    await addByCode(code);
+  };
+
+  const handleBarcodeScanned = async (code: string) => {
+    setIsScannerOpen(false);
+    await addByCode(code);
+  };
+
+  const handleCheckout = async () => {
+    if (cart.items.length === 0 || needsCustomer) return;
+
+    try {
+      await createSale.mutateAsync({
+        items: cart.items.map((item) => ({
+          product_id: item.product_id,
+          quantity: item.quantity,
+          discount: item.discount,
+        })),
+        payment_type: paymentType,
+        customer_id: selectedCustomer?.id,
+        location_id: stockFilter === "all" ? undefined : Number(stockFilter),
+      });
+      cart.clear();
+      setPaymentType("cash");
+      setCustomerId("");
+      searchRef.current?.focus();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error during checkout:", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400 mb-8">
+          {t("pos.title")}
+        </h1>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Product lookup */}
+          <Card className="lg:col-span-2 border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            <CardHeader>
+              <CardTitle className="text-blue-800 dark:text-blue-400">
+                {t("pos.lookup")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {locations.length > 1 && (
+                <div className="space-y-2">
+                  <Label>{t("pos.location")}</Label>
+                  <Select value={saleLocation} onValueChange={setStockLocation}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations.map((location) => (
+                        <SelectItem key={location.id} value={String(location.id)}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    ref={searchRef}
+                    autoFocus
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onKeyDown={handleSearchKeyDown}
+                    placeholder={t("pos.lookupPlaceholder")}
+                    className="pl-9"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setIsScannerOpen(true)}
+                  title={t("scanner.scan")}
+                >
+                  <ScanBarcode className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {isFetching && debouncedSearch && (
+                <p className="text-sm text-gray-500">{t("messages.searching")}</p>
+              )}
+
+              <div className="space-y-2">
+                {results.map((product) => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => addToCart(product)}
+                    disabled={stockOf(product) <= 0}
+                    className="w-full flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-blue-50 dark:hover:bg-gray-700 text-left disabled:opacity-50"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">
+                        {localizedName(product, i18n.language)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {[product.sku, product.barcode].filter(Boolean).join(" · ")}
+                        {" "}
+                        {t("pos.inStock", { count: stockOf(product) })}
+                      </p>
+                    </div>
+                    <span className="font-semibold text-emerald-600 whitespace-nowrap">
+                      {product.selling_price} {t("currency")}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Cart */}
+          <Card className="lg:col-span-3 border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-blue-800 dark:text-blue-400">
+                {t("pos.cart")}
+              </CardTitle>
+              {cart.items.length > 0 && (
+                <Button variant="outline" size="sm" onClick={cart.clear}>
+                  {t("pos.clearCart")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {cart.items.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <ShoppingCart className="h-12 w-12 mx-auto mb-2 text-gray-400" />
+                  {t("pos.emptyCart")}
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("products.name")}</TableHead>
+                        <TableHead className="w-24">{t("pos.quantity")}</TableHead>
+                        <TableHead>{t("pos.unitPrice")}</TableHead>
+                        <TableHead className="w-28">{t("pos.discount")}</TableHead>
+                        <TableHead>{t("pos.lineTotal")}</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {cart.items.map((item) => {
+                        const lineTotal = item.unit_price * item.quantity - item.discount;
+                        return (
+                          <TableRow key={item.product_id}>
+                            <TableCell className="font-medium">
+                              <div className="flex items-center gap-2">
+                                <Package className="h-4 w-4 text-gray-400" />
+                                {item.name}
+                              </div>
+                              {item.quantity > item.available_stock && (
+                                <p className="text-xs text-red-600">
+                                  {t("pos.notEnoughStock", { count: item.available_stock })}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="1"
+                                value={item.quantity}
+                                onChange={(e) =>
+                                  cart.updateItem(item.product_id, {
+                                    quantity: Math.max(1, Number.parseInt(e.target.value) || 1),
+                                  })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              {item.unit_price.toFixed(2)} {t("currency")}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={item.discount}
+                                onChange={(e) =>
+                                  cart.updateItem(item.product_id, {
+                                    discount: Math.min(
+                                      item.unit_price * item.quantity,
+                                      Math.max(0, Number.parseFloat(e.target.value) || 0)
+                                    ),
+                                  })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell className="font-semibold">
+                              {lineTotal.toFixed(2)} {t("currency")}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700"
+                                onClick={() => cart.removeItem(item.product_id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {/* Totals */}
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>{t("pos.subtotal")}</span>
+                  <span>{cart.subtotal.toFixed(2)} {t("currency")}</span>
+                </div>
+                <div className="flex justify-between text-red-600">
+                  <span>{t("pos.discount")}</span>
+                  <span>-{cart.discountTotal.toFixed(2)} {t("currency")}</span>
+                </div>
+                <div className="flex justify-between text-xl font-bold text-blue-800 dark:text-blue-400 pt-2 border-t">
+                  <span>{t("pos.total")}</span>
+                  <span>{cart.total.toFixed(2)} {t("currency")}</span>
+                </div>
+              </div>
+
+              {/* Payment type */}
+              <div className="grid grid-cols-3 gap-2">
+                {PAYMENT_TYPES.map(({ value, icon: Icon }) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    variant={paymentType === value ? "default" : "outline"}
+                    onClick={() => setPaymentType(value)}
+                  >
+                    <Icon className="h-4 w-4 mr-2" />
+                    {t(`pos.payment.${value}`)}
+                  </Button>
+                ))}
+              </div>
+
+              {/* Customer */}
+              <div className="space-y-1">
+                <Select
+                  value={customerId || "none"}
+                  onValueChange={(value) => setCustomerId(value === "none" ? "" : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("pos.customer")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">{t("pos.walkInCustomer")}</SelectItem>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.id} value={String(customer.id)}>
+                        {customer.name}
+                        {customer.phone ? ` · ${customer.phone}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedCustomer && (
+                  <p className="text-xs text-gray-500">
+                    {t("customers.balance")}: {Number(selectedCustomer.balance).toFixed(2)}{" "}
+                    {t("currency")}
+                  </p>
+                )}
+                {needsCustomer && (
+                  <p className="text-xs text-red-600">{t("pos.customerRequired")}</p>
+                )}
+              </div>
+
+              <Button
+                className="w-full text-white shadow-lg"
+                style={{ backgroundColor: "#1e40af" }}
+                size="lg"
+                disabled={cart.items.length === 0 || needsCustomer || createSale.isPending}
+                onClick={handleCheckout}
+              >
+                {createSale.isPending ? t("form.saving") : t("pos.checkout")}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        <BarcodeScanner
+          isOpen={isScannerOpen}
+          onClose={() => setIsScannerOpen(false)}
+          onDetected={handleBarcodeScanned}
+        />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
@@ -2,7 +2,6 @@ import { useEffect, useState, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useTranslation } from "react-i18next";
-import * as z from "zod";
 import { Upload, X, Image as ImageIcon } from "lucide-react";
 import {
   Dialog,
@@ -26,26 +25,111 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import type { Product, Category } from "@/types";
-import { api } from "@/services/api";
-
-// Create schema with validation messages
-const createFormSchema = (t: (key: string) => string) =>
-  z.object({
-    name: z.string().min(1, t("validation.nameRequired")),
-    description: z.string().optional(),
-    category_id: z.number().min(1, t("validation.categoryRequired")),
-    purchase_price: z.number().min(0.01, t("validation.purchasePriceMin")),
-    selling_price: z.number().min(0.01, t("validation.sellingPriceMin")),
-    remaining_stock: z.number().min(0, t("validation.stockMin")),
-    min_stock_level: z.number().min(0, t("validation.thresholdMin")),
-    image_url: z.string().optional(),
-  });
+import { api, ProductConflictError } from "@/services/api";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { localizedName } from "@/lib/localize";
+import { PRODUCT_UNITS, createProductSchema, type ProductFormData } from "@/lib/productSchema";
+
+type FormData = ProductFormData;
+
+type FormTab = "general" | "pricing" | "identification" | "details";
+
+// Tab holding each field, so a failed submit can show the first invalid field
+const FIELD_TABS: Partial<Record<keyof FormData, FormTab>> = {
+  purchase_price: "pricing",
+  selling_price: "pricing",
+  remaining_stock: "pricing",
+  min_stock_level: "pricing",
+  max_stock_level: "pricing",
+  unit: "pricing",
+  barcode: "identification",
+  sku: "identification",
+  brand: "identification",
+  location: "identification",
+  weight: "details",
+  dimensions: "details",
+  warranty_months: "details",
+  tags: "details",
+};
+
+// Form values for a product being edited, or blank values for a new one
+const getFormValues = (product?: Product | null): FormData => ({
+  name: product?.name || "",
+  name_ar: product?.name_ar || "",
+  name_fr: product?.name_fr || "",
+  description: product?.description || "",
+  description_ar: product?.description_ar || "",
+  description_fr: product?.description_fr || "",
+  category_id: Number(product?.category_id) || 0,
+  supplier_id: product?.supplier_id ?? null,
+  purchase_price: Number(product?.purchase_price) || 0,
+  selling_price: Number(product?.selling_price) || 0,
+  remaining_stock: Number(product?.remaining_stock) || 0,
+  min_stock_level: Number(product?.min_stock_level) || 10,
+  max_stock_level: Number(product?.max_stock_level) || 1000,
+  unit: product?.unit || "piece",
+  barcode: product?.barcode || "",
+  sku: product?.sku || "",
+  brand: product?.brand || "",
+  location: product?.location || "",
+  weight: product?.weight != null ? Number(product.weight) : null,
+  dimensions: product?.dimensions || "",
+  warranty_months: Number(product?.warranty_months) || 0,
+  is_active: product ? !!Number(product.is_active ?? 1) : true,
+  is_featured: !!Number(product?.is_featured ?? 0),
+  tags: product?.tags || "",
+  image_url: product?.image_url || "",
+  parent_id: product?.parent_id ?? null,
+  variant_attributes: product?.variant_attributes || [],
+  variant_options: product?.variant_options || undefined,
+  version: product?.version,
+});
+
+// A new variant starts as a copy of its parent, without its codes, image or
+// stock, and with a blank value for each of the parent's attributes
+const getVariantFormValues = (parent: Product): FormData => ({
+  ...getFormValues(parent),
+  remaining_stock: 0,
+  barcode: "",
+  sku: "",
+  image_url: "",
+  parent_id: parent.id,
+  variant_attributes: [],
+  variant_options: Object.fromEntries((parent.variant_attributes || []).map((attribute) => [attribute, ""])),
+  version: undefined,
+});
 
-type FormData = z.infer<ReturnType<typeof createFormSchema>>;
+// Attribute names typed comma-separated, e.g. "Size, Color"
+const parseAttributes = (text: string) => [
+  ...new Set(text.split(",").map((attribute) => attribute.trim()).filter(Boolean)),
+];
+
+type TextFieldName =
+  | "name_ar"
+  | "name_fr"
+  | "description_ar"
+  | "description_fr"
+  | "barcode"
+  | "sku"
+  | "brand"
+  | "location"
+  | "dimensions"
+  | "tags";
 
 interface ProductFormProps {
   isOpen: boolean;
@@ -53,6 +137,10 @@ interface ProductFormProps {
   onSave: (data: FormData) => Promise<void>;
   categories: Category[];
   editingProduct?: Product | null;
+  // Prefills a new product, e.g. after scanning an unknown barcode
+  defaultBarcode?: string;
+  // Set to add a variant of this product
+  parentProduct?: Product | null;
 }
 
 export function ProductForm({
@@ -61,72 +149,72 @@ export function ProductForm({
   onSave,
   categories,
   editingProduct,
+  defaultBarcode,
+  parentProduct,
 }: ProductFormProps) {
-  const { t } = useTranslation();
-  const formSchema = createFormSchema(t);
+  const { t, i18n } = useTranslation();
+  const formSchema = createProductSchema(t);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [conflictProduct, setConflictProduct] = useState<Product | null>(null);
+  const [activeTab, setActiveTab] = useState<FormTab>("general");
+  const [attributesText, setAttributesText] = useState("");
+  const { data: suppliersResponse } = useSuppliers();
+  const suppliers = suppliersResponse?.suppliers || [];
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      name: "",
-      description: "",
-      category_id: 0,
-      purchase_price: 0,
-      selling_price: 0,
-      remaining_stock: 0,
-      min_stock_level: 10,
-      image_url: "",
-    },
+    defaultValues: getFormValues(),
   });
 
   // Reset form when editing product changes
   useEffect(() => {
+    setActiveTab("general");
     try {
       if (editingProduct?.id) {
         console.log("Setting form for editing product:", editingProduct);
-        form.reset({
-          name: editingProduct.name || "",
-          description: editingProduct.description || "",
-          category_id: Number(editingProduct.category_id) || 0,
-          purchase_price: Number(editingProduct.purchase_price) || 0,
-          selling_price: Number(editingProduct.selling_price) || 0,
-          remaining_stock: Number(editingProduct.remaining_stock) || 0,
-          min_stock_level: Number(editingProduct.min_stock_level) || 10,
-          image_url: editingProduct.image_url || "",
-        });
+        form.reset(getFormValues(editingProduct));
         setUploadedImage(editingProduct.image_url || null);
+      } else if (parentProduct) {
+        form.reset(getVariantFormValues(parentProduct));
+        setUploadedImage(null);
       } else {
         console.log("Resetting form for new product");
-        form.reset({
-          name: "",
-          description: "",
-          category_id: 0,
-          purchase_price: 0,
-          selling_price: 0,
-          remaining_stock: 0,
-          min_stock_level: 10,
-          image_url: "",
-        });
+        form.reset({ ...getFormValues(), barcode: defaultBarcode || "" });
         setUploadedImage(null);
       }
     } catch (error) {
       console.error("Error in form reset:", error);
-      form.reset({
-        name: "",
-        description: "",
-        category_id: 0,
-        purchase_price: 0,
-        selling_price: 0,
-        remaining_stock: 0,
-        min_stock_level: 10,
-        image_url: "",
-      });
+      form.reset(getFormValues());
       setUploadedImage(null);
     }
-  }, [editingProduct, form]);
+    setAttributesText((editingProduct?.variant_attributes || []).join(", "));
+  }, [editingProduct, parentProduct, defaultBarcode, form]);
+
+  const isVariant = !!(editingProduct?.parent_id || parentProduct);
+  // Variants are told apart by the attributes, so they are fixed once one exists
+  const hasVariants = (editingProduct?.variant_count || 0) > 0;
+
+  // A new variant is named after its parent and its option values
+  const handleOptionChange = (attribute: string, value: string) => {
+    const options = { ...form.getValues("variant_options"), [attribute]: value };
+    form.setValue("variant_options", options, { shouldValidate: form.formState.isSubmitted });
+    if (parentProduct) {
+      const values = Object.values(options).map((option) => option.trim()).filter(Boolean);
+      form.setValue("name", [parentProduct.name, ...values].join(" "));
+    }
+  };
+
+  // Load the latest saved product after a concurrent edit conflict
+  const handleReloadConflict = () => {
+    if (conflictProduct) {
+      form.reset(getFormValues(conflictProduct));
+      setUploadedImage(conflictProduct.image_url || null);
+      setAttributesText((conflictProduct.variant_attributes || []).join(", "));
+    }
+    setConflictProduct(null);
+  };
 
   const handleImageUpload = async (file: File) => {
     if (!file.type.startsWith("image/")) {
@@ -187,10 +275,48 @@ export function ProductForm({
       setUploadedImage(null);
       onClose();
     } catch (error) {
+      if (error instanceof ProductConflictError) {
+        setConflictProduct(error.product ?? null);
+        return;
+      }
       console.error("Error saving product:", error);
     }
   };
 
+  // Jump to the tab of the first invalid field so its message is visible
+  const handleInvalid = (errors: Partial<Record<keyof FormData, unknown>>) => {
+    const firstField = Object.keys(errors)[0] as keyof FormData | undefined;
+    if (firstField) {
+      setActiveTab(FIELD_TABS[firstField] || "general");
+    }
+  };
+
+  const renderTextField = (
+    name: TextFieldName,
+    label: string,
+    options: { placeholder?: string; dir?: "ltr" | "rtl" } = {}
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="font-semibold text-foreground">{label}</FormLabel>
+          <FormControl>
+            <Input
+              placeholder={options.placeholder}
+              dir={options.dir}
+              {...field}
+              value={field.value ?? ""}
+              className="bg-background border-border focus:border-primary focus:ring-primary"
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
   const handleClose = () => {
     form.reset();
     setUploadedImage(null);
@@ -204,7 +330,11 @@ export function ProductForm({
           {/* Decorative header background */}
           <div className="absolute w-full h-16 items-center flex  rounded-t-lg">
             <DialogTitle className="text-2xl font-bold   relative  z-10 text-primary">
-              {editingProduct ? t("form.editProduct") : t("form.addProduct")}
+              {editingProduct
+                ? t("form.editProduct")
+                : parentProduct
+                  ? t("variants.addTitle", { name: parentProduct.name })
+                  : t("form.addProduct")}
             </DialogTitle>
             {/* <DialogDescription className="relative z-10 text-muted-foreground">
               {editingProduct
@@ -216,275 +346,588 @@ export function ProductForm({
 
         <Form {...form}>
           <form
-            onSubmit={form.handleSubmit(handleSubmit)}
+            onSubmit={form.handleSubmit(handleSubmit, handleInvalid)}
             className="space-y-6 relative px-4 py-2 z-10"
           >
-            {/* Product Name */}
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="font-semibold text-foreground">
-                    {t("form.productName")}
-                  </FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder={t("form.productNamePlaceholder")}
-                      {...field}
-                      className="bg-background border-border focus:border-primary focus:ring-primary"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <Tabs
+              value={activeTab}
+              onValueChange={(value) => setActiveTab(value as FormTab)}
+            >
+              <TabsList className="grid w-full grid-cols-4 h-auto">
+                <TabsTrigger value="general">{t("form.tabs.general")}</TabsTrigger>
+                <TabsTrigger value="pricing">{t("form.tabs.pricing")}</TabsTrigger>
+                <TabsTrigger value="identification">
+                  {t("form.tabs.identification")}
+                </TabsTrigger>
+                <TabsTrigger value="details">{t("form.tabs.details")}</TabsTrigger>
+              </TabsList>
 
-            {/* Description */}
-            <FormField
-              control={form.control}
-              name="description"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="font-semibold text-foreground">
-                    {t("form.description")}
-                  </FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder={t("form.descriptionPlaceholder")}
-                      {...field}
-                      className="bg-background border-border focus:border-primary focus:ring-primary"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+              <TabsContent value="general" className="space-y-6 pt-4">
+                {/* Product Name */}
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-semibold text-foreground">
+                        {t("form.productName")}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("form.productNamePlaceholder")}
+                          {...field}
+                          className="bg-background border-border focus:border-primary focus:ring-primary"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            {/* Enhanced Image Upload Section */}
-            <FormItem>
-              <FormLabel className="font-semibold text-foreground">
-                {t("form.productImage")}
-              </FormLabel>
-              <div className="space-y-4">
-                {uploadedImage ? (
-                  <div className="relative p-4 rounded-xl border-2 border-primary/20 bg-primary/5">
-                    <img
-                      src={uploadedImage}
-                      alt="Product preview"
-                      className="w-full h-32 object-cover rounded-lg border-2 border-border shadow-lg"
-                    />
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="sm"
-                      className="absolute top-6 right-6 shadow-lg"
-                      onClick={removeImage}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
+                {/* Translated names, side by side so both can be checked at once */}
+                <div className="grid grid-cols-2 gap-4">
+                  {renderTextField("name_fr", t("form.nameFr"))}
+                  {renderTextField("name_ar", t("form.nameAr"), { dir: "rtl" })}
+                </div>
+
+                {/* A variant gives its value for each attribute of its parent */}
+                {isVariant ? (
+                  <FormField
+                    control={form.control}
+                    name="variant_options"
+                    render={({ field }) => (
+                      <FormItem className="p-4 rounded-xl border border-primary/20 bg-primary/5">
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("variants.options")}
+                        </FormLabel>
+                        <div className="grid grid-cols-2 gap-4">
+                          {Object.keys(field.value || {}).map((attribute) => (
+                            <div key={attribute} className="space-y-1">
+                              <span className="text-sm text-muted-foreground">{attribute}</span>
+                              <Input
+                                value={field.value?.[attribute] || ""}
+                                onChange={(e) => handleOptionChange(attribute, e.target.value)}
+                                className="bg-background border-border focus:border-primary focus:ring-primary"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 ) : (
-                  <div className="border-2 border-dashed border-primary/30 bg-primary/5 rounded-xl p-8 text-center">
-                    <div className="flex flex-col items-center space-y-3">
-                      <div className="p-3 rounded-full bg-primary/10">
-                        <ImageIcon className="h-8 w-8 text-primary" />
-                      </div>
-                      <p className="text-sm font-medium text-muted-foreground">
-                        {t("form.noImageSelected")}
-                      </p>
-                    </div>
-                  </div>
+                  <FormField
+                    control={form.control}
+                    name="variant_attributes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("variants.attributes")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder={t("variants.attributesPlaceholder")}
+                            value={attributesText}
+                            disabled={hasVariants}
+                            onChange={(e) => {
+                              setAttributesText(e.target.value);
+                              field.onChange(parseAttributes(e.target.value));
+                            }}
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">
+                          {hasVariants ? t("variants.attributesLocked") : t("variants.attributesHint")}
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
 
-                <div className="flex items-center space-x-3">
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept="image/*"
-                    onChange={handleFileChange}
-                    className="hidden"
-                  />
-                  <Button
-                    type="button"
-                    variant="default"
-                    onClick={() => fileInputRef.current?.click()}
-                    disabled={isUploading}
-                    className="flex items-center space-x-2 shadow-lg"
-                  >
-                    <Upload className="h-4 w-4" />
-                    <span>
-                      {isUploading
-                        ? t("form.uploading")
-                        : t("form.chooseImage")}
-                    </span>
-                  </Button>
-                  {uploadedImage && (
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={removeImage}
-                      className="flex items-center space-x-2 border-destructive/30 text-destructive hover:bg-destructive/10"
-                    >
-                      <X className="h-4 w-4" />
-                      <span>{t("form.removeImage")}</span>
-                    </Button>
+                {/* Description */}
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-semibold text-foreground">
+                        {t("form.description")}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={t("form.descriptionPlaceholder")}
+                          {...field}
+                          className="bg-background border-border focus:border-primary focus:ring-primary"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
                   )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  {renderTextField("description_fr", t("form.descriptionFr"))}
+                  {renderTextField("description_ar", t("form.descriptionAr"), {
+                    dir: "rtl",
+                  })}
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  {t("form.imageFormats")}
-                </p>
-              </div>
-            </FormItem>
-
-            {/* Category */}
-            <FormField
-              control={form.control}
-              name="category_id"
-              render={({ field }) => (
+
+                {/* Enhanced Image Upload Section */}
                 <FormItem>
                   <FormLabel className="font-semibold text-foreground">
-                    {t("form.category")}
+                    {t("form.productImage")}
                   </FormLabel>
-                  <Select
-                    value={field.value.toString()}
-                    onValueChange={(value) =>
-                      field.onChange(Number.parseInt(value))
-                    }
-                  >
-                    <FormControl>
-                      <SelectTrigger className="bg-background border-border focus:border-primary focus:ring-primary">
-                        <SelectValue
-                          placeholder={t("form.categoryPlaceholder")}
+                  <div className="space-y-4">
+                    {uploadedImage ? (
+                      <div className="relative p-4 rounded-xl border-2 border-primary/20 bg-primary/5">
+                        <img
+                          src={uploadedImage}
+                          alt="Product preview"
+                          className="w-full h-32 object-cover rounded-lg border-2 border-border shadow-lg"
                         />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent className="bg-background border-border">
-                      {categories && categories.length > 0 ? (
-                        categories.map((category) => (
-                          <SelectItem
-                            key={category.id}
-                            value={category.id.toString()}
-                            className="hover:bg-primary/10 focus:bg-primary/10"
-                          >
-                            {category.name}
-                          </SelectItem>
-                        ))
-                      ) : (
-                        <SelectItem value="0" disabled>
-                          No categories available
-                        </SelectItem>
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          size="sm"
+                          className="absolute top-6 right-6 shadow-lg"
+                          onClick={removeImage}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="border-2 border-dashed border-primary/30 bg-primary/5 rounded-xl p-8 text-center">
+                        <div className="flex flex-col items-center space-y-3">
+                          <div className="p-3 rounded-full bg-primary/10">
+                            <ImageIcon className="h-8 w-8 text-primary" />
+                          </div>
+                          <p className="text-sm font-medium text-muted-foreground">
+                            {t("form.noImageSelected")}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-3">
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/*"
+                        onChange={handleFileChange}
+                        className="hidden"
+                      />
+                      <Button
+                        type="button"
+                        variant="default"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isUploading}
+                        className="flex items-center space-x-2 shadow-lg"
+                      >
+                        <Upload className="h-4 w-4" />
+                        <span>
+                          {isUploading
+                            ? t("form.uploading")
+                            : t("form.chooseImage")}
+                        </span>
+                      </Button>
+                      {uploadedImage && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={removeImage}
+                          className="flex items-center space-x-2 border-destructive/30 text-destructive hover:bg-destructive/10"
+                        >
+                          <X className="h-4 w-4" />
+                          <span>{t("form.removeImage")}</span>
+                        </Button>
                       )}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t("form.imageFormats")}
+                    </p>
+                  </div>
                 </FormItem>
-              )}
-            />
 
-            {/* Price Section */}
-            <div className="grid grid-cols-2 gap-4 p-4 rounded-xl border border-primary/20 bg-primary/5">
-              <FormField
-                control={form.control}
-                name="purchase_price"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="font-semibold text-foreground">
-                      {t("form.purchasePrice")}
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(Number.parseFloat(e.target.value) || 0)
+                {/* Category */}
+                <FormField
+                  control={form.control}
+                  name="category_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-semibold text-foreground">
+                        {t("form.category")}
+                      </FormLabel>
+                      <Select
+                        value={field.value.toString()}
+                        onValueChange={(value) =>
+                          field.onChange(Number.parseInt(value))
                         }
-                        className="bg-background border-border focus:border-primary focus:ring-primary"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="selling_price"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="font-semibold text-foreground">
-                      {t("form.sellingPrice")}
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(Number.parseFloat(e.target.value) || 0)
-                        }
-                        className="bg-background border-border focus:border-primary focus:ring-primary"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                      >
+                        <FormControl>
+                          <SelectTrigger className="bg-background border-border focus:border-primary focus:ring-primary">
+                            <SelectValue
+                              placeholder={t("form.categoryPlaceholder")}
+                            />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-background border-border">
+                          {categories && categories.length > 0 ? (
+                            categories.map((category) => (
+                              <SelectItem
+                                key={category.id}
+                                value={category.id.toString()}
+                                className="hover:bg-primary/10 focus:bg-primary/10"
+                              >
+                                {category.icon && `${category.icon} `}
+                                {localizedName(category, i18n.language)}
+                              </SelectItem>
+                            ))
+                          ) : (
+                            <SelectItem value="0" disabled>
+                              No categories available
+                            </SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            {/* Stock Section */}
-            <div className="grid grid-cols-2 gap-4 p-4 rounded-xl border border-primary/20 bg-primary/5">
-              <FormField
-                control={form.control}
-                name="remaining_stock"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="font-semibold text-foreground">
-                      {t("form.currentStock")}
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        min="0"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(Number.parseInt(e.target.value) || 0)
-                        }
-                        className="bg-background border-border focus:border-primary focus:ring-primary"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="min_stock_level"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="font-semibold text-foreground">
-                      {t("form.minThreshold")}
-                    </FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        min="0"
-                        {...field}
-                        onChange={(e) =>
-                          field.onChange(Number.parseInt(e.target.value) || 0)
+                {/* Supplier */}
+                <FormField
+                  control={form.control}
+                  name="supplier_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-semibold text-foreground">
+                        {t("form.supplier")}
+                      </FormLabel>
+                      <Select
+                        value={field.value ? field.value.toString() : "none"}
+                        onValueChange={(value) =>
+                          field.onChange(value === "none" ? null : Number.parseInt(value))
                         }
-                        className="bg-background border-border focus:border-primary focus:ring-primary"
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
+                      >
+                        <FormControl>
+                          <SelectTrigger className="bg-background border-border focus:border-primary focus:ring-primary">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-background border-border">
+                          <SelectItem value="none" className="hover:bg-primary/10 focus:bg-primary/10">
+                            {t("form.noSupplier")}
+                          </SelectItem>
+                          {suppliers.map((supplier) => (
+                            <SelectItem
+                              key={supplier.id}
+                              value={supplier.id.toString()}
+                              className="hover:bg-primary/10 focus:bg-primary/10"
+                            >
+                              {supplier.name}
+                            </SelectItem>
+                          ))}
+                          {/* Keep an inactive supplier selectable on products still linked to it */}
+                          {editingProduct?.supplier_id &&
+                            !suppliers.some((s) => s.id === editingProduct.supplier_id) && (
+                              <SelectItem value={editingProduct.supplier_id.toString()}>
+                                {editingProduct.supplier_name}
+                              </SelectItem>
+                            )}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Status */}
+                <div className="flex flex-wrap gap-6 p-4 rounded-xl border border-primary/20 bg-primary/5">
+                  <FormField
+                    control={form.control}
+                    name="is_active"
+                    render={({ field }) => (
+                      <FormItem>
+                        <label className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={field.value}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                          />
+                          {t("form.isActive")}
+                        </label>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="is_featured"
+                    render={({ field }) => (
+                      <FormItem>
+                        <label className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={field.value}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                          />
+                          {t("form.isFeatured")}
+                        </label>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="pricing" className="space-y-6 pt-4">
+                {/* Price Section */}
+                <div className="grid grid-cols-2 gap-4 p-4 rounded-xl border border-primary/20 bg-primary/5">
+                  <FormField
+                    control={form.control}
+                    name="purchase_price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.purchasePrice")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(Number.parseFloat(e.target.value) || 0)
+                            }
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="selling_price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.sellingPrice")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(Number.parseFloat(e.target.value) || 0)
+                            }
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Stock Section */}
+                <div className="grid grid-cols-2 gap-4 p-4 rounded-xl border border-primary/20 bg-primary/5">
+                  <FormField
+                    control={form.control}
+                    name="remaining_stock"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.currentStock")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            {...field}
+                            disabled={!!editingProduct}
+                            onChange={(e) =>
+                              field.onChange(Number.parseInt(e.target.value) || 0)
+                            }
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        {editingProduct && (
+                          <p className="text-xs text-muted-foreground">
+                            {t("form.stockViaMovements")}
+                          </p>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="min_stock_level"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.minThreshold")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(Number.parseInt(e.target.value) || 0)
+                            }
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Unit and reorder ceiling */}
+                <div className="grid grid-cols-2 gap-4 p-4 rounded-xl border border-primary/20 bg-primary/5">
+                  <FormField
+                    control={form.control}
+                    name="unit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.unit")}
+                        </FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="bg-background border-border focus:border-primary focus:ring-primary">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="bg-background border-border">
+                            {PRODUCT_UNITS.map((unit) => (
+                              <SelectItem
+                                key={unit}
+                                value={unit}
+                                className="hover:bg-primary/10 focus:bg-primary/10"
+                              >
+                                {t(`units.${unit}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="max_stock_level"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.maxStock")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(Number.parseInt(e.target.value) || 0)
+                            }
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="identification" className="space-y-6 pt-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {renderTextField("barcode", t("form.barcode"), {
+                    placeholder: t("form.barcodePlaceholder"),
+                    dir: "ltr",
+                  })}
+                  {renderTextField("sku", t("form.sku"), { dir: "ltr" })}
+                </div>
+                {renderTextField("location", t("form.location"), {
+                  placeholder: t("form.locationPlaceholder"),
+                })}
+                {renderTextField("brand", t("form.brand"))}
+              </TabsContent>
+
+              <TabsContent value="details" className="space-y-6 pt-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="weight"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.weight")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.value === ""
+                                  ? null
+                                  : Number.parseFloat(e.target.value) || 0
+                              )
+                            }
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="warranty_months"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-semibold text-foreground">
+                          {t("form.warrantyMonths")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            {...field}
+                            onChange={(e) =>
+                              field.onChange(Number.parseInt(e.target.value) || 0)
+                            }
+                            className="bg-background border-border focus:border-primary focus:ring-primary"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {renderTextField("dimensions", t("form.dimensions"), {
+                  placeholder: t("form.dimensionsPlaceholder"),
+                })}
+                {renderTextField("tags", t("form.tags"), {
+                  placeholder: t("form.tagsPlaceholder"),
+                })}
+              </TabsContent>
+            </Tabs>
 
             {/* Enhanced Action Buttons */}
             <div className="flex justify-end space-x-3 pt-6 border-t border-border">
@@ -510,6 +953,26 @@ export function ProductForm({
             </div>
           </form>
         </Form>
+
+        <AlertDialog
+          open={!!conflictProduct}
+          onOpenChange={(open) => !open && setConflictProduct(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t("form.conflictTitle")}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t("form.conflictMessage")}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t("form.conflictKeepEditing")}</AlertDialogCancel>
+              <AlertDialogAction onClick={handleReloadConflict}>
+                {t("form.conflictReload")}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </DialogContent>
     </Dialog>
   );
@@ -4,6 +4,7 @@ import { Package, DollarSign, TrendingUp, AlertTriangle, ImageIcon } from 'lucid
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import type { Product, Category } from '@/types';
+import { localizedDescription, localizedName } from '@/lib/localize';
 
 interface ProductHoverModalProps {
   product: Product | null;
@@ -13,7 +14,7 @@ interface ProductHoverModalProps {
 }
 
 export function ProductHoverModal({ product, categories, position, isVisible }: ProductHoverModalProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [imageError, setImageError] = useState(false);
 
   useEffect(() => {
@@ -26,7 +27,7 @@ export function ProductHoverModal({ product, categories, position, isVisible }:
 
   const getCategoryName = (categoryId: number) => {
     const category = categories.find(c => c.id === categoryId);
-    return category?.name || t('categories.none');
+    return category ? localizedName(category, i18n.language) : t('categories.none');
   };
 
   const getStockStatus = (stock: number, minLevel: number) => {
@@ -41,6 +42,8 @@ export function ProductHoverModal({ product, categories, position, isVisible }:
 
   const stockStatus = getStockStatus(product.remaining_stock || 0, product.min_stock_level || 0);
   const stockValue = (product.selling_price || 0) * (product.remaining_stock || 0);
+  const name = localizedName(product, i18n.language);
+  const description = localizedDescription(product, i18n.language);
 
   return (
     <div
@@ -53,7 +56,7 @@ export function ProductHoverModal({ product, categories, position, isVisible }:
       <Card className="w-80 shadow-2xl border-2 border-blue-200 dark:border-blue-700 bg-white dark:bg-gray-800 animate-in fade-in-0 zoom-in-95 duration-200">
         <CardHeader className="pb-3">
           <CardTitle className="text-lg font-bold text-blue-800 dark:text-blue-400 line-clamp-2">
-            {product.name}
+            {name}
           </CardTitle>
           <Badge variant={stockStatus.variant} className="w-fit">
             {stockStatus.label}
@@ -66,21 +69,21 @@ export function ProductHoverModal({ product, categories, position, isVisible }:
             {product.image_url && !imageError ? (
               <img
                 src={product.image_url}
-                alt={product.name}
+                alt={name}
                 className="w-full h-72  transition-transform hover:scale-105"
                 onError={() => setImageError(true)}
               />
             ) : (
               <div className="w-full h-48 flex items-center justify-center">
-               <img src="placeholder.png" alt={product.name} />
+               <img src="placeholder.png" alt={name} />
               </div>
             )}
           </div>
 
           {/* Product Description */}
-          {product.description && (
+          {description && (
             <div className="text-sm text-gray-600 dark:text-gray-300 line-clamp-3">
-              {product.description}
+              {description}
             </div>
           )}
 
@@ -133,7 +136,9 @@ export function ProductHoverModal({ product, categories, position, isVisible }:
           {/* Additional Info */}
           <div className="pt-3 border-t border-gray-200 dark:border-gray-600 text-xs text-gray-500 dark:text-gray-400">
             <div className="flex justify-between">
-              <span>{t('products.purchasePrice')}: {product.purchase_price } {t('currency')}</span>
+              {product.purchase_price !== undefined && (
+                <span>{t('products.purchasePrice')}: {product.purchase_price } {t('currency')}</span>
+              )}
               <span>{t('products.minStock')}: {product.min_stock_level || 0}</span>
             </div>
           </div>
@@ -0,0 +1,349 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { AlertCircle, CheckCircle2, Download, FileSpreadsheet, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Category, ProductImportResult } from "@/types";
+import { api } from "@/services/api";
+import { useImportProducts } from "@/hooks/useProducts";
+import { downloadCsv, parseCsv } from "@/lib/csv";
+import {
+  IMPORT_FIELDS,
+  type ImportField,
+  type ImportRecord,
+  buildImportRecords,
+  guessMapping,
+  validateImportRecord,
+} from "@/lib/productImport";
+import { readXlsx } from "@/lib/xlsx";
+
+// Rows drawn in the preview table; the counts always cover the whole file
+const PREVIEW_LIMIT = 200;
+
+const IGNORE = "ignore";
+
+type Step = "upload" | "mapping" | "preview";
+
+interface PreviewRecord extends ImportRecord {
+  action: ProductImportResult["action"];
+}
+
+interface ProductImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: Category[];
+}
+
+// Import wizard: upload a CSV or XLSX file, map its columns to product
+// fields, then check every row before anything is written
+export function ProductImport({ isOpen, onClose, categories }: ProductImportProps) {
+  const { t, i18n } = useTranslation();
+  const importProducts = useImportProducts();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(ImportField | null)[]>([]);
+  const [records, setRecords] = useState<PreviewRecord[]>([]);
+  const [reading, setReading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  // The same text in every UI language, so headers and units match whatever language the file uses
+  const languages = Object.keys(i18n.options.resources || {});
+  const inAllLanguages = (key: string) => languages.map((lng) => i18n.t(key, { lng }));
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setRecords([]);
+    setErrorsOnly(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setReading(true);
+    try {
+      const table = /\.xlsx$/i.test(file.name) ? await readXlsx(file) : parseCsv(await file.text());
+      if (table.length < 2) {
+        toast.error(t("import.emptyFile"));
+        return;
+      }
+      const [headerRow, ...dataRows] = table;
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessMapping(headerRow, inAllLanguages));
+      setStep("mapping");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error(t("import.readError"));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (column: number, value: string) => {
+    setMapping((current) =>
+      current.map((field, index) => {
+        if (index === column) return value === IGNORE ? null : (value as ImportField);
+        // A field maps to one column only
+        return field === value ? null : field;
+      })
+    );
+  };
+
+  const handlePreview = async () => {
+    const built = buildImportRecords(rows, mapping, categories, t, (unit) => inAllLanguages(`units.${unit}`));
+    setChecking(true);
+    try {
+      // The server decides which rows update an existing product and checks codes against the catalogue
+      const response = await api.importProducts(
+        built.map((record) => record.values),
+        true
+      );
+      if (!response.success || !response.results) {
+        toast.error(response.error || t("import.error"));
+        return;
+      }
+      const results = response.results;
+      setRecords(
+        built.map((record, index) => {
+          const result = results[index];
+          const errors = [
+            ...record.errors,
+            ...validateImportRecord(record.values, result.action === "update", t),
+          ];
+          // Server messages repeat the form rules, so only show them for rows that pass those
+          if (errors.length === 0 && result.error) errors.push(result.error);
+          return { ...record, action: result.action, errors };
+        })
+      );
+      setStep("preview");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const validRows = records.filter((record) => record.errors.length === 0).map((record) => record.values);
+    try {
+      await importProducts.mutateAsync(validRows);
+      handleClose();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error importing products:", error);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadCsv([IMPORT_FIELDS.map(({ field }) => field)], "products-import-template.csv");
+  };
+
+  const validRecords = records.filter((record) => record.errors.length === 0);
+  const createCount = validRecords.filter((record) => record.action === "create").length;
+  const updateCount = validRecords.length - createCount;
+  const errorCount = records.length - validRecords.length;
+  const shownRecords = (errorsOnly ? records.filter((record) => record.errors.length > 0) : records).slice(
+    0,
+    PREVIEW_LIMIT
+  );
+
+  const displayName = (record: PreviewRecord) =>
+    record.values.name || record.values.name_fr || record.values.name_ar || "—";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            {t("import.title")}
+          </DialogTitle>
+          <DialogDescription>{t(`import.steps.${step}`)}</DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 p-10 text-center cursor-pointer hover:border-blue-800 dark:hover:border-blue-400">
+              <Upload className="h-10 w-10 text-gray-400" />
+              <span className="font-medium">{reading ? t("import.reading") : t("import.chooseFile")}</span>
+              <span className="text-sm text-gray-500">{t("import.fileHint")}</span>
+              <input
+                type="file"
+                accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                disabled={reading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+            <Button variant="outline" onClick={handleDownloadTemplate}>
+              <Download className="mr-2 h-4 w-4" />
+              {t("import.template")}
+            </Button>
+          </div>
+        )}
+
+        {step === "mapping" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {t("import.fileSummary", { file: fileName, count: rows.length })}
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {headers.map((header, column) => (
+                <div key={`${column}-${header}`} className="space-y-1">
+                  <Label className="flex justify-between gap-2">
+                    <span className="truncate">{header || t("import.unnamedColumn", { number: column + 1 })}</span>
+                    <span className="truncate font-normal text-gray-500">{rows[0]?.[column]}</span>
+                  </Label>
+                  <Select
+                    value={mapping[column] || IGNORE}
+                    onValueChange={(value) => handleMappingChange(column, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE}>{t("import.ignoreColumn")}</SelectItem>
+                      {IMPORT_FIELDS.map(({ field, labelKey }) => (
+                        <SelectItem key={field} value={field}>
+                          {t(labelKey)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500">{t("import.matchHint")}</p>
+            <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+              <Button variant="outline" onClick={reset}>
+                {t("import.back")}
+              </Button>
+              <Button
+                className="text-white"
+                style={{ backgroundColor: "#1e40af" }}
+                disabled={checking || mapping.every((field) => !field)}
+                onClick={handlePreview}
+              >
+                {checking ? t("import.checking") : t("import.preview")}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{t("import.toCreate", { count: createCount })}</Badge>
+              <Badge variant="secondary">{t("import.toUpdate", { count: updateCount })}</Badge>
+              {errorCount > 0 && (
+                <Badge variant="destructive">{t("import.withErrors", { count: errorCount })}</Badge>
+              )}
+              <label className="ml-auto flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+                {t("import.errorsOnly")}
+              </label>
+            </div>
+
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("import.line")}</TableHead>
+                    <TableHead>{t("import.action")}</TableHead>
+                    <TableHead>{t("products.name")}</TableHead>
+                    <TableHead>{t("form.sku")}</TableHead>
+                    <TableHead>{t("form.barcode")}</TableHead>
+                    <TableHead>{t("products.status")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shownRecords.map((record) => (
+                    <TableRow key={record.line}>
+                      <TableCell className="font-mono">{record.line}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{t(`import.actions.${record.action}`)}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[220px] truncate">{displayName(record)}</TableCell>
+                      <TableCell className="font-mono">{record.values.sku || ""}</TableCell>
+                      <TableCell className="font-mono">{record.values.barcode || ""}</TableCell>
+                      <TableCell>
+                        {record.errors.length === 0 ? (
+                          <CheckCircle2 className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <ul className="space-y-1 text-sm text-red-600 dark:text-red-400">
+                            {record.errors.map((error) => (
+                              <li key={error} className="flex items-start gap-1">
+                                <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                                {error}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {(errorsOnly ? errorCount : records.length) > PREVIEW_LIMIT && (
+              <p className="text-sm text-gray-500">{t("import.previewLimited", { count: PREVIEW_LIMIT })}</p>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+              <Button variant="outline" onClick={() => setStep("mapping")}>
+                {t("import.back")}
+              </Button>
+              <Button
+                className="text-white"
+                style={{ backgroundColor: "#1e40af" }}
+                disabled={validRecords.length === 0 || importProducts.isPending}
+                onClick={handleImport}
+              >
+                {importProducts.isPending
+                  ? t("import.importing")
+                  : t("import.importValid", { count: validRecords.length })}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
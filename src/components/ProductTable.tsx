@@ -1,5 +1,5 @@
-import { useState, memo } from "react";
-import { Edit, Trash2, AlertTriangle, ImageIcon, Eye } from "lucide-react";
+import { useState, memo, Fragment } from "react";
+import { Edit, Trash2, AlertTriangle, ImageIcon, Eye, ChevronDown, ChevronRight, Plus } from "lucide-react";
 import { Link, useNavigate, useParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import {
@@ -23,15 +23,26 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import type { Product, Category } from "@/types";
+import type { Product, Category, Location } from "@/types";
 import { ProductHoverModal } from "./ProductHoverModal";
 import { LazyImage } from "@/components/ui/LazyImage";
+import { useAuth } from "./auth-provider";
+import { localizedDescription, localizedName } from "@/lib/localize";
+import { shownStock, stockBreakdown } from "@/lib/stock";
+import { variantLabel, variantPriceRange } from "@/lib/variants";
 
 interface ProductTableProps {
   products: Product[];
   categories: Category[];
   onEdit: (product: Product) => void;
   onDelete: (productId: number) => void;
+  // Shown on parents with variant attributes
+  onAddVariant?: (parent: Product) => void;
+  // With more than one, unfiltered rows show their stock per location
+  locations?: Location[];
+  // Row checkboxes are shown when a selection handler is passed
+  selectedIds?: number[];
+  onSelectionChange?: (productIds: number[]) => void;
 }
 
 export const ProductTable = memo(function ProductTable({
@@ -39,17 +50,24 @@ export const ProductTable = memo(function ProductTable({
   categories,
   onEdit,
   onDelete,
+  onAddVariant,
+  locations = [],
+  selectedIds = [],
+  onSelectionChange,
 }: ProductTableProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const { hasRole } = useAuth();
+  const canSeeCosts = hasRole("staff");
   const [deleteProductId, setDeleteProductId] = useState<number | null>(null);
   const [hoveredProduct, setHoveredProduct] = useState<Product | null>(null);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
 
   const navigate = useNavigate();
   const { id } = useParams();
   const getCategoryName = (categoryId: number) => {
     const category = categories.find((c) => c.id === categoryId);
-    return category?.name || t("categories.none");
+    return category ? localizedName(category, i18n.language) : t("categories.none");
   };
 
   const getStockStatus = (stock: number, minLevel: number) => {
@@ -62,6 +80,33 @@ export const ProductTable = memo(function ProductTable({
     return { label: t("status.inStock"), variant: "default" as const };
   };
 
+  const pageIds = products.map((product) => product.id);
+  const allSelected = pageIds.length > 0 && pageIds.every((productId) => selectedIds.includes(productId));
+
+  // Selections on other pages are kept when toggling this page
+  const toggleAll = () => {
+    if (!onSelectionChange) return;
+    onSelectionChange(
+      allSelected
+        ? selectedIds.filter((productId) => !pageIds.includes(productId))
+        : [...new Set([...selectedIds, ...pageIds])]
+    );
+  };
+
+  const toggleProduct = (productId: number) => {
+    if (!onSelectionChange) return;
+    onSelectionChange(
+      selectedIds.includes(productId)
+        ? selectedIds.filter((selectedId) => selectedId !== productId)
+        : [...selectedIds, productId]
+    );
+  };
+
+  const toggleExpanded = (productId: number) =>
+    setExpandedIds((current) =>
+      current.includes(productId) ? current.filter((expandedId) => expandedId !== productId) : [...current, productId]
+    );
+
   const handleDelete = () => {
     if (deleteProductId) {
       onDelete(deleteProductId);
@@ -85,6 +130,44 @@ export const ProductTable = memo(function ProductTable({
     setHoveredProduct(null);
   };
 
+  const renderDeleteButton = (productId: number, name: string) =>
+    hasRole("admin") && (
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+          className="text-[#D32F2F] hover:bg-red-50  hover:text-red-700  border border-gray-300 dark:border dark:border-gray-700"
+            variant="outline"
+            size="sm"
+            onClick={() => setDeleteProductId(productId)}
+          >
+            <Trash2 className="h-10 w-10" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t("dialog.deleteTitle")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("dialog.deleteMessage", {
+                name,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              onClick={() => setDeleteProductId(null)}
+            >
+              {t("dialog.cancel")}
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>
+              {t("dialog.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    );
+
   if (products.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500">
@@ -99,11 +182,21 @@ export const ProductTable = memo(function ProductTable({
         <Table>
           <TableHeader>
             <TableRow>
+              {onSelectionChange && (
+                <TableHead className="w-10">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    aria-label={t("products.selectAll")}
+                  />
+                </TableHead>
+              )}
               <TableHead>{t("products.id")}</TableHead>
               <TableHead className="w-16">{t("products.image")}</TableHead>
               <TableHead>{t("products.name")}</TableHead>
               <TableHead>{t("products.category")}</TableHead>
-              <TableHead>{t("products.purchasePrice")}</TableHead>
+              {canSeeCosts && <TableHead>{t("products.purchasePrice")}</TableHead>}
               <TableHead>{t("products.sellingPrice")}</TableHead>
               <TableHead>{t("products.stock")}</TableHead>
               <TableHead>{t("products.status")}</TableHead>
@@ -114,120 +207,221 @@ export const ProductTable = memo(function ProductTable({
           </TableHeader>
           <TableBody>
             {products.map((product) => {
-              const stockStatus = getStockStatus(
-                product.remaining_stock || 0,
-                product.min_stock_level || 0
-              );
+              const stock = shownStock(product);
+              const stockStatus = getStockStatus(stock, product.min_stock_level || 0);
+              const breakdown =
+                product.location_stock === undefined && locations.length > 1
+                  ? stockBreakdown(product, locations)
+                  : [];
+              const name = localizedName(product, i18n.language);
+              const description = localizedDescription(product, i18n.language);
+              const variants = product.variants || [];
+              const isExpanded = expandedIds.includes(product.id);
+              const priceRange = variants.length > 0 ? variantPriceRange(variants) : null;
 
               return (
-                <TableRow
-                  key={product.id}
-                  onMouseEnter={(e) => handleMouseEnter(product, e)}
-                  onMouseMove={handleMouseMove}
-                  onMouseLeave={() => handleMouseLeave()}
-                >
-                  <TableCell>{product.id} </TableCell>
-                  <TableCell>
-                    <div className="w-12 h-12 rounded-md overflow-hidden bg-gray-100 flex items-center justify-center">
-                      {product.image_url ? (
-                        <LazyImage
-                          src={product.image_url}
-                          alt={product.name}
-                          className="w-full h-full object-cover"
-                          placeholderClassName="w-full h-full bg-gray-200 dark:bg-gray-700"
-                          errorFallback="/placeholder.png"
+                <Fragment key={product.id}>
+                  <TableRow
+                    onMouseEnter={(e) => handleMouseEnter(product, e)}
+                    onMouseMove={handleMouseMove}
+                    onMouseLeave={() => handleMouseLeave()}
+                  >
+                    {onSelectionChange && (
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(product.id)}
+                          onChange={() => toggleProduct(product.id)}
+                          aria-label={t("products.select", { name })}
                         />
-                      ) : (
-                        <ImageIcon className="h-6 w-6 text-gray-400" />
-                      )}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div>
-                      <div className="font-medium text-left ">{product.name}</div>
-                      {product.description && (
-                        <div className="text-sm text-gray-500 truncate max-w-xs">
-                          {product.description}
+                      </TableCell>
+                    )}
+                    <TableCell>{product.id} </TableCell>
+                    <TableCell>
+                      <div className="w-12 h-12 rounded-md overflow-hidden bg-gray-100 flex items-center justify-center">
+                        {product.image_url ? (
+                          <LazyImage
+                            src={product.image_url}
+                            alt={name}
+                            className="w-full h-full object-cover"
+                            placeholderClassName="w-full h-full bg-gray-200 dark:bg-gray-700"
+                            errorFallback="/placeholder.png"
+                          />
+                        ) : (
+                          <ImageIcon className="h-6 w-6 text-gray-400" />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-start gap-1">
+                        {variants.length > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => toggleExpanded(product.id)}
+                            aria-label={t(isExpanded ? "variants.collapse" : "variants.expand")}
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <div>
+                          <div className="font-medium text-left ">{name}</div>
+                          {description && (
+                            <div className="text-sm text-gray-500 truncate max-w-xs">
+                              {description}
+                            </div>
+                          )}
+                          {variants.length > 0 && (
+                            <Badge variant="outline" className="mt-1">
+                              {t("variants.count", { count: variants.length })}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{getCategoryName(product.category_id)}</TableCell>
+                    {canSeeCosts && (
+                      <TableCell>
+                        {product.purchase_price} {t("currency")}
+                      </TableCell>
+                    )}
+                    <TableCell className="font-medium">
+                      {priceRange && priceRange.min !== priceRange.max
+                        ? `${priceRange.min} – ${priceRange.max}`
+                        : (priceRange?.min ?? product.selling_price)}{" "}
+                      {t("currency")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-1">
+                        <span>{stock}</span>
+                        {stock <= (product.min_stock_level || 0) && (
+                          <AlertTriangle className="h-4 w-4 text-amber-500" />
+                        )}
+                      </div>
+                      {breakdown.length > 0 && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {breakdown.map(({ location, quantity }) => `${location.name} ${quantity}`).join(" · ")}
                         </div>
                       )}
-                    </div>
-                  </TableCell>
-                  <TableCell>{getCategoryName(product.category_id)}</TableCell>
-                  <TableCell>
-                    {product.purchase_price} {t("currency")}
-                  </TableCell>
-                  <TableCell className="font-medium">
-                    {product.selling_price} {t("currency")}
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center space-x-1">
-                      <span>{product.remaining_stock || 0}</span>
-                      {(product.remaining_stock || 0) <=
-                        (product.min_stock_level || 0) && (
-                        <AlertTriangle className="h-4 w-4 text-amber-500" />
-                      )}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant={stockStatus.variant}>
-                      {stockStatus.label}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <div className="flex justify-end space-x-2">
-                      <Button
-                      className="text-blue-700 hover:bg-blue-100  hover:text-blue-800  border border-gray-300 dark:border dark:border-gray-700"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => onEdit(product)}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={stockStatus.variant}>
+                        {stockStatus.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        {onAddVariant && hasRole("staff") && !!product.variant_attributes?.length && (
                           <Button
-                          className="text-[#D32F2F] hover:bg-red-50  hover:text-red-700  border border-gray-300 dark:border dark:border-gray-700"
+                            className="text-blue-700 hover:bg-blue-100 hover:text-blue-800 border border-gray-300 dark:border dark:border-gray-700"
                             variant="outline"
                             size="sm"
-                            onClick={() => setDeleteProductId(product.id)}
+                            onClick={() => onAddVariant(product)}
+                            title={t("variants.add")}
                           >
-                            <Trash2 className="h-10 w-10" />
+                            <Plus className="h-4 w-4" />
                           </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>
-                              {t("dialog.deleteTitle")}
-                            </AlertDialogTitle>
-                            <AlertDialogDescription>
-                              {t("dialog.deleteMessage", {
-                                name: product.name,
-                              })}
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel
-                              onClick={() => setDeleteProductId(null)}
-                            >
-                              {t("dialog.cancel")}
-                            </AlertDialogCancel>
-                            <AlertDialogAction onClick={handleDelete}>
-                              {t("dialog.delete")}
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                      <Button
-                      className="text-green-700 hover:text-green-700 hover:bg-green-100 border border-gray-300 dark:border dark:border-gray-700  "
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleShowProduct(product.id)}
-                      >
-                        <Eye className="h-5 w-5 hover:scale-110 transfor" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
+                        )}
+                        {hasRole("staff") && (
+                          <Button
+                          className="text-blue-700 hover:bg-blue-100  hover:text-blue-800  border border-gray-300 dark:border dark:border-gray-700"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onEdit(product)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {renderDeleteButton(product.id, name)}
+                        <Button
+                        className="text-green-700 hover:text-green-700 hover:bg-green-100 border border-gray-300 dark:border dark:border-gray-700  "
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleShowProduct(product.id)}
+                        >
+                          <Eye className="h-5 w-5 hover:scale-110 transfor" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded &&
+                    variants.map((variant) => {
+                      const variantStock = shownStock(variant);
+                      const variantStatus = getStockStatus(variantStock, variant.min_stock_level || 0);
+                      const variantName = localizedName(variant, i18n.language);
+
+                      return (
+                        <TableRow key={variant.id} className="bg-blue-50/50 dark:bg-gray-900/40">
+                          {onSelectionChange && (
+                            <TableCell>
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.includes(variant.id)}
+                                onChange={() => toggleProduct(variant.id)}
+                                aria-label={t("products.select", { name: variantName })}
+                              />
+                            </TableCell>
+                          )}
+                          <TableCell className="text-gray-500">{variant.id}</TableCell>
+                          <TableCell />
+                          <TableCell>
+                            <div className="ps-7">
+                              <div className="font-medium">{variantLabel(variant) || variantName}</div>
+                              <div className="text-xs text-gray-500 dark:text-gray-400">
+                                {[variant.sku && `${t("form.sku")}: ${variant.sku}`, variant.barcode]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell />
+                          {canSeeCosts && (
+                            <TableCell>
+                              {variant.purchase_price} {t("currency")}
+                            </TableCell>
+                          )}
+                          <TableCell className="font-medium">
+                            {variant.selling_price} {t("currency")}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center space-x-1">
+                              <span>{variantStock}</span>
+                              {variantStock <= (variant.min_stock_level || 0) && (
+                                <AlertTriangle className="h-4 w-4 text-amber-500" />
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={variantStatus.variant}>{variantStatus.label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end space-x-2">
+                              {hasRole("staff") && (
+                                <Button
+                                  className="text-blue-700 hover:bg-blue-100 hover:text-blue-800 border border-gray-300 dark:border dark:border-gray-700"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => onEdit(variant)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {renderDeleteButton(variant.id, variantName)}
+                              <Button
+                                className="text-green-700 hover:text-green-700 hover:bg-green-100 border border-gray-300 dark:border dark:border-gray-700"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleShowProduct(variant.id)}
+                              >
+                                <Eye className="h-5 w-5" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                </Fragment>
               );
             })}
           </TableBody>
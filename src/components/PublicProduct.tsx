@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate, useParams } from "react-router-dom";
+import { Package, LogIn } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { PageLoading } from "@/components/ui/Spinner";
+import type { ProductAvailability, PublicProduct } from "@/types";
+import { api } from "@/services/api";
+import { localizedDescription, localizedName } from "@/lib/localize";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { ThemeToggle } from "./theme-toggle";
+
+const AVAILABILITY_STYLES: Record<ProductAvailability, { key: string; variant: "default" | "secondary" | "destructive" }> = {
+  in_stock: { key: "status.inStock", variant: "default" },
+  low_stock: { key: "status.lowStock", variant: "secondary" },
+  out_of_stock: { key: "status.outOfStock", variant: "destructive" },
+};
+
+// Page opened by scanning a product's QR code without being logged in:
+// name, price and availability, nothing internal
+export function PublicProductPage() {
+  const { t, i18n } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [product, setProduct] = useState<PublicProduct | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const productId = Number.parseInt(id || "", 10);
+    if (Number.isNaN(productId)) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    api
+      .getPublicProduct(productId)
+      .then((result) => {
+        if (!cancelled) setProduct(result.success && result.product ? result.product : null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const availability = product ? AVAILABILITY_STYLES[product.availability] : null;
+  const description = product ? localizedDescription(product, i18n.language) : "";
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900 flex flex-col">
+      <div className="flex justify-end gap-3 p-4">
+        <ThemeToggle />
+        <LanguageSwitcher />
+      </div>
+      <main className="flex-1 flex items-start justify-center px-4 pb-16">
+        {loading ? (
+          <PageLoading />
+        ) : !product || !availability ? (
+          <Card className="w-full max-w-md border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            <CardContent className="py-12 text-center space-y-3">
+              <Package className="h-12 w-12 mx-auto text-gray-400" />
+              <p className="text-gray-600 dark:text-gray-300">{t("publicProduct.notFound")}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="w-full max-w-md border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            {product.image_url ? (
+              <img
+                src={product.image_url}
+                alt={localizedName(product, i18n.language)}
+                className="w-full aspect-square object-cover rounded-t-lg"
+              />
+            ) : (
+              <div className="w-full aspect-video flex items-center justify-center bg-gray-100 dark:bg-gray-700 rounded-t-lg">
+                <Package className="h-16 w-16 text-gray-400" />
+              </div>
+            )}
+            <CardHeader>
+              <CardTitle className="text-2xl text-blue-800 dark:text-blue-400">
+                {localizedName(product, i18n.language)}
+              </CardTitle>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {[product.category && localizedName(product.category, i18n.language), product.brand]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                  {product.selling_price} {t("currency")}
+                  {product.unit && (
+                    <span className="text-base font-normal text-gray-500 dark:text-gray-400">
+                      {" "}/ {t(`units.${product.unit}`)}
+                    </span>
+                  )}
+                </p>
+                <Badge variant={availability.variant}>{t(availability.key)}</Badge>
+              </div>
+
+              {description && <p className="text-gray-700 dark:text-gray-300">{description}</p>}
+
+              {!!product.warranty_months && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {t("productInfo.warranty")}:{" "}
+                  {t("productInfo.warrantyMonths", { count: product.warranty_months })}
+                </p>
+              )}
+
+              <Button variant="outline" className="w-full" onClick={() => navigate("/")}>
+                <LogIn className="h-4 w-4 mr-2" />
+                {t("publicProduct.staffLogin")}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,692 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Plus,
+  Trash2,
+  ArrowLeft,
+  Send,
+  XCircle,
+  PackageCheck,
+  Save,
+  Search,
+  PackageSearch,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Pagination } from "@/components/ui/Pagination";
+import { Toaster } from "sonner";
+import type { Product, PurchaseOrder, PurchaseOrderStatus } from "@/types";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useLocations } from "@/hooks/useLocations";
+import { useProducts } from "@/hooks/useProducts";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import {
+  usePurchaseOrders,
+  usePurchaseOrder,
+  useSavePurchaseOrder,
+  useSetPurchaseOrderStatus,
+  useReceivePurchaseOrder,
+} from "@/hooks/usePurchaseOrders";
+import { holdsStock } from "@/lib/variants";
+import { Navbar } from "./Navbar";
+
+const STATUSES: PurchaseOrderStatus[] = [
+  "draft",
+  "sent",
+  "partially_received",
+  "received",
+  "cancelled",
+];
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+  sent: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  partially_received: "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300",
+  received: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+function StatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const { t } = useTranslation();
+  return (
+    <Badge className={`border-0 ${STATUS_CLASSES[status]}`}>
+      {t(`purchaseOrders.status.${status}`)}
+    </Badge>
+  );
+}
+
+const formatAmount = (value: number) => Number(value || 0).toFixed(2);
+
+export function PurchaseOrdersPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<PurchaseOrderStatus | "all">("all");
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = usePurchaseOrders(status, page);
+
+  const orders = data?.orders || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("purchaseOrders.title")}
+          </h1>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/reorder")}
+              className="border-blue-800 text-blue-800 dark:border-blue-400 dark:text-blue-400"
+            >
+              <PackageSearch className="mr-2 h-4 w-4" />
+              {t("reorder.title")}
+            </Button>
+            <Button
+              onClick={() => navigate("/purchase-orders/new")}
+              className="text-white shadow-lg"
+              style={{ backgroundColor: "#1e40af" }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t("purchaseOrders.new")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="mb-6 w-64">
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as PurchaseOrderStatus | "all");
+              setPage(1);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("purchaseOrders.allStatuses")}</SelectItem>
+              {STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`purchaseOrders.status.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : orders.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("purchaseOrders.empty")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("purchaseOrders.number")}</TableHead>
+                      <TableHead>{t("purchaseOrders.supplier")}</TableHead>
+                      <TableHead>{t("purchaseOrders.statusLabel")}</TableHead>
+                      <TableHead>{t("purchaseOrders.lines")}</TableHead>
+                      <TableHead>{t("purchaseOrders.expectedDate")}</TableHead>
+                      <TableHead className="text-right">{t("purchaseOrders.total")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orders.map((order) => (
+                      <TableRow
+                        key={order.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/purchase-orders/${order.id}`)}
+                      >
+                        <TableCell className="font-medium">{order.po_number}</TableCell>
+                        <TableCell>{order.supplier_name}</TableCell>
+                        <TableCell>
+                          <StatusBadge status={order.status} />
+                        </TableCell>
+                        <TableCell>{order.item_count}</TableCell>
+                        <TableCell>
+                          {order.expected_date
+                            ? new Date(order.expected_date).toLocaleDateString()
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount(order.total)} {t("currency")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <Pagination
+                className="mt-4"
+                currentPage={pagination.currentPage}
+                totalPages={pagination.totalPages}
+                totalItems={pagination.totalItems}
+                itemsPerPage={pagination.itemsPerPage}
+                onPageChange={setPage}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Toaster />
+    </div>
+  );
+}
+
+interface DraftLine {
+  product_id: number;
+  product_name: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+// Editor for new and draft orders
+function PurchaseOrderEditor({ order }: { order?: PurchaseOrder }) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [supplierId, setSupplierId] = useState(order ? String(order.supplier_id) : "");
+  const [expectedDate, setExpectedDate] = useState(order?.expected_date?.slice(0, 10) || "");
+  const [notes, setNotes] = useState(order?.notes || "");
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const debouncedSearch = useDebounce(searchTerm.trim(), 250);
+
+  const { data: suppliersResponse } = useSuppliers();
+  const { data: productsResponse } = useProducts(debouncedSearch, "all", 1, 10);
+  const saveOrder = useSavePurchaseOrder();
+  const setStatus = useSetPurchaseOrderStatus(order?.id || 0);
+
+  const suppliers = suppliersResponse?.suppliers || [];
+  const results = debouncedSearch ? (productsResponse?.products || []).filter(holdsStock) : [];
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  useEffect(() => {
+    setLines(
+      (order?.items || [])
+        .filter((item) => item.product_id)
+        .map((item) => ({
+          product_id: item.product_id as number,
+          product_name: item.product_name,
+          quantity: item.quantity_ordered,
+          unit_cost: Number(item.unit_cost),
+        }))
+    );
+  }, [order]);
+
+  const addLine = (product: Product) => {
+    setLines((current) =>
+      current.some((line) => line.product_id === product.id)
+        ? current
+        : [
+            ...current,
+            {
+              product_id: product.id,
+              product_name: product.name,
+              quantity: 1,
+              unit_cost: Number(product.purchase_price) || 0,
+            },
+          ]
+    );
+    setSearchTerm("");
+  };
+
+  const updateLine = (productId: number, changes: Partial<DraftLine>) =>
+    setLines((current) =>
+      current.map((line) => (line.product_id === productId ? { ...line, ...changes } : line))
+    );
+
+  const save = async () => {
+    const response = await saveOrder.mutateAsync({
+      id: order?.id,
+      order: {
+        supplier_id: Number(supplierId),
+        expected_date: expectedDate || undefined,
+        notes: notes || undefined,
+        items: lines.map(({ product_id, quantity, unit_cost }) => ({
+          product_id,
+          quantity,
+          unit_cost,
+        })),
+      },
+    });
+    if (!order && response.id) {
+      navigate(`/purchase-orders/${response.id}`, { replace: true });
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await save();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error saving purchase order:", error);
+    }
+  };
+
+  // Save pending edits first so the supplier receives what is on screen
+  const handleSend = async () => {
+    try {
+      await save();
+      await setStatus.mutateAsync("sent");
+    } catch (error) {
+      console.error("Error sending purchase order:", error);
+    }
+  };
+
+  const canSave = !!supplierId && lines.length > 0 && !saveOrder.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>{t("purchaseOrders.supplier")}</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("purchaseOrders.chooseSupplier")} />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={String(supplier.id)}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("purchaseOrders.expectedDate")}</Label>
+            <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("purchaseOrders.notes")}</Label>
+            <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+        <CardHeader>
+          <CardTitle className="text-blue-800 dark:text-blue-400">
+            {t("purchaseOrders.lines")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder={t("purchaseOrders.addProduct")}
+              className="pl-9"
+            />
+            {results.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full rounded-md border bg-white dark:bg-gray-800 shadow-lg">
+                {results.map((product) => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => addLine(product)}
+                    className="w-full flex justify-between px-3 py-2 text-left hover:bg-blue-50 dark:hover:bg-gray-700"
+                  >
+                    <span>{product.name}</span>
+                    <span className="text-sm text-gray-500">
+                      {formatAmount(product.purchase_price)} {t("currency")}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("products.name")}</TableHead>
+                    <TableHead className="w-28">{t("purchaseOrders.quantity")}</TableHead>
+                    <TableHead className="w-32">{t("purchaseOrders.unitCost")}</TableHead>
+                    <TableHead className="text-right">{t("purchaseOrders.lineTotal")}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.product_id}>
+                      <TableCell className="font-medium">{line.product_name}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) =>
+                            updateLine(line.product_id, {
+                              quantity: Math.max(1, Number.parseInt(e.target.value) || 1),
+                            })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_cost}
+                          onChange={(e) =>
+                            updateLine(line.product_id, {
+                              unit_cost: Math.max(0, Number.parseFloat(e.target.value) || 0),
+                            })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(line.quantity * line.unit_cost)} {t("currency")}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700"
+                          onClick={() =>
+                            setLines((current) =>
+                              current.filter((l) => l.product_id !== line.product_id)
+                            )
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center pt-4 border-t">
+            <span className="text-xl font-bold text-blue-800 dark:text-blue-400">
+              {t("purchaseOrders.total")}: {formatAmount(total)} {t("currency")}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={!canSave} onClick={handleSave}>
+                <Save className="h-4 w-4 mr-2" />
+                {saveOrder.isPending ? t("form.saving") : t("form.save")}
+              </Button>
+              {order && (
+                <Button
+                  className="text-white"
+                  style={{ backgroundColor: "#1e40af" }}
+                  disabled={!canSave || setStatus.isPending}
+                  onClick={handleSend}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {t("purchaseOrders.markSent")}
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Receiving form for sent and partially received orders
+function PurchaseOrderReceiving({ order }: { order: PurchaseOrder }) {
+  const { t } = useTranslation();
+  const receiveOrder = useReceivePurchaseOrder(order.id);
+  const { data: locationsResponse } = useLocations();
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [costs, setCosts] = useState<Record<number, string>>({});
+  const [reference, setReference] = useState("");
+  const [stockLocation, setStockLocation] = useState("");
+
+  const items = order.items || [];
+  const locations = locationsResponse?.locations || [];
+  const canReceive = order.status === "sent" || order.status === "partially_received";
+
+  const fillOutstanding = () =>
+    setQuantities(
+      Object.fromEntries(
+        items.map((item) => [item.id, String(item.quantity_ordered - item.quantity_received)])
+      )
+    );
+
+  const handleReceive = async () => {
+    try {
+      await receiveOrder.mutateAsync({
+        reference: reference || undefined,
+        location_id: stockLocation ? Number(stockLocation) : undefined,
+        items: items
+          .filter((item) => Number(quantities[item.id]) > 0)
+          .map((item) => ({
+            item_id: item.id,
+            quantity: Number.parseInt(quantities[item.id]),
+            unit_cost: costs[item.id] ? Number.parseFloat(costs[item.id]) : undefined,
+          })),
+      });
+      setQuantities({});
+      setCosts({});
+      setReference("");
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error receiving purchase order:", error);
+    }
+  };
+
+  return (
+    <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-blue-800 dark:text-blue-400">
+          {t("purchaseOrders.lines")}
+        </CardTitle>
+        {canReceive && (
+          <Button variant="outline" size="sm" onClick={fillOutstanding}>
+            {t("purchaseOrders.receiveAll")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("products.name")}</TableHead>
+                <TableHead>{t("purchaseOrders.ordered")}</TableHead>
+                <TableHead>{t("purchaseOrders.receivedQty")}</TableHead>
+                <TableHead>{t("purchaseOrders.unitCost")}</TableHead>
+                {canReceive && (
+                  <>
+                    <TableHead className="w-28">{t("purchaseOrders.receiveNow")}</TableHead>
+                    <TableHead className="w-32">{t("purchaseOrders.invoicedCost")}</TableHead>
+                  </>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => {
+                const outstanding = item.quantity_ordered - item.quantity_received;
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">
+                      {item.product_name}
+                      {item.sku && <span className="block text-xs text-gray-500">{item.sku}</span>}
+                    </TableCell>
+                    <TableCell>{item.quantity_ordered}</TableCell>
+                    <TableCell>
+                      <Badge variant={outstanding === 0 ? "default" : "secondary"}>
+                        {item.quantity_received}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {formatAmount(item.unit_cost)} {t("currency")}
+                    </TableCell>
+                    {canReceive && (
+                      <>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            max={outstanding}
+                            disabled={outstanding === 0 || !item.product_id}
+                            value={quantities[item.id] || ""}
+                            onChange={(e) =>
+                              setQuantities((current) => ({ ...current, [item.id]: e.target.value }))
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            disabled={outstanding === 0 || !item.product_id}
+                            placeholder={formatAmount(item.unit_cost)}
+                            value={costs[item.id] || ""}
+                            onChange={(e) =>
+                              setCosts((current) => ({ ...current, [item.id]: e.target.value }))
+                            }
+                          />
+                        </TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {canReceive && (
+          <div className="flex flex-col md:flex-row gap-3 md:items-end justify-end pt-4 border-t">
+            {locations.length > 1 && (
+              <div className="space-y-2 md:w-48">
+                <Label>{t("locations.location")}</Label>
+                <Select
+                  value={stockLocation || String(locations.find((location) => location.is_default)?.id ?? "")}
+                  onValueChange={setStockLocation}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={String(location.id)}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2 md:w-64">
+              <Label>{t("purchaseOrders.deliveryNote")}</Label>
+              <Input value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+            <Button
+              className="text-white"
+              style={{ backgroundColor: "#1e40af" }}
+              disabled={
+                receiveOrder.isPending || !items.some((item) => Number(quantities[item.id]) > 0)
+              }
+              onClick={handleReceive}
+            >
+              <PackageCheck className="h-4 w-4 mr-2" />
+              {receiveOrder.isPending ? t("form.saving") : t("purchaseOrders.receive")}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function PurchaseOrderPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const orderId = id === "new" ? 0 : Number(id) || 0;
+  const { data, isLoading } = usePurchaseOrder(orderId);
+  const setStatus = useSetPurchaseOrderStatus(orderId);
+
+  const order = data?.order;
+  const canCancel = order && ["draft", "sent", "partially_received"].includes(order.status);
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/purchase-orders")}
+            className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20 shadow-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("actions.goBack")}
+          </Button>
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {order ? order.po_number : t("purchaseOrders.new")}
+          </h1>
+          {order && <StatusBadge status={order.status} />}
+          {order && (
+            <span className="text-gray-600 dark:text-gray-400">{order.supplier_name}</span>
+          )}
+          {canCancel && (
+            <Button
+              variant="outline"
+              className="ml-auto text-[#D32F2F] hover:bg-red-50 hover:text-red-700"
+              disabled={setStatus.isPending}
+              onClick={() => {
+                if (window.confirm(t("purchaseOrders.cancelConfirm"))) {
+                  setStatus.mutate("cancelled");
+                }
+              }}
+            >
+              <XCircle className="h-4 w-4 mr-2" />
+              {t("purchaseOrders.cancelOrder")}
+            </Button>
+          )}
+        </div>
+
+        {orderId > 0 && isLoading ? (
+          <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+        ) : !order || order.status === "draft" ? (
+          <PurchaseOrderEditor order={order} />
+        ) : (
+          <PurchaseOrderReceiving order={order} />
+        )}
+      </main>
+      <Toaster />
+    </div>
+  );
+}
@@ -1,62 +1,127 @@
+import { useMemo } from "react";
 import { useTranslation } from "react-i18next";
-import { X, Package, Download, Copy } from "lucide-react";
+import { Download, Copy, QrCode } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
 import { Button } from "./ui/button";
 import type { Product } from "@/types";
+import { localizedName } from "@/lib/localize";
+import { drawQr, encodeQr, qrSvgPath, qrToSvg } from "@/lib/qrcode";
+import { downloadBlob, productLink } from "@/lib/utils";
 
-// QR Code component - KEPT FOR FUTURE USE
-// TODO: Implement actual QR code generation library (e.g., qrcode.js)
+// Pixels per module in the downloaded PNG; 10 gives a ~400px image for a short link
+const PNG_SCALE = 10;
+
+// White border around the symbol, in modules, required by scanners
+const QUIET_ZONE = 4;
+
+const renderPng = (modules: boolean[][]) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    drawQr(canvas, modules, PNG_SCALE, QUIET_ZONE);
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+  });
+
+// QR code linking to the product's public page, so customers can scan a shelf
+// tag and see its price and availability
 export function ProductQRCode({ product, isVisible, onClose }: {
   product: Product;
   isVisible: boolean;
   onClose: () => void;
 }) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const link = productLink(product.id);
+  const modules = useMemo(() => encodeQr(link), [link]);
+  const viewBoxSize = modules.length + QUIET_ZONE * 2;
+  const filename = `product-${product.id}-qr`;
 
-  if (!isVisible) return null;
+  const handleDownloadPng = async () => {
+    try {
+      downloadBlob(await renderPng(modules), `${filename}.png`);
+    } catch (error) {
+      console.error("Error creating QR code image:", error);
+      toast.error(t("qrCode.downloadError"));
+    }
+  };
 
-  const productData = JSON.stringify({
-    id: product.id,
-    name: product.name,
-    price: product.selling_price,
-    stock: product.remaining_stock
-  });
+  const handleDownloadSvg = () => {
+    downloadBlob(new Blob([qrToSvg(modules, QUIET_ZONE)], { type: "image/svg+xml" }), `${filename}.svg`);
+  };
+
+  // Copy the image where the browser allows it, otherwise the link itself
+  const handleCopy = async () => {
+    try {
+      if (typeof ClipboardItem !== "undefined" && navigator.clipboard?.write) {
+        await navigator.clipboard.write([new ClipboardItem({ "image/png": renderPng(modules) })]);
+        toast.success(t("qrCode.imageCopied"));
+        return;
+      }
+    } catch (error) {
+      console.error("Error copying QR code image:", error);
+    }
+
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success(t("qrCode.linkCopied"));
+    } catch (error) {
+      console.error("Error copying product link:", error);
+      toast.error(t("qrCode.copyError"));
+    }
+  };
 
   return (
-    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
-      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl max-w-sm w-full mx-4" onClick={e => e.stopPropagation()}>
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold">Product QR Code</h3>
-          <Button variant="ghost" size="sm" onClick={onClose}>
-            <X className="h-4 w-4" />
-          </Button>
-        </div>
+    <Dialog open={isVisible} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[380px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            {t("qrCode.title")}
+          </DialogTitle>
+          <DialogDescription>{t("qrCode.description")}</DialogDescription>
+        </DialogHeader>
 
         <div className="text-center space-y-4">
-          <div className="bg-white p-4 rounded-lg border mx-auto w-fit">
-            {/* QR Code would be generated here - for demo, showing placeholder */}
-            <div className="w-32 h-32 bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
-              <Package className="h-16 w-16 text-gray-400" />
-            </div>
+          <div className="bg-white p-2 rounded-lg border mx-auto w-fit">
+            <svg
+              viewBox={`0 0 ${viewBoxSize} ${viewBoxSize}`}
+              className="w-48 h-48"
+              shapeRendering="crispEdges"
+              role="img"
+              aria-label={t("qrCode.title")}
+            >
+              <rect width={viewBoxSize} height={viewBoxSize} fill="#ffffff" />
+              <path d={qrSvgPath(modules, QUIET_ZONE)} fill="#000000" />
+            </svg>
           </div>
 
           <div className="text-sm text-gray-600 dark:text-gray-400">
-            <p className="font-medium">{product.name}</p>
-            <p>ID: {product.id}</p>
-            <p>Price: {product.selling_price} {t("currency")}</p>
+            <p className="font-medium">{localizedName(product, i18n.language)}</p>
+            <p>{product.selling_price} {t("currency")}</p>
+            <p className="text-xs break-all mt-1" dir="ltr">{link}</p>
           </div>
 
           <div className="flex gap-2">
-            <Button variant="outline" size="sm" className="flex-1">
+            <Button variant="outline" size="sm" className="flex-1" onClick={handleDownloadPng}>
+              <Download className="h-4 w-4 mr-2" />
+              PNG
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1" onClick={handleDownloadSvg}>
               <Download className="h-4 w-4 mr-2" />
-              Download
+              SVG
             </Button>
-            <Button variant="outline" size="sm" className="flex-1">
+            <Button variant="outline" size="sm" className="flex-1" onClick={handleCopy}>
               <Copy className="h-4 w-4 mr-2" />
-              Copy
+              {t("qrCode.copy")}
             </Button>
           </div>
         </div>
-      </div>
-    </div>
+      </DialogContent>
+    </Dialog>
   );
 }
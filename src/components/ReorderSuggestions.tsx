@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, ClipboardPlus, PackageSearch } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Toaster } from "sonner";
+import type { ReorderGroup } from "@/types";
+import { useReorderSuggestions, useSavePurchaseOrder } from "@/hooks/usePurchaseOrders";
+import { Navbar } from "./Navbar";
+
+const SALES_WINDOWS = [7, 14, 30, 60, 90];
+
+export function ReorderSuggestionsPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [days, setDays] = useState(30);
+  const { data, isLoading } = useReorderSuggestions(days);
+  const saveOrder = useSavePurchaseOrder();
+  const [convertingSupplier, setConvertingSupplier] = useState<number | null>(null);
+
+  const groups = data?.groups || [];
+
+  const createDraftOrder = async (group: ReorderGroup) => {
+    if (!group.supplier_id) return;
+    setConvertingSupplier(group.supplier_id);
+    try {
+      const response = await saveOrder.mutateAsync({
+        order: {
+          supplier_id: group.supplier_id,
+          items: group.items.map((item) => ({
+            product_id: item.product_id,
+            quantity: item.suggested_quantity,
+            unit_cost: item.unit_cost,
+          })),
+        },
+      });
+      if (response.id) {
+        navigate(`/purchase-orders/${response.id}`);
+      }
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error creating purchase order:", error);
+    } finally {
+      setConvertingSupplier(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/purchase-orders")}
+            className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20 shadow-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("actions.goBack")}
+          </Button>
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("reorder.title")}
+          </h1>
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {t("reorder.salesWindow")}
+            </span>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SALES_WINDOWS.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {t("reorder.days", { count: value })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <PackageSearch className="h-12 w-12 mx-auto mb-2 text-gray-400" />
+            {t("reorder.empty")}
+          </div>
+        ) : (
+          groups.map((group) => (
+            <Card
+              key={group.supplier_id || "none"}
+              className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800"
+            >
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-blue-800 dark:text-blue-400">
+                    {group.supplier_name || t("reorder.noSupplier")}
+                  </CardTitle>
+                  {group.supplier_id ? (
+                    <p className="text-sm text-gray-500">
+                      {t("reorder.leadTime", { count: group.lead_time_days })}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-orange-600">{t("reorder.assignSupplier")}</p>
+                  )}
+                </div>
+                {group.supplier_id && (
+                  <Button
+                    className="text-white"
+                    style={{ backgroundColor: "#1e40af" }}
+                    disabled={saveOrder.isPending}
+                    onClick={() => createDraftOrder(group)}
+                  >
+                    <ClipboardPlus className="h-4 w-4 mr-2" />
+                    {convertingSupplier === group.supplier_id
+                      ? t("form.saving")
+                      : t("reorder.createDraft")}
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("products.name")}</TableHead>
+                        <TableHead>{t("products.stock")}</TableHead>
+                        <TableHead>{t("reorder.minMax")}</TableHead>
+                        <TableHead>{t("reorder.onOrder")}</TableHead>
+                        <TableHead>{t("reorder.avgDailySales")}</TableHead>
+                        <TableHead>{t("reorder.suggested")}</TableHead>
+                        <TableHead className="text-right">{t("purchaseOrders.lineTotal")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.items.map((item) => (
+                        <TableRow
+                          key={item.product_id}
+                          className="cursor-pointer"
+                          onClick={() => navigate(`/view/product/${item.product_id}`)}
+                        >
+                          <TableCell className="font-medium">
+                            {item.name}
+                            {item.sku && (
+                              <span className="block text-xs text-gray-500">{item.sku}</span>
+                            )}
+                          </TableCell>
+                          <TableCell
+                            className={
+                              item.remaining_stock <= item.min_stock_level ? "text-red-600 font-semibold" : ""
+                            }
+                          >
+                            {item.remaining_stock}
+                          </TableCell>
+                          <TableCell>
+                            {item.min_stock_level} / {item.max_stock_level}
+                          </TableCell>
+                          <TableCell>{item.on_order}</TableCell>
+                          <TableCell>{item.avg_daily_sales}</TableCell>
+                          <TableCell className="font-bold text-blue-800 dark:text-blue-400">
+                            {item.suggested_quantity}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(item.suggested_quantity * item.unit_cost).toFixed(2)} {t("currency")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="text-right font-semibold mt-4">
+                  {t("purchaseOrders.total")}: {Number(group.total).toFixed(2)} {t("currency")}
+                </p>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+      <Toaster />
+    </div>
+  );
+}
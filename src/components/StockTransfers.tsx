@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate, useParams } from "react-router-dom";
+import { Plus, Trash2, ArrowLeft, ArrowRight, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Pagination } from "@/components/ui/Pagination";
+import { Toaster } from "sonner";
+import type { Product, StockTransfer } from "@/types";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useProducts } from "@/hooks/useProducts";
+import { useLocations } from "@/hooks/useLocations";
+import { useStockTransfers, useStockTransfer, useCreateStockTransfer } from "@/hooks/useStockTransfers";
+import { shownStock } from "@/lib/stock";
+import { holdsStock } from "@/lib/variants";
+import { Navbar } from "./Navbar";
+
+export function StockTransfersPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useStockTransfers(page);
+
+  const transfers = data?.transfers || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("transfers.title")}
+          </h1>
+          <Button
+            onClick={() => navigate("/transfers/new")}
+            className="text-white shadow-lg"
+            style={{ backgroundColor: "#1e40af" }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t("transfers.new")}
+          </Button>
+        </div>
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : transfers.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("transfers.empty")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("transfers.reference")}</TableHead>
+                      <TableHead>{t("transfers.from")}</TableHead>
+                      <TableHead>{t("transfers.to")}</TableHead>
+                      <TableHead>{t("transfers.lines")}</TableHead>
+                      <TableHead>{t("transfers.quantity")}</TableHead>
+                      <TableHead>{t("transfers.date")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transfers.map((transfer) => (
+                      <TableRow
+                        key={transfer.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/transfers/${transfer.id}`)}
+                      >
+                        <TableCell className="font-medium">{transfer.reference}</TableCell>
+                        <TableCell>{transfer.from_location_name}</TableCell>
+                        <TableCell>{transfer.to_location_name}</TableCell>
+                        <TableCell>{transfer.item_count}</TableCell>
+                        <TableCell>{Number(transfer.total_quantity) || 0}</TableCell>
+                        <TableCell>
+                          {new Date(transfer.created_at).toLocaleString()} · {transfer.created_by}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {pagination && pagination.totalPages > 1 && (
+              <Pagination
+                className="mt-4"
+                currentPage={pagination.currentPage}
+                totalPages={pagination.totalPages}
+                totalItems={pagination.totalItems}
+                itemsPerPage={pagination.itemsPerPage}
+                onPageChange={setPage}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Toaster />
+    </div>
+  );
+}
+
+interface DraftLine {
+  product_id: number;
+  product_name: string;
+  // Stock at the source when the line was added
+  available: number;
+  quantity: number;
+}
+
+// Form for a new transfer. Products are searched at the source location, so
+// only what is there can be added.
+function StockTransferEditor() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const debouncedSearch = useDebounce(searchTerm.trim(), 250);
+
+  const { data: locationsResponse } = useLocations();
+  const { data: productsResponse } = useProducts(debouncedSearch, "all", 1, 10, "created_at", "DESC", fromId || "all");
+  const createTransfer = useCreateStockTransfer();
+
+  const locations = locationsResponse?.locations || [];
+  const results = debouncedSearch && fromId ? (productsResponse?.products || []).filter(holdsStock) : [];
+
+  const changeSource = (value: string) => {
+    setFromId(value);
+    // Quantities were checked against the previous source
+    setLines([]);
+    if (value === toId) setToId("");
+  };
+
+  const addLine = (product: Product) => {
+    setLines((current) =>
+      current.some((line) => line.product_id === product.id)
+        ? current
+        : [
+            ...current,
+            {
+              product_id: product.id,
+              product_name: product.name,
+              available: shownStock(product),
+              quantity: 1,
+            },
+          ]
+    );
+    setSearchTerm("");
+  };
+
+  const updateQuantity = (productId: number, quantity: number) =>
+    setLines((current) =>
+      current.map((line) => (line.product_id === productId ? { ...line, quantity } : line))
+    );
+
+  const handleSubmit = async () => {
+    try {
+      const response = await createTransfer.mutateAsync({
+        from_location_id: Number(fromId),
+        to_location_id: Number(toId),
+        notes: notes || undefined,
+        items: lines.map(({ product_id, quantity }) => ({ product_id, quantity })),
+      });
+      if (response.id) navigate(`/transfers/${response.id}`, { replace: true });
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error creating transfer:", error);
+    }
+  };
+
+  const canSubmit =
+    !!fromId &&
+    !!toId &&
+    fromId !== toId &&
+    lines.length > 0 &&
+    lines.every((line) => line.quantity > 0 && line.quantity <= line.available) &&
+    !createTransfer.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>{t("transfers.from")}</Label>
+            <Select value={fromId} onValueChange={changeSource}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("transfers.chooseLocation")} />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={String(location.id)}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("transfers.to")}</Label>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("transfers.chooseLocation")} />
+              </SelectTrigger>
+              <SelectContent>
+                {locations
+                  .filter((location) => String(location.id) !== fromId)
+                  .map((location) => (
+                    <SelectItem key={location.id} value={String(location.id)}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("transfers.notes")}</Label>
+            <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+        <CardHeader>
+          <CardTitle className="text-blue-800 dark:text-blue-400">{t("transfers.lines")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={searchTerm}
+              disabled={!fromId}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder={fromId ? t("transfers.addProduct") : t("transfers.chooseSourceFirst")}
+              className="pl-9"
+            />
+            {results.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full rounded-md border bg-white dark:bg-gray-800 shadow-lg">
+                {results.map((product) => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    onClick={() => addLine(product)}
+                    className="w-full flex justify-between px-3 py-2 text-left hover:bg-blue-50 dark:hover:bg-gray-700"
+                  >
+                    <span>{product.name}</span>
+                    <span className="text-sm text-gray-500">
+                      {t("transfers.available", { count: shownStock(product) })}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("products.name")}</TableHead>
+                    <TableHead>{t("transfers.availableLabel")}</TableHead>
+                    <TableHead className="w-28">{t("transfers.quantity")}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.product_id}>
+                      <TableCell className="font-medium">{line.product_name}</TableCell>
+                      <TableCell>{line.available}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          max={line.available}
+                          value={line.quantity}
+                          className={line.quantity > line.available ? "border-red-500" : ""}
+                          onChange={(e) =>
+                            updateQuantity(line.product_id, Math.max(1, Number.parseInt(e.target.value) || 1))
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700"
+                          onClick={() =>
+                            setLines((current) => current.filter((l) => l.product_id !== line.product_id))
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex justify-end pt-4 border-t">
+            <Button
+              className="text-white"
+              style={{ backgroundColor: "#1e40af" }}
+              disabled={!canSubmit}
+              onClick={handleSubmit}
+            >
+              <ArrowRight className="h-4 w-4 mr-2" />
+              {createTransfer.isPending ? t("form.saving") : t("transfers.submit")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function StockTransferDetails({ transfer }: { transfer: StockTransfer }) {
+  const { t } = useTranslation();
+
+  return (
+    <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-blue-800 dark:text-blue-400">{t("transfers.lines")}</CardTitle>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {new Date(transfer.created_at).toLocaleString()} · {transfer.created_by}
+          {transfer.notes && ` · ${transfer.notes}`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("products.name")}</TableHead>
+                <TableHead>{t("form.sku")}</TableHead>
+                <TableHead className="text-right">{t("transfers.quantity")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(transfer.items || []).map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{item.product_name}</TableCell>
+                  <TableCell>{item.sku || "—"}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function StockTransferPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const transferId = id === "new" ? 0 : Number(id) || 0;
+  const { data, isLoading } = useStockTransfer(transferId);
+
+  const transfer = data?.transfer;
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/transfers")}
+            className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20 shadow-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("actions.goBack")}
+          </Button>
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {transfer ? transfer.reference : t("transfers.new")}
+          </h1>
+          {transfer && (
+            <span className="text-gray-600 dark:text-gray-400">
+              {transfer.from_location_name} → {transfer.to_location_name}
+            </span>
+          )}
+        </div>
+
+        {transferId === 0 ? (
+          <StockTransferEditor />
+        ) : isLoading ? (
+          <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+        ) : transfer ? (
+          <StockTransferDetails transfer={transfer} />
+        ) : (
+          <div className="text-center py-8 text-gray-500">{t("transfers.notFound")}</div>
+        )}
+      </main>
+      <Toaster />
+    </div>
+  );
+}
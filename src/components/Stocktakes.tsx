@@ -0,0 +1,633 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate, useParams } from "react-router-dom";
+import { Plus, ArrowLeft, XCircle, CheckCircle2, Camera, ScanLine } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Pagination } from "@/components/ui/Pagination";
+import { Toaster, toast } from "sonner";
+import type { Stocktake, StocktakeItem, StocktakeScope, StocktakeStatus } from "@/types";
+import { barcodeCandidates } from "@/lib/barcode";
+import { localizedName } from "@/lib/localize";
+import { useCategories } from "@/hooks/useProducts";
+import { useLocations } from "@/hooks/useLocations";
+import {
+  useStocktakes,
+  useStocktake,
+  useCreateStocktake,
+  useRecordStocktakeCounts,
+  useApproveStocktake,
+  useCancelStocktake,
+} from "@/hooks/useStocktakes";
+import { useAuth } from "./auth-provider";
+import { BarcodeScanner } from "./BarcodeScanner";
+import { Navbar } from "./Navbar";
+
+const STATUSES: StocktakeStatus[] = ["open", "approved", "cancelled"];
+
+const STATUS_CLASSES: Record<StocktakeStatus, string> = {
+  open: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+};
+
+type LineFilter = "all" | "uncounted" | "variance";
+
+function StatusBadge({ status }: { status: StocktakeStatus }) {
+  const { t } = useTranslation();
+  return (
+    <Badge className={`border-0 ${STATUS_CLASSES[status]}`}>
+      {t(`stocktakes.status.${status}`)}
+    </Badge>
+  );
+}
+
+const formatAmount = (value: number) => Number(value || 0).toFixed(2);
+
+// Signed, so a shortage reads -3 and a surplus +3
+const formatVariance = (value: number) => {
+  const rounded = Number(value || 0);
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+};
+
+const varianceClass = (value: number | null) =>
+  !value
+    ? "text-gray-600 dark:text-gray-400"
+    : value < 0
+      ? "text-red-600 dark:text-red-400"
+      : "text-green-600 dark:text-green-400";
+
+function ScopeLabel({ stocktake }: { stocktake: Stocktake }) {
+  const { t } = useTranslation();
+  const site = stocktake.location_name ? `${stocktake.location_name} · ` : "";
+  if (stocktake.scope_type === "all") return <>{site}{t("stocktakes.scope.all")}</>;
+  return (
+    <>
+      {site}
+      {t(`stocktakes.scope.${stocktake.scope_type}`)}:{" "}
+      {stocktake.scope_type === "category"
+        ? stocktake.category_name || stocktake.scope_value
+        : stocktake.scope_value}
+    </>
+  );
+}
+
+function NewStocktakeDialog({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const createStocktake = useCreateStocktake();
+  const { data: categoriesResponse } = useCategories();
+  const { data: locationsResponse } = useLocations();
+  const [stockLocation, setStockLocation] = useState("");
+  const [scopeType, setScopeType] = useState<StocktakeScope>("all");
+  const [scopeValue, setScopeValue] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const categories = categoriesResponse?.categories || [];
+  const locations = locationsResponse?.locations || [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await createStocktake.mutateAsync({
+        scope_type: scopeType,
+        scope_value: scopeType === "all" ? undefined : scopeValue.trim(),
+        location_id: stockLocation ? Number(stockLocation) : undefined,
+        notes: notes || undefined,
+      });
+      onClose();
+      if (response.id) navigate(`/stocktakes/${response.id}`);
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error creating stocktake:", error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-primary">{t("stocktakes.new")}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <Label>{t("locations.location")}</Label>
+              <Select
+                value={stockLocation || String(locations.find((location) => location.is_default)?.id ?? "")}
+                onValueChange={setStockLocation}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={String(location.id)}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>{t("stocktakes.scopeLabel")}</Label>
+            <Select
+              value={scopeType}
+              onValueChange={(value) => {
+                setScopeType(value as StocktakeScope);
+                setScopeValue("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("stocktakes.scope.all")}</SelectItem>
+                <SelectItem value="category">{t("stocktakes.scope.category")}</SelectItem>
+                <SelectItem value="location">{t("stocktakes.scope.location")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {scopeType === "category" && (
+            <div className="space-y-2">
+              <Label>{t("stocktakes.scope.category")}</Label>
+              <Select value={scopeValue} onValueChange={setScopeValue}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("form.categoryPlaceholder")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={String(category.id)}>
+                      {localizedName(category, i18n.language)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {scopeType === "location" && (
+            <div className="space-y-2">
+              <Label>{t("stocktakes.scope.location")}</Label>
+              <Input required value={scopeValue} onChange={(e) => setScopeValue(e.target.value)} />
+              <p className="text-xs text-muted-foreground">{t("stocktakes.locationHint")}</p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>{t("stocktakes.notes")}</Label>
+            <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <p className="text-sm text-muted-foreground">{t("stocktakes.snapshotHint")}</p>
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t("form.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              disabled={createStocktake.isPending || (scopeType !== "all" && !scopeValue.trim())}
+            >
+              {createStocktake.isPending ? t("form.saving") : t("stocktakes.start")}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function StocktakesPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<StocktakeStatus | "all">("all");
+  const [page, setPage] = useState(1);
+  const [isCreating, setIsCreating] = useState(false);
+  const { data, isLoading } = useStocktakes(status, page);
+
+  const stocktakes = data?.stocktakes || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("stocktakes.title")}
+          </h1>
+          <Button
+            onClick={() => setIsCreating(true)}
+            className="text-white shadow-lg"
+            style={{ backgroundColor: "#1e40af" }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t("stocktakes.new")}
+          </Button>
+        </div>
+
+        <div className="mb-6 w-64">
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as StocktakeStatus | "all");
+              setPage(1);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("stocktakes.allStatuses")}</SelectItem>
+              {STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {t(`stocktakes.status.${value}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : stocktakes.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("stocktakes.empty")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("stocktakes.reference")}</TableHead>
+                      <TableHead>{t("stocktakes.scopeLabel")}</TableHead>
+                      <TableHead>{t("stocktakes.statusLabel")}</TableHead>
+                      <TableHead>{t("stocktakes.progress")}</TableHead>
+                      <TableHead>{t("stocktakes.date")}</TableHead>
+                      <TableHead className="text-right">{t("stocktakes.varianceValue")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stocktakes.map((stocktake) => (
+                      <TableRow
+                        key={stocktake.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/stocktakes/${stocktake.id}`)}
+                      >
+                        <TableCell className="font-medium">{stocktake.reference}</TableCell>
+                        <TableCell>
+                          <ScopeLabel stocktake={stocktake} />
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={stocktake.status} />
+                        </TableCell>
+                        <TableCell>
+                          {stocktake.counted_count} / {stocktake.item_count}
+                        </TableCell>
+                        <TableCell>{new Date(stocktake.created_at).toLocaleDateString()}</TableCell>
+                        <TableCell className={`text-right ${varianceClass(Number(stocktake.variance_value))}`}>
+                          {formatAmount(stocktake.variance_value)} {t("currency")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <Pagination
+                className="mt-4"
+                currentPage={pagination.currentPage}
+                totalPages={pagination.totalPages}
+                totalItems={pagination.totalItems}
+                itemsPerPage={pagination.itemsPerPage}
+                onPageChange={setPage}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <NewStocktakeDialog isOpen={isCreating} onClose={() => setIsCreating(false)} />
+      <Toaster />
+    </div>
+  );
+}
+
+// Line a scanned or typed code refers to, by barcode or SKU
+const findScannedItem = (items: StocktakeItem[], code: string) => {
+  const candidates = barcodeCandidates(code);
+  return items.find(
+    (item) =>
+      item.product_id &&
+      candidates.some((candidate) => item.barcode === candidate || item.sku === candidate)
+  );
+};
+
+export function StocktakePage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const { id } = useParams();
+  const stocktakeId = Number(id) || 0;
+  const { data, isLoading } = useStocktake(stocktakeId);
+  const recordCounts = useRecordStocktakeCounts(stocktakeId);
+  const approveStocktake = useApproveStocktake(stocktakeId);
+  const cancelStocktake = useCancelStocktake(stocktakeId);
+  const [code, setCode] = useState("");
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [filter, setFilter] = useState<LineFilter>("all");
+  // Typed counts not yet saved, by line id
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const stocktake = data?.stocktake;
+  const items = stocktake?.items || [];
+  const isOpen = stocktake?.status === "open";
+
+  const visibleItems = items.filter((item) =>
+    filter === "uncounted"
+      ? item.counted_quantity === null
+      : filter === "variance"
+        ? !!item.variance_quantity
+        : true
+  );
+
+  // Each scan counts one more unit, added on the server so scans from
+  // several devices add up
+  const countCode = async (value: string) => {
+    const item = findScannedItem(items, value.trim());
+    if (!item?.product_id) {
+      toast.error(t("stocktakes.notInScope", { code: value.trim() }));
+      return;
+    }
+    try {
+      const response = await recordCounts.mutateAsync([
+        { product_id: item.product_id, quantity: 1, mode: "add" },
+      ]);
+      toast.success(
+        t("stocktakes.scanned", {
+          name: item.product_name,
+          count: response.items?.[0]?.counted_quantity ?? 0,
+        })
+      );
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error counting scanned product:", error);
+    }
+  };
+
+  // Barcode scanners type the code and press Enter
+  const handleCodeKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    if (!code.trim()) return;
+    await countCode(code);
+    setCode("");
+  };
+
+  const handleBarcodeScanned = async (value: string) => {
+    setIsScannerOpen(false);
+    await countCode(value);
+  };
+
+  const saveDraft = async (item: StocktakeItem) => {
+    const draft = drafts[item.id];
+    if (draft === undefined || !item.product_id) return;
+    const quantity = draft.trim() === "" ? null : Math.max(0, Number.parseInt(draft) || 0);
+    if (quantity !== item.counted_quantity) {
+      try {
+        await recordCounts.mutateAsync([{ product_id: item.product_id, quantity, mode: "set" }]);
+      } catch (error) {
+        console.error("Error saving count:", error);
+      }
+    }
+    setDrafts(({ [item.id]: _, ...rest }) => rest);
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/stocktakes")}
+            className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20 shadow-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("actions.goBack")}
+          </Button>
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {stocktake ? stocktake.reference : t("stocktakes.title")}
+          </h1>
+          {stocktake && <StatusBadge status={stocktake.status} />}
+          {stocktake && (
+            <span className="text-gray-600 dark:text-gray-400">
+              <ScopeLabel stocktake={stocktake} />
+            </span>
+          )}
+          {isOpen && (
+            <div className="ml-auto flex gap-2">
+              <Button
+                variant="outline"
+                className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700"
+                disabled={cancelStocktake.isPending}
+                onClick={() => {
+                  if (window.confirm(t("stocktakes.cancelConfirm"))) {
+                    cancelStocktake.mutate();
+                  }
+                }}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                {t("stocktakes.cancel")}
+              </Button>
+              {hasRole("admin") && (
+                <Button
+                  className="text-white"
+                  style={{ backgroundColor: "#1e40af" }}
+                  disabled={approveStocktake.isPending || !stocktake?.counted_count}
+                  onClick={() => {
+                    if (window.confirm(t("stocktakes.approveConfirm"))) {
+                      approveStocktake.mutate();
+                    }
+                  }}
+                >
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  {t("stocktakes.approve")}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+        ) : !stocktake ? (
+          <div className="text-center py-8 text-gray-500">{t("stocktakes.notFound")}</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card className="dark:bg-gray-800">
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">{t("stocktakes.progress")}</p>
+                  <p className="text-2xl font-bold">
+                    {stocktake.counted_count} / {stocktake.item_count}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="dark:bg-gray-800">
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">{t("stocktakes.varianceQuantity")}</p>
+                  <p className={`text-2xl font-bold ${varianceClass(Number(stocktake.variance_quantity))}`}>
+                    {formatVariance(stocktake.variance_quantity)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className="dark:bg-gray-800">
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">{t("stocktakes.varianceValue")}</p>
+                  <p className={`text-2xl font-bold ${varianceClass(Number(stocktake.variance_value))}`}>
+                    {formatAmount(stocktake.variance_value)} {t("currency")}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {stocktake.status === "approved" && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {t("stocktakes.approvedBy", {
+                  name: stocktake.approved_by,
+                  date: stocktake.approved_at ? new Date(stocktake.approved_at).toLocaleString() : "",
+                })}
+              </p>
+            )}
+
+            <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+              <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4 space-y-0">
+                <CardTitle className="text-blue-800 dark:text-blue-400">
+                  {t("stocktakes.lines")}
+                </CardTitle>
+                <div className="flex flex-wrap gap-2">
+                  {isOpen && (
+                    <>
+                      <div className="relative">
+                        <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          value={code}
+                          onChange={(e) => setCode(e.target.value)}
+                          onKeyDown={handleCodeKeyDown}
+                          placeholder={t("stocktakes.scanPlaceholder")}
+                          className="pl-9 w-64"
+                          autoFocus
+                        />
+                      </div>
+                      <Button variant="outline" onClick={() => setIsScannerOpen(true)}>
+                        <Camera className="h-4 w-4 mr-2" />
+                        {t("stocktakes.scan")}
+                      </Button>
+                    </>
+                  )}
+                  <Select value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t("stocktakes.filter.all")}</SelectItem>
+                      <SelectItem value="uncounted">{t("stocktakes.filter.uncounted")}</SelectItem>
+                      <SelectItem value="variance">{t("stocktakes.filter.variance")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t("products.name")}</TableHead>
+                        <TableHead>{t("stocktakes.location")}</TableHead>
+                        <TableHead>{t("stocktakes.expected")}</TableHead>
+                        <TableHead className="w-32">{t("stocktakes.counted")}</TableHead>
+                        <TableHead>{t("stocktakes.varianceQuantity")}</TableHead>
+                        <TableHead className="text-right">{t("stocktakes.varianceValue")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleItems.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell className="font-medium">
+                            {item.product_name}
+                            {(item.sku || item.barcode) && (
+                              <span className="block text-xs text-gray-500">
+                                {[item.sku, item.barcode].filter(Boolean).join(" · ")}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>{item.location || "—"}</TableCell>
+                          <TableCell>{item.expected_quantity}</TableCell>
+                          <TableCell>
+                            {isOpen && item.product_id ? (
+                              <Input
+                                type="number"
+                                min="0"
+                                value={drafts[item.id] ?? item.counted_quantity ?? ""}
+                                onChange={(e) =>
+                                  setDrafts((current) => ({ ...current, [item.id]: e.target.value }))
+                                }
+                                onBlur={() => saveDraft(item)}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") e.currentTarget.blur();
+                                }}
+                              />
+                            ) : (
+                              (item.counted_quantity ?? "—")
+                            )}
+                            {item.counted_by && (
+                              <span className="block text-xs text-gray-500">{item.counted_by}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className={varianceClass(item.variance_quantity)}>
+                            {item.variance_quantity === null ? "—" : formatVariance(item.variance_quantity)}
+                          </TableCell>
+                          <TableCell className={`text-right ${varianceClass(item.variance_quantity)}`}>
+                            {item.variance_value === null
+                              ? "—"
+                              : `${formatAmount(item.variance_value)} ${t("currency")}`}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <BarcodeScanner
+          isOpen={isScannerOpen}
+          onClose={() => setIsScannerOpen(false)}
+          onDetected={handleBarcodeScanned}
+        />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
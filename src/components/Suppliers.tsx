@@ -0,0 +1,465 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Eye,
+  ArrowLeft,
+  Phone,
+  Mail,
+  MapPin,
+  Clock,
+  FileText,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "sonner";
+import type { Supplier, SupplierInput } from "@/types";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  useSuppliers,
+  useSupplier,
+  useSaveSupplier,
+  useDeleteSupplier,
+} from "@/hooks/useSuppliers";
+import { SearchBar } from "./SearchBar";
+import { Navbar } from "./Navbar";
+import { useAuth } from "./auth-provider";
+
+const EMPTY_SUPPLIER: SupplierInput = {
+  name: "",
+  contact_name: "",
+  phone: "",
+  email: "",
+  address: "",
+  tax_id: "",
+  payment_terms: "",
+  lead_time_days: 0,
+  notes: "",
+  is_active: true,
+};
+
+const TEXT_FIELDS = [
+  "contact_name",
+  "phone",
+  "email",
+  "tax_id",
+  "payment_terms",
+] as const;
+
+function SupplierFormDialog({
+  isOpen,
+  onClose,
+  supplier,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  supplier: Supplier | null;
+}) {
+  const { t } = useTranslation();
+  const saveSupplier = useSaveSupplier();
+  const [values, setValues] = useState<SupplierInput>(EMPTY_SUPPLIER);
+
+  useEffect(() => {
+    setValues(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_name: supplier.contact_name || "",
+            phone: supplier.phone || "",
+            email: supplier.email || "",
+            address: supplier.address || "",
+            tax_id: supplier.tax_id || "",
+            payment_terms: supplier.payment_terms || "",
+            lead_time_days: Number(supplier.lead_time_days) || 0,
+            notes: supplier.notes || "",
+            is_active: !!supplier.is_active,
+          }
+        : EMPTY_SUPPLIER
+    );
+  }, [supplier]);
+
+  const setField = (field: keyof SupplierInput, value: string | number | boolean) =>
+    setValues((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await saveSupplier.mutateAsync({ supplier: values, id: supplier?.id });
+      onClose();
+    } catch (error) {
+      // Error handling is done in the mutation hook
+      console.error("Error saving supplier:", error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-primary">
+            {supplier ? t("suppliers.edit") : t("suppliers.add")}
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("suppliers.name")}</Label>
+            <Input
+              required
+              value={values.name}
+              onChange={(e) => setField("name", e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {TEXT_FIELDS.map((field) => (
+              <div key={field} className="space-y-2">
+                <Label>{t(`suppliers.fields.${field}`)}</Label>
+                <Input
+                  type={field === "email" ? "email" : "text"}
+                  value={values[field] || ""}
+                  onChange={(e) => setField(field, e.target.value)}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label>{t("suppliers.fields.lead_time_days")}</Label>
+              <Input
+                type="number"
+                min="0"
+                value={values.lead_time_days}
+                onChange={(e) =>
+                  setField("lead_time_days", Number.parseInt(e.target.value) || 0)
+                }
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("suppliers.fields.address")}</Label>
+            <Input
+              value={values.address}
+              onChange={(e) => setField("address", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("suppliers.fields.notes")}</Label>
+            <Input
+              value={values.notes}
+              onChange={(e) => setField("notes", e.target.value)}
+            />
+          </div>
+          {supplier && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!values.is_active}
+                onChange={(e) => setField("is_active", e.target.checked)}
+              />
+              {t("suppliers.active")}
+            </label>
+          )}
+          <div className="flex justify-end space-x-3 pt-4 border-t border-border">
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t("form.cancel")}
+            </Button>
+            <Button type="submit" disabled={saveSupplier.isPending}>
+              {saveSupplier.isPending ? t("form.saving") : t("form.save")}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SuppliersPage() {
+  const { t } = useTranslation();
+  const { hasRole } = useAuth();
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const debouncedSearch = useDebounce(searchTerm, 300);
+  const { data, isLoading } = useSuppliers(debouncedSearch);
+  const deleteSupplier = useDeleteSupplier();
+
+  const suppliers = data?.suppliers || [];
+
+  const openForm = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {t("suppliers.title")}
+          </h1>
+          {hasRole("staff") && (
+            <Button
+              onClick={() => openForm(null)}
+              className="text-white shadow-lg"
+              style={{ backgroundColor: "#1e40af" }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {t("suppliers.add")}
+            </Button>
+          )}
+        </div>
+
+        <div className="mb-6">
+          <SearchBar value={searchTerm} onChange={setSearchTerm} />
+        </div>
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : suppliers.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("suppliers.empty")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("suppliers.name")}</TableHead>
+                      <TableHead>{t("suppliers.fields.contact_name")}</TableHead>
+                      <TableHead>{t("suppliers.fields.phone")}</TableHead>
+                      <TableHead>{t("suppliers.fields.lead_time_days")}</TableHead>
+                      <TableHead>{t("suppliers.productCount")}</TableHead>
+                      <TableHead className="text-center">{t("products.actions")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {suppliers.map((supplier) => (
+                      <TableRow key={supplier.id}>
+                        <TableCell className="font-medium">{supplier.name}</TableCell>
+                        <TableCell>{supplier.contact_name}</TableCell>
+                        <TableCell>{supplier.phone}</TableCell>
+                        <TableCell>
+                          {t("suppliers.days", { count: supplier.lead_time_days })}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{supplier.product_count || 0}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            {hasRole("staff") && (
+                              <Button
+                                className="text-blue-700 hover:bg-blue-100 hover:text-blue-800 border border-gray-300 dark:border dark:border-gray-700"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openForm(supplier)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {hasRole("admin") && (
+                              <Button
+                                className="text-[#D32F2F] hover:bg-red-50 hover:text-red-700 border border-gray-300 dark:border dark:border-gray-700"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  if (window.confirm(t("suppliers.deleteConfirm", { name: supplier.name }))) {
+                                    deleteSupplier.mutate(supplier.id);
+                                  }
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              className="text-green-700 hover:text-green-700 hover:bg-green-100 border border-gray-300 dark:border dark:border-gray-700"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/suppliers/${supplier.id}`)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <SupplierFormDialog
+          isOpen={isFormOpen}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingSupplier(null);
+          }}
+          supplier={editingSupplier}
+        />
+      </main>
+      <Toaster />
+    </div>
+  );
+}
+
+export function SupplierDetailPage() {
+  const { t } = useTranslation();
+  const { hasRole } = useAuth();
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const { data, isLoading } = useSupplier(Number(id) || 0);
+
+  const supplier = data?.supplier;
+  const products = data?.products || [];
+
+  const details = supplier
+    ? [
+        { icon: Phone, value: supplier.phone },
+        { icon: Mail, value: supplier.email },
+        { icon: MapPin, value: supplier.address },
+        { icon: FileText, value: supplier.tax_id && `${t("suppliers.fields.tax_id")}: ${supplier.tax_id}` },
+        { icon: Clock, value: t("suppliers.days", { count: supplier.lead_time_days }) },
+      ].filter((detail) => detail.value)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-900">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/suppliers")}
+            className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20 shadow-sm"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("actions.goBack")}
+          </Button>
+          <h1 className="text-3xl font-bold text-blue-800 dark:text-blue-400">
+            {supplier?.name}
+          </h1>
+          {supplier && !supplier.is_active && (
+            <Badge variant="secondary">{t("suppliers.inactive")}</Badge>
+          )}
+        </div>
+
+        {supplier && (
+          <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+            <CardHeader>
+              <CardTitle className="text-blue-800 dark:text-blue-400">
+                {supplier.contact_name || t("suppliers.contact")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              {details.map(({ icon: Icon, value }) => (
+                <div key={String(value)} className="flex items-center gap-2">
+                  <Icon className="h-4 w-4 text-gray-500" />
+                  <span>{value}</span>
+                </div>
+              ))}
+              {supplier.payment_terms && (
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{t("suppliers.fields.payment_terms")}:</span>
+                  <span>{supplier.payment_terms}</span>
+                </div>
+              )}
+              {supplier.notes && (
+                <p className="md:col-span-2 text-gray-600 dark:text-gray-400">{supplier.notes}</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-2 shadow-lg border-blue-800 dark:border-blue-400 dark:bg-gray-800">
+          <CardHeader>
+            <CardTitle className="text-blue-800 dark:text-blue-400">
+              {t("suppliers.products")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-gray-500">{t("dashboard.loading")}</div>
+            ) : products.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">{t("suppliers.noProducts")}</div>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("products.name")}</TableHead>
+                      <TableHead>{t("products.category")}</TableHead>
+                      <TableHead>{t("products.stock")}</TableHead>
+                      {hasRole("staff") && (
+                        <TableHead className="text-right">{t("suppliers.lastPurchasePrice")}</TableHead>
+                      )}
+                      <TableHead>{t("suppliers.lastReceived")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {products.map((product) => (
+                      <TableRow
+                        key={product.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/view/product/${product.id}`)}
+                      >
+                        <TableCell className="font-medium">
+                          {product.name}
+                          {product.sku && (
+                            <span className="block text-xs text-gray-500">{product.sku}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{product.category_name}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={
+                              product.remaining_stock <= product.min_stock_level
+                                ? "destructive"
+                                : "default"
+                            }
+                          >
+                            {product.remaining_stock}
+                          </Badge>
+                        </TableCell>
+                        {hasRole("staff") && (
+                          <TableCell className="text-right">
+                            {Number(product.last_purchase_price).toFixed(2)} {t("currency")}
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          {product.last_received_at
+                            ? new Date(product.last_received_at).toLocaleDateString()
+                            : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+      <Toaster />
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useTranslation } from "react-i18next";
+import { RefreshCw } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import type { OutboxEntry } from "@/types";
+import { useOutbox } from "@/hooks/useOutbox";
+
+const TONES = {
+  online: { box: "bg-green-500/20 border-green-400/30", dot: "bg-green-400", text: "text-green-300" },
+  pending: { box: "bg-amber-500/20 border-amber-400/30", dot: "bg-amber-400", text: "text-amber-200" },
+  blocked: { box: "bg-red-500/20 border-red-400/30", dot: "bg-red-400", text: "text-red-200" },
+  offline: { box: "bg-gray-500/20 border-gray-400/30", dot: "bg-gray-400", text: "text-gray-200" },
+};
+
+// Connection state and the offline outbox, with the actions that unblock it
+export function SyncStatus() {
+  const { t } = useTranslation();
+  const { entries, pending, blocked, online, syncing, sync, retry, keepMine, discard } = useOutbox();
+
+  const state = blocked > 0 ? "blocked" : !online ? "offline" : pending > 0 ? "pending" : "online";
+  const tone = TONES[state];
+  const label =
+    state === "blocked"
+      ? t("sync.blocked", { count: blocked })
+      : state === "offline"
+        ? t("sync.offline", { count: pending })
+        : state === "pending"
+          ? t("sync.pending", { count: pending })
+          : t("sync.online");
+
+  const statusText = (entry: OutboxEntry) => {
+    if (entry.status === "failed") return entry.error || t("sync.status.failed");
+    if (entry.status === "conflict") {
+      return entry.serverProduct ? t("sync.status.conflict") : t("sync.status.deletedOnServer");
+    }
+    return t("sync.status.pending");
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={`${state === "online" ? "hidden md:flex" : "flex"} items-center space-x-2 px-3 py-1.5 border rounded-lg ${tone.box}`}
+        >
+          <div className={`h-2 w-2 rounded-full ${tone.dot} ${syncing ? "animate-ping" : "animate-pulse"}`} />
+          <span className={`text-xs font-medium ${tone.text}`}>{label}</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          {t("sync.title")}
+          <Button variant="outline" size="sm" disabled={syncing || pending === 0} onClick={() => sync()}>
+            <RefreshCw className={`mr-2 h-3 w-3 ${syncing ? "animate-spin" : ""}`} />
+            {t("sync.now")}
+          </Button>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {entries.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-gray-500">{t("sync.empty")}</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {entries.map((entry) => (
+              <div key={entry.id} className="px-2 py-2 text-sm border-b border-border last:border-0">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium truncate">{entry.productName}</span>
+                  <span className="text-gray-500 shrink-0">{t(`sync.operations.${entry.operation}`)}</span>
+                </div>
+                <p
+                  className={`text-xs ${entry.status === "pending" ? "text-gray-500" : "text-red-600 dark:text-red-400"}`}
+                >
+                  {statusText(entry)}
+                </p>
+                {entry.status !== "pending" && (
+                  <div className="flex gap-2 mt-1">
+                    {entry.status === "failed" && (
+                      <Button variant="outline" size="sm" onClick={() => retry(entry)}>
+                        {t("sync.retry")}
+                      </Button>
+                    )}
+                    {entry.status === "conflict" && entry.serverProduct && (
+                      <Button variant="outline" size="sm" onClick={() => keepMine(entry)}>
+                        {t("sync.keepMine")}
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => discard(entry)}>
+                      {t("sync.discard")}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { registerServiceWorker } from "@/lib/serviceWorker";
+
+// Offers to reload once a new version of the app has been downloaded
+export function UpdatePrompt() {
+  const { t } = useTranslation();
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker((apply) => setApplyUpdate(() => apply));
+  }, []);
+
+  if (!applyUpdate) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg border border-border bg-background px-4 py-3 shadow-xl">
+      <RefreshCw className="h-4 w-4 text-blue-800 dark:text-blue-400" />
+      <span className="text-sm">{t("pwa.updateAvailable")}</span>
+      <Button size="sm" variant="outline" onClick={() => setApplyUpdate(null)}>
+        {t("pwa.later")}
+      </Button>
+      <Button size="sm" className="text-white" style={{ backgroundColor: "#1e40af" }} onClick={applyUpdate}>
+        {t("pwa.reload")}
+      </Button>
+    </div>
+  );
+}
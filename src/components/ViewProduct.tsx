@@ -26,10 +26,42 @@ import {
   Download,
   BarChart3,
   TrendingDown,
+  MapPin,
+  QrCode,
+  Layers,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { Product, Category } from "@/types";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Pagination } from "@/components/ui/Pagination";
+import type { Product, Category, SearchHighlight, StockMovementType } from "@/types";
+import { useAuth } from "./auth-provider";
+import { useStockMovements, useCreateStockMovement } from "@/hooks/useStockMovements";
+import { useLocations } from "@/hooks/useLocations";
+import { shownStock, stockBreakdown } from "@/lib/stock";
+import { findVariant, variantLabel } from "@/lib/variants";
+import { useAuditLog } from "@/hooks/useAudit";
+import { localizedDescription, localizedName } from "@/lib/localize";
+import { usePriceHistory } from "@/hooks/useProducts";
+import { useCart } from "@/hooks/useCart";
 import { Navbar } from "./Navbar";
 import { Button } from "./ui/button";
 import { useNavigate } from "react-router-dom";
@@ -37,11 +69,13 @@ import { SearchBar } from "./SearchBar";
 import { api } from "@/services/api";
 import { toast } from "sonner";
 import { CategoryFilter } from "./CategoryFilter";
+import { ProductQRCode } from "./QRCodeComponent";
 
 interface ViewProductProps {
   product: Product;
   categories: Category[];
   onEdit?: () => void;
+  onStockChange?: () => void;
 }
 
 interface ProductCardProps {
@@ -50,88 +84,83 @@ interface ProductCardProps {
   onView: () => void;
 }
 
-// Add new interfaces for enhanced features
-interface StockMovement {
-  id: number;
-  product_id: number;
-  movement_type: 'in' | 'out' | 'adjustment';
-  quantity: number;
-  reason: string;
-  date: string;
-}
-
+// One point of the price history chart
 interface PriceHistory {
   date: string;
   selling_price: number;
   purchase_price: number;
+  margin: number;
+  margin_percent: number | null;
 }
 
-// Add Stock Movement History component
-function StockMovementHistory({ productId, isVisible, onClose }: {
+// Stock movement ledger for a product, with a form to record a new movement
+function StockMovementHistory({ productId, isVisible, onClose, onMovementRecorded, canRecord = true }: {
   productId: number;
   isVisible: boolean;
   onClose: () => void;
+  onMovementRecorded?: () => void;
+  // Off for parents, whose stock is held by their variants
+  canRecord?: boolean;
 }) {
   const { t } = useTranslation();
-  const [movements, setMovements] = useState<StockMovement[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [page, setPage] = useState(1);
+  const [movementType, setMovementType] = useState<StockMovementType>("IN");
+  const [movementQuantity, setMovementQuantity] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  // Empty means the default location
+  const [movementLocation, setMovementLocation] = useState("");
+  const { data, isLoading } = useStockMovements(productId, page, 10, isVisible);
+  const { data: locationsResponse } = useLocations();
+  const createMovement = useCreateStockMovement(productId);
+  const { hasRole } = useAuth();
+  const locations = locationsResponse?.locations || [];
 
   useEffect(() => {
-    if (isVisible && productId) {
-      fetchStockMovements();
+    if (isVisible) {
+      setPage(1);
+    }
+  }, [isVisible]);
+
+  if (!isVisible) return null;
+
+  const movements = data?.movements || [];
+  const pagination = data?.pagination;
+
+  const handleRecordMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = Number.parseInt(movementQuantity);
+    if (!quantity || (movementType !== "ADJUSTMENT" && quantity < 0)) {
+      toast.error(t("stockMovements.invalidQuantity"));
+      return;
     }
-  }, [isVisible, productId]);
 
-  const fetchStockMovements = async () => {
-    setLoading(true);
     try {
-      // Mock data for demonstration
-      const mockMovements: StockMovement[] = [
-        {
-          id: 1,
-          product_id: productId,
-          movement_type: 'in',
-          quantity: 50,
-          reason: 'Initial stock',
-          date: '2024-01-15T10:00:00Z'
-        },
-        {
-          id: 2,
-          product_id: productId,
-          movement_type: 'out',
-          quantity: -5,
-          reason: 'Sale',
-          date: '2024-01-16T14:30:00Z'
-        },
-        {
-          id: 3,
-          product_id: productId,
-          movement_type: 'adjustment',
-          quantity: -2,
-          reason: 'Damaged items',
-          date: '2024-01-17T09:15:00Z'
-        }
-      ];
-      setMovements(mockMovements);
+      await createMovement.mutateAsync({
+        movement_type: movementType,
+        quantity,
+        reason: movementReason || undefined,
+        location_id: movementLocation ? Number(movementLocation) : undefined,
+      });
+      setMovementQuantity("");
+      setMovementReason("");
+      setPage(1);
+      onMovementRecorded?.();
     } catch (error) {
-      toast.error('Failed to load stock movements');
-    } finally {
-      setLoading(false);
+      // Error handling is done in the mutation hook
+      console.error("Error recording movement:", error);
     }
   };
 
-  if (!isVisible) return null;
-
-  const getMovementIcon = (type: string) => {
+  const getMovementIcon = (type: StockMovementType) => {
     switch (type) {
-      case 'in': return <TrendingUp className="h-4 w-4 text-green-600" />;
-      case 'out': return <TrendingDown className="h-4 w-4 text-red-600" />;
-      case 'adjustment': return <BarChart3 className="h-4 w-4 text-blue-600" />;
+      case 'IN': return <TrendingUp className="h-4 w-4 text-green-600" />;
+      case 'OUT': return <TrendingDown className="h-4 w-4 text-red-600" />;
+      case 'ADJUSTMENT': return <BarChart3 className="h-4 w-4 text-blue-600" />;
       default: return <History className="h-4 w-4 text-gray-600" />;
     }
   };
 
-  const getMovementColor = (type: string, quantity: number) => {
+  const getMovementColor = (quantity: number) => {
     if (quantity > 0) return 'text-green-600';
     if (quantity < 0) return 'text-red-600';
     return 'text-gray-600';
@@ -141,17 +170,66 @@ function StockMovementHistory({ productId, isVisible, onClose }: {
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
       <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] overflow-hidden" onClick={e => e.stopPropagation()}>
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold">Stock Movement History</h3>
+          <h3 className="text-lg font-semibold">{t("stockMovements.title")}</h3>
           <Button variant="ghost" size="sm" onClick={onClose}>
             <X className="h-4 w-4" />
           </Button>
         </div>
 
-        <div className="space-y-4 max-h-96 overflow-y-auto">
-          {loading ? (
+        {hasRole("staff") && canRecord && (
+        <form
+          onSubmit={handleRecordMovement}
+          className={`grid grid-cols-1 ${locations.length > 1 ? "md:grid-cols-5" : "md:grid-cols-4"} gap-2 mb-4`}
+        >
+          <Select value={movementType} onValueChange={(value) => setMovementType(value as StockMovementType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="IN">{t("stockMovements.types.IN")}</SelectItem>
+              <SelectItem value="OUT">{t("stockMovements.types.OUT")}</SelectItem>
+              <SelectItem value="ADJUSTMENT">{t("stockMovements.types.ADJUSTMENT")}</SelectItem>
+            </SelectContent>
+          </Select>
+          {locations.length > 1 && (
+            <Select
+              value={movementLocation || String(locations.find((location) => location.is_default)?.id ?? "")}
+              onValueChange={setMovementLocation}
+            >
+              <SelectTrigger aria-label={t("locations.location")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={String(location.id)}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input
+            type="number"
+            value={movementQuantity}
+            onChange={(e) => setMovementQuantity(e.target.value)}
+            placeholder={t("stockMovements.quantity")}
+          />
+          <Input
+            value={movementReason}
+            onChange={(e) => setMovementReason(e.target.value)}
+            placeholder={t("stockMovements.reason")}
+          />
+          <Button type="submit" disabled={createMovement.isPending}>
+            {createMovement.isPending ? t("form.saving") : t("stockMovements.record")}
+          </Button>
+        </form>
+        )}
+
+        <div className="space-y-4 max-h-80 overflow-y-auto">
+          {isLoading ? (
             <div className="text-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
-              <p className="text-sm text-gray-500 mt-2">Loading movements...</p>
+              <p className="text-sm text-gray-500 mt-2">{t("stockMovements.loading")}</p>
             </div>
           ) : movements.length > 0 ? (
             movements.map((movement) => (
@@ -162,14 +240,18 @@ function StockMovementHistory({ productId, isVisible, onClose }: {
 
                 <div className="flex-1">
                   <div className="flex items-center justify-between">
-                    <p className="font-medium capitalize">{movement.movement_type.replace('_', ' ')}</p>
-                    <span className={`font-bold ${getMovementColor(movement.movement_type, movement.quantity)}`}>
+                    <p className="font-medium">{t(`stockMovements.types.${movement.movement_type}`)}</p>
+                    <span className={`font-bold ${getMovementColor(movement.quantity)}`}>
                       {movement.quantity > 0 ? '+' : ''}{movement.quantity}
                     </span>
                   </div>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">{movement.reason}</p>
+                  {movement.reason && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{movement.reason}</p>
+                  )}
                   <p className="text-xs text-gray-500">
-                    {new Date(movement.date).toLocaleString()}
+                    {new Date(movement.created_at).toLocaleString()} · {movement.created_by}
+                    {movement.reference_number && ` · ${movement.reference_number}`}
+                    {locations.length > 1 && movement.location_name && ` · ${movement.location_name}`}
                   </p>
                 </div>
               </div>
@@ -177,16 +259,265 @@ function StockMovementHistory({ productId, isVisible, onClose }: {
           ) : (
             <div className="text-center py-8">
               <History className="h-12 w-12 text-gray-400 mx-auto mb-2" />
-              <p className="text-gray-500">No stock movements found</p>
+              <p className="text-gray-500">{t("stockMovements.empty")}</p>
             </div>
           )}
         </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <Pagination
+            className="mt-4"
+            currentPage={pagination.currentPage}
+            totalPages={pagination.totalPages}
+            totalItems={pagination.totalItems}
+            itemsPerPage={pagination.itemsPerPage}
+            onPageChange={setPage}
+            showInfo={false}
+            showFirstLast={false}
+          />
+        )}
       </div>
     </div>
   );
 }
 
+// One row of option buttons per attribute. Picking a value opens the sibling
+// that differs only by it, or else the first variant with that value.
+function VariantSelector({ product }: { product: Product }) {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const variants = product.variants || [];
+  const attributes = product.parent?.variant_attributes || product.variant_attributes || [];
+  const options = product.variant_options || {};
+
+  const selectValue = (attribute: string, value: string) => {
+    const variant =
+      findVariant(variants, options, attribute, value) ||
+      variants.find((candidate) => candidate.variant_options?.[attribute] === value);
+    if (variant && variant.id !== product.id) navigate(`/view/product/${variant.id}`);
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <Layers className="h-5 w-5 text-blue-500" />
+          {t("variants.title")}
+        </CardTitle>
+        {product.parent && (
+          <button
+            type="button"
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline text-left"
+            onClick={() => navigate(`/view/product/${product.parent?.id}`)}
+          >
+            {t("variants.partOf", { name: product.parent.name })}
+          </button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!product.parent_id && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t("variants.choose")}</p>
+        )}
+        {attributes.map((attribute) => {
+          const values = [...new Set(variants.map((variant) => variant.variant_options?.[attribute]).filter(Boolean))] as string[];
+          return (
+            <div key={attribute} className="space-y-2">
+              <p className="text-sm font-medium text-gray-600 dark:text-gray-300">{attribute}</p>
+              <div className="flex flex-wrap gap-2">
+                {values.map((value) => {
+                  const selected = options[attribute] === value;
+                  const available = !product.parent_id || !!findVariant(variants, options, attribute, value);
+                  return (
+                    <Button
+                      key={value}
+                      type="button"
+                      size="sm"
+                      variant={selected ? "default" : "outline"}
+                      className={available ? "" : "opacity-50"}
+                      onClick={() => selectValue(attribute, value)}
+                    >
+                      {value}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+        {!product.parent_id && (
+          <div className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+            {variants.map((variant) => (
+              <button
+                key={variant.id}
+                type="button"
+                className="w-full flex items-center justify-between py-2 hover:bg-blue-50 dark:hover:bg-blue-900/20 px-2 rounded"
+                onClick={() => navigate(`/view/product/${variant.id}`)}
+              >
+                <span className="font-medium">{variantLabel(variant) || localizedName(variant, i18n.language)}</span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {variant.selling_price} {t("currency")} · {t("variants.inStock", { count: Number(variant.remaining_stock) || 0 })}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // Add Quantity Selector component
+// Cost vs. selling price over time, with the margin at each change
+function PriceHistoryChart({ productId }: { productId: number }) {
+  const { t } = useTranslation();
+  const { data, isLoading } = usePriceHistory(productId);
+
+  const points: PriceHistory[] = (data?.history || []).map((entry) => ({
+    date: new Date(entry.changed_at).toLocaleDateString(),
+    selling_price: entry.selling_price,
+    purchase_price: entry.purchase_price,
+    margin: entry.margin,
+    margin_percent: entry.margin_percent,
+  }));
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-lg text-gray-700 dark:text-gray-300">
+          {t("priceHistory.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-60 bg-gray-200 dark:bg-gray-700 rounded-md animate-pulse" />
+        ) : points.length < 2 ? (
+          <p className="text-sm text-gray-500 text-center py-8">{t("priceHistory.noChanges")}</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={points} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} />
+              <Tooltip
+                content={({ active, payload, label }) => {
+                  if (!active || !payload?.length) return null;
+                  const point = payload[0].payload as PriceHistory;
+                  return (
+                    <div className="rounded-md border bg-white dark:bg-gray-800 p-2 text-xs shadow-md">
+                      <p className="font-medium mb-1">{label}</p>
+                      <p className="text-emerald-600">
+                        {t("products.sellingPrice")}: {point.selling_price.toFixed(2)} {t("currency")}
+                      </p>
+                      <p className="text-blue-600">
+                        {t("products.purchasePrice")}: {point.purchase_price.toFixed(2)} {t("currency")}
+                      </p>
+                      <p className="text-orange-600">
+                        {t("priceHistory.margin")}: {point.margin.toFixed(2)} {t("currency")}
+                        {point.margin_percent !== null && ` (${point.margin_percent}%)`}
+                      </p>
+                    </div>
+                  );
+                }}
+              />
+              <Legend />
+              <Line
+                type="stepAfter"
+                dataKey="selling_price"
+                name={t("products.sellingPrice")}
+                stroke="#059669"
+                strokeWidth={2}
+              />
+              <Line
+                type="stepAfter"
+                dataKey="purchase_price"
+                name={t("products.purchasePrice")}
+                stroke="#1e40af"
+                strokeWidth={2}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Format an audited value for display; empty values show as a dash
+const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "✓" : "✗";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Audit trail of a product: who changed which fields, from what to what
+function ProductActivity({ productId }: { productId: number }) {
+  const { t } = useTranslation();
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useAuditLog({ entity_type: "product", entity_id: productId }, page, 10);
+
+  const entries = data?.entries || [];
+  const pagination = data?.pagination;
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+        <p className="text-sm text-gray-500 mt-2">{t("audit.loading")}</p>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="h-12 w-12 text-gray-400 mx-auto mb-2" />
+        <p className="text-gray-500">{t("audit.empty")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => (
+        <div key={entry.id} className="p-3 border rounded-lg dark:border-gray-700">
+          <div className="flex items-center justify-between gap-2">
+            <Badge variant="outline">{t(`audit.actions.${entry.action}`, entry.action)}</Badge>
+            <span className="text-xs text-gray-500">
+              {new Date(entry.created_at).toLocaleString()} · {entry.user_name || t("audit.system")}
+            </span>
+          </div>
+          <ul className="mt-2 space-y-1 text-sm">
+            {Object.entries(entry.changes || {}).map(([field, change]) => (
+              <li key={field} className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-500">{t(`audit.fields.${field}`, field)}:</span>
+                {change.before !== null && (
+                  <span className="line-through text-red-600">{formatAuditValue(change.before)}</span>
+                )}
+                <span className="text-gray-400">→</span>
+                <span className="font-medium text-emerald-600">{formatAuditValue(change.after)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      {pagination && pagination.totalPages > 1 && (
+        <Pagination
+          className="mt-4"
+          currentPage={pagination.currentPage}
+          totalPages={pagination.totalPages}
+          totalItems={pagination.totalItems}
+          itemsPerPage={pagination.itemsPerPage}
+          onPageChange={setPage}
+          showInfo={false}
+          showFirstLast={false}
+        />
+      )}
+    </div>
+  );
+}
+
 function QuantitySelector({
   quantity,
   onQuantityChange,
@@ -254,12 +585,12 @@ function QuantitySelector({
 }
 
 function ProductCard({ product, categories, onView }: ProductCardProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [imageError, setImageError] = useState(false);
 
   const getCategoryName = (categoryId: number) => {
     const category = categories.find((c) => c.id === categoryId);
-    return category?.name || t("categories.none");
+    return category ? localizedName(category, i18n.language) : t("categories.none");
   };
 
   const getStockStatus = (stock: number, minLevel: number) => {
@@ -288,6 +619,7 @@ function ProductCard({ product, categories, onView }: ProductCardProps) {
     product.remaining_stock || 0,
     product.min_stock_level || 0
   );
+  const name = localizedName(product, i18n.language);
 
   return (
     <Card
@@ -299,7 +631,7 @@ function ProductCard({ product, categories, onView }: ProductCardProps) {
           {product.image_url && !imageError ? (
             <img
               src={product.image_url.startsWith('http') ? product.image_url : `../../${product.image_url}`}
-              alt={product.name}
+              alt={name}
               className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
               onError={() => setImageError(true)}
             />
@@ -320,7 +652,7 @@ function ProductCard({ product, categories, onView }: ProductCardProps) {
         <div className="p-4 space-y-3">
           <div>
             <h3 className="font-semibold text-gray-800 dark:text-gray-200 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors line-clamp-1">
-              {product.name}
+              {name}
             </h3>
             <p className="text-sm text-blue-600 dark:text-blue-400">
               {getCategoryName(product.category_id)}
@@ -371,11 +703,11 @@ function SearchDropdown({
   onProductSelect,
   containerRef
 }: SearchDropdownProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
 
   const getCategoryName = (categoryId: number) => {
     const category = categories.find((c) => c.id === categoryId);
-    return category?.name || t("categories.none");
+    return category ? localizedName(category, i18n.language) : t("categories.none");
   };
 
   const getStockStatus = (stock: number, minLevel: number) => {
@@ -384,14 +716,17 @@ function SearchDropdown({
     return { color: "text-emerald-500", label: t("status.inStock") };
   };
 
-  const highlightText = (text: string, searchTerm: string) => {
-    if (!searchTerm) return text;
-    const parts = text.split(new RegExp(`(${searchTerm})`, 'gi'));
-    return parts.map((part, i) =>
-      part.toLowerCase() === searchTerm.toLowerCase() ?
-        <mark key={`highlight-${i}-${part}`} className="bg-blue-200 dark:bg-blue-800">{part}</mark> : part
+  // Matched text comes back from the server search, already split into segments
+  const renderSegments = (highlight: SearchHighlight) =>
+    highlight.segments.map((segment, i) =>
+      segment.match ? (
+        <mark key={`highlight-${i}-${segment.text}`} className="bg-blue-200 dark:bg-blue-800">
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
     );
-  };
 
   const containerWidth = containerRef?.offsetWidth || 320;
 
@@ -415,6 +750,9 @@ function SearchDropdown({
               product.remaining_stock || 0,
               product.min_stock_level || 0
             );
+            const name = localizedName(product, i18n.language);
+            const highlight = product.highlight;
+            const nameMatched = !!highlight && highlight.field.startsWith("name");
             return (
               <div
                 key={product.id}
@@ -426,7 +764,7 @@ function SearchDropdown({
                   {product.image_url ? (
                     <img
                       src={product.image_url.startsWith('http') ? product.image_url : `/backend/${product.image_url}`}
-                      alt={product.name}
+                      alt={name}
                       className="w-full h-full object-cover"
                       onError={(e) => {
                         const target = e.target as HTMLImageElement;
@@ -443,8 +781,14 @@ function SearchDropdown({
                 {/* Product Info */}
                 <div className="flex-1 min-w-0">
                   <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
-                    {highlightText(product.name, searchTerm)}
+                    {highlight && nameMatched ? renderSegments(highlight) : name}
                   </h4>
+                  {highlight && !nameMatched && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {t(`searchMatch.${highlight.field.replace(/_(ar|fr)$/, "")}`, highlight.field)}:{" "}
+                      {renderSegments(highlight)}
+                    </p>
+                  )}
                   <div className="flex items-center gap-2 mt-1">
                     <span className="text-xs text-blue-600 dark:text-blue-400">
                       {getCategoryName(product.category_id)}
@@ -499,8 +843,10 @@ function SearchDropdown({
   );
 }
 
-export function ViewProduct({ product, categories: initialCategories, onEdit }: ViewProductProps) {
-  const { t } = useTranslation();
+export function ViewProduct({ product, categories: initialCategories, onEdit, onStockChange }: ViewProductProps) {
+  const { t, i18n } = useTranslation();
+  const { hasRole } = useAuth();
+  const canSeeCosts = hasRole("staff");
   const [imageError, setImageError] = useState(false);
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>(initialCategories || []);
@@ -511,13 +857,15 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
   const [showSearchDropdown, setShowSearchDropdown] = useState(false);
   const [searchInputRef, setSearchInputRef] = useState<HTMLDivElement | null>(null);
   const [isSearchExpanded, setIsSearchExpanded] = useState(false);
-  // const [showQRCode, setShowQRCode] = useState(false); // QR code functionality commented out
+  const [showQRCode, setShowQRCode] = useState(false);
   const [showStockHistory, setShowStockHistory] = useState(false);
   const [quantity, setQuantity] = useState(1);
   const [isFavorite, setIsFavorite] = useState(false);
   const [showPriceAlert, setShowPriceAlert] = useState(false);
+  const { data: locationsResponse } = useLocations();
   const searchRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
+  const cart = useCart();
 
   // Debounce search term for better performance
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
@@ -571,8 +919,8 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
     if (navigator.share) {
       try {
         await navigator.share({
-          title: product.name,
-          text: `Check out ${product.name} - ${product.selling_price} ${t("currency")}`,
+          title: localizedName(product, i18n.language),
+          text: `Check out ${localizedName(product, i18n.language)} - ${product.selling_price} ${t("currency")}`,
           url: window.location.href,
         });
       } catch (error) {
@@ -594,8 +942,11 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
   */
 
   const handleAddToCart = () => {
-    // Implementation would depend on your cart system
-    toast.success(`Added ${quantity} ${product.name}(s) to cart`);
+    cart.addItem(product, quantity);
+    setQuantity(1);
+    toast.success(t('pos.addedToCart', { count: quantity, name: localizedName(product, i18n.language) }), {
+      action: { label: t('pos.openPos'), onClick: () => navigate('/pos') },
+    });
   };
 
   const handlePriceAlert = () => {
@@ -610,7 +961,7 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
 
   const getCategoryName = (categoryId: number) => {
     const category = categories.find((c) => c.id === categoryId);
-    return category?.name || t("categories.none");
+    return category ? localizedName(category, i18n.language) : t("categories.none");
   };
 
   const getStockStatus = (stock: number, minLevel: number) => {
@@ -641,22 +992,61 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
     };
   };
 
+  // A parent shows the total over its variants, which are sold and stocked one by one
+  const isParent = !product.parent_id && (product.variants?.length || 0) > 0;
+  const stock = shownStock(product);
   const stockStatus = getStockStatus(
-    product.remaining_stock || 0,
+    stock,
     product.min_stock_level || 0
   );
-
-  const stockValue = (product.selling_price || 0) * (product.remaining_stock || 0);
+  const locations = locationsResponse?.locations || [];
+  const stockLocations = locations.length > 1 ? stockBreakdown(product, locations) : [];
+
+  const stockValue = isParent
+    ? (product.variants || []).reduce(
+        (sum, variant) => sum + (Number(variant.selling_price) || 0) * (Number(variant.remaining_stock) || 0),
+        0
+      )
+    : (product.selling_price || 0) * stock;
   const profitMargin = product.purchase_price > 0
     ? (((product.selling_price - product.purchase_price) / product.purchase_price) * 100).toFixed(1)
     : "0";
 
+  const name = localizedName(product, i18n.language);
+  const description = localizedDescription(product, i18n.language);
+  const unit = product.unit || "piece";
+  const productDetails = [
+    { label: t("productInfo.sku"), value: product.sku },
+    { label: t("productInfo.brand"), value: product.brand },
+    { label: t("productInfo.unit"), value: t(`units.${unit}`, unit) },
+    {
+      label: t("productInfo.stockRange"),
+      value: `${product.min_stock_level ?? 0} – ${product.max_stock_level ?? 1000}`,
+    },
+    {
+      label: t("productInfo.weight"),
+      value: product.weight != null ? `${Number(product.weight)} kg` : null,
+    },
+    { label: t("productInfo.dimensions"), value: product.dimensions },
+    {
+      label: t("productInfo.warranty"),
+      value: product.warranty_months
+        ? t("productInfo.warrantyMonths", { count: product.warranty_months })
+        : null,
+    },
+  ];
+  const tags = (product.tags || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
   const fetchProducts = useCallback(async () => {
     if (debouncedSearchTerm !== searchTerm) return; // Avoid race conditions
 
     setIsSearching(true);
     try {
-      const response = await api.getProducts(debouncedSearchTerm);
+      // The server ranks exact barcode/SKU hits first, then by relevance
+      const response = await api.getProducts(debouncedSearchTerm, "all", 1, 50, "relevance");
       if (response.success) {
         setProducts(response.products);
       }
@@ -670,17 +1060,13 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
 
   // Filter products based on search term and selected category
   const filteredProducts = products.filter((p) => {
-    const matchesSearch = searchTerm === "" ||
-      p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      p.description?.toLowerCase().includes(searchTerm.toLowerCase());
-
     const matchesCategory = selectedCategory === "all" ||
       p.category_id.toString() === selectedCategory;
 
     // Exclude the current product from related products
     const isNotCurrentProduct = p.id !== product.id;
 
-    return matchesSearch && matchesCategory && isNotCurrentProduct;
+    return matchesCategory && isNotCurrentProduct;
   });
 
   // Get related products from the same category
@@ -746,7 +1132,7 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
                 <div className="flex items-center gap-2">
                   <Eye className="h-5 w-5 text-blue-600" />
                   <span className="text-lg font-semibold text-gray-700 dark:text-gray-300">
-                         {product.name}
+                         {name}
                   </span>
                </div>
               </div>
@@ -888,7 +1274,7 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
                         )}
                         <img
                           src={product.image_url.startsWith('http') ? product.image_url : `../../${product.image_url}`}
-                          alt={product.name}
+                          alt={name}
                           className="w-full h-full object-cover transition-opacity duration-300"
                           style={{ opacity: isImageLoading ? 0 : 1 }}
                           onLoad={() => setIsImageLoading(false)}
@@ -927,29 +1313,77 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
                   <div className="flex items-start justify-between">
                     <div className="space-y-2">
                       <CardTitle className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
-                        {product.name}
+                        {name}
                       </CardTitle>
                       <div className="flex items-center gap-2">
                         <Tag className="h-4 w-4 text-blue-500" />
                         <span className="text-blue-600 dark:text-blue-400 font-medium">
                           {getCategoryName(product.category_id)}
                         </span>
+                        {!Number(product.is_active ?? 1) && (
+                          <Badge variant="secondary">{t("productInfo.inactive")}</Badge>
+                        )}
+                        {!!Number(product.is_featured ?? 0) && (
+                          <Badge variant="outline" className="border-amber-400 text-amber-600">
+                            <Star className="h-3 w-3 mr-1" />
+                            {t("productInfo.featured")}
+                          </Badge>
+                        )}
+                      </div>
+                      {/* Shelf staff look these up every day, so keep them next to the name */}
+                      <div className="flex flex-wrap items-center gap-4 text-sm">
+                        <span className="flex items-center gap-1.5">
+                          <MapPin className="h-4 w-4 text-gray-400" />
+                          <span className="text-gray-500">{t("productInfo.location")}:</span>
+                          <span className="font-semibold">
+                            {product.location || t("productInfo.notSet")}
+                          </span>
+                        </span>
+                        <span className="flex items-center gap-1.5">
+                          <Barcode className="h-4 w-4 text-gray-400" />
+                          <span className="text-gray-500">{t("productInfo.barcode")}:</span>
+                          <span className="font-mono font-semibold">
+                            {product.barcode || t("productInfo.notSet")}
+                          </span>
+                        </span>
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
                       <Button
-                        onClick={handleEdit}
-                        className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowStockHistory(true)}
+                        className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20"
+                      >
+                        <History className="h-4 w-4 mr-2" />
+                        {t('stockMovements.history')}
+                      </Button>
+                      <Button
+                        variant="outline"
                         size="sm"
+                        onClick={() => setShowQRCode(true)}
+                        className="border-blue-200 text-blue-700 hover:bg-blue-50 dark:border-blue-700 dark:text-blue-400 dark:hover:bg-blue-900/20"
                       >
-                        <Edit className="h-4 w-4 mr-2" />
-                        {t('products.edit')}
+                        <QrCode className="h-4 w-4 mr-2" />
+                        {t('qrCode.button')}
                       </Button>
+                      {hasRole("staff") && (
+                        <Button
+                          onClick={handleEdit}
+                          className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                          size="sm"
+                        >
+                          <Edit className="h-4 w-4 mr-2" />
+                          {t('products.edit')}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
               </Card>
 
+              {(product.variants?.length || 0) > 0 && <VariantSelector product={product} />}
+
               {/* Pricing Cards */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Card className="border-0  shadow-lg bg-gradient-to-br from-emerald-500 to-emerald-600 text-white">
@@ -964,19 +1398,24 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
                   </CardContent>
                 </Card>
 
-                <Card className="border-0 shadow-lg bg-gradient-to-br from-blue-500 to-blue-600 text-white">
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-blue-100 text-sm font-medium">Purchase Price</p>
-                        <p className="text-2xl font-bold">{product.purchase_price} {t("currency")}</p>
+                {canSeeCosts && (
+                  <Card className="border-0 shadow-lg bg-gradient-to-br from-blue-500 to-blue-600 text-white">
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-blue-100 text-sm font-medium">Purchase Price</p>
+                          <p className="text-2xl font-bold">{product.purchase_price} {t("currency")}</p>
+                        </div>
+                        <ShoppingCart className="h-8 w-8 text-blue-200" />
                       </div>
-                      <ShoppingCart className="h-8 w-8 text-blue-200" />
-                    </div>
-                  </CardContent>
-                </Card>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
 
+              {/* Price history */}
+              {canSeeCosts && <PriceHistoryChart productId={product.id} />}
+
               {/* Stats Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
@@ -993,19 +1432,21 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
                   </CardContent>
                 </Card>
 
-                <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
-                  <CardContent className="p-4">
-                    <div className="flex items-center gap-4">
-                      <div className="p-3 rounded-full bg-orange-100 dark:bg-orange-900/30">
-                        <Zap className="h-6 w-6 text-orange-600" />
-                      </div>
-                      <div>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">Profit Margin</p>
-                        <p className="text-xl font-bold text-orange-600">{profitMargin}%</p>
+                {canSeeCosts && (
+                  <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
+                    <CardContent className="p-4">
+                      <div className="flex items-center gap-4">
+                        <div className="p-3 rounded-full bg-orange-100 dark:bg-orange-900/30">
+                          <Zap className="h-6 w-6 text-orange-600" />
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Profit Margin</p>
+                          <p className="text-xl font-bold text-orange-600">{profitMargin}%</p>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
+                    </CardContent>
+                  </Card>
+                )}
 
                 <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
                   <CardContent className="p-4">
@@ -1017,12 +1458,17 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
                         <p className="text-sm text-gray-500 dark:text-gray-400">Current Stock</p>
                         <div className="flex items-center gap-2">
                           <p className={`text-xl font-bold ${stockStatus.color}`}>
-                            {product.remaining_stock || 0}
+                            {stock}
                           </p>
-                          {(product.remaining_stock || 0) <= (product.min_stock_level || 0) && (
+                          {stock <= (product.min_stock_level || 0) && (
                             <AlertTriangle className="h-5 w-5 text-amber-500" />
                           )}
                         </div>
+                        {stockLocations.length > 0 && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {stockLocations.map(({ location, quantity }) => `${location.name} ${quantity}`).join(" · ")}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -1042,40 +1488,97 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
                   </CardContent>
                 </Card>
               </div>
-              {/* Product Metadata */}
-              <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
-                <CardHeader>
-                  <CardTitle className="text-lg text-gray-700 dark:text-gray-300">Product Information</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex items-center gap-3">
-                    <Barcode className="h-5 w-5 text-gray-400" />
-                    <span className="text-sm text-gray-500">Product ID:</span>
-                    <span className="font-medium">#{product.id}</span>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <Calendar className="h-5 w-5 text-gray-400" />
-                    <span className="text-sm text-gray-500">Created:</span>
-                    <span className="font-medium">
-                      {product.created_at ? new Date(product.created_at).toLocaleDateString() : 'N/A'}
-                    </span>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <Calendar className="h-5 w-5 text-gray-400" />
-                    <span className="text-sm text-gray-500">Last Updated:</span>
-                    <span className="font-medium">
-                      {product.updated_at ? new Date(product.updated_at).toLocaleDateString() : 'N/A'}
-                    </span>
-                  </div>
-                  {product.description && (
-                    <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
-                      <p className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed">
-                        {product.description}
-                      </p>
+              {/* Sell at the counter */}
+              {!isParent && stock > 0 && (
+                <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
+                  <CardContent className="p-4 flex flex-col md:flex-row md:items-end gap-4">
+                    <div className="flex-1">
+                      <QuantitySelector
+                        quantity={quantity}
+                        onQuantityChange={setQuantity}
+                        maxQuantity={product.remaining_stock}
+                        label={t('pos.quantity')}
+                      />
                     </div>
+                    <Button onClick={handleAddToCart} className="md:mb-6">
+                      <ShoppingCart className="h-4 w-4 mr-2" />
+                      {t('pos.addToCart')}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Product Metadata */}
+              <Tabs defaultValue="details">
+                <TabsList>
+                  <TabsTrigger value="details">{t("audit.details")}</TabsTrigger>
+                  {hasRole("staff") && (
+                    <TabsTrigger value="activity">{t("audit.activity")}</TabsTrigger>
                   )}
-                </CardContent>
-              </Card>
+                </TabsList>
+                <TabsContent value="details">
+                  <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
+                    <CardHeader>
+                      <CardTitle className="text-lg text-gray-700 dark:text-gray-300">Product Information</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex items-center gap-3">
+                        <Barcode className="h-5 w-5 text-gray-400" />
+                        <span className="text-sm text-gray-500">Product ID:</span>
+                        <span className="font-medium">#{product.id}</span>
+                      </div>
+                      <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+                        {productDetails.map(({ label, value }) => (
+                          <div key={label}>
+                            <dt className="text-gray-500">{label}</dt>
+                            <dd className="font-medium">{value || t("productInfo.notSet")}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                      {tags.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Tag className="h-4 w-4 text-gray-400" />
+                          {tags.map((tag) => (
+                            <Badge key={tag} variant="outline">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex items-center gap-3">
+                        <Calendar className="h-5 w-5 text-gray-400" />
+                        <span className="text-sm text-gray-500">Created:</span>
+                        <span className="font-medium">
+                          {product.created_at ? new Date(product.created_at).toLocaleDateString() : 'N/A'}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Calendar className="h-5 w-5 text-gray-400" />
+                        <span className="text-sm text-gray-500">Last Updated:</span>
+                        <span className="font-medium">
+                          {product.updated_at ? new Date(product.updated_at).toLocaleDateString() : 'N/A'}
+                        </span>
+                      </div>
+                      {description && (
+                        <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+                          <p className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed">
+                            {description}
+                          </p>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+                {hasRole("staff") && (
+                  <TabsContent value="activity">
+                    <Card className="border-0 shadow-lg bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm">
+                      <CardContent className="p-4">
+                        <ProductActivity productId={product.id} />
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                )}
+              </Tabs>
             </div>
           </div>
 
@@ -1107,12 +1610,18 @@ export function ViewProduct({ product, categories: initialCategories, onEdit }:
       </div>
 
       {/* Modals */}
-      {/* QR Code modal removed */}
+      <ProductQRCode
+        product={product}
+        isVisible={showQRCode}
+        onClose={() => setShowQRCode(false)}
+      />
 
       <StockMovementHistory
         productId={product.id}
         isVisible={showStockHistory}
         onClose={() => setShowStockHistory(false)}
+        onMovementRecorded={onStockChange}
+        canRecord={!isParent}
       />
     </>
   );
@@ -0,0 +1,107 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { api, authToken, AUTH_EXPIRED_EVENT } from "@/services/api"
+import { clearServiceWorkerApiCache } from "@/lib/serviceWorker"
+import type { User, UserRole } from "@/types"
+
+const USER_STORAGE_KEY = "droguerie_auth_user"
+
+const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 1,
+  staff: 2,
+  admin: 3,
+}
+
+type AuthProviderProps = {
+  children: React.ReactNode
+}
+
+type AuthProviderState = {
+  user: User | null
+  isLoading: boolean
+  login: (email: string, password: string) => Promise<void>
+  logout: () => Promise<void>
+  hasRole: (role: UserRole) => boolean
+}
+
+const AuthProviderContext = createContext<AuthProviderState | undefined>(undefined)
+
+const readCachedUser = (): User | null => {
+  try {
+    const cached = localStorage.getItem(USER_STORAGE_KEY)
+    return cached && authToken.get() ? (JSON.parse(cached) as User) : null
+  } catch {
+    return null
+  }
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const queryClient = useQueryClient()
+  const [user, setUser] = useState<User | null>(readCachedUser)
+  const [isLoading, setIsLoading] = useState(() => !!authToken.get())
+
+  const clearSession = useCallback(() => {
+    authToken.clear()
+    localStorage.removeItem(USER_STORAGE_KEY)
+    setUser(null)
+    // Cached pages may hold data the next user is not allowed to see
+    queryClient.clear()
+    clearServiceWorkerApiCache()
+    api.clearOfflineData().catch((error) => console.error("Error clearing offline data:", error))
+  }, [queryClient])
+
+  // Refresh the user behind a stored token; keep the cached one when offline
+  useEffect(() => {
+    if (!authToken.get()) return
+
+    api.getCurrentUser().then((response) => {
+      if (response.success && response.user) {
+        localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(response.user))
+        setUser(response.user)
+      } else if (!response.offline) {
+        clearSession()
+      }
+      setIsLoading(false)
+    })
+  }, [clearSession])
+
+  useEffect(() => {
+    window.addEventListener(AUTH_EXPIRED_EVENT, clearSession)
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, clearSession)
+  }, [clearSession])
+
+  const value = {
+    user,
+    isLoading,
+    login: async (email: string, password: string) => {
+      const response = await api.login(email, password)
+      if (!response.success || !response.token || !response.user) {
+        throw new Error(response.error || "Login failed")
+      }
+      authToken.set(response.token)
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(response.user))
+      setUser(response.user)
+    },
+    logout: async () => {
+      await api.logout()
+      clearSession()
+    },
+    hasRole: (role: UserRole) =>
+      !!user && ROLE_LEVELS[user.role] >= ROLE_LEVELS[role],
+  }
+
+  return (
+    <AuthProviderContext.Provider value={value}>
+      {children}
+    </AuthProviderContext.Provider>
+  )
+}
+
+export const useAuth = () => {
+  const context = useContext(AuthProviderContext)
+
+  if (context === undefined)
+    throw new Error("useAuth must be used within an AuthProvider")
+
+  return context
+}
@@ -0,0 +1,14 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import type { AuditFilters } from '@/types';
+
+export const useAuditLog = (filters: AuditFilters = {}, page = 1, limit = 50, enabled = true) => {
+  return useQuery({
+    queryKey: ['auditLog', filters, page, limit],
+    queryFn: () => api.getAuditLog(filters, page, limit),
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+    retry: 1,
+  });
+};
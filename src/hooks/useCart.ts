@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { CartItem, Product } from '@/types';
+
+const CART_STORAGE_KEY = 'droguerie_pos_cart';
+
+const readCart = (): CartItem[] => {
+  try {
+    const stored = sessionStorage.getItem(CART_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading POS cart:', error);
+    return [];
+  }
+};
+
+/**
+ * Point-of-sale cart kept in sessionStorage, so items added from a product
+ * page are still there when the counter screen opens.
+ */
+export function useCart() {
+  const [items, setItems] = useState<CartItem[]>(readCart);
+
+  useEffect(() => {
+    try {
+      sessionStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+    } catch (error) {
+      console.error('Error saving POS cart:', error);
+    }
+  }, [items]);
+
+  const addItem = useCallback((product: Product, quantity = 1) => {
+    setItems((current) => {
+      const existing = current.find((item) => item.product_id === product.id);
+      if (existing) {
+        return current.map((item) =>
+          item.product_id === product.id
+            ? { ...item, quantity: item.quantity + quantity }
+            : item
+        );
+      }
+      return [
+        ...current,
+        {
+          product_id: product.id,
+          name: product.name,
+          unit_price: Number(product.selling_price) || 0,
+          quantity,
+          discount: 0,
+          available_stock: Number(product.remaining_stock) || 0,
+        },
+      ];
+    });
+  }, []);
+
+  const updateItem = useCallback((productId: number, changes: Partial<Pick<CartItem, 'quantity' | 'discount'>>) => {
+    setItems((current) =>
+      current.map((item) => (item.product_id === productId ? { ...item, ...changes } : item))
+    );
+  }, []);
+
+  const removeItem = useCallback((productId: number) => {
+    setItems((current) => current.filter((item) => item.product_id !== productId));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  const subtotal = items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0);
+  const discountTotal = items.reduce((sum, item) => sum + item.discount, 0);
+
+  return {
+    items,
+    addItem,
+    updateItem,
+    removeItem,
+    clear,
+    subtotal,
+    discountTotal,
+    total: subtotal - discountTotal,
+  };
+}
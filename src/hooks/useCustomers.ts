@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { CustomerInput, CustomerPaymentInput } from '@/types';
+
+export const useCustomers = (search = '') => {
+  return useQuery({
+    queryKey: ['customers', search],
+    queryFn: () => api.getCustomers(search),
+    staleTime: 60 * 1000,
+    retry: 1,
+  });
+};
+
+export const useCustomer = (id: number) => {
+  return useQuery({
+    queryKey: ['customer', id],
+    queryFn: () => api.getCustomer(id),
+    enabled: id > 0,
+    retry: 1,
+  });
+};
+
+export const useCustomerStatement = (id: number, from = '', to = '') => {
+  return useQuery({
+    queryKey: ['customerStatement', id, from, to],
+    queryFn: () => api.getCustomerStatement(id, from, to),
+    enabled: id > 0,
+    retry: 1,
+  });
+};
+
+export const useSaveCustomer = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async ({ customer, id }: { customer: CustomerInput; id?: number }) => {
+      const response = await api.saveCustomer(customer, id);
+      if (!response.success) {
+        throw new Error(response.error || t('customers.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['customer'] });
+      toast.success(t('customers.saved'));
+    },
+    onError: (error) => {
+      console.error('Error saving customer:', error);
+      toast.error(error.message || t('customers.errorSaving'));
+    },
+  });
+};
+
+export const useDeleteCustomer = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const response = await api.deleteCustomer(id);
+      if (!response.success) {
+        throw new Error(response.error || t('customers.errorDeleting'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      toast.success(t('customers.deleted'));
+    },
+    onError: (error) => {
+      console.error('Error deleting customer:', error);
+      toast.error(error.message || t('customers.errorDeleting'));
+    },
+  });
+};
+
+export const useRecordCustomerPayment = (customerId: number) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (payment: CustomerPaymentInput) => {
+      const response = await api.recordCustomerPayment(customerId, payment);
+      if (!response.success) {
+        throw new Error(response.error || t('customers.errorPayment'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      // Balances appear in the list, the account and its statement
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['customer', customerId] });
+      queryClient.invalidateQueries({ queryKey: ['customerStatement', customerId] });
+      toast.success(t('customers.paymentRecorded'));
+    },
+    onError: (error) => {
+      console.error('Error recording payment:', error);
+      toast.error(error.message || t('customers.errorPayment'));
+    },
+  });
+};
@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { LocationInput } from '@/types';
+
+export const useLocations = (includeInactive = false) => {
+  return useQuery({
+    queryKey: ['locations', includeInactive],
+    queryFn: () => api.getLocations(includeInactive),
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+export const useSaveLocation = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async ({ location, id }: { location: LocationInput; id?: number }) => {
+      const response = await api.saveLocation(location, id);
+      if (!response.success) {
+        throw new Error(response.error || t('locations.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      toast.success(t('locations.saved'));
+    },
+    onError: (error) => {
+      console.error('Error saving location:', error);
+      toast.error(error.message || t('locations.errorSaving'));
+    },
+  });
+};
+
+export const useDeleteLocation = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const response = await api.deleteLocation(id);
+      if (!response.success) {
+        throw new Error(response.error || t('locations.errorDeleting'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      toast.success(t('locations.deleted'));
+    },
+    onError: (error) => {
+      console.error('Error deleting location:', error);
+      toast.error(error.message || t('locations.errorDeleting'));
+    },
+  });
+};
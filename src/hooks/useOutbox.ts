@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { outbox } from '@/services/outbox';
+import type { OutboxEntry } from '@/types';
+
+// How often pending changes are retried while the backend stays unreachable
+const RETRY_INTERVAL = 30 * 1000;
+
+// The offline outbox, replayed on mount, when the browser comes back online
+// and periodically while changes are pending. Each run that reaches the
+// server also refreshes the offline catalogue when it is getting old.
+export const useOutbox = () => {
+  const queryClient = useQueryClient();
+  const entries = useSyncExternalStore(outbox.subscribe, outbox.entries);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+
+  const sync = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const result = await api.syncOutbox();
+      setOnline(navigator.onLine && !result.offline);
+      if (result.synced > 0) {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        queryClient.invalidateQueries({ queryKey: ['auditLog'] });
+        queryClient.invalidateQueries({ queryKey: ['priceHistory'] });
+      }
+      // Refresh the offline copy of the catalogue once nothing is left to send
+      if (!result.offline && outbox.entries().length === 0) await api.downloadCatalogue();
+    } finally {
+      setSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    sync();
+    const handleOnline = () => sync();
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  const pending = entries.filter((entry) => entry.status === 'pending').length;
+
+  useEffect(() => {
+    if (pending === 0) return;
+    const timer = setInterval(sync, RETRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [pending, sync]);
+
+  const retry = (entry: OutboxEntry) => {
+    api.retryOutboxChange(entry);
+    sync();
+  };
+
+  const keepMine = (entry: OutboxEntry) => {
+    api.keepOutboxChange(entry);
+    sync();
+  };
+
+  const discard = async (entry: OutboxEntry) => {
+    await api.discardOutboxChange(entry);
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+    sync();
+  };
+
+  return {
+    entries,
+    pending,
+    blocked: entries.length - pending,
+    online,
+    syncing,
+    sync,
+    retry,
+    keepMine,
+    discard,
+  };
+};
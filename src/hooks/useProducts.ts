@@ -1,8 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/services/api';
+import { api, ProductConflictError } from '@/services/api';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
-import type { Product } from '@/types';
+import type { Product, CategoryInput, ProductImportRow, ProductListVariants } from '@/types';
 
 export const useProducts = (
   search = '',
@@ -10,11 +10,13 @@ export const useProducts = (
   page = 1,
   limit = 50,
   sortBy = 'created_at',
-  sortOrder = 'DESC'
+  sortOrder = 'DESC',
+  location = 'all',
+  variants: ProductListVariants = 'flat'
 ) => {
   return useQuery({
-    queryKey: ['products', search, category, page, limit, sortBy, sortOrder],
-    queryFn: () => api.getProducts(search, category, page, limit, sortBy, sortOrder),
+    queryKey: ['products', search, category, page, limit, sortBy, sortOrder, location, variants],
+    queryFn: () => api.getProducts(search, category, page, limit, sortBy, sortOrder, location, variants),
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
     retry: 2,
@@ -32,6 +34,15 @@ export const useCategories = () => {
   });
 };
 
+export const usePriceHistory = (productId: number, enabled = true) => {
+  return useQuery({
+    queryKey: ['priceHistory', productId],
+    queryFn: () => api.getPriceHistory(productId),
+    enabled: enabled && productId > 0,
+    retry: 1,
+  });
+};
+
 export const useCreateProduct = () => {
   const queryClient = useQueryClient();
   const { t } = useTranslation();
@@ -39,10 +50,11 @@ export const useCreateProduct = () => {
   return useMutation({
     mutationFn: (productData: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'category_name'>) =>
       api.createProduct(productData),
-    onSuccess: () => {
+    onSuccess: (response) => {
       // Invalidate and refetch products list
       queryClient.invalidateQueries({ queryKey: ['products'] });
-      toast.success(t('messages.productAdded'));
+      if (response.queued) toast.info(t('sync.queued'));
+      else toast.success(t('messages.productAdded'));
     },
     onError: (error) => {
       console.error('Error creating product:', error);
@@ -56,14 +68,30 @@ export const useUpdateProduct = () => {
   const { t } = useTranslation();
 
   return useMutation({
-    mutationFn: (productData: Omit<Product, 'created_at' | 'updated_at' | 'category_name'>) =>
-      api.updateProduct(productData),
-    onSuccess: () => {
+    mutationFn: async (productData: Omit<Product, 'created_at' | 'updated_at' | 'category_name'>) => {
+      const response = await api.updateProduct(productData);
+      if (response.conflict) {
+        throw new ProductConflictError(response.error || 'Product changed', response.product);
+      }
+      if (!response.success) {
+        throw new Error(response.error || t('messages.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: (response) => {
       // Invalidate and refetch products list
       queryClient.invalidateQueries({ queryKey: ['products'] });
-      toast.success(t('messages.productUpdated'));
+      queryClient.invalidateQueries({ queryKey: ['auditLog'] });
+      queryClient.invalidateQueries({ queryKey: ['priceHistory'] });
+      if (response.queued) toast.info(t('sync.queued'));
+      else toast.success(t('messages.productUpdated'));
     },
     onError: (error) => {
+      if (error instanceof ProductConflictError) {
+        // ProductForm asks the user to reload; refresh lists meanwhile
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        return;
+      }
       console.error('Error updating product:', error);
       toast.error(t('messages.errorSaving'));
     },
@@ -76,10 +104,11 @@ export const useDeleteProduct = () => {
 
   return useMutation({
     mutationFn: (productId: number) => api.deleteProduct(productId),
-    onSuccess: () => {
+    onSuccess: (response) => {
       // Invalidate and refetch products list
       queryClient.invalidateQueries({ queryKey: ['products'] });
-      toast.success(t('messages.productDeleted'));
+      if (response.queued) toast.info(t('sync.queued'));
+      else toast.success(t('messages.productDeleted'));
     },
     onError: (error) => {
       console.error('Error deleting product:', error);
@@ -87,3 +116,78 @@ export const useDeleteProduct = () => {
     },
   });
 };
+
+export const useImportProducts = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (rows: ProductImportRow[]) => {
+      const response = await api.importProducts(rows);
+      if (!response.success) {
+        throw new Error(response.error || t('import.error'));
+      }
+      return response;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['auditLog'] });
+      queryClient.invalidateQueries({ queryKey: ['priceHistory'] });
+      toast.success(t('import.done', { created: response.created || 0, updated: response.updated || 0 }));
+    },
+    onError: (error) => {
+      console.error('Error importing products:', error);
+      toast.error(error.message || t('import.error'));
+    },
+  });
+};
+
+export const useSaveCategory = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async ({ category, id }: { category: CategoryInput; id?: number }) => {
+      const response = await api.saveCategory(category, id);
+      if (!response.success) {
+        throw new Error(response.error || t('categoryAdmin.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      toast.success(t('categoryAdmin.saved'));
+    },
+    onError: (error) => {
+      console.error('Error saving category:', error);
+      toast.error(error.message || t('categoryAdmin.errorSaving'));
+    },
+  });
+};
+
+export const useDeleteCategory = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async ({ id, reassignTo }: { id: number; reassignTo?: number }) => {
+      const response = await api.deleteCategory(id, reassignTo);
+      if (!response.success) {
+        throw new Error(response.error || t('categoryAdmin.errorDeleting'));
+      }
+      return response;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+      // Moved products now show their new category
+      if (response.reassigned_products) {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+      }
+      toast.success(t('categoryAdmin.deleted'));
+    },
+    onError: (error) => {
+      console.error('Error deleting category:', error);
+      toast.error(error.message || t('categoryAdmin.errorDeleting'));
+    },
+  });
+};
@@ -0,0 +1,114 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { PurchaseOrderInput, PurchaseOrderReceiptInput, PurchaseOrderStatus } from '@/types';
+
+export const usePurchaseOrders = (status: PurchaseOrderStatus | 'all' = 'all', page = 1, limit = 20) => {
+  return useQuery({
+    queryKey: ['purchaseOrders', status, page, limit],
+    queryFn: () => api.getPurchaseOrders(status, page, limit),
+    placeholderData: keepPreviousData,
+    retry: 1,
+  });
+};
+
+export const usePurchaseOrder = (id: number) => {
+  return useQuery({
+    queryKey: ['purchaseOrder', id],
+    queryFn: () => api.getPurchaseOrder(id),
+    enabled: id > 0,
+    retry: 1,
+  });
+};
+
+export const useReorderSuggestions = (days = 30) => {
+  return useQuery({
+    queryKey: ['reorderSuggestions', days],
+    queryFn: () => api.getReorderSuggestions(days),
+    retry: 1,
+  });
+};
+
+export const useSavePurchaseOrder = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async ({ order, id }: { order: PurchaseOrderInput; id?: number }) => {
+      const response = await api.savePurchaseOrder(order, id);
+      if (!response.success) {
+        throw new Error(response.error || t('purchaseOrders.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] });
+      queryClient.invalidateQueries({ queryKey: ['purchaseOrder'] });
+      // Open orders count as stock on order in the suggestions
+      queryClient.invalidateQueries({ queryKey: ['reorderSuggestions'] });
+      toast.success(t('purchaseOrders.saved'));
+    },
+    onError: (error) => {
+      console.error('Error saving purchase order:', error);
+      toast.error(error.message || t('purchaseOrders.errorSaving'));
+    },
+  });
+};
+
+export const useSetPurchaseOrderStatus = (id: number) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (status: PurchaseOrderStatus) => {
+      const response = await api.setPurchaseOrderStatus(id, status);
+      if (!response.success) {
+        throw new Error(response.error || t('purchaseOrders.errorStatus'));
+      }
+      return response;
+    },
+    onSuccess: (_, status) => {
+      queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] });
+      queryClient.invalidateQueries({ queryKey: ['purchaseOrder', id] });
+      queryClient.invalidateQueries({ queryKey: ['reorderSuggestions'] });
+      toast.success(t(`purchaseOrders.statusChanged.${status}`));
+    },
+    onError: (error) => {
+      console.error('Error changing purchase order status:', error);
+      toast.error(error.message || t('purchaseOrders.errorStatus'));
+    },
+  });
+};
+
+export const useReceivePurchaseOrder = (id: number) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (receipt: PurchaseOrderReceiptInput) => {
+      const response = await api.receivePurchaseOrder(id, receipt);
+      if (!response.success) {
+        throw new Error(response.error || t('purchaseOrders.errorReceiving'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      // Receiving moves stock in and may change product costs
+      queryClient.invalidateQueries({ queryKey: ['purchaseOrders'] });
+      queryClient.invalidateQueries({ queryKey: ['purchaseOrder', id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stockMovements'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      queryClient.invalidateQueries({ queryKey: ['supplier'] });
+      queryClient.invalidateQueries({ queryKey: ['reorderSuggestions'] });
+      queryClient.invalidateQueries({ queryKey: ['priceHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['auditLog'] });
+      toast.success(t('purchaseOrders.received'));
+    },
+    onError: (error) => {
+      console.error('Error receiving purchase order:', error);
+      toast.error(error.message || t('purchaseOrders.errorReceiving'));
+    },
+  });
+};
@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { SaleInput } from '@/types';
+
+export const useCreateSale = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (sale: SaleInput) => {
+      const response = await api.createSale(sale);
+      if (!response.success) {
+        throw new Error(response.error || t('pos.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: (response) => {
+      // Every sale moves stock out
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stockMovements'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      // Credit sales change the customer's balance
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['customer'] });
+      queryClient.invalidateQueries({ queryKey: ['customerStatement'] });
+      toast.success(t('pos.saleRecorded', { number: response.sale_number }));
+    },
+    onError: (error) => {
+      console.error('Error recording sale:', error);
+      toast.error(error.message || t('pos.errorSaving'));
+    },
+  });
+};
@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { StockMovementInput } from '@/types';
+
+export const useStockMovements = (productId: number, page = 1, limit = 20, enabled = true) => {
+  return useQuery({
+    queryKey: ['stockMovements', productId, page, limit],
+    queryFn: () => api.getStockMovements(productId, page, limit),
+    enabled: enabled && productId > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000, // Movements change with every sale, keep them fresh
+    retry: 1,
+  });
+};
+
+export const useCreateStockMovement = (productId: number) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (movement: StockMovementInput) => {
+      const response = await api.createStockMovement(productId, movement);
+      if (!response.success) {
+        throw new Error(response.error || t('stockMovements.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      // Stock levels shown in lists and the history both change
+      queryClient.invalidateQueries({ queryKey: ['stockMovements', productId] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['auditLog'] });
+      toast.success(t('stockMovements.saved'));
+    },
+    onError: (error) => {
+      console.error('Error recording stock movement:', error);
+      toast.error(error.message || t('stockMovements.errorSaving'));
+    },
+  });
+};
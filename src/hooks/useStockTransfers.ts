@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { StockTransferInput } from '@/types';
+
+export const useStockTransfers = (page = 1, limit = 20) => {
+  return useQuery({
+    queryKey: ['stockTransfers', page, limit],
+    queryFn: () => api.getStockTransfers(page, limit),
+    placeholderData: keepPreviousData,
+    retry: 1,
+  });
+};
+
+export const useStockTransfer = (id: number) => {
+  return useQuery({
+    queryKey: ['stockTransfer', id],
+    queryFn: () => api.getStockTransfer(id),
+    enabled: id > 0,
+    retry: 1,
+  });
+};
+
+export const useCreateStockTransfer = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (transfer: StockTransferInput) => {
+      const response = await api.createStockTransfer(transfer);
+      if (!response.success) {
+        throw new Error(response.error || t('transfers.errorCreating'));
+      }
+      return response;
+    },
+    onSuccess: (response) => {
+      // Each line posts a movement out of one location and into another
+      queryClient.invalidateQueries({ queryKey: ['stockTransfers'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stockMovements'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      toast.success(t('transfers.created', { reference: response.reference }));
+    },
+    onError: (error) => {
+      console.error('Error creating transfer:', error);
+      toast.error(error.message || t('transfers.errorCreating'));
+    },
+  });
+};
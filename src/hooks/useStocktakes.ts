@@ -0,0 +1,128 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { StocktakeCount, StocktakeInput, StocktakeStatus } from '@/types';
+
+// How often an open stocktake picks up counts entered on other devices
+const OPEN_STOCKTAKE_REFRESH_MS = 10000;
+
+export const useStocktakes = (status: StocktakeStatus | 'all' = 'all', page = 1, limit = 20) => {
+  return useQuery({
+    queryKey: ['stocktakes', status, page, limit],
+    queryFn: () => api.getStocktakes(status, page, limit),
+    placeholderData: keepPreviousData,
+    retry: 1,
+  });
+};
+
+export const useStocktake = (id: number) => {
+  return useQuery({
+    queryKey: ['stocktake', id],
+    queryFn: () => api.getStocktake(id),
+    enabled: id > 0,
+    retry: 1,
+    refetchInterval: (query) =>
+      query.state.data?.stocktake?.status === 'open' ? OPEN_STOCKTAKE_REFRESH_MS : false,
+  });
+};
+
+export const useCreateStocktake = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (stocktake: StocktakeInput) => {
+      const response = await api.createStocktake(stocktake);
+      if (!response.success) {
+        throw new Error(response.error || t('stocktakes.errorCreating'));
+      }
+      return response;
+    },
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+      toast.success(t('stocktakes.created', { count: response.item_count }));
+    },
+    onError: (error) => {
+      console.error('Error creating stocktake:', error);
+      toast.error(error.message || t('stocktakes.errorCreating'));
+    },
+  });
+};
+
+// No success toast: the count page confirms each scan itself
+export const useRecordStocktakeCounts = (id: number) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (counts: StocktakeCount[]) => {
+      const response = await api.recordStocktakeCounts(id, counts);
+      if (!response.success) {
+        throw new Error(response.error || t('stocktakes.errorCounting'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stocktake', id] });
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+    },
+    onError: (error) => {
+      console.error('Error recording stocktake counts:', error);
+      toast.error(error.message || t('stocktakes.errorCounting'));
+    },
+  });
+};
+
+export const useApproveStocktake = (id: number) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.approveStocktake(id);
+      if (!response.success) {
+        throw new Error(response.error || t('stocktakes.errorApproving'));
+      }
+      return response;
+    },
+    onSuccess: (response) => {
+      // Approval posts stock adjustments
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+      queryClient.invalidateQueries({ queryKey: ['stocktake', id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stockMovements'] });
+      queryClient.invalidateQueries({ queryKey: ['reorderSuggestions'] });
+      queryClient.invalidateQueries({ queryKey: ['auditLog'] });
+      toast.success(t('stocktakes.approved', { count: response.adjusted_lines }));
+    },
+    onError: (error) => {
+      console.error('Error approving stocktake:', error);
+      toast.error(error.message || t('stocktakes.errorApproving'));
+    },
+  });
+};
+
+export const useCancelStocktake = (id: number) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.cancelStocktake(id);
+      if (!response.success) {
+        throw new Error(response.error || t('stocktakes.errorCancelling'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+      queryClient.invalidateQueries({ queryKey: ['stocktake', id] });
+      toast.success(t('stocktakes.cancelled'));
+    },
+    onError: (error) => {
+      console.error('Error cancelling stocktake:', error);
+      toast.error(error.message || t('stocktakes.errorCancelling'));
+    },
+  });
+};
@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/services/api';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { SupplierInput } from '@/types';
+
+export const useSuppliers = (search = '') => {
+  return useQuery({
+    queryKey: ['suppliers', search],
+    queryFn: () => api.getSuppliers(search),
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+};
+
+export const useSupplier = (id: number) => {
+  return useQuery({
+    queryKey: ['supplier', id],
+    queryFn: () => api.getSupplier(id),
+    enabled: id > 0,
+    retry: 1,
+  });
+};
+
+export const useSaveSupplier = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async ({ supplier, id }: { supplier: SupplierInput; id?: number }) => {
+      const response = await api.saveSupplier(supplier, id);
+      if (!response.success) {
+        throw new Error(response.error || t('suppliers.errorSaving'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      // Supplier names are shown on products too
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      queryClient.invalidateQueries({ queryKey: ['supplier'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      toast.success(t('suppliers.saved'));
+    },
+    onError: (error) => {
+      console.error('Error saving supplier:', error);
+      toast.error(error.message || t('suppliers.errorSaving'));
+    },
+  });
+};
+
+export const useDeleteSupplier = () => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const response = await api.deleteSupplier(id);
+      if (!response.success) {
+        throw new Error(response.error || t('suppliers.errorDeleting'));
+      }
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      toast.success(t('suppliers.deleted'));
+    },
+    onError: (error) => {
+      console.error('Error deleting supplier:', error);
+      toast.error(error.message || t('suppliers.errorDeleting'));
+    },
+  });
+};
@@ -0,0 +1,73 @@
+import { readFileSync } from 'node:fs';
+import { PNG } from 'pngjs';
+import { describe, expect, it } from 'vitest';
+import { barcodeCandidates, decodeEan13, ean13CheckDigit, encodeEan13, isValidEan13 } from './barcode';
+
+// Fixtures are synthetic EAN-13 symbols drawn at 3px per module: blurred has
+// a 5px box blur and noise, tilted is turned 8 degrees, rotated 90 and
+// upside-down 180. invalid-check-digit draws 6111234567898.
+const fixture = (name: string) => {
+  const png = PNG.sync.read(readFileSync(new URL(`./__fixtures__/barcodes/${name}.png`, import.meta.url)));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+};
+
+// Draw a module string as a one-pixel-high RGBA image
+const drawModules = (modules: string, moduleWidth = 2, quietZone = 10) => {
+  const pixels = `${'0'.repeat(quietZone)}${modules}${'0'.repeat(quietZone)}`;
+  const width = pixels.length * moduleWidth;
+  const data = new Uint8ClampedArray(width * 4);
+  for (let x = 0; x < width; x++) {
+    const value = pixels[Math.floor(x / moduleWidth)] === '1' ? 0 : 255;
+    data.set([value, value, value, 255], x * 4);
+  }
+  return { data, width, height: 1 };
+};
+
+describe('decodeEan13', () => {
+  it.each([
+    ['clean', '6111234567895'],
+    ['blurred', '4006381333931'],
+    ['tilted', '5012345678900'],
+    ['rotated', '5012345678900'],
+    ['upside-down', '7612345678900'],
+  ])('reads the %s sample', (name, code) => {
+    expect(decodeEan13(fixture(name))).toBe(code);
+  });
+
+  it('rejects a symbol whose check digit does not match', () => {
+    expect(decodeEan13(fixture('invalid-check-digit'))).toBeNull();
+  });
+
+  it('finds nothing in a blank image', () => {
+    const blank = { data: new Uint8ClampedArray(100 * 50 * 4).fill(255), width: 100, height: 50 };
+    expect(decodeEan13(blank)).toBeNull();
+  });
+
+  it('decodes what encodeEan13 draws for every first digit', () => {
+    for (let first = 0; first <= 9; first++) {
+      const code = `${first}12345678901`;
+      const full = `${code}${ean13CheckDigit(code)}`;
+      expect(decodeEan13(drawModules(encodeEan13(full)))).toBe(full);
+    }
+  });
+});
+
+describe('EAN-13 check digits', () => {
+  it('validates codes', () => {
+    expect(isValidEan13('6111234567895')).toBe(true);
+    expect(isValidEan13('6111234567898')).toBe(false);
+    expect(isValidEan13('611123456789')).toBe(false);
+    expect(() => encodeEan13('6111234567898')).toThrow('Invalid EAN-13 code');
+  });
+});
+
+describe('barcodeCandidates', () => {
+  it('also tries the UPC-A form of codes with a leading 0', () => {
+    expect(barcodeCandidates('0012345678905')).toEqual(['0012345678905', '012345678905']);
+  });
+
+  it('keeps other codes as they are', () => {
+    expect(barcodeCandidates('6111234567895')).toEqual(['6111234567895']);
+    expect(barcodeCandidates('HAM-1')).toEqual(['HAM-1']);
+  });
+});
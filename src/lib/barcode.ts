@@ -0,0 +1,233 @@
+// EAN-13 encoding and decoding, and Code 128 encoding for SKUs and other
+// non-EAN codes. Decoding works on raw RGBA pixels, so the camera scanner,
+// uploaded photos and sample images all go through the same code.
+
+// Module widths of each digit's space-bar-space-bar runs in the L set.
+// R codes use the same widths with colors swapped; G codes are L reversed.
+const L_WIDTHS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const G_WIDTHS = L_WIDTHS.map((widths) => [...widths].reverse());
+
+// L/G sets used by the left half, keyed by the first digit
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+// Runs in a full symbol: start guard, 6 digits, middle guard, 6 digits, end guard
+const EAN13_RUNS = 3 + 6 * 4 + 5 + 6 * 4 + 3;
+
+// Largest total width error accepted for one digit, in modules
+const MAX_DIGIT_ERROR = 1.5;
+
+export interface RgbaImage {
+  data: Uint8ClampedArray | number[];
+  width: number;
+  height: number;
+}
+
+export function ean13CheckDigit(first12: string): number {
+  const sum = [...first12].reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+export function isValidEan13(code: string): boolean {
+  return /^\d{13}$/.test(code) && ean13CheckDigit(code.slice(0, 12)) === Number(code[12]);
+}
+
+// The 95 modules of an EAN-13 symbol, '1' for a bar and '0' for a space
+export function encodeEan13(code: string): string {
+  if (!isValidEan13(code)) throw new Error(`Invalid EAN-13 code: ${code}`);
+
+  const runsToModules = (widths: number[], startWithBar: boolean) =>
+    widths.map((width, i) => ((i % 2 === 0) === startWithBar ? '1' : '0').repeat(width)).join('');
+
+  const parity = FIRST_DIGIT_PARITY[Number(code[0])];
+  let modules = '101';
+  for (let i = 1; i <= 6; i++) {
+    const widths = (parity[i - 1] === 'L' ? L_WIDTHS : G_WIDTHS)[Number(code[i])];
+    modules += runsToModules(widths, false);
+  }
+  modules += '01010';
+  for (let i = 7; i <= 12; i++) {
+    modules += runsToModules(L_WIDTHS[Number(code[i])], true);
+  }
+  return `${modules}101`;
+}
+
+// Best matching digit for four runs, or null when nothing is close enough
+const matchDigit = (runs: number[], patterns: number[][]) => {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  let best: { digit: number; error: number } | null = null;
+  for (let digit = 0; digit < patterns.length; digit++) {
+    const error = runs.reduce((sum, run, i) => sum + Math.abs((run * 7) / total - patterns[digit][i]), 0);
+    if (!best || error < best.error) best = { digit, error };
+  }
+  return best && best.error <= MAX_DIGIT_ERROR ? best : null;
+};
+
+// Each run should be close to `modules` times the guard's module width
+const matchesGuard = (runs: number[], module: number) =>
+  runs.every((run) => run >= module * 0.5 && run <= module * 1.6);
+
+// Decode the symbol starting at the start-guard bar `start` of the run list
+const decodeAt = (runs: number[], start: number): string | null => {
+  const module = (runs[start] + runs[start + 1] + runs[start + 2]) / 3;
+  if (!matchesGuard(runs.slice(start, start + 3), module)) return null;
+
+  let digits = '';
+  let parity = '';
+  for (let d = 0; d < 6; d++) {
+    const digitRuns = runs.slice(start + 3 + d * 4, start + 7 + d * 4);
+    const l = matchDigit(digitRuns, L_WIDTHS);
+    const g = matchDigit(digitRuns, G_WIDTHS);
+    const match = g && (!l || g.error < l.error) ? g : l;
+    if (!match) return null;
+    digits += match.digit;
+    parity += match === g ? 'G' : 'L';
+  }
+
+  if (!matchesGuard(runs.slice(start + 27, start + 32), module)) return null;
+
+  for (let d = 0; d < 6; d++) {
+    const match = matchDigit(runs.slice(start + 32 + d * 4, start + 36 + d * 4), L_WIDTHS);
+    if (!match) return null;
+    digits += match.digit;
+  }
+
+  if (!matchesGuard(runs.slice(start + 56, start + 59), module)) return null;
+
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (firstDigit < 0) return null;
+
+  const code = `${firstDigit}${digits}`;
+  return isValidEan13(code) ? code : null;
+};
+
+// Run lengths of a binarized line, and whether the first run is a bar
+const toRuns = (dark: boolean[]) => {
+  const runs: number[] = [];
+  let current = dark[0];
+  let length = 0;
+  for (const pixel of dark) {
+    if (pixel === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = pixel;
+      length = 1;
+    }
+  }
+  runs.push(length);
+  return { runs, firstIsBar: dark[0] };
+};
+
+// Find and decode an EAN-13 symbol on one line of luminance values
+const decodeLine = (luminance: number[]): string | null => {
+  let min = 255;
+  let max = 0;
+  for (const value of luminance) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (max - min < 40) return null;
+
+  const threshold = (min + max) / 2;
+  for (const line of [luminance, [...luminance].reverse()]) {
+    const { runs, firstIsBar } = toRuns(line.map((value) => value < threshold));
+    // Bars sit at even indexes when the line starts dark, odd ones otherwise
+    for (let start = firstIsBar ? 0 : 1; start + EAN13_RUNS <= runs.length; start += 2) {
+      // Require a quiet zone before the start guard, unless it touches the edge
+      const quietZone = start === 0 ? Number.POSITIVE_INFINITY : runs[start - 1];
+      if (quietZone < runs[start] * 3) continue;
+
+      const code = decodeAt(runs, start);
+      if (code) return code;
+    }
+  }
+  return null;
+};
+
+// Scan rows, then columns, across the image for an EAN-13 barcode
+export function decodeEan13(image: RgbaImage, scanlines = 24): string | null {
+  const { data, width, height } = image;
+  const luminanceAt = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  for (let n = 1; n <= scanlines; n++) {
+    const y = Math.floor((height * n) / (scanlines + 1));
+    const row = Array.from({ length: width }, (_, x) => luminanceAt(x, y));
+    const code = decodeLine(row);
+    if (code) return code;
+  }
+
+  for (let n = 1; n <= scanlines; n++) {
+    const x = Math.floor((width * n) / (scanlines + 1));
+    const column = Array.from({ length: height }, (_, y) => luminanceAt(x, y));
+    const code = decodeLine(column);
+    if (code) return code;
+  }
+
+  return null;
+}
+
+// Codes a scanned EAN-13 may be stored as: 12-digit UPC-A codes scan with a leading 0
+export function barcodeCandidates(code: string): string[] {
+  return /^0\d{12}$/.test(code) ? [code, code.slice(1)] : [code];
+}
+
+// Bar-space widths of Code 128 symbol values 0-105; each adds up to 11 modules
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232',
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = '2331112';
+
+// Modules of a Code 128 symbol, '1' for a bar and '0' for a space. Even-length
+// digit strings use code set C (two digits per symbol), everything else set B,
+// which covers printable ASCII only.
+export function encodeCode128(text: string): string {
+  let values: number[];
+  if (/^(\d\d)+$/.test(text)) {
+    values = [CODE128_START_C];
+    for (let i = 0; i < text.length; i += 2) values.push(Number(text.slice(i, i + 2)));
+  } else {
+    if (!/^[\x20-\x7e]+$/.test(text)) throw new Error(`Cannot encode in Code 128: ${text}`);
+    values = [CODE128_START_B, ...[...text].map((char) => char.charCodeAt(0) - 32)];
+  }
+
+  const checksum = values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+  const widths = [...values, checksum].map((value) => CODE128_WIDTHS[value]).join('') + CODE128_STOP;
+  return [...widths].map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(width))).join('');
+}
@@ -0,0 +1,42 @@
+// A4 label sheets (210 x 297 mm). Sizes and offsets are in millimetres and
+// follow the Avery/Herma references so sheets bought under any of those
+// codes line up.
+export interface LabelLayout {
+  id: string;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  // Page edge to the first label
+  marginTop: number;
+  marginLeft: number;
+  // Gap between neighbouring labels
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: 'L7160', columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.15, marginLeft: 7.2, gapX: 2.5, gapY: 0 },
+  { id: 'L7159', columns: 3, rows: 8, labelWidth: 63.5, labelHeight: 33.9, marginTop: 12.9, marginLeft: 7.2, gapX: 2.5, gapY: 0 },
+  { id: 'L7163', columns: 2, rows: 7, labelWidth: 99.1, labelHeight: 38.1, marginTop: 15.15, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'L7165', columns: 2, rows: 4, labelWidth: 99.1, labelHeight: 67.7, marginTop: 13.1, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+];
+
+export const labelsPerSheet = (layout: LabelLayout) => layout.columns * layout.rows;
+
+// Split labels into numbered pages, leaving the first `skip` positions empty
+// so a partly used sheet can go back into the printer
+export function paginateLabels<T>(
+  items: T[],
+  layout: LabelLayout,
+  skip = 0
+): { number: number; cells: (T | null)[] }[] {
+  if (items.length === 0) return [];
+  const perSheet = labelsPerSheet(layout);
+  const cells: (T | null)[] = [...new Array<null>(skip % perSheet).fill(null), ...items];
+  const pages: { number: number; cells: (T | null)[] }[] = [];
+  for (let i = 0; i < cells.length; i += perSheet) {
+    pages.push({ number: pages.length + 1, cells: cells.slice(i, i + perSheet) });
+  }
+  return pages;
+}
@@ -0,0 +1,38 @@
+type LocalizableField = 'name' | 'description';
+
+type LocalizedFields<F extends LocalizableField> = {
+  [K in F | `${F}_ar` | `${F}_fr`]?: string | null;
+};
+
+interface LocalizedNames {
+  name: string;
+  name_ar?: string | null;
+  name_fr?: string | null;
+}
+
+// Translation column for the UI language, or null when the base column is used
+const languageSuffix = (language: string): 'ar' | 'fr' | null => {
+  if (language.startsWith('ar')) return 'ar';
+  if (language.startsWith('fr')) return 'fr';
+  return null;
+};
+
+// Field in the UI language, falling back to the base column when it is missing
+export function localizedField<F extends LocalizableField>(
+  item: LocalizedFields<F>,
+  field: F,
+  language: string
+): string {
+  const suffix = languageSuffix(language);
+  const translated = suffix ? item[`${field}_${suffix}` as keyof LocalizedFields<F>] : null;
+  return translated || item[field as keyof LocalizedFields<F>] || '';
+}
+
+// Name in the UI language, falling back to the base name when it is missing
+export function localizedName(item: LocalizedNames, language: string): string {
+  return localizedField(item, 'name', language) || item.name;
+}
+
+export function localizedDescription(item: LocalizedFields<'description'>, language: string): string {
+  return localizedField(item, 'description', language);
+}
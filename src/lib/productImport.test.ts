@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Category } from '@/types';
+import { buildImportRecords, guessMapping, resolveCategory, validateImportRecord } from './productImport';
+
+// Translation keys come back as-is, with their options appended
+const t = (key: string, options?: Record<string, unknown>) => (options ? `${key} ${JSON.stringify(options)}` : key);
+
+const LABELS: Record<string, string[]> = {
+  'form.productName': ['Nom du produit', 'اسم المنتج'],
+  'form.sellingPrice': ['Prix de vente', 'سعر البيع'],
+  'form.unit': ['Unité', 'الوحدة'],
+};
+const labels = (labelKey: string) => LABELS[labelKey] || [];
+const unitLabels = (unit: string) => (unit === 'box' ? ['Boîte', 'علبة'] : []);
+
+const CATEGORIES = [
+  { id: 3, name: 'Outillage', name_fr: 'Outillage', name_ar: 'أدوات' },
+  { id: 4, name: 'Peinture', name_fr: 'Peinture', name_ar: 'صباغة' },
+] as Category[];
+
+describe('guessMapping', () => {
+  it('matches headers by field name, label in any language and alias', () => {
+    expect(
+      guessMapping(['Désignation', 'PRIX DE VENTE (MAD)', 'Code-barres', 'qty', 'الوحدة', 'Notes'], labels)
+    ).toEqual(['name', 'selling_price', 'barcode', 'remaining_stock', 'unit', null]);
+  });
+
+  it('maps each field to one column only', () => {
+    expect(guessMapping(['name', 'nom'], labels)).toEqual(['name', null]);
+  });
+});
+
+describe('resolveCategory', () => {
+  it('finds a category by id or by name in any language', () => {
+    expect(resolveCategory('4', CATEGORIES)).toBe(4);
+    expect(resolveCategory('outillage', CATEGORIES)).toBe(3);
+    expect(resolveCategory('صباغة', CATEGORIES)).toBe(4);
+    expect(resolveCategory('Jardin', CATEGORIES)).toBeNull();
+  });
+});
+
+describe('buildImportRecords', () => {
+  const mapping = guessMapping(['name', 'category', 'selling_price', 'stock', 'unit', 'is_active'], labels);
+  const build = (...rows: string[][]) => buildImportRecords(rows, mapping, CATEGORIES, t, unitLabels);
+
+  it('converts cells to typed product fields and counts lines from the header', () => {
+    const [record] = build(['Marteau', 'Outillage', '1 234,50', '12', 'Boîte', 'oui']);
+
+    expect(record).toEqual({
+      line: 2,
+      values: { name: 'Marteau', category_id: 3, selling_price: 1234.5, remaining_stock: 12, unit: 'box', is_active: true },
+      errors: [],
+    });
+  });
+
+  it('reads both decimal conventions', () => {
+    const prices = build(['A', '', '1,234.50'], ['B', '', '1.234,50'], ['C', '', '12,5']).map(
+      (record) => record.values.selling_price
+    );
+    expect(prices).toEqual([1234.5, 1234.5, 12.5]);
+  });
+
+  it('leaves empty cells out so updates keep the current value', () => {
+    const [record] = build(['Marteau', '', '', '  ']);
+    expect(record.values).toEqual({ name: 'Marteau' });
+  });
+
+  it('reports every invalid cell of a row', () => {
+    const [record] = build(['Marteau', 'Jardin', 'abc', '1.5', 'carton', 'peut-être']);
+
+    expect(record.errors).toEqual([
+      'import.unknownCategory {"name":"Jardin"}',
+      'import.invalidNumber {"field":"form.sellingPrice","value":"abc"}',
+      'import.invalidNumber {"field":"form.currentStock","value":"1.5"}',
+      'import.unknownUnit {"unit":"carton"}',
+      'import.invalidBoolean {"field":"form.isActive","value":"peut-être"}',
+    ]);
+  });
+});
+
+describe('validateImportRecord', () => {
+  it('requires what ProductForm requires for new products', () => {
+    expect(validateImportRecord({ name: 'Marteau' }, false, t)).toEqual([
+      'form.category: validation.categoryRequired',
+      'form.purchasePrice: validation.purchasePriceMin',
+      'form.sellingPrice: validation.sellingPriceMin',
+    ]);
+    expect(
+      validateImportRecord({ name: 'Marteau', category_id: 3, purchase_price: 40, selling_price: 60 }, false, t)
+    ).toEqual([]);
+  });
+
+  it('only checks the fields an update changes', () => {
+    expect(validateImportRecord({ selling_price: 65 }, true, t)).toEqual([]);
+    expect(validateImportRecord({ sku: 'HAM 1' }, true, t)).toEqual(['form.sku: validation.noSpaces']);
+  });
+
+  it('checks the stock levels against each other', () => {
+    const errors = validateImportRecord(
+      { name: 'Marteau', category_id: 3, purchase_price: 40, selling_price: 60, min_stock_level: 20, max_stock_level: 5 },
+      false,
+      t
+    );
+    expect(errors).toEqual(['form.maxStock: validation.maxBelowMin']);
+  });
+});
@@ -0,0 +1,211 @@
+import type { Category, ProductImportRow } from '@/types';
+import { PRODUCT_UNITS, createProductPatchSchema, createProductSchema } from './productSchema';
+
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+export type ImportField =
+  | 'name'
+  | 'name_fr'
+  | 'name_ar'
+  | 'description'
+  | 'description_fr'
+  | 'description_ar'
+  | 'category'
+  | 'purchase_price'
+  | 'selling_price'
+  | 'remaining_stock'
+  | 'min_stock_level'
+  | 'max_stock_level'
+  | 'unit'
+  | 'barcode'
+  | 'sku'
+  | 'brand'
+  | 'location'
+  | 'weight'
+  | 'dimensions'
+  | 'warranty_months'
+  | 'is_active'
+  | 'is_featured'
+  | 'tags'
+  | 'image_url';
+
+type ValueKind = 'text' | 'number' | 'integer' | 'boolean';
+
+// Fields a spreadsheet column can be mapped to. Headers are matched against
+// the field name, its form label in every language and a few usual aliases.
+export const IMPORT_FIELDS: { field: ImportField; labelKey: string; kind: ValueKind; aliases: string[] }[] = [
+  { field: 'name', labelKey: 'form.productName', kind: 'text', aliases: ['nom', 'designation', 'libelle', 'produit', 'product', 'اسم المنتج'] },
+  { field: 'name_fr', labelKey: 'form.nameFr', kind: 'text', aliases: ['nom fr', 'nom francais'] },
+  { field: 'name_ar', labelKey: 'form.nameAr', kind: 'text', aliases: ['nom ar', 'nom arabe'] },
+  { field: 'description', labelKey: 'form.description', kind: 'text', aliases: [] },
+  { field: 'description_fr', labelKey: 'form.descriptionFr', kind: 'text', aliases: ['description fr'] },
+  { field: 'description_ar', labelKey: 'form.descriptionAr', kind: 'text', aliases: ['description ar'] },
+  { field: 'category', labelKey: 'form.category', kind: 'text', aliases: ['categorie', 'famille', 'category_id'] },
+  { field: 'purchase_price', labelKey: 'form.purchasePrice', kind: 'number', aliases: ['prix achat', 'cout', 'cost'] },
+  { field: 'selling_price', labelKey: 'form.sellingPrice', kind: 'number', aliases: ['prix', 'prix vente', 'price'] },
+  { field: 'remaining_stock', labelKey: 'form.currentStock', kind: 'integer', aliases: ['stock', 'quantite', 'qte', 'quantity', 'qty'] },
+  { field: 'min_stock_level', labelKey: 'form.minThreshold', kind: 'integer', aliases: ['stock min', 'stock minimum', 'seuil'] },
+  { field: 'max_stock_level', labelKey: 'form.maxStock', kind: 'integer', aliases: ['stock max'] },
+  { field: 'unit', labelKey: 'form.unit', kind: 'text', aliases: ['unite'] },
+  { field: 'barcode', labelKey: 'form.barcode', kind: 'text', aliases: ['code barre', 'code barres', 'ean', 'ean13', 'gtin', 'upc'] },
+  { field: 'sku', labelKey: 'form.sku', kind: 'text', aliases: ['reference', 'ref', 'sku'] },
+  { field: 'brand', labelKey: 'form.brand', kind: 'text', aliases: ['marque'] },
+  { field: 'location', labelKey: 'form.location', kind: 'text', aliases: ['emplacement', 'rayon'] },
+  { field: 'weight', labelKey: 'form.weight', kind: 'number', aliases: ['poids'] },
+  { field: 'dimensions', labelKey: 'form.dimensions', kind: 'text', aliases: [] },
+  { field: 'warranty_months', labelKey: 'form.warrantyMonths', kind: 'integer', aliases: ['garantie', 'warranty'] },
+  { field: 'is_active', labelKey: 'form.isActive', kind: 'boolean', aliases: ['actif', 'active'] },
+  { field: 'is_featured', labelKey: 'form.isFeatured', kind: 'boolean', aliases: ['featured'] },
+  { field: 'tags', labelKey: 'form.tags', kind: 'text', aliases: ['mots cles'] },
+  { field: 'image_url', labelKey: 'form.productImage', kind: 'text', aliases: ['image', 'photo'] },
+];
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'oui', 'o', 'x', 'نعم'];
+const FALSE_VALUES = ['0', 'false', 'no', 'n', 'non', '', 'لا'];
+
+// Lower case without accents, units in brackets or punctuation, for matching headers and names
+export const normalizeHeader = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Best field for each column header, or null to ignore the column.
+// `labels` returns a field label in every UI language.
+export function guessMapping(headers: string[], labels: (labelKey: string) => string[]): (ImportField | null)[] {
+  const candidates = IMPORT_FIELDS.map(({ field, labelKey, aliases }) => ({
+    field,
+    names: new Set([field, field.replace(/_/g, ' '), ...aliases, ...labels(labelKey)].map(normalizeHeader)),
+  }));
+
+  const used = new Set<ImportField>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const match = candidates.find(({ field, names }) => !used.has(field) && names.has(normalized));
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+}
+
+// Category id from an id or a name in any language
+export function resolveCategory(value: string, categories: Category[]): number | null {
+  const normalized = normalizeHeader(value);
+  const category = categories.find(
+    (item) =>
+      String(item.id) === value.trim() ||
+      [item.name, item.name_fr, item.name_ar].some((name) => name && normalizeHeader(name) === normalized)
+  );
+  return category ? category.id : null;
+}
+
+// "1 234,50" and "1,234.50" both read as 1234.5
+const parseNumber = (text: string) => {
+  let value = text.replace(/\s/g, '');
+  if (value.includes(',') && value.includes('.')) {
+    value = value.lastIndexOf(',') > value.lastIndexOf('.') ? value.replace(/\./g, '') : value.replace(/,/g, '');
+  }
+  return Number(value.replace(',', '.'));
+};
+
+export interface ImportRecord {
+  // Spreadsheet line, counting the header as line 1
+  line: number;
+  values: ProductImportRow;
+  errors: string[];
+}
+
+// Convert spreadsheet rows into product fields. Empty cells are left out so
+// an update keeps the product's current value.
+export function buildImportRecords(
+  rows: string[][],
+  mapping: (ImportField | null)[],
+  categories: Category[],
+  t: Translate,
+  unitLabels: (unit: string) => string[]
+): ImportRecord[] {
+  return rows.map((cells, index) => {
+    const values: ProductImportRow = {};
+    const fields = values as Record<string, unknown>;
+    const errors: string[] = [];
+
+    mapping.forEach((field, column) => {
+      const text = (cells[column] ?? '').trim();
+      if (!field || text === '') return;
+      const definition = IMPORT_FIELDS.find((item) => item.field === field);
+      if (!definition) return;
+      const label = t(definition.labelKey);
+
+      if (field === 'category') {
+        const categoryId = resolveCategory(text, categories);
+        if (categoryId) values.category_id = categoryId;
+        else errors.push(t('import.unknownCategory', { name: text }));
+        return;
+      }
+
+      if (field === 'unit') {
+        const normalized = normalizeHeader(text);
+        const unit = PRODUCT_UNITS.find(
+          (item) => item === text.toLowerCase() || unitLabels(item).some((name) => normalizeHeader(name) === normalized)
+        );
+        if (unit) values.unit = unit;
+        else errors.push(t('import.unknownUnit', { unit: text }));
+        return;
+      }
+
+      if (definition.kind === 'boolean') {
+        const normalized = text.toLowerCase();
+        if (TRUE_VALUES.includes(normalized)) fields[field] = true;
+        else if (FALSE_VALUES.includes(normalized)) fields[field] = false;
+        else errors.push(t('import.invalidBoolean', { field: label, value: text }));
+        return;
+      }
+
+      if (definition.kind === 'number' || definition.kind === 'integer') {
+        const number = parseNumber(text);
+        if (Number.isNaN(number) || (definition.kind === 'integer' && !Number.isInteger(number))) {
+          errors.push(t('import.invalidNumber', { field: label, value: text }));
+        } else {
+          fields[field] = number;
+        }
+        return;
+      }
+
+      fields[field] = text;
+    });
+
+    return { line: index + 2, values, errors };
+  });
+}
+
+// New products are checked with ProductForm's defaults filled in; updates
+// only check the fields the row changes
+export function validateImportRecord(values: ProductImportRow, isUpdate: boolean, t: Translate): string[] {
+  const result = isUpdate
+    ? createProductPatchSchema(t).safeParse(values)
+    : createProductSchema(t).safeParse({
+        name: '',
+        category_id: 0,
+        purchase_price: 0,
+        selling_price: 0,
+        remaining_stock: 0,
+        min_stock_level: 10,
+        max_stock_level: 1000,
+        unit: 'piece',
+        weight: null,
+        warranty_months: 0,
+        is_active: true,
+        is_featured: false,
+        ...values,
+      });
+  if (result.success) return [];
+
+  return result.error.issues.map((issue) => {
+    const field = issue.path[0] === 'category_id' ? 'category' : issue.path[0];
+    const definition = IMPORT_FIELDS.find((item) => item.field === field);
+    return definition ? `${t(definition.labelKey)}: ${issue.message}` : issue.message;
+  });
+}
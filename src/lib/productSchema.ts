@@ -0,0 +1,79 @@
+import * as z from 'zod';
+import type { ProductUnit } from '@/types';
+
+export const PRODUCT_UNITS: [ProductUnit, ...ProductUnit[]] = [
+  'piece',
+  'box',
+  'pack',
+  'set',
+  'pair',
+  'kg',
+  'g',
+  'liter',
+  'ml',
+  'meter',
+  'm2',
+  'roll',
+  'tube',
+  'bucket',
+  'bag',
+];
+
+const productFields = (t: (key: string) => string) => {
+  const code = z
+    .string()
+    .max(100, t('validation.tooLong'))
+    .regex(/^\S*$/, t('validation.noSpaces'))
+    .optional();
+
+  return z.object({
+    name: z.string().min(1, t('validation.nameRequired')).max(255, t('validation.tooLong')),
+    name_ar: z.string().max(255, t('validation.tooLong')).optional(),
+    name_fr: z.string().max(255, t('validation.tooLong')).optional(),
+    description: z.string().optional(),
+    description_ar: z.string().optional(),
+    description_fr: z.string().optional(),
+    category_id: z.number().min(1, t('validation.categoryRequired')),
+    supplier_id: z.number().nullable().optional(),
+    purchase_price: z.number().min(0.01, t('validation.purchasePriceMin')),
+    selling_price: z.number().min(0.01, t('validation.sellingPriceMin')),
+    remaining_stock: z.number().min(0, t('validation.stockMin')),
+    min_stock_level: z.number().min(0, t('validation.thresholdMin')),
+    max_stock_level: z.number().int().min(0, t('validation.thresholdMin')),
+    unit: z.enum(PRODUCT_UNITS),
+    barcode: code,
+    sku: code,
+    brand: z.string().max(100, t('validation.tooLong')).optional(),
+    location: z.string().max(255, t('validation.tooLong')).optional(),
+    weight: z.number().min(0, t('validation.weightMin')).nullable(),
+    dimensions: z.string().max(100, t('validation.tooLong')).optional(),
+    warranty_months: z.number().int().min(0, t('validation.warrantyMin')),
+    is_active: z.boolean(),
+    is_featured: z.boolean(),
+    tags: z.string().max(1000, t('validation.tooLong')).optional(),
+    image_url: z.string().optional(),
+    // A parent lists what its variants differ by; a variant names its parent
+    // and its value for each of those attributes
+    parent_id: z.number().nullable().optional(),
+    variant_attributes: z.array(z.string().max(50, t('validation.tooLong'))).max(5, t('validation.tooManyAttributes')).optional(),
+    variant_options: z.record(z.string(), z.string().max(100, t('validation.tooLong'))).optional(),
+    version: z.number().optional(),
+  });
+};
+
+// Rules shared by ProductForm and the product import
+export const createProductSchema = (t: (key: string) => string) =>
+  productFields(t)
+    .refine((data) => data.max_stock_level >= data.min_stock_level, {
+      message: t('validation.maxBelowMin'),
+      path: ['max_stock_level'],
+    })
+    .refine((data) => Object.values(data.variant_options || {}).every((value) => value.trim()), {
+      message: t('validation.variantOptionRequired'),
+      path: ['variant_options'],
+    });
+
+// Imported rows that update an existing product only carry the changed fields
+export const createProductPatchSchema = (t: (key: string) => string) => productFields(t).partial();
+
+export type ProductFormData = z.infer<ReturnType<typeof createProductSchema>>;
@@ -0,0 +1,103 @@
+import type { Product, SearchHighlight } from '@/types';
+
+// Client copy of the product search in backend/server.js (productListFilters
+// and searchHighlight), so the offline store filters, ranks and highlights
+// like GET /api/products.
+
+type ProductFields = Record<string, unknown>;
+
+// Columns of the server's full-text index
+const FULLTEXT_FIELDS = ['name', 'name_ar', 'name_fr', 'description', 'brand'];
+
+// Columns the server also matches with LIKE
+const LOCALIZED_FIELDS = ['name', 'name_ar', 'name_fr', 'description', 'description_ar', 'description_fr', 'brand'];
+
+// Fields checked for a highlight, in the order a match is reported
+const HIGHLIGHT_FIELDS = ['barcode', 'sku', 'name', 'name_fr', 'name_ar', 'brand', 'description', 'description_fr', 'description_ar'];
+
+// Columns GET /api/products can sort by
+export const PRODUCT_SORT_FIELDS = ['name', 'created_at', 'updated_at', 'remaining_stock', 'selling_price'] as const;
+export type ProductSortField = (typeof PRODUCT_SORT_FIELDS)[number];
+
+const text = (product: Product, field: string) => {
+  const value = (product as unknown as ProductFields)[field];
+  return value == null ? '' : String(value);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Lower case without accents, which is how the utf8mb4_unicode_ci collation compares text
+export const foldText = (value: string) => value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+// Split a search into words, without the characters boolean full-text mode treats as operators
+export const searchWords = (search: string) => search.replace(/[+\-<>()~*"@]/g, ' ').split(/\s+/).filter(Boolean);
+
+export const isExactCodeMatch = (product: Product, search: string) =>
+  (!!product.barcode && product.barcode === search) || (!!product.sku && product.sku === search);
+
+// Times the words start a word in the full-text columns, or 0 unless every
+// word does (the server's `+word*` boolean query). The server's relevance is
+// InnoDB's TF-IDF score; this keeps its order for the usual one or two words.
+export const fullTextRelevance = (product: Product, words: string[]) => {
+  const content = foldText(FULLTEXT_FIELDS.map((field) => text(product, field)).join(' '));
+  let relevance = 0;
+  for (const word of words) {
+    const hits = content.match(new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(foldText(word))}`, 'gu'));
+    if (!hits) return 0;
+    relevance += hits.length;
+  }
+  return relevance;
+};
+
+// Same rows as the server's WHERE clause: an exact code, the full-text
+// query, or a substring of any localized column
+export const matchesSearch = (product: Product, search: string, words: string[]) => {
+  if (isExactCodeMatch(product, search)) return true;
+  if (words.length > 0 && fullTextRelevance(product, words) > 0) return true;
+  const needle = foldText(search);
+  return LOCALIZED_FIELDS.some((field) => foldText(text(product, field)).includes(needle));
+};
+
+// First field containing a search word, split into matched and unmatched segments.
+// Long descriptions are cut down to the text around the first match.
+export const searchHighlight = (product: Product, search: string, words: string[]): SearchHighlight | null => {
+  for (const field of ['barcode', 'sku']) {
+    const value = text(product, field);
+    if (value && value === search) return { field, segments: [{ text: value, match: true }] };
+  }
+  if (words.length === 0) return null;
+
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi');
+
+  for (const field of HIGHLIGHT_FIELDS) {
+    let value = text(product, field);
+    const start = value.search(pattern);
+    if (!value || start < 0) continue;
+
+    if (field.startsWith('description') && value.length > 120) {
+      const from = Math.max(0, start - 40);
+      value = `${from > 0 ? '…' : ''}${value.slice(from, from + 120)}${from + 120 < value.length ? '…' : ''}`;
+    }
+
+    const segments = value
+      .split(pattern)
+      .filter(Boolean)
+      .map((segment) => ({ text: segment, match: words.some((word) => word.toLowerCase() === segment.toLowerCase()) }));
+    return { field, segments };
+  }
+  return null;
+};
+
+// Key a product sorts on for one sort column: names folded like the
+// collation, prices and stock as numbers, dates as ISO strings
+export const sortKey = (product: Product, field: ProductSortField): string | number => {
+  if (field === 'name') return foldText(product.name);
+  if (field === 'created_at' || field === 'updated_at') return product[field];
+  return Number(product[field]) || 0;
+};
+
+export const compareBySortField = (field: ProductSortField) => (a: Product, b: Product) => {
+  const keyA = sortKey(a, field);
+  const keyB = sortKey(b, field);
+  return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+};
@@ -0,0 +1,62 @@
+import jsQR from 'jsqr';
+import { describe, expect, it } from 'vitest';
+import { encodeQr } from './qrcode';
+
+// Draw the modules as an RGBA image, `scale` pixels per module, inside the
+// four-module quiet zone scanners expect
+const drawModules = (modules: boolean[][], scale = 4, margin = 4) => {
+  const width = (modules.length + margin * 2) * scale;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const offset = (((y + margin) * scale + dy) * width + (x + margin) * scale + dx) * 4;
+          data.set([0, 0, 0, 255], offset);
+        }
+      }
+    })
+  );
+  return { data, width, height: width };
+};
+
+const scan = (modules: boolean[][]) => {
+  const { data, width, height } = drawModules(modules);
+  return jsQR(data, width, height, { inversionAttempts: 'dontInvert' });
+};
+
+const versionOf = (modules: boolean[][]) => (modules.length - 17) / 4;
+
+describe('encodeQr', () => {
+  it.each([
+    ['a short URL', 'https://droguerie.ma/p/42'],
+    ['200 characters', 'Marteau de menuisier 500 g, manche fibre. '.repeat(5).slice(0, 200)],
+    ['Arabic text', 'مطرقة نجار ٥٠٠ غ، مقبض من الألياف - Marteau'],
+    ['1000 bytes', Array.from({ length: 1000 }, (_, i) => String.fromCharCode(33 + ((i * 7) % 94))).join('')],
+  ])('round-trips %s through a scanner', (_label, text) => {
+    const result = scan(encodeQr(text));
+
+    expect(result?.data).toBe(text);
+    expect(result?.binaryData).toEqual(Array.from(new TextEncoder().encode(text)));
+  });
+
+  it.each([
+    [14, 1],
+    [15, 2],
+    // Past version 9 the character count takes 16 bits instead of 8
+    [180, 9],
+    [181, 10],
+  ])('fits %i bytes in version %i and still scans', (length, version) => {
+    const text = '7'.repeat(length);
+    const modules = encodeQr(text);
+
+    expect(versionOf(modules)).toBe(version);
+    expect(scan(modules)?.data).toBe(text);
+  });
+
+  it('refuses text longer than version 40 holds', () => {
+    expect(versionOf(encodeQr('x'.repeat(2331)))).toBe(40);
+    expect(() => encodeQr('x'.repeat(2332))).toThrow('Text too long for a QR code');
+  });
+});
@@ -0,0 +1,46 @@
+// Registration of the service worker built from src/service-worker.js. Only
+// in production builds: the dev server has no sw.js, and the Capacitor app
+// already ships its files.
+
+const isCapacitor = () => !!(window as typeof window & { Capacitor?: unknown }).Capacitor;
+
+const supported = () => import.meta.env.PROD && 'serviceWorker' in navigator && !isCapacitor();
+
+// Calls `onUpdate` once a new build is installed and waiting. The callback
+// gets a function that activates it and reloads the page.
+export function registerServiceWorker(onUpdate: (applyUpdate: () => void) => void) {
+  if (!supported()) return;
+
+  const offerUpdate = (worker: ServiceWorker) => {
+    onUpdate(() => {
+      navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  navigator.serviceWorker
+    .register('/sw.js')
+    .then((registration) => {
+      // A worker already waiting from an earlier visit
+      if (registration.waiting && navigator.serviceWorker.controller) offerUpdate(registration.waiting);
+
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        if (!worker) return;
+        worker.addEventListener('statechange', () => {
+          // Without a controller this is the first install, not an update
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) offerUpdate(worker);
+        });
+      });
+
+      // The tablet at the counter stays open all day
+      setInterval(() => registration.update(), 60 * 60 * 1000);
+    })
+    .catch((error) => console.error('Service worker registration failed:', error));
+}
+
+// Cached product and category lists belong to the user who loaded them
+export function clearServiceWorkerApiCache() {
+  if (!supported()) return;
+  navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_API_CACHE' });
+}
@@ -0,0 +1,24 @@
+import type { Location, Product } from '@/types';
+
+// A parent holds no stock of its own: its variants do
+const stockHolders = (product: Product) => (product.variants?.length ? product.variants : [product]);
+
+// Stock at the location a list is filtered by, otherwise the total over all locations
+export const shownStock = (product: Product): number =>
+  stockHolders(product).reduce(
+    (sum, holder) => sum + (Number(holder.location_stock ?? holder.remaining_stock) || 0),
+    0
+  );
+
+// Non-empty stock per location, in the order the locations are listed
+export const stockBreakdown = (product: Product, locations: Location[]) =>
+  locations
+    .map((location) => ({
+      location,
+      quantity: stockHolders(product).reduce(
+        (sum, holder) =>
+          sum + (Number(holder.stock_locations?.find((row) => row.location_id === location.id)?.quantity) || 0),
+        0
+      ),
+    }))
+    .filter(({ quantity }) => quantity !== 0);
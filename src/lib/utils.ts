@@ -4,3 +4,20 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Public address of a product page, as encoded in its QR code. Inside the
+// mobile app the origin is not reachable by customers, so VITE_PUBLIC_URL
+// (e.g. https://shop.example.com) takes precedence when it is set.
+export function productLink(productId: number) {
+  const base = (import.meta.env.VITE_PUBLIC_URL || window.location.origin).replace(/\/+$/, "");
+  return `${base}/view/product/${productId}`;
+}
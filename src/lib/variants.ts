@@ -0,0 +1,22 @@
+import type { Product } from '@/types';
+
+// A variant's option values, e.g. "4L / White"
+export const variantLabel = (product: Product) => Object.values(product.variant_options || {}).join(' / ');
+
+// Lowest and highest selling price over a parent's variants
+export const variantPriceRange = (variants: Product[]) => {
+  const prices = variants.map((variant) => Number(variant.selling_price) || 0);
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+};
+
+// The sibling whose options are the given ones with one attribute changed,
+// so a variant selector can switch a single option at a time
+export const findVariant = (variants: Product[], options: Record<string, string>, attribute: string, value: string) =>
+  variants.find((variant) =>
+    Object.entries({ ...options, [attribute]: value }).every(
+      ([name, option]) => variant.variant_options?.[name] === option
+    )
+  );
+
+// Whether a product is stocked and sold itself: parents are not, their variants are
+export const holdsStock = (product: Product) => !product.variant_count;
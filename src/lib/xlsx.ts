@@ -0,0 +1,137 @@
+// Minimal XLSX reader: the first worksheet of a workbook as rows of text.
+// An .xlsx file is a zip archive of XML parts; deflated parts are inflated
+// with the browser's DecompressionStream.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Text content of every file in the archive, keyed by path
+const unzip = async (buffer: ArrayBuffer): Promise<Map<string, string>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 64 KiB (it may be followed by a comment)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Corrupt zip archive');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) throw new Error('Corrupt zip archive');
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.set(name, decoder.decode(data));
+    } else if (method === METHOD_DEFLATE) {
+      files.set(name, decoder.decode(await inflateRaw(data)));
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+  }
+  return files;
+};
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(
+        entity[1].toLowerCase() === 'x' ? Number.parseInt(entity.slice(2), 16) : Number(entity.slice(1))
+      );
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()] || '';
+  });
+
+const attribute = (tag: string, name: string) => {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+};
+
+// Text of all <t> runs inside an element, which covers rich text
+const textRuns = (xml: string) =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => decodeXml(match[1])).join('');
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/)?.[0] || 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Path of the first worksheet, following the workbook's relationships
+const firstSheetPath = (files: Map<string, string>) => {
+  const workbook = files.get('xl/workbook.xml') || '';
+  const relationships = files.get('xl/_rels/workbook.xml.rels') || '';
+  const sheet = workbook.match(/<sheet\s[^>]*>/)?.[0];
+  const relationId = sheet ? attribute(sheet, 'r:id') : null;
+  const relation = [...relationships.matchAll(/<Relationship\s[^>]*>/g)]
+    .map((match) => match[0])
+    .find((tag) => attribute(tag, 'Id') === relationId);
+  const target = relation ? attribute(relation, 'Target') : null;
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export async function readXlsx(file: Blob): Promise<string[][]> {
+  const files = await unzip(await file.arrayBuffer());
+
+  const sharedStrings = [...(files.get('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(
+    (match) => textRuns(match[1])
+  );
+
+  const sheet = files.get(firstSheetPath(files));
+  if (!sheet) throw new Error('Workbook has no worksheet');
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row(?:\s[^>]*)?>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const tag = cellMatch[1] || '';
+      const content = cellMatch[2] || '';
+      const type = attribute(tag, 't');
+      const reference = attribute(tag, 'r');
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textRuns(content);
+      else if (type === 'b') text = value === '1' ? 'true' : 'false';
+      else if (value !== undefined) text = decodeXml(value);
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
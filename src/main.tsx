@@ -3,6 +3,8 @@ import { createRoot } from 'react-dom/client'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { BrowserRouter } from 'react-router-dom'
 import { ThemeProvider } from './components/theme-provider'
+import { AuthProvider } from './components/auth-provider'
+import { UpdatePrompt } from './components/UpdatePrompt'
 import App from './App.tsx'
 import './i18n'
 import './index.css'
@@ -27,7 +29,10 @@ createRoot(rootElement).render(
     <QueryClientProvider client={queryClient}>
       <BrowserRouter>
         <ThemeProvider defaultTheme="system" storageKey="droguerie-theme">
-          <App />
+          <AuthProvider>
+            <App />
+            <UpdatePrompt />
+          </AuthProvider>
         </ThemeProvider>
       </BrowserRouter>
     </QueryClientProvider>
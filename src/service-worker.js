@@ -0,0 +1,112 @@
+// Service worker, emitted as /sw.js by the service-worker plugin in
+// vite.config.ts, which fills in the build's file list and version.
+//
+// - The app shell (every built file, the manifest and icons) is precached,
+//   so the app opens with no connection.
+// - Product images under /uploads and the category and product lists are
+//   served stale-while-revalidate: the cached copy at once, refreshed from
+//   the network in the background.
+// - A new build waits until the page accepts the update prompt.
+
+const PRECACHE_URLS = self.__PRECACHE_URLS__;
+const VERSION = self.__VERSION__;
+
+const SHELL_CACHE = `shell-${VERSION}`;
+const IMAGE_CACHE = "images";
+const API_CACHE = "api";
+
+// Oldest entries are dropped beyond these counts
+const IMAGE_CACHE_LIMIT = 500;
+const API_CACHE_LIMIT = 200;
+
+// API lists kept for offline use
+const CACHED_API_PATHS = ["/api/categories", "/api/products"];
+
+// Set on API responses answered from the cache, with the time they were stored
+const CACHED_AT_HEADER = "X-SW-Cached-At";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names.filter((name) => name.startsWith("shell-") && name !== SHELL_CACHE).map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+  // Cached lists belong to the user who loaded them
+  if (event.data?.type === "CLEAR_API_CACHE") event.waitUntil(caches.delete(API_CACHE));
+});
+
+const trimCache = async (name, limit) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)));
+};
+
+// Answer from the cache when possible and refresh it from the network either
+// way; without a cached copy, wait for the network
+const staleWhileRevalidate = async (event, cacheName, limit) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(event.request);
+
+  const refresh = fetch(event.request).then(async (response) => {
+    if (response.ok) {
+      let copy = response.clone();
+      if (cacheName === API_CACHE) {
+        const headers = new Headers(copy.headers);
+        headers.set(CACHED_AT_HEADER, new Date().toISOString());
+        copy = new Response(await copy.blob(), { status: copy.status, statusText: copy.statusText, headers });
+      }
+      await cache.put(event.request, copy);
+      await trimCache(cacheName, limit);
+    }
+    return response;
+  });
+
+  if (!cached) return refresh;
+  event.waitUntil(refresh.catch(() => undefined));
+  return cached;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method !== "GET") {
+    // A write makes the cached lists stale
+    if (url.pathname.startsWith("/api/")) event.waitUntil(caches.delete(API_CACHE));
+    return;
+  }
+
+  if (CACHED_API_PATHS.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(event, API_CACHE, API_CACHE_LIMIT));
+    return;
+  }
+
+  if (url.pathname.startsWith("/uploads/")) {
+    event.respondWith(staleWhileRevalidate(event, IMAGE_CACHE, IMAGE_CACHE_LIMIT));
+    return;
+  }
+
+  if (url.pathname.startsWith("/api/")) return;
+
+  // Client-side routes all load the app shell
+  if (request.mode === "navigate") {
+    event.respondWith(caches.match("/", { cacheName: SHELL_CACHE }).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then((cached) => cached || fetch(request)));
+});
@@ -0,0 +1,111 @@
+import { IDBKeyRange, indexedDB } from 'fake-indexeddb';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Category, Product } from '@/types';
+import { offlineApi } from './api-offline';
+
+// The outbox loads from localStorage and listens to other tabs when imported
+vi.hoisted(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+  vi.stubGlobal('window', { addEventListener: () => {} });
+});
+vi.stubGlobal('indexedDB', indexedDB);
+vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+
+const CATEGORIES = [
+  { id: 1, name: 'Droguerie' },
+  { id: 2, name: 'Quincaillerie' },
+] as Category[];
+
+const product = (id: number, fields: Record<string, unknown>) =>
+  ({
+    id,
+    category_id: 1,
+    purchase_price: '10.00',
+    selling_price: '20.00',
+    remaining_stock: 5,
+    created_at: `2024-01-0${id}T10:00:00.000Z`,
+    updated_at: `2024-01-0${id}T10:00:00.000Z`,
+    ...fields,
+  }) as unknown as Product;
+
+const PRODUCTS = [
+  product(1, { name: 'Colle PVC forte', brand: 'Sader', sku: 'COL-1', barcode: '6111000000011' }),
+  product(2, { name: 'Tube PVC Ø100mm', description: 'Tuyau PVC pour évacuation, raccords PVC' }),
+  product(3, { name: 'Marteau', sku: 'PVC', category_id: 2, selling_price: '55.00' }),
+  product(4, { name: 'Écrou', name_ar: 'صامولة', category_id: 2, selling_price: '2.00' }),
+  product(5, { name: 'Ecrou inox', category_id: 2, selling_price: '2.00' }),
+  product(6, { name: 'Cheville', category_id: 2, selling_price: '2.00' }),
+];
+
+const ids = async (...args: Parameters<typeof offlineApi.getProducts>) =>
+  (await offlineApi.getProducts(...args)).products.map((item) => item.id);
+
+beforeAll(async () => {
+  await offlineApi.importData({ categories: CATEGORIES, products: PRODUCTS });
+});
+
+describe('offlineApi.getProducts', () => {
+  it('puts exact SKU or barcode hits first, then the requested sort', async () => {
+    const { products } = await offlineApi.getProducts('PVC');
+
+    expect(products.map((item) => item.id)).toEqual([3, 2, 1]);
+    expect(products.map((item) => item.exact_match)).toEqual([true, false, false]);
+    expect(await ids('6111000000011', 'all', 1, 50, 'name', 'ASC')).toEqual([1]);
+  });
+
+  it('ranks by how often the words occur for sortBy=relevance, before the date', async () => {
+    expect(await ids('PVC', 'all', 1, 50, 'relevance', 'ASC')).toEqual([3, 2, 1]);
+    expect(await ids('PVC', 'all', 1, 50, 'created_at', 'ASC')).toEqual([3, 1, 2]);
+  });
+
+  it('matches and sorts without regard to accents or case, like the collation', async () => {
+    expect(await ids('ecrou', 'all', 1, 50, 'name', 'ASC')).toEqual([4, 5]);
+    expect(await ids('ÉCROU', 'all', 1, 50, 'name', 'DESC')).toEqual([5, 4]);
+    expect(await ids('صامولة')).toEqual([4]);
+  });
+
+  it('finds substrings of any column and ignores full-text operators', async () => {
+    expect(await ids('uyau')).toEqual([2]);
+    expect(await ids('+colle*')).toEqual([1]);
+    expect(await ids('Sader')).toEqual([1]);
+  });
+
+  it('breaks ties by id in the sort direction, filtered or not', async () => {
+    // The unfiltered list is read straight off the selling_price index
+    expect(await ids('', 'all', 1, 3, 'selling_price', 'ASC')).toEqual([4, 5, 6]);
+    expect(await ids('', 'all', 1, 3, 'selling_price', 'DESC')).toEqual([3, 2, 1]);
+    expect(await ids('', 'all', 2, 3, 'selling_price', 'DESC')).toEqual([6, 5, 4]);
+    // The category filter sorts in memory instead
+    expect(await ids('', '2', 1, 50, 'selling_price', 'ASC')).toEqual([4, 5, 6, 3]);
+    expect(await ids('', '2', 1, 50, 'selling_price', 'DESC')).toEqual([3, 6, 5, 4]);
+  });
+
+  it('pages the matches and counts them all', async () => {
+    const { products, pagination } = await offlineApi.getProducts('', '2', 2, 3, 'name', 'ASC');
+
+    expect(products.map((item) => item.id)).toEqual([3]);
+    expect(pagination).toEqual({
+      currentPage: 2,
+      totalPages: 2,
+      totalItems: 4,
+      itemsPerPage: 3,
+      hasNextPage: false,
+      hasPrevPage: true,
+    });
+  });
+
+  it('sorts by date for unknown sort columns', async () => {
+    expect(await ids('', 'all', 1, 50, 'purchase_price; DROP', 'ASC')).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(await ids('', 'all', 1, 50, 'purchase_price')).toEqual([6, 5, 4, 3, 2, 1]);
+  });
+});
+
+describe('offlineApi.clearData', () => {
+  it('forgets the imported catalogue and seeds the sample data again', async () => {
+    await offlineApi.clearData();
+
+    expect(await ids('Sader')).toEqual([]);
+    expect((await offlineApi.exportData()).categories.find((category) => category.id === 2)?.name).toBe('Sanitaire');
+    expect(await ids('Colle')).toEqual([1]);
+  });
+});
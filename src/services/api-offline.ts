@@ -1,20 +1,38 @@
-import type { Product, Category } from '@/types';
-
-// Local storage keys
-const STORAGE_KEYS = {
+import type { Product, Category, PaginationInfo, ProductListVariants } from '@/types';
+import {
+  PRODUCT_SORT_FIELDS,
+  type ProductSortField,
+  compareBySortField,
+  foldText,
+  fullTextRelevance,
+  matchesSearch,
+  searchHighlight,
+  searchWords,
+} from '@/lib/productSearch';
+import { clientId, outbox } from './outbox';
+import { iterate, request, transaction } from './offlineDb';
+
+// Keys of the localStorage store this replaced, moved into IndexedDB once
+const LEGACY_STORAGE_KEYS = {
   PRODUCTS: 'droguerie_products',
   CATEGORIES: 'droguerie_categories',
   SETTINGS: 'droguerie_settings'
 };
 
+// image_url of a picture uploaded offline: the key of its Blob in the images store
+export const OFFLINE_IMAGE_PREFIX = 'offline-image:';
+
+// How long a full copy of the catalogue is used before downloadCatalogue fetches a new one
+const CATALOGUE_MAX_AGE = 6 * 60 * 60 * 1000;
+
 // Sample data for offline mode
 const SAMPLE_CATEGORIES: Category[] = [
-  { id: 1, name: 'Droguerie', description: 'Produits chimiques, adhésifs, mastics et composés spécialisés', created_at: new Date().toISOString() },
-  { id: 2, name: 'Sanitaire', description: 'Équipements de plomberie, tuyaux, robinets, chauffe-eau, accessoires de salle de bain', created_at: new Date().toISOString() },
-  { id: 3, name: 'Peinture', description: 'Peintures, apprêts, pinceaux, rouleaux, accessoires et outils de peinture', created_at: new Date().toISOString() },
-  { id: 4, name: 'Quincaillerie', description: 'Fixations, vis, boulons, écrous, charnières, serrures et composants métalliques', created_at: new Date().toISOString() },
-  { id: 5, name: 'Outillage', description: 'Outils à main, outils électriques, équipements de mesure et de sécurité', created_at: new Date().toISOString() },
-  { id: 6, name: 'Électricité', description: 'Composants électriques, câblage, interrupteurs, prises, luminaires', created_at: new Date().toISOString() }
+  { id: 1, name: 'Droguerie', name_ar: 'مواد كيميائية', name_fr: 'Droguerie', icon: '🧪', color: '#0f766e', description: 'Produits chimiques, adhésifs, mastics et composés spécialisés', created_at: new Date().toISOString() },
+  { id: 2, name: 'Sanitaire', name_ar: 'صحي', name_fr: 'Sanitaire', icon: '🚿', color: '#3b82f6', description: 'Équipements de plomberie, tuyaux, robinets, chauffe-eau, accessoires de salle de bain', created_at: new Date().toISOString() },
+  { id: 3, name: 'Peinture', name_ar: 'دهان', name_fr: 'Peinture', icon: '🎨', color: '#ea580c', description: 'Peintures, apprêts, pinceaux, rouleaux, accessoires et outils de peinture', created_at: new Date().toISOString() },
+  { id: 4, name: 'Quincaillerie', name_ar: 'أدوات معدنية', name_fr: 'Quincaillerie', icon: '🔩', color: '#f59e0b', description: 'Fixations, vis, boulons, écrous, charnières, serrures et composants métalliques', created_at: new Date().toISOString() },
+  { id: 5, name: 'Outillage', name_ar: 'أدوات', name_fr: 'Outillage', icon: '🔨', color: '#dc2626', description: 'Outils à main, outils électriques, équipements de mesure et de sécurité', created_at: new Date().toISOString() },
+  { id: 6, name: 'Électricité', name_ar: 'كهرباء', name_fr: 'Électricité', icon: '⚡', color: '#eab308', description: 'Composants électriques, câblage, interrupteurs, prises, luminaires', created_at: new Date().toISOString() }
 ];
 
 const SAMPLE_PRODUCTS: Product[] = [
@@ -32,190 +50,539 @@ const SAMPLE_PRODUCTS: Product[] = [
   { id: 12, name: 'Interrupteur simple blanc', description: 'Interrupteur mural blanc', category_id: 6, purchase_price: 12.00, selling_price: 18.00, remaining_stock: 100, min_stock_level: 25, image_url: undefined, created_at: new Date().toISOString(), updated_at: new Date().toISOString(), category_name: 'Électricité' }
 ];
 
-// Helper functions for localStorage
-const getStoredData = <T>(key: string, defaultValue: T): T => {
+// A product as kept in IndexedDB: prices and stock as numbers (MySQL sends
+// DECIMAL columns as strings) and the folded name the name index sorts on
+type StoredProduct = Product & { name_key: string };
+
+const toStored = (product: Product): StoredProduct => ({
+  ...product,
+  purchase_price: Number(product.purchase_price) || 0,
+  selling_price: Number(product.selling_price) || 0,
+  remaining_stock: Number(product.remaining_stock) || 0,
+  exact_match: undefined,
+  relevance: undefined,
+  highlight: undefined,
+  location_stock: undefined,
+  variants: undefined,
+  parent: undefined,
+  name_key: foldText(product.name || ''),
+});
+
+const readLegacy = <T>(key: string): T | null => {
   try {
     const stored = localStorage.getItem(key);
-    return stored ? JSON.parse(stored) : defaultValue;
+    return stored ? JSON.parse(stored) : null;
   } catch (error) {
     console.error(`Error reading ${key} from localStorage:`, error);
-    return defaultValue;
+    return null;
   }
 };
 
-const setStoredData = <T>(key: string, data: T): void => {
-  try {
-    localStorage.setItem(key, JSON.stringify(data));
-  } catch (error) {
-    console.error(`Error saving ${key} to localStorage:`, error);
-  }
+// Fill a new database with what the localStorage store held, or the sample data
+const seed = async () => {
+  await transaction(['products', 'categories', 'meta'], 'readwrite', async (tx) => {
+    const meta = tx.objectStore('meta');
+    if (await request(meta.get('seededAt'))) return;
+
+    const categories = readLegacy<Category[]>(LEGACY_STORAGE_KEYS.CATEGORIES) || SAMPLE_CATEGORIES;
+    const products = readLegacy<Product[]>(LEGACY_STORAGE_KEYS.PRODUCTS) || SAMPLE_PRODUCTS;
+    const settings = readLegacy<{ syncedAt?: string }>(LEGACY_STORAGE_KEYS.SETTINGS);
+
+    for (const category of categories) tx.objectStore('categories').put(category);
+    for (const product of products) tx.objectStore('products').put(toStored(product));
+    if (settings?.syncedAt) meta.put(settings.syncedAt, 'syncedAt');
+    meta.put(new Date().toISOString(), 'seededAt');
+  });
+  for (const key of Object.values(LEGACY_STORAGE_KEYS)) localStorage.removeItem(key);
 };
 
-// Initialize data if not exists
-const initializeData = () => {
-  const categories = getStoredData(STORAGE_KEYS.CATEGORIES, []);
-  const products = getStoredData(STORAGE_KEYS.PRODUCTS, []);
+let seeding: Promise<void> | null = null;
 
-  if (categories.length === 0) {
-    setStoredData(STORAGE_KEYS.CATEGORIES, SAMPLE_CATEGORIES);
+const ready = () => {
+  if (!seeding) {
+    seeding = seed().catch((error) => {
+      seeding = null;
+      throw error;
+    });
   }
+  return seeding;
+};
 
-  if (products.length === 0) {
-    setStoredData(STORAGE_KEYS.PRODUCTS, SAMPLE_PRODUCTS);
-  }
+// Object URLs handed out for stored image Blobs, keyed both ways
+const objectUrls = new Map<string, string>();
+const imageKeys = new Map<string, string>();
+
+const displayImageUrl = async (imageUrl?: string) => {
+  if (!imageUrl?.startsWith(OFFLINE_IMAGE_PREFIX)) return imageUrl;
+  const cached = objectUrls.get(imageUrl);
+  if (cached) return cached;
+
+  const blob = await transaction('images', 'readonly', (tx) => request<Blob | undefined>(tx.objectStore('images').get(imageUrl)));
+  if (!blob) return undefined;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(imageUrl, url);
+  imageKeys.set(url, imageUrl);
+  return url;
+};
+
+const revokeImageUrl = (key: string) => {
+  const url = objectUrls.get(key);
+  if (!url) return;
+  URL.revokeObjectURL(url);
+  objectUrls.delete(key);
+  imageKeys.delete(url);
 };
 
-// Initialize data on import
-initializeData();
+// Image stored in IndexedDB, if the URL is an object URL handed out for one
+const storedImageUrl = (imageUrl?: string) => (imageUrl && imageKeys.get(imageUrl)) || imageUrl;
 
-// Offline API implementation
+// What the UI gets back: no index fields, a category name and displayable image
+const fromStored = async ({ name_key, ...product }: StoredProduct, categoryNames: Map<number, string>): Promise<Product> => ({
+  ...product,
+  category_name: categoryNames.get(product.category_id) || product.category_name || 'Unknown',
+  image_url: await displayImageUrl(product.image_url),
+});
+
+const readCategoryNames = async (tx: IDBTransaction) => {
+  const categories = await request<Category[]>(tx.objectStore('categories').getAll());
+  return new Map(categories.map((category) => [category.id, category.name]));
+};
+
+// Remove every product without changes in the outbox
+const dropUnqueued = async (store: IDBObjectStore, keep: Set<number> = new Set()) => {
+  const ids = (await request(store.getAllKeys())) as number[];
+  for (const id of ids) {
+    if (!keep.has(id) && !outbox.hasProduct(id)) store.delete(id);
+  }
+};
+
+// Offline API implementation, backed by IndexedDB
 export const offlineApi = {
   // Categories
   getCategories: async (): Promise<{ success: boolean; categories: Category[] }> => {
-    await new Promise(resolve => setTimeout(resolve, 100)); // Simulate network delay
-    const categories = getStoredData(STORAGE_KEYS.CATEGORIES, SAMPLE_CATEGORIES);
+    await ready();
+    const categories = await transaction('categories', 'readonly', (tx) =>
+      request<Category[]>(tx.objectStore('categories').getAll())
+    );
+    // Ordered by name, as the server returns them
+    categories.sort((a, b) => {
+      const nameA = foldText(a.name);
+      const nameB = foldText(b.name);
+      return nameA < nameB ? -1 : nameA > nameB ? 1 : 0;
+    });
     return { success: true, categories };
   },
 
-  // Products
-  getProducts: async (search = '', category = 'all'): Promise<{ success: boolean; products: Product[] }> => {
-    await new Promise(resolve => setTimeout(resolve, 100)); // Simulate network delay
+  // Products: the same filtering, ranking, sorting and paging as GET /api/products
+  getProducts: async (
+    search = '',
+    category = 'all',
+    page = 1,
+    limit = 50,
+    sortBy = 'created_at',
+    sortOrder = 'DESC',
+    location = 'all',
+    variants: ProductListVariants = 'flat'
+  ): Promise<{ success: boolean; products: Product[]; pagination: PaginationInfo }> => {
+    await ready();
+
+    const pageNum = Math.max(1, Math.floor(page) || 1);
+    const limitNum = Math.min(100, Math.max(1, Math.floor(limit) || 50));
+    const offset = (pageNum - 1) * limitNum;
+    const sortField = (PRODUCT_SORT_FIELDS as readonly string[]).includes(sortBy) ? (sortBy as ProductSortField) : 'created_at';
+    const descending = String(sortOrder).toUpperCase() !== 'ASC';
+    const categoryId = category !== 'all' ? Number.parseInt(category) || 0 : null;
+    const locationId = location !== 'all' ? Number.parseInt(location) || 0 : null;
+    const words = searchWords(search);
+    const nested = variants === 'nested';
+    const variantsOf = new Map<number, StoredProduct[]>();
+
+    const { rows, total, categoryNames } = await transaction(['products', 'categories'], 'readonly', async (tx) => {
+      const store = tx.objectStore('products');
+      const categoryNames = await readCategoryNames(tx);
+
+      if (!search && categoryId === null && locationId === null && !nested) {
+        // Nothing to filter: read the page straight off the sort column's index
+        const rows: StoredProduct[] = [];
+        await iterate<StoredProduct>(
+          store.index(sortField),
+          { direction: descending ? 'prev' : 'next', skip: offset },
+          (product) => {
+            rows.push(product);
+            return rows.length < limitNum;
+          }
+        );
+        return { rows, total: await request(store.count()), categoryNames };
+      }
 
-    let products = getStoredData(STORAGE_KEYS.PRODUCTS, SAMPLE_PRODUCTS);
-    const categories = getStoredData(STORAGE_KEYS.CATEGORIES, SAMPLE_CATEGORIES);
+      let matches: StoredProduct[];
+      if (nested) {
+        // Every product is read to group variants under their parent, which
+        // matches the search when one of its variants does
+        const all = await request<StoredProduct[]>(store.getAll());
+        for (const product of all) {
+          if (product.parent_id) {
+            variantsOf.set(product.parent_id, [...(variantsOf.get(product.parent_id) || []), product]);
+          }
+        }
+        matches = all.filter(
+          (product) =>
+            !product.parent_id &&
+            (categoryId === null || product.category_id === categoryId) &&
+            (!search ||
+              [product, ...(variantsOf.get(product.id) || [])].some((member) => matchesSearch(member, search, words)))
+        );
+      } else if (categoryId !== null) {
+        matches = await request<StoredProduct[]>(store.index('category').getAll(categoryId));
+        if (search) matches = matches.filter((product) => matchesSearch(product, search, words));
+      } else {
+        // A search or location filter has to look at every product; only the matches are kept
+        matches = [];
+        await iterate<StoredProduct>(store, {}, (product) => {
+          if (!search || matchesSearch(product, search, words)) matches.push(product);
+          return true;
+        });
+      }
 
-    // Add category names to products
-    products = products.map(product => ({
-      ...product,
-      category_name: categories.find(c => c.id === product.category_id)?.name || 'Unknown'
-    }));
+      // Like the server's join, only products with a stock row at the location
+      if (locationId !== null) {
+        matches = matches.flatMap((product) => {
+          const stock = product.stock_locations?.find((row) => row.location_id === locationId);
+          if (stock) return [{ ...product, location_stock: stock.quantity }];
+          // A parent is kept where any of its variants is
+          const kept = variantsOf
+            .get(product.id)
+            ?.some((variant) => variant.stock_locations?.some((row) => row.location_id === locationId));
+          return kept ? [{ ...product, location_stock: 0 }] : [];
+        });
+      }
 
-    // Apply filters
-    if (search) {
-      const searchLower = search.toLowerCase();
-      products = products.filter(product =>
-        product.name.toLowerCase().includes(searchLower) ||
-        (product.description?.toLowerCase().includes(searchLower))
+      // Exact barcode or SKU hits first, then full-text relevance for sortBy=relevance
+      const exactIds = new Set<number>();
+      if (search) {
+        for (const index of ['barcode', 'sku']) {
+          const hits = await request<StoredProduct[]>(store.index(index).getAll(search));
+          for (const hit of hits) exactIds.add(nested && hit.parent_id ? hit.parent_id : hit.id);
+        }
+      }
+      const relevance = new Map(
+        sortBy === 'relevance' && words.length > 0
+          ? matches.map((product) => [product.id, fullTextRelevance(product, words)])
+          : []
+      );
+      const compare =
+        sortField === 'remaining_stock' && locationId !== null
+          ? (a: StoredProduct, b: StoredProduct) => (a.location_stock || 0) - (b.location_stock || 0)
+          : compareBySortField(sortField);
+      matches.sort(
+        (a, b) =>
+          Number(exactIds.has(b.id)) - Number(exactIds.has(a.id)) ||
+          (relevance.get(b.id) || 0) - (relevance.get(a.id) || 0) ||
+          (descending ? -1 : 1) * (compare(a, b) || a.id - b.id)
       );
-    }
 
-    if (category !== 'all') {
-      products = products.filter(product => product.category_id === Number.parseInt(category));
+      return { rows: matches.slice(offset, offset + limitNum), total: matches.length, categoryNames };
+    });
+
+    const products = await Promise.all(rows.map((row) => fromStored(row, categoryNames)));
+    if (nested) {
+      for (const product of products) {
+        const family = variantsOf.get(product.id) || [];
+        product.variant_count = family.length;
+        if (family.length === 0) continue;
+        product.variants = await Promise.all(
+          family
+            .sort((a, b) => a.id - b.id)
+            .map(async (variant) => ({
+              ...(await fromStored(variant, categoryNames)),
+              location_stock:
+                locationId !== null
+                  ? Number(variant.stock_locations?.find((row) => row.location_id === locationId)?.quantity) || 0
+                  : undefined,
+            }))
+        );
+      }
+    }
+    if (search) {
+      for (const product of products) {
+        product.exact_match = [product, ...(product.variants || [])].some(
+          (member) => member.barcode === search || member.sku === search
+        );
+        product.relevance = words.length > 0 ? fullTextRelevance(product, words) : 0;
+        product.highlight = searchHighlight(product, search, words);
+      }
     }
 
-    // Sort by created_at desc
-    products.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
-    return { success: true, products };
+    const totalPages = Math.ceil(total / limitNum);
+    return {
+      success: true,
+      products,
+      pagination: {
+        currentPage: pageNum,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limitNum,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    };
   },
 
-  createProduct: async (productData: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'category_name'>): Promise<{ success: boolean; id?: number; error?: string }> => {
-    await new Promise(resolve => setTimeout(resolve, 100)); // Simulate network delay
-
-    try {
-      const products: Product[] = getStoredData(STORAGE_KEYS.PRODUCTS, SAMPLE_PRODUCTS);
-      const newId = Math.max(...products.map(p => p.id), 0) + 1;
+  // Like GET /api/products/:id, a parent comes with its variants and a
+  // variant with its parent and siblings
+  getProduct: async (id: number): Promise<Product | undefined> => {
+    await ready();
+    const { product, family, categoryNames } = await transaction(['products', 'categories'], 'readonly', async (tx) => {
+      const store = tx.objectStore('products');
+      const product = await request<StoredProduct | undefined>(store.get(id));
+      const parentId = product?.parent_id || (product?.variant_attributes?.length ? product.id : null);
+      const family = parentId
+        ? (await request<StoredProduct[]>(store.getAll())).filter(
+            (row) => row.id === parentId || row.parent_id === parentId
+          )
+        : [];
+      return { product, family, categoryNames: await readCategoryNames(tx) };
+    });
+    if (!product) return undefined;
+
+    const result = await fromStored(product, categoryNames);
+    const variants = await Promise.all(
+      family
+        .filter((row) => row.parent_id)
+        .sort((a, b) => a.id - b.id)
+        .map((row) => fromStored(row, categoryNames))
+    );
+    result.variant_count = product.parent_id ? 0 : variants.length;
+    if (variants.length > 0) result.variants = variants;
+    const parent = product.parent_id ? family.find((row) => row.id === product.parent_id) : undefined;
+    if (parent) {
+      result.parent = { id: parent.id, name: parent.name, variant_attributes: parent.variant_attributes };
+    }
+    return result;
+  },
 
-      const newProduct: Product = {
-        ...productData,
-        id: newId,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        category_name: '' // Will be populated when fetched
-      };
+  // The product as stored, with offline images as their placeholder URL, for
+  // comparing against the server when the outbox replays
+  getStoredProduct: async (id: number): Promise<Product | undefined> => {
+    await ready();
+    const product = await transaction('products', 'readonly', (tx) =>
+      request<StoredProduct | undefined>(tx.objectStore('products').get(id))
+    );
+    if (!product) return undefined;
+    const { name_key, ...fields } = product;
+    return fields;
+  },
 
-      products.push(newProduct);
-      setStoredData(STORAGE_KEYS.PRODUCTS, products);
+  // Product fields with an object URL from uploadImage turned back into the
+  // stored image's placeholder, so they can be saved and queued
+  toStoredFields: <T extends { image_url?: string }>(productData: T): T => ({
+    ...productData,
+    image_url: storedImageUrl(productData.image_url),
+  }),
 
-      return { success: true, id: newId };
+  createProduct: async (productData: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'category_name'>): Promise<{ success: boolean; id?: number; error?: string }> => {
+    try {
+      await ready();
+      const id = await transaction('products', 'readwrite', async (tx) => {
+        const store = tx.objectStore('products');
+        // Negative until the outbox replays the create and the server assigns
+        // an id; keys sort ascending, so the first one is the lowest
+        const first = await request(store.openKeyCursor());
+        const newId = Math.min(first ? Number(first.key) : 0, 0) - 1;
+        const now = new Date().toISOString();
+        store.put(toStored({ ...offlineApi.toStoredFields(productData), id: newId, created_at: now, updated_at: now }));
+        return newId;
+      });
+      return { success: true, id };
     } catch (error) {
+      console.error('Error creating product offline:', error);
       return { success: false, error: 'Failed to create product' };
     }
   },
 
   updateProduct: async (productData: Omit<Product, 'created_at' | 'updated_at' | 'category_name'>): Promise<{ success: boolean; error?: string }> => {
-    await new Promise(resolve => setTimeout(resolve, 100)); // Simulate network delay
-
     try {
-      const products: Product[] = getStoredData(STORAGE_KEYS.PRODUCTS, []);
-      const index = products.findIndex(p => p.id === productData.id);
-
-      if (index === -1) {
-        return { success: false, error: 'Product not found' };
-      }
-
-      products[index] = {
-        ...products[index],
-        ...productData,
-        updated_at: new Date().toISOString()
-      };
-
-      setStoredData(STORAGE_KEYS.PRODUCTS, products);
-      return { success: true };
+      await ready();
+      return await transaction('products', 'readwrite', async (tx) => {
+        const store = tx.objectStore('products');
+        const existing = await request<StoredProduct | undefined>(store.get(productData.id));
+        if (!existing) return { success: false, error: 'Product not found' };
+
+        store.put(toStored({ ...existing, ...offlineApi.toStoredFields(productData), updated_at: new Date().toISOString() }));
+        return { success: true };
+      });
     } catch (error) {
+      console.error('Error updating product offline:', error);
       return { success: false, error: 'Failed to update product' };
     }
   },
 
   deleteProduct: async (id: number): Promise<{ success: boolean; error?: string }> => {
-    await new Promise(resolve => setTimeout(resolve, 100)); // Simulate network delay
-
     try {
-      const products: Product[] = getStoredData(STORAGE_KEYS.PRODUCTS, []);
-      const filteredProducts = products.filter(p => p.id !== id);
-
-      if (products.length === filteredProducts.length) {
-        return { success: false, error: 'Product not found' };
-      }
-
-      setStoredData(STORAGE_KEYS.PRODUCTS, filteredProducts);
-      return { success: true };
+      await ready();
+      return await transaction('products', 'readwrite', async (tx) => {
+        const store = tx.objectStore('products');
+        if (!(await request(store.getKey(id)))) return { success: false, error: 'Product not found' };
+        store.delete(id);
+        return { success: true };
+      });
     } catch (error) {
+      console.error('Error deleting product offline:', error);
       return { success: false, error: 'Failed to delete product' };
     }
   },
 
+  // Keep the file as a Blob until the outbox uploads it with the product
   uploadImage: async (file: File): Promise<{ success: boolean; imageUrl?: string; error?: string }> => {
-    await new Promise(resolve => setTimeout(resolve, 200)); // Simulate upload delay
-
     try {
-      // Convert file to base64 for offline storage
-      return new Promise((resolve) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const imageUrl = reader.result as string;
-          resolve({ success: true, imageUrl });
-        };
-        reader.onerror = () => {
-          resolve({ success: false, error: 'Failed to process image' });
-        };
-        reader.readAsDataURL(file);
+      const key = `${OFFLINE_IMAGE_PREFIX}${clientId()}`;
+      await transaction('images', 'readwrite', (tx) => {
+        tx.objectStore('images').put(file, key);
       });
+      return { success: true, imageUrl: await displayImageUrl(key) };
     } catch (error) {
-      return { success: false, error: 'Failed to upload image' };
+      console.error('Error storing image offline:', error);
+      return { success: false, error: 'Failed to process image' };
     }
   },
 
   deleteImage: async (imageUrl: string): Promise<{ success: boolean; error?: string }> => {
-    await new Promise(resolve => setTimeout(resolve, 100)); // Simulate network delay
-    // For offline mode, we don't need to actually delete base64 images
+    const key = storedImageUrl(imageUrl);
+    if (!key?.startsWith(OFFLINE_IMAGE_PREFIX)) return { success: true };
+
+    await transaction('images', 'readwrite', (tx) => {
+      tx.objectStore('images').delete(key);
+    });
+    revokeImageUrl(key);
     return { success: true };
   },
 
+  getImage: (key: string): Promise<Blob | undefined> =>
+    transaction('images', 'readonly', (tx) => request<Blob | undefined>(tx.objectStore('images').get(key))),
+
+  // An image uploaded offline reached the server: point the product at its
+  // URL and drop the Blob
+  imageUploaded: async (productId: number, key: string, imageUrl?: string) => {
+    await transaction(['products', 'images'], 'readwrite', async (tx) => {
+      const store = tx.objectStore('products');
+      const product = await request<StoredProduct | undefined>(store.get(productId));
+      if (product?.image_url === key) store.put({ ...product, image_url: imageUrl });
+      tx.objectStore('images').delete(key);
+    });
+    revokeImageUrl(key);
+  },
+
+  // Keep a copy of what the server returned for offline use. The sample data
+  // is dropped the first time; products with changes still in the outbox keep
+  // their local version.
+  cacheProducts: async (serverProducts: Product[]) => {
+    try {
+      await ready();
+      await transaction(['products', 'meta'], 'readwrite', async (tx) => {
+        const store = tx.objectStore('products');
+        const meta = tx.objectStore('meta');
+        if (!(await request(meta.get('syncedAt')))) await dropUnqueued(store);
+        for (const product of serverProducts) {
+          if (!outbox.hasProduct(product.id)) store.put(toStored(product));
+        }
+        meta.put(new Date().toISOString(), 'syncedAt');
+      });
+    } catch (error) {
+      console.error('Error caching products offline:', error);
+    }
+  },
+
+  // Replace the offline catalogue with a full copy from the server, keeping
+  // products with changes still in the outbox
+  replaceCatalogue: async (serverProducts: Product[]) => {
+    await ready();
+    await transaction(['products', 'meta'], 'readwrite', async (tx) => {
+      const store = tx.objectStore('products');
+      await dropUnqueued(store, new Set(serverProducts.map((product) => product.id)));
+      for (const product of serverProducts) {
+        if (!outbox.hasProduct(product.id)) store.put(toStored(product));
+      }
+      const now = new Date().toISOString();
+      tx.objectStore('meta').put(now, 'syncedAt');
+      tx.objectStore('meta').put(now, 'catalogueSyncedAt');
+    });
+  },
+
+  catalogueIsStale: async () => {
+    await ready();
+    const syncedAt = await transaction('meta', 'readonly', (tx) =>
+      request<string | undefined>(tx.objectStore('meta').get('catalogueSyncedAt'))
+    );
+    return !syncedAt || Date.now() - new Date(syncedAt).getTime() > CATALOGUE_MAX_AGE;
+  },
+
+  cacheCategories: async (categories: Category[]) => {
+    try {
+      await ready();
+      await transaction('categories', 'readwrite', (tx) => {
+        const store = tx.objectStore('categories');
+        store.clear();
+        for (const category of categories) store.put(category);
+      });
+    } catch (error) {
+      console.error('Error caching categories offline:', error);
+    }
+  },
+
+  // Put back the server's copy of a product, or remove it when the server has none
+  restoreProduct: async (id: number, product: Product | null | undefined) => {
+    await ready();
+    await transaction('products', 'readwrite', (tx) => {
+      const store = tx.objectStore('products');
+      store.delete(id);
+      if (product) store.put(toStored(product));
+    });
+  },
+
+  // A product created offline got its id from the server
+  replaceProductId: async (localId: number, serverId: number) => {
+    await ready();
+    await transaction('products', 'readwrite', async (tx) => {
+      const store = tx.objectStore('products');
+      const product = await request<StoredProduct | undefined>(store.get(localId));
+      if (!product) return;
+      store.delete(localId);
+      store.put({ ...product, id: serverId });
+    });
+  },
+
   // Additional offline utilities
-  exportData: () => {
-    const categories = getStoredData(STORAGE_KEYS.CATEGORIES, []);
-    const products = getStoredData(STORAGE_KEYS.PRODUCTS, []);
-    return { categories, products, exportDate: new Date().toISOString() };
+  exportData: async () => {
+    await ready();
+    const { categories, products } = await transaction(['products', 'categories'], 'readonly', async (tx) => ({
+      categories: await request<Category[]>(tx.objectStore('categories').getAll()),
+      products: await request<StoredProduct[]>(tx.objectStore('products').getAll()),
+    }));
+    return {
+      categories,
+      products: products.map(({ name_key, ...product }) => product),
+      exportDate: new Date().toISOString()
+    };
   },
 
-  importData: (data: { categories: Category[], products: Product[] }) => {
-    setStoredData(STORAGE_KEYS.CATEGORIES, data.categories);
-    setStoredData(STORAGE_KEYS.PRODUCTS, data.products);
+  importData: async (data: { categories: Category[], products: Product[] }) => {
+    await ready();
+    await transaction(['products', 'categories'], 'readwrite', (tx) => {
+      tx.objectStore('categories').clear();
+      tx.objectStore('products').clear();
+      for (const category of data.categories) tx.objectStore('categories').put(category);
+      for (const product of data.products) tx.objectStore('products').put(toStored(product));
+    });
   },
 
-  resetData: () => {
-    setStoredData(STORAGE_KEYS.CATEGORIES, SAMPLE_CATEGORIES);
-    setStoredData(STORAGE_KEYS.PRODUCTS, SAMPLE_PRODUCTS);
+  resetData: () => offlineApi.importData({ categories: SAMPLE_CATEGORIES, products: SAMPLE_PRODUCTS }),
+
+  // Empty every store; the next read seeds the database again as on a new device
+  clearData: async () => {
+    await ready();
+    await transaction(['products', 'categories', 'images', 'meta'], 'readwrite', (tx) => {
+      for (const store of ['products', 'categories', 'images', 'meta'] as const) tx.objectStore(store).clear();
+    });
+    seeding = null;
   }
 };
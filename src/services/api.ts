@@ -1,18 +1,258 @@
-import type { Product, Category } from '@/types';
-import { offlineApi } from './api-offline';
+import type {
+  Product,
+  Category,
+  CategoryInput,
+  PaginationInfo,
+  StockMovement,
+  StockMovementInput,
+  Sale,
+  SaleInput,
+  Customer,
+  CustomerInput,
+  CustomerPaymentInput,
+  CustomerStatement,
+  Supplier,
+  SupplierInput,
+  SupplierProduct,
+  PurchaseOrder,
+  PurchaseOrderInput,
+  PurchaseOrderReceiptInput,
+  PurchaseOrderStatus,
+  Stocktake,
+  StocktakeCount,
+  StocktakeInput,
+  StocktakeStatus,
+  Location,
+  LocationInput,
+  StockTransfer,
+  StockTransferInput,
+  ReorderGroup,
+  User,
+  AuditEntry,
+  AuditFilters,
+  PriceHistoryEntry,
+  PublicProduct,
+  LabelProduct,
+  ProductImportRow,
+  ProductListVariants,
+  ProductImportResult,
+  ProductExportFormat,
+  ProductListFilters,
+  OutboxEntry,
+} from '@/types';
+import { OFFLINE_IMAGE_PREFIX, offlineApi } from './api-offline';
+import { conflictingFields, localChanges, outbox } from './outbox';
+import { barcodeCandidates } from '@/lib/barcode';
 
 const API_BASE_URL = '/api';
 
+// Set by the service worker (src/service-worker.js) on lists it answered from its cache
+const SW_CACHED_AT_HEADER = 'X-SW-Cached-At';
+
+// Raised when a product was saved by someone else since it was loaded
+export class ProductConflictError extends Error {
+  product?: Product;
+
+  constructor(message: string, product?: Product) {
+    super(message);
+    this.name = 'ProductConflictError';
+    this.product = product;
+  }
+}
+
 // Detect if running in mobile app (Capacitor)
 const isCapacitor = () => {
   return !!(window as typeof window & { Capacitor?: unknown }).Capacitor;
 };
+// Session token issued by POST /api/auth/login
+const AUTH_TOKEN_KEY = 'droguerie_auth_token';
+export const AUTH_EXPIRED_EVENT = 'droguerie:auth-expired';
+
+export const authToken = {
+  get: () => localStorage.getItem(AUTH_TOKEN_KEY),
+  set: (token: string) => localStorage.setItem(AUTH_TOKEN_KEY, token),
+  clear: () => localStorage.removeItem(AUTH_TOKEN_KEY),
+};
+
+// fetch with the session token attached; a 401 means the session is gone
+const apiFetch = async (url: string, init: RequestInit = {}) => {
+  const headers = new Headers(init.headers);
+  const token = authToken.get();
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const response = await fetch(url, { ...init, headers });
+  if (response.status === 401 && token) {
+    authToken.clear();
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
+  return response;
+};
+
+// Body of a replayed request. A 5xx or an expired session leaves the entry
+// queued for the next run.
+const replayResult = async (response: Response) => {
+  if (response.status >= 500 || response.status === 401) throw new Error(`Server answered ${response.status}`);
+  return response.json();
+};
+
+// Upload an image picked offline ahead of the product using it. The entry is
+// updated at once so a retry does not upload the image twice. Returns the
+// updated entry, or the server's error.
+const withUploadedImage = async (entry: OutboxEntry): Promise<OutboxEntry | string> => {
+  const key = entry.data?.image_url;
+  if (!entry.data || !key?.startsWith(OFFLINE_IMAGE_PREFIX)) return entry;
+
+  const image = await offlineApi.getImage(key);
+  let imageUrl: string | undefined;
+  if (image) {
+    const formData = new FormData();
+    formData.append('image', image, image instanceof File ? image.name : 'image');
+    const result = await replayResult(
+      await apiFetch(`${API_BASE_URL}/upload`, { method: 'POST', body: formData })
+    );
+    if (!result.success) return result.error || 'Image upload failed';
+    imageUrl = result.imageUrl;
+  }
+  await offlineApi.imageUploaded(entry.productId, key, imageUrl);
+
+  const data = { ...entry.data, image_url: imageUrl };
+  outbox.update(entry.id, { data });
+  return { ...entry, data };
+};
+
+// Send one outbox entry to the server. Returns the entry's new state, or
+// null once the change is applied (or no longer needed). Throws when the
+// server cannot be reached.
+const replayOutboxEntry = async (entry: OutboxEntry): Promise<Partial<OutboxEntry> | null> => {
+  const jsonHeaders = { 'Content-Type': 'application/json' };
+
+  if (entry.operation === 'create') {
+    const uploaded = await withUploadedImage(entry);
+    if (typeof uploaded === 'string') return { status: 'failed', error: uploaded };
+
+    // The entry id makes the create idempotent if the response is lost
+    const result = await replayResult(
+      await apiFetch(`${API_BASE_URL}/products`, {
+        method: 'POST',
+        headers: { ...jsonHeaders, 'Idempotency-Key': entry.id },
+        body: JSON.stringify(uploaded.data),
+      })
+    );
+    if (!result.success) return { status: 'failed', error: result.error };
+    await offlineApi.replaceProductId(entry.productId, result.id);
+    outbox.replaceProductId(entry.productId, result.id);
+    return null;
+  }
+
+  const current = await replayResult(await apiFetch(`${API_BASE_URL}/products/${entry.productId}`));
+  const server: Product | null = current.success ? current.product : null;
+
+  // updated_at moves with every write to the product, stock movements included
+  const changedOnServer = !!server && !!entry.base && server.updated_at !== entry.base.updated_at;
+
+  if (entry.operation === 'delete') {
+    if (!server) return null;
+    if (changedOnServer) return { status: 'conflict', serverProduct: server };
+    const result = await replayResult(
+      await apiFetch(`${API_BASE_URL}/products?id=${entry.productId}`, { method: 'DELETE' })
+    );
+    return result.success ? null : { status: 'failed', error: result.error };
+  }
+
+  if (!server) return { status: 'conflict', serverProduct: null };
+  if (changedOnServer && conflictingFields(entry, server).length > 0) {
+    return { status: 'conflict', serverProduct: server };
+  }
+
+  const uploaded = await withUploadedImage(entry);
+  if (typeof uploaded === 'string') return { status: 'failed', error: uploaded };
+
+  // Only the fields edited offline are sent on top of the server's copy, so
+  // unrelated changes made there in the meantime survive
+  const result = await replayResult(
+    await apiFetch(`${API_BASE_URL}/products`, {
+      method: 'PUT',
+      headers: jsonHeaders,
+      body: JSON.stringify({ ...server, ...localChanges(uploaded), id: server.id, version: server.version }),
+    })
+  );
+  if (result.conflict) return { status: 'conflict', serverProduct: result.product };
+  return result.success ? null : { status: 'failed', error: result.error };
+};
+
+let outboxRun: Promise<{ synced: number; offline: boolean }> | null = null;
+
 export const api = {
+  // Authentication
+  login: async (email: string, password: string): Promise<{ success: boolean; token?: string; user?: User; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password }),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, cannot log in offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  getCurrentUser: async (): Promise<{ success: boolean; user?: User; error?: string; offline?: boolean }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/auth/me`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, keeping the cached session');
+      return { success: false, offline: true, error: 'Backend unavailable' };
+    }
+  },
+
+  // Revoke the session's token, and the user's other sessions, on the server
+  logout: async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/auth/logout`, { method: 'POST' });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, the session is only forgotten on this device');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Forget the offline catalogue and unsynced changes, which belong to the user logging out
+  clearOfflineData: async () => {
+    outbox.clear();
+    await offlineApi.clearData();
+  },
+
+  // The change ends other sessions; this one continues with the token sent back
+  changePassword: async (currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/auth/password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
+      });
+      const result = await response.json();
+      if (result.success && result.token) authToken.set(result.token);
+      return result;
+    } catch (error) {
+      console.log('Backend unavailable, password cannot be changed offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
   // Categories
   getCategories: async (): Promise<{ success: boolean; categories: Category[] }> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/categories`);
-      return response.json();
+      const response = await apiFetch(`${API_BASE_URL}/categories`);
+      const result = await response.json();
+      if (result.success) offlineApi.cacheCategories(result.categories);
+      return result;
     } catch (error) {
       console.log('Backend unavailable, falling back to offline mode for categories');
       console.log('API Error:', error);
@@ -20,6 +260,40 @@ export const api = {
     }
   },
 
+  saveCategory: async (category: CategoryInput, id?: number): Promise<{ success: boolean; id?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(id ? `${API_BASE_URL}/categories/${id}` : `${API_BASE_URL}/categories`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(category),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, categories cannot be saved offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  deleteCategory: async (
+    id: number,
+    reassignTo?: number
+  ): Promise<{ success: boolean; reassigned_products?: number; product_count?: number; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      if (reassignTo) params.append('reassign_to', reassignTo.toString());
+
+      const response = await apiFetch(`${API_BASE_URL}/categories/${id}?${params}`, {
+        method: 'DELETE',
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, categories cannot be deleted offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
   // Products
   getProducts: async (
     search = '',
@@ -27,61 +301,119 @@ export const api = {
     page = 1,
     limit = 50,
     sortBy = 'created_at',
-    sortOrder = 'DESC'
+    sortOrder = 'DESC',
+    location = 'all',
+    variants: ProductListVariants = 'flat'
   ): Promise<{
     success: boolean;
     products: Product[];
-    pagination?: {
-      currentPage: number;
-      totalPages: number;
-      totalItems: number;
-      itemsPerPage: number;
-      hasNextPage: boolean;
-      hasPrevPage: boolean;
-    }
+    pagination?: PaginationInfo
   }> => {
     try {
       const params = new URLSearchParams();
       if (search) params.append('search', search);
       if (category !== 'all') params.append('category', category);
+      if (location !== 'all') params.append('location_id', location);
+      if (variants !== 'flat') params.append('variants', variants);
       params.append('page', page.toString());
       params.append('limit', limit.toString());
       params.append('sortBy', sortBy);
       params.append('sortOrder', sortOrder);
 
-      const response = await fetch(`${API_BASE_URL}/products?${params}`);
-      return response.json();
+      const response = await apiFetch(`${API_BASE_URL}/products?${params}`);
+      // A cached list predates the changes still queued offline, which only
+      // the offline store shows
+      if (response.headers.has(SW_CACHED_AT_HEADER) && outbox.entries().length > 0) {
+        return offlineApi.getProducts(search, category, page, limit, sortBy, sortOrder, location, variants);
+      }
+      const result = await response.json();
+      if (result.success) {
+        offlineApi.cacheProducts(result.products.flatMap((product: Product) => [product, ...(product.variants || [])]));
+      }
+      return result;
     } catch (error) {
       console.log('Backend unavailable, falling back to offline mode for products');
-      const offlineResult = await offlineApi.getProducts(search, category);
-      return {
-        success: offlineResult.success,
-        products: offlineResult.products,
-        pagination: {
-          currentPage: page,
-          totalPages: 1,
-          totalItems: offlineResult.products.length,
-          itemsPerPage: limit,
-          hasNextPage: false,
-          hasPrevPage: false
-        }
-      };
+      return offlineApi.getProducts(search, category, page, limit, sortBy, sortOrder, location, variants);
+    }
+  },
+
+  // Copy the whole catalogue into the offline store, a page at a time, so
+  // searches keep working offline. Skipped while the last copy is recent.
+  downloadCatalogue: async (force = false): Promise<{ success: boolean; count?: number; error?: string }> => {
+    if (!force && !(await offlineApi.catalogueIsStale())) return { success: true };
+    try {
+      const products: Product[] = [];
+      for (let page = 1; ; page++) {
+        const response = await apiFetch(`${API_BASE_URL}/products?page=${page}&limit=100&sortBy=created_at&sortOrder=ASC`);
+        const result = await response.json();
+        if (!result.success) return { success: false, error: result.error };
+        products.push(...result.products);
+        if (!result.pagination?.hasNextPage) break;
+      }
+      await offlineApi.replaceCatalogue(products);
+      return { success: true, count: products.length };
+    } catch (error) {
+      console.log('Backend unavailable, offline catalogue not refreshed');
+      return { success: false, error: 'Backend unavailable' };
     }
   },
 
+  // Product whose barcode or SKU is exactly a scanned code
+  findProductByCode: async (code: string): Promise<Product | undefined> => {
+    for (const candidate of barcodeCandidates(code.trim())) {
+      const response = await api.getProducts(candidate, 'all', 1, 10);
+      const match = response.products?.find((p) => p.barcode === candidate || p.sku === candidate);
+      if (match) return match;
+    }
+    return undefined;
+  },
+
   getProductById: async (id: number): Promise<{ success: boolean; product?: Product; error?: string }> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/products/${id}`);
-      return response.json();
+      const response = await apiFetch(`${API_BASE_URL}/products/${id}`);
+      const result = await response.json();
+      if (result.success) offlineApi.cacheProducts([result.product, ...(result.product.variants || [])]);
+      return result;
     } catch (error) {
       console.log('Backend unavailable, falling back to offline mode for get product by ID');
+      const product = await offlineApi.getProduct(id);
+      return product ? { success: true, product } : { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // No login needed: this is what the product QR code opens for customers
+  getPublicProduct: async (id: number): Promise<{ success: boolean; product?: PublicProduct; error?: string }> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/public/products/${id}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable for public product');
       return { success: false, error: 'Backend unavailable' };
     }
   },
 
-  createProduct: async (productData: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'category_name'>): Promise<{ success: boolean; id?: number; error?: string }> => {
+  // Either the given products or every one repriced since the date (YYYY-MM-DD)
+  getLabelProducts: async (
+    selection: { ids: number[] } | { priceChangedSince: string }
+  ): Promise<{ success: boolean; products?: LabelProduct[]; error?: string }> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/products`, {
+      const params = new URLSearchParams();
+      if ('ids' in selection) params.append('ids', selection.ids.join(','));
+      else params.append('priceChangedSince', selection.priceChangedSince);
+
+      const response = await apiFetch(`${API_BASE_URL}/products/labels?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable for label products');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Changes made while the backend is unreachable are applied to the offline
+  // store and queued in the outbox; `queued` tells the caller so
+  createProduct: async (productData: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'category_name'>): Promise<{ success: boolean; id?: number; error?: string; queued?: boolean }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/products`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -90,14 +422,64 @@ export const api = {
       });
       return response.json();
     } catch (error) {
-      console.log('Falling back to offline mode for create product');
-      return {success:false,error:'Falling back to offline mode for create product',id:0};
+      console.log('Backend unavailable, queueing create product');
+      const data = offlineApi.toStoredFields(productData);
+      const result = await offlineApi.createProduct(data);
+      if (!result.success || !result.id) return result;
+      outbox.enqueue({ operation: 'create', productId: result.id, productName: data.name, data, base: null });
+      return { ...result, queued: true };
     }
   },
 
-  updateProduct: async (productData: Omit<Product, 'created_at' | 'updated_at' | 'category_name'>): Promise<{ success: boolean; error?: string }> => {
+  // The filtered product list as a file, with headers in `lang` (fr or ar)
+  exportProducts: async (
+    filters: ProductListFilters,
+    format: ProductExportFormat,
+    lang: string
+  ): Promise<{ success: boolean; file?: Blob; error?: string }> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/products`, {
+      const params = new URLSearchParams({ ...filters, format, lang });
+      const response = await apiFetch(`${API_BASE_URL}/products/export?${params}`);
+      if (!response.ok) return response.json();
+      return { success: true, file: await response.blob() };
+    } catch (error) {
+      console.log('Backend unavailable for product export');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Upsert by SKU, then barcode, in one transaction. With dryRun nothing is
+  // written and each row reports whether it would create or update a product.
+  importProducts: async (
+    rows: ProductImportRow[],
+    dryRun = false
+  ): Promise<{
+    success: boolean;
+    dryRun?: boolean;
+    results?: ProductImportResult[];
+    failed?: number;
+    created?: number;
+    updated?: number;
+    error?: string;
+  }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/products/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rows, dryRun }),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable for product import');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  updateProduct: async (productData: Omit<Product, 'created_at' | 'updated_at' | 'category_name'>): Promise<{ success: boolean; error?: string; version?: number; conflict?: boolean; product?: Product; queued?: boolean }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/products`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -106,20 +488,595 @@ export const api = {
       });
       return response.json();
     } catch (error) {
-      console.log('Backend unavailable, falling back to offline mode for update product');
-      return offlineApi.updateProduct(productData);
+      console.log('Backend unavailable, queueing update product');
+      const data = offlineApi.toStoredFields(productData);
+      const base = (await offlineApi.getStoredProduct(data.id)) || null;
+      await offlineApi.updateProduct(data);
+      outbox.enqueue({ operation: 'update', productId: data.id, productName: data.name, data, base });
+      return { success: true, queued: true };
+    }
+  },
+
+  deleteProduct: async (id: number): Promise<{ success: boolean; error?: string; queued?: boolean }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/products?id=${id}`, {
+        method: 'DELETE',
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, queueing delete product');
+      const base = (await offlineApi.getStoredProduct(id)) || null;
+      await offlineApi.deleteProduct(id);
+      outbox.enqueue({ operation: 'delete', productId: id, productName: base?.name || `#${id}`, base });
+      return { success: true, queued: true };
+    }
+  },
+
+  // Replay the outbox oldest first. Stops at the first network error; a
+  // product whose change failed or conflicts is skipped until the user
+  // resolves it, so later changes to it are not applied out of order.
+  syncOutbox: (): Promise<{ synced: number; offline: boolean }> => {
+    if (outboxRun) return outboxRun;
+
+    outboxRun = (async () => {
+      let synced = 0;
+      const blocked = new Set<number>();
+      try {
+        for (const queued of outbox.entries()) {
+          // Earlier replays may have remapped ids or removed entries
+          const entry = outbox.entries().find((item) => item.id === queued.id);
+          if (!entry) continue;
+          if (entry.status !== 'pending' || blocked.has(entry.productId)) {
+            blocked.add(entry.productId);
+            continue;
+          }
+
+          let next: Partial<OutboxEntry> | null;
+          try {
+            next = await replayOutboxEntry(entry);
+          } catch (error) {
+            console.log('Backend unavailable, outbox sync stopped:', error);
+            return { synced, offline: true };
+          }
+
+          if (next) {
+            outbox.update(entry.id, next);
+            blocked.add(entry.productId);
+          } else {
+            outbox.remove(entry.id);
+            synced++;
+          }
+        }
+        return { synced, offline: false };
+      } finally {
+        outboxRun = null;
+      }
+    })();
+
+    return outboxRun;
+  },
+
+  // Resolve a conflict by applying the offline change on top of the server's
+  // current copy
+  keepOutboxChange: (entry: OutboxEntry) => {
+    const server = entry.serverProduct;
+    if (!server) return;
+    outbox.update(entry.id, {
+      status: 'pending',
+      error: undefined,
+      serverProduct: undefined,
+      base: server,
+      data: entry.data && { ...entry.data, ...server, ...localChanges(entry) },
+    });
+  },
+
+  // Drop an offline change and put the server's copy back in the offline
+  // store. Dropping a create also drops the later edits to that product.
+  discardOutboxChange: async (entry: OutboxEntry) => {
+    for (const item of outbox.entries()) {
+      if (item.id === entry.id || (entry.operation === 'create' && item.productId === entry.productId)) {
+        outbox.remove(item.id);
+      }
+    }
+    await offlineApi.restoreProduct(
+      entry.productId,
+      entry.status === 'conflict' ? entry.serverProduct : entry.base
+    );
+  },
+
+  retryOutboxChange: (entry: OutboxEntry) => {
+    outbox.update(entry.id, { status: 'pending', error: undefined });
+  },
+
+  // Stock movements
+  getStockMovements: async (
+    productId: number,
+    page = 1,
+    limit = 20
+  ): Promise<{ success: boolean; movements: StockMovement[]; pagination?: PaginationInfo; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      params.append('page', page.toString());
+      params.append('limit', limit.toString());
+
+      const response = await apiFetch(`${API_BASE_URL}/products/${productId}/movements?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stock movements cannot be loaded offline');
+      return { success: false, movements: [], error: 'Backend unavailable' };
+    }
+  },
+
+  getPriceHistory: async (productId: number): Promise<{ success: boolean; history: PriceHistoryEntry[]; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/products/${productId}/price-history`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, price history cannot be loaded offline');
+      return { success: false, history: [], error: 'Backend unavailable' };
+    }
+  },
+
+  // Audit log
+  getAuditLog: async (
+    filters: AuditFilters = {},
+    page = 1,
+    limit = 50
+  ): Promise<{ success: boolean; entries: AuditEntry[]; pagination?: PaginationInfo; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '') params.append(key, String(value));
+      }
+      params.append('page', page.toString());
+      params.append('limit', limit.toString());
+
+      const response = await apiFetch(`${API_BASE_URL}/audit?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, audit log cannot be loaded offline');
+      return { success: false, entries: [], error: 'Backend unavailable' };
+    }
+  },
+
+  createStockMovement: async (
+    productId: number,
+    movement: StockMovementInput
+  ): Promise<{ success: boolean; id?: number; remaining_stock?: number; location_stock?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/products/${productId}/movements`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(movement),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stock movements cannot be recorded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Sales
+  createSale: async (sale: SaleInput): Promise<{ success: boolean; id?: number; sale_number?: string; total?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/sales`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(sale),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, sales cannot be recorded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  getSale: async (id: number): Promise<{ success: boolean; sale?: Sale; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/sales/${id}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, sale cannot be loaded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Customers (credit book)
+  getCustomers: async (search = ''): Promise<{ success: boolean; customers: Customer[]; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      if (search) params.append('search', search);
+
+      const response = await apiFetch(`${API_BASE_URL}/customers?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, customers cannot be loaded offline');
+      return { success: false, customers: [], error: 'Backend unavailable' };
+    }
+  },
+
+  getCustomer: async (id: number): Promise<{ success: boolean; customer?: Customer; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/customers/${id}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, customer cannot be loaded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  saveCustomer: async (customer: CustomerInput, id?: number): Promise<{ success: boolean; id?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/customers${id ? `/${id}` : ''}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(customer),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, customer cannot be saved offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  deleteCustomer: async (id: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/customers/${id}`, {
+        method: 'DELETE',
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, customer cannot be deleted offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  recordCustomerPayment: async (customerId: number, payment: CustomerPaymentInput): Promise<{ success: boolean; id?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/customers/${customerId}/payments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payment),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, payment cannot be recorded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  getCustomerStatement: async (
+    customerId: number,
+    from = '',
+    to = ''
+  ): Promise<{ success: boolean; statement?: CustomerStatement; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      if (from) params.append('from', from);
+      if (to) params.append('to', to);
+
+      const response = await apiFetch(`${API_BASE_URL}/customers/${customerId}/statement?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, statement cannot be loaded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Suppliers
+  getSuppliers: async (search = ''): Promise<{ success: boolean; suppliers: Supplier[]; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      if (search) params.append('search', search);
+
+      const response = await apiFetch(`${API_BASE_URL}/suppliers?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, suppliers cannot be loaded offline');
+      return { success: false, suppliers: [], error: 'Backend unavailable' };
+    }
+  },
+
+  getSupplier: async (id: number): Promise<{ success: boolean; supplier?: Supplier; products?: SupplierProduct[]; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/suppliers/${id}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, supplier cannot be loaded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  saveSupplier: async (supplier: SupplierInput, id?: number): Promise<{ success: boolean; id?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/suppliers${id ? `/${id}` : ''}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(supplier),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, supplier cannot be saved offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  deleteSupplier: async (id: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/suppliers/${id}`, {
+        method: 'DELETE',
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, supplier cannot be deleted offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Stock locations
+  getLocations: async (includeInactive = false): Promise<{ success: boolean; locations: Location[]; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/locations?includeInactive=${includeInactive}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, locations cannot be loaded offline');
+      return { success: false, locations: [], error: 'Backend unavailable' };
+    }
+  },
+
+  saveLocation: async (location: LocationInput, id?: number): Promise<{ success: boolean; id?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/locations${id ? `/${id}` : ''}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(location),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, location cannot be saved offline');
+      return { success: false, error: 'Backend unavailable' };
     }
   },
 
-  deleteProduct: async (id: number): Promise<{ success: boolean; error?: string }> => {
+  deleteLocation: async (id: number): Promise<{ success: boolean; error?: string }> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/products?id=${id}`, {
+      const response = await apiFetch(`${API_BASE_URL}/locations/${id}`, {
         method: 'DELETE',
       });
       return response.json();
     } catch (error) {
-      console.log('Backend unavailable, falling back to offline mode for delete product');
-      return offlineApi.deleteProduct(id);
+      console.log('Backend unavailable, location cannot be deleted offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Purchase orders
+  getPurchaseOrders: async (
+    status: PurchaseOrderStatus | 'all' = 'all',
+    page = 1,
+    limit = 20
+  ): Promise<{ success: boolean; orders: PurchaseOrder[]; pagination?: PaginationInfo; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      if (status !== 'all') params.append('status', status);
+      params.append('page', page.toString());
+      params.append('limit', limit.toString());
+
+      const response = await apiFetch(`${API_BASE_URL}/purchase-orders?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, purchase orders cannot be loaded offline');
+      return { success: false, orders: [], error: 'Backend unavailable' };
+    }
+  },
+
+  getPurchaseOrder: async (id: number): Promise<{ success: boolean; order?: PurchaseOrder; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/purchase-orders/${id}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, purchase order cannot be loaded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  savePurchaseOrder: async (order: PurchaseOrderInput, id?: number): Promise<{ success: boolean; id?: number; po_number?: string; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/purchase-orders${id ? `/${id}` : ''}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(order),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, purchase order cannot be saved offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  setPurchaseOrderStatus: async (id: number, status: PurchaseOrderStatus): Promise<{ success: boolean; status?: PurchaseOrderStatus; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/purchase-orders/${id}/status`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, purchase order status cannot be changed offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  receivePurchaseOrder: async (id: number, receipt: PurchaseOrderReceiptInput): Promise<{ success: boolean; status?: PurchaseOrderStatus; received_lines?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/purchase-orders/${id}/receive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(receipt),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, goods cannot be received offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Stocktakes
+  getStocktakes: async (
+    status: StocktakeStatus | 'all' = 'all',
+    page = 1,
+    limit = 20
+  ): Promise<{ success: boolean; stocktakes: Stocktake[]; pagination?: PaginationInfo; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      if (status !== 'all') params.append('status', status);
+      params.append('page', page.toString());
+      params.append('limit', limit.toString());
+
+      const response = await apiFetch(`${API_BASE_URL}/stocktakes?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stocktakes cannot be loaded offline');
+      return { success: false, stocktakes: [], error: 'Backend unavailable' };
+    }
+  },
+
+  getStocktake: async (id: number): Promise<{ success: boolean; stocktake?: Stocktake; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/stocktakes/${id}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stocktake cannot be loaded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  createStocktake: async (stocktake: StocktakeInput): Promise<{ success: boolean; id?: number; reference?: string; item_count?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/stocktakes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(stocktake),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stocktake cannot be started offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  recordStocktakeCounts: async (id: number, counts: StocktakeCount[]): Promise<{ success: boolean; items?: { product_id: number; counted_quantity: number | null }[]; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/stocktakes/${id}/counts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ counts }),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, counts cannot be recorded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  approveStocktake: async (id: number): Promise<{ success: boolean; status?: StocktakeStatus; adjusted_lines?: number; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/stocktakes/${id}/approve`, {
+        method: 'POST',
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stocktake cannot be approved offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  cancelStocktake: async (id: number): Promise<{ success: boolean; status?: StocktakeStatus; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/stocktakes/${id}/cancel`, {
+        method: 'POST',
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stocktake cannot be cancelled offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  // Stock transfers
+  getStockTransfers: async (
+    page = 1,
+    limit = 20
+  ): Promise<{ success: boolean; transfers: StockTransfer[]; pagination?: PaginationInfo; error?: string }> => {
+    try {
+      const params = new URLSearchParams();
+      params.append('page', page.toString());
+      params.append('limit', limit.toString());
+
+      const response = await apiFetch(`${API_BASE_URL}/transfers?${params}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, transfers cannot be loaded offline');
+      return { success: false, transfers: [], error: 'Backend unavailable' };
+    }
+  },
+
+  getStockTransfer: async (id: number): Promise<{ success: boolean; transfer?: StockTransfer; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/transfers/${id}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, transfer cannot be loaded offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  createStockTransfer: async (transfer: StockTransferInput): Promise<{ success: boolean; id?: number; reference?: string; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/transfers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(transfer),
+      });
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, stock cannot be transferred offline');
+      return { success: false, error: 'Backend unavailable' };
+    }
+  },
+
+  getReorderSuggestions: async (days = 30): Promise<{ success: boolean; days?: number; groups: ReorderGroup[]; error?: string }> => {
+    try {
+      const response = await apiFetch(`${API_BASE_URL}/reorder-suggestions?days=${days}`);
+      return response.json();
+    } catch (error) {
+      console.log('Backend unavailable, reorder suggestions cannot be computed offline');
+      return { success: false, groups: [], error: 'Backend unavailable' };
     }
   },
 
@@ -128,7 +1085,7 @@ export const api = {
       const formData = new FormData();
       formData.append('image', file);
 
-      const response = await fetch(`${API_BASE_URL}/upload`, {
+      const response = await apiFetch(`${API_BASE_URL}/upload`, {
         method: 'POST',
         body: formData,
       });
@@ -141,7 +1098,7 @@ export const api = {
 
   deleteImage: async (imageUrl: string): Promise<{ success: boolean; error?: string }> => {
  try {
-      const response = await fetch(`${API_BASE_URL}/upload`, {
+      const response = await apiFetch(`${API_BASE_URL}/upload`, {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
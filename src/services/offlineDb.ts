@@ -0,0 +1,109 @@
+// IndexedDB database behind the offline store (api-offline.ts), with small
+// promise helpers around its request and cursor callbacks.
+
+const DB_NAME = 'droguerie';
+const DB_VERSION = 1;
+
+export type OfflineStore = 'products' | 'categories' | 'images' | 'meta';
+
+// Product indexes: lookups by category and code, plus one per column
+// GET /api/products sorts by so an unfiltered page is read straight off an index
+export const PRODUCT_INDEXES = {
+  name: 'name_key',
+  category: 'category_id',
+  barcode: 'barcode',
+  sku: 'sku',
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+  remaining_stock: 'remaining_stock',
+  selling_price: 'selling_price',
+} as const;
+
+export const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export const openOfflineDb = () => {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const products = db.createObjectStore('products', { keyPath: 'id' });
+        for (const [name, keyPath] of Object.entries(PRODUCT_INDEXES)) {
+          products.createIndex(name, keyPath);
+        }
+        db.createObjectStore('categories', { keyPath: 'id' });
+        // Image Blobs keyed by the placeholder URL saved in image_url
+        db.createObjectStore('images');
+        db.createObjectStore('meta');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        connection = null;
+        reject(req.error);
+      };
+    });
+  }
+  return connection;
+};
+
+// Run `work` in one transaction and resolve with its result once the
+// transaction commits. `work` may await requests made on the transaction.
+export const transaction = async <T>(
+  stores: OfflineStore | OfflineStore[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openOfflineDb();
+  const tx = db.transaction(stores, mode);
+  let finished = false;
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => {
+      finished = true;
+      resolve();
+    };
+    tx.onabort = () => {
+      finished = true;
+      reject(tx.error);
+    };
+  });
+  let result: T;
+  try {
+    result = await work(tx);
+  } catch (error) {
+    committed.catch(() => undefined);
+    if (!finished) tx.abort();
+    throw error;
+  }
+  await committed;
+  return result;
+};
+
+// Walk a store or index in key order. `visit` returns false to stop early;
+// `skip` jumps over that many records first without loading them.
+export const iterate = <T>(
+  source: IDBObjectStore | IDBIndex,
+  options: { query?: IDBValidKey | IDBKeyRange | null; direction?: IDBCursorDirection; skip?: number },
+  visit: (value: T) => boolean | undefined
+) =>
+  new Promise<void>((resolve, reject) => {
+    const req = source.openCursor(options.query ?? null, options.direction);
+    let skipped = !options.skip;
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve();
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(options.skip as number);
+        return;
+      }
+      if (visit(cursor.value as T) === false) return resolve();
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
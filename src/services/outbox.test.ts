@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OutboxEntry, Product } from '@/types';
+import { conflictingFields, localChanges, outbox, sameValue } from './outbox';
+
+// The outbox loads from localStorage and listens to other tabs when imported
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: () => {} });
+  return items;
+});
+
+const HAMMER = {
+  id: 7,
+  name: 'Marteau',
+  selling_price: '60.00',
+  purchase_price: '40.00',
+  brand: 'Stanley',
+  is_active: 1,
+  remaining_stock: 4,
+  version: 3,
+} as unknown as Product;
+
+type Data = NonNullable<OutboxEntry['data']>;
+const edit = (changes: Partial<Product>) => ({ ...HAMMER, ...changes }) as unknown as Data;
+
+const entry = (data: Partial<Product>, base: Product = HAMMER) =>
+  ({ id: 'e1', operation: 'update', productId: 7, productName: 'Marteau', data: edit(data), base, status: 'pending' }) as OutboxEntry;
+
+beforeEach(() => {
+  for (const { id } of outbox.entries()) outbox.remove(id);
+});
+
+describe('outbox.enqueue', () => {
+  it('folds edits to a pending product into one entry that keeps the first base', () => {
+    outbox.enqueue({ operation: 'update', productId: 7, productName: 'Marteau', data: edit({ selling_price: 65 }), base: HAMMER });
+    outbox.enqueue({
+      operation: 'update',
+      productId: 7,
+      productName: 'Marteau 500 g',
+      data: edit({ name: 'Marteau 500 g', selling_price: 65 }),
+      base: { ...HAMMER, selling_price: 65 } as unknown as Product,
+    });
+
+    const entries = outbox.entries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ productName: 'Marteau 500 g', base: HAMMER, status: 'pending' });
+    expect(entries[0].data).toMatchObject({ name: 'Marteau 500 g', selling_price: 65 });
+  });
+
+  it('folds edits into a product created offline', () => {
+    outbox.enqueue({ operation: 'create', productId: -1, productName: 'Scie', data: edit({ name: 'Scie' }) });
+    outbox.enqueue({ operation: 'update', productId: -1, productName: 'Scie', data: edit({ name: 'Scie', brand: 'Bahco' }) });
+
+    expect(outbox.entries()).toHaveLength(1);
+    expect(outbox.entries()[0]).toMatchObject({ operation: 'create', data: { brand: 'Bahco' } });
+  });
+
+  it('drops a product created and deleted offline', () => {
+    outbox.enqueue({ operation: 'create', productId: -1, productName: 'Scie', data: edit({ name: 'Scie' }) });
+    outbox.enqueue({ operation: 'delete', productId: -1, productName: 'Scie' });
+
+    expect(outbox.entries()).toEqual([]);
+  });
+
+  it('turns a pending edit into a delete', () => {
+    outbox.enqueue({ operation: 'update', productId: 7, productName: 'Marteau', data: edit({ brand: 'Facom' }), base: HAMMER });
+    outbox.enqueue({ operation: 'delete', productId: 7, productName: 'Marteau', base: HAMMER });
+
+    expect(outbox.entries()).toHaveLength(1);
+    expect(outbox.entries()[0]).toMatchObject({ operation: 'delete', data: undefined, base: HAMMER });
+  });
+
+  it('queues behind an entry waiting on the user, comparing against the server copy', () => {
+    outbox.enqueue({ operation: 'update', productId: 7, productName: 'Marteau', data: edit({ brand: 'Facom' }), base: HAMMER });
+    outbox.update(outbox.entries()[0].id, { status: 'conflict' });
+
+    const edited = { ...HAMMER, brand: 'Facom' } as unknown as Product;
+    outbox.enqueue({ operation: 'update', productId: 7, productName: 'Marteau', data: edit({ brand: 'Bosch' }), base: edited });
+
+    const entries = outbox.entries();
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toMatchObject({ status: 'pending', base: HAMMER, data: { brand: 'Bosch' } });
+  });
+
+  it('saves to localStorage and tells subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = outbox.subscribe(listener);
+
+    outbox.enqueue({ operation: 'delete', productId: 7, productName: 'Marteau', base: HAMMER });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(storage.get('droguerie_outbox') ?? '[]')).toEqual(outbox.entries());
+    expect(outbox.entries()[0]).toMatchObject({ operation: 'delete', status: 'pending' });
+  });
+
+  it('points later changes at the id the server gave a created product', () => {
+    outbox.enqueue({ operation: 'create', productId: -1, productName: 'Scie', data: edit({ name: 'Scie' }) });
+    outbox.update(outbox.entries()[0].id, { status: 'failed' });
+    outbox.enqueue({ operation: 'update', productId: -1, productName: 'Scie', data: edit({ brand: 'Bahco' }) });
+
+    outbox.replaceProductId(-1, 12);
+
+    expect(outbox.entries().map((item) => [item.productId, item.data?.id])).toEqual([
+      [12, 12],
+      [12, 12],
+    ]);
+    expect(outbox.hasProduct(-1)).toBe(false);
+  });
+});
+
+describe('sameValue', () => {
+  it('treats MySQL DECIMAL strings, 0/1 flags and empty values like the form values', () => {
+    expect(sameValue('60.00', 60)).toBe(true);
+    expect(sameValue(1, true)).toBe(true);
+    expect(sameValue(null, '')).toBe(true);
+    expect(sameValue(undefined, 0)).toBe(false);
+    expect(sameValue({ color: 'rouge' }, { color: 'rouge' })).toBe(true);
+    expect(sameValue('Stanley', 'stanley')).toBe(false);
+  });
+});
+
+describe('localChanges', () => {
+  it('lists the fields an edit changed, never server-written ones', () => {
+    const changes = localChanges(
+      entry({ selling_price: 65, purchase_price: 40, is_active: true, remaining_stock: 10, version: 9 })
+    );
+
+    expect(changes).toEqual({ selling_price: 65 });
+  });
+});
+
+describe('conflictingFields', () => {
+  // What the server sends back, with DECIMAL columns as strings
+  const server = (changes: Record<string, unknown>) => ({ ...HAMMER, ...changes }) as unknown as Product;
+
+  it('reports fields changed on both sides to different values', () => {
+    expect(conflictingFields(entry({ selling_price: 65 }), server({ selling_price: '70.00' }))).toEqual([
+      'selling_price',
+    ]);
+  });
+
+  it('ignores fields both sides changed to the same value', () => {
+    expect(conflictingFields(entry({ selling_price: 65 }), server({ selling_price: '65.00' }))).toEqual([]);
+  });
+
+  it('ignores fields only one side changed', () => {
+    const local = entry({ selling_price: 65 });
+
+    expect(conflictingFields(local, server({ brand: 'Facom', version: 4 }))).toEqual([]);
+    expect(conflictingFields(local, server({}))).toEqual([]);
+  });
+});
+
+describe('outbox.clear', () => {
+  it('drops every entry, in memory and in localStorage', () => {
+    outbox.enqueue({ operation: 'update', productId: 7, productName: 'Marteau', data: edit({ brand: 'Facom' }), base: HAMMER });
+    outbox.enqueue({ operation: 'delete', productId: 8, productName: 'Pince', base: HAMMER });
+
+    outbox.clear();
+
+    expect(outbox.entries()).toEqual([]);
+    expect(JSON.parse(storage.get('droguerie_outbox') as string)).toEqual([]);
+  });
+});
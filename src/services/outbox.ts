@@ -0,0 +1,183 @@
+import type { OutboxEntry, Product } from '@/types';
+
+// Product changes made while the backend was unreachable, oldest first.
+// Kept in localStorage so they survive a reload and are replayed by
+// api.syncOutbox once the backend answers again.
+const OUTBOX_KEY = 'droguerie_outbox';
+
+type OutboxChange = Pick<OutboxEntry, 'operation' | 'productId' | 'productName' | 'data' | 'base'>;
+
+const load = (): OutboxEntry[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading the outbox from localStorage:', error);
+    return [];
+  }
+};
+
+let entries = load();
+const listeners = new Set<() => void>();
+
+const save = (next: OutboxEntry[]) => {
+  entries = next;
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving the outbox to localStorage:', error);
+  }
+  for (const listener of listeners) listener();
+};
+
+// Another tab queued or replayed something
+window.addEventListener('storage', (event) => {
+  if (event.key !== OUTBOX_KEY) return;
+  entries = load();
+  for (const listener of listeners) listener();
+});
+
+// RFC 4122 version 4 UUID. crypto.randomUUID only exists on https and
+// localhost, and the tablets reach the backend over plain http on the LAN.
+export const clientId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Written by the server or through stock movements, never by a product edit
+const SERVER_FIELDS = [
+  'id',
+  'version',
+  'remaining_stock',
+  'stock_locations',
+  'location_stock',
+  'parent_id',
+  'variant_count',
+  'variants',
+  'parent',
+  'created_at',
+  'updated_at',
+  'category_name',
+];
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+// Loose equality between a form value and what MySQL returns: DECIMAL
+// columns come back as strings and booleans as 0/1
+export const sameValue = (a: unknown, b: unknown) => {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+  if (typeof a === 'number' || typeof b === 'number' || typeof a === 'boolean' || typeof b === 'boolean') {
+    return Number(a) === Number(b);
+  }
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return String(a) === String(b);
+};
+
+// Fields an offline edit changed compared with the product it started from
+export const localChanges = (entry: OutboxEntry): Partial<Product> => {
+  if (!entry.data) return {};
+  const base = (entry.base || {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(entry.data).filter(([field, value]) => !SERVER_FIELDS.includes(field) && !sameValue(value, base[field]))
+  );
+};
+
+// Fields changed both offline and on the server since the base, to different values
+export const conflictingFields = (entry: OutboxEntry, server: Product) => {
+  const base = (entry.base || {}) as Record<string, unknown>;
+  const current = server as unknown as Record<string, unknown>;
+  return Object.entries(localChanges(entry))
+    .filter(([field, value]) => !sameValue(current[field], base[field]) && !sameValue(current[field], value))
+    .map(([field]) => field);
+};
+
+export const outbox = {
+  // Same array until the outbox changes, as useSyncExternalStore expects
+  entries: () => entries,
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Queue a change. A change to a product that still has a pending entry is
+  // folded into it, so the server sees one write per product and the
+  // original base is kept for conflict detection.
+  enqueue: (change: OutboxChange) => {
+    const pending = [...entries]
+      .reverse()
+      .find((entry) => entry.productId === change.productId && entry.status === 'pending');
+
+    if (pending && pending.operation !== 'delete') {
+      if (change.operation === 'update') {
+        save(
+          entries.map((entry) =>
+            entry === pending
+              ? {
+                  ...entry,
+                  productName: change.productName,
+                  data: entry.data && change.data ? { ...entry.data, ...change.data } : change.data,
+                }
+              : entry
+          )
+        );
+        return;
+      }
+      if (change.operation === 'delete') {
+        // A product created offline and deleted again never reaches the server
+        save(
+          pending.operation === 'create'
+            ? entries.filter((entry) => entry !== pending)
+            : entries.map((entry) =>
+                entry === pending ? { ...entry, operation: 'delete', data: undefined } : entry
+              )
+        );
+        return;
+      }
+    }
+
+    // Behind an entry that is waiting on the user, keep comparing against the
+    // last copy the server sent rather than the locally edited one
+    const earlier = entries.find((entry) => entry.productId === change.productId);
+    save([
+      ...entries,
+      {
+        ...change,
+        base: earlier && earlier.operation !== 'create' ? earlier.base : change.base,
+        id: clientId(),
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+  },
+
+  update: (id: string, changes: Partial<OutboxEntry>) => {
+    save(entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+  },
+
+  remove: (id: string) => {
+    save(entries.filter((entry) => entry.id !== id));
+  },
+
+  clear: () => {
+    save([]);
+  },
+
+  // Point later changes to a product created offline at the id the server gave it
+  replaceProductId: (localId: number, serverId: number) => {
+    save(
+      entries.map((entry) =>
+        entry.productId === localId
+          ? { ...entry, productId: serverId, data: entry.data && { ...entry.data, id: serverId } }
+          : entry
+      )
+    );
+  },
+
+  hasProduct: (productId: number) => entries.some((entry) => entry.productId === productId),
+};
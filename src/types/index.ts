@@ -1,21 +1,612 @@
+export type UserRole = 'admin' | 'staff' | 'viewer';
+
+export interface User {
+  id: number;
+  email: string;
+  name?: string;
+  role: UserRole;
+}
+
 export interface Category {
   id: number;
   name: string;
+  name_ar?: string | null;
+  name_fr?: string | null;
   description?: string;
+  description_ar?: string | null;
+  description_fr?: string | null;
+  icon?: string | null;
+  color?: string | null;
+  product_count?: number;
   created_at: string;
 }
 
+export interface CategoryInput {
+  name: string;
+  name_ar?: string;
+  name_fr?: string;
+  description?: string;
+  description_ar?: string;
+  description_fr?: string;
+  icon?: string;
+  color?: string;
+}
+
+export type ProductUnit =
+  | 'piece'
+  | 'box'
+  | 'pack'
+  | 'set'
+  | 'pair'
+  | 'kg'
+  | 'g'
+  | 'liter'
+  | 'ml'
+  | 'meter'
+  | 'm2'
+  | 'roll'
+  | 'tube'
+  | 'bucket'
+  | 'bag';
+
+// Where a search matched a product, split into matched and unmatched text
+export interface SearchHighlight {
+  field: string;
+  segments: { text: string; match: boolean }[];
+}
+
+export interface ProductLocationStock {
+  location_id: number;
+  quantity: number;
+}
+
 export interface Product {
   id: number;
+  // Set on variants: the product they are a size, color... of
+  parent_id?: number | null;
   name: string;
+  name_ar?: string | null;
+  name_fr?: string | null;
   description?: string;
+  description_ar?: string | null;
+  description_fr?: string | null;
   category_id: number;
   category_name?: string;
+  supplier_id?: number | null;
+  supplier_name?: string;
   purchase_price: number;
   selling_price: number;
   remaining_stock: number;
   min_stock_level: number;
+  max_stock_level?: number;
+  unit?: ProductUnit;
   image_url?: string;
+  barcode?: string | null;
+  sku?: string | null;
+  brand?: string | null;
+  // Shelf or storage position within a stock location, e.g. "Aisle 3 / Shelf B"
+  location?: string | null;
+  // Kilograms
+  weight?: number | null;
+  dimensions?: string | null;
+  warranty_months?: number;
+  is_active?: boolean | number;
+  is_featured?: boolean | number;
+  // Comma-separated
+  tags?: string | null;
+  // On a parent: what its variants differ by, e.g. ["Size", "Color"]
+  variant_attributes?: string[] | null;
+  // On a variant: its value for each parent attribute, e.g. { Size: "4L" }
+  variant_options?: Record<string, string> | null;
+  // Parents hold no stock of their own; each variant has its own
+  variant_count?: number;
+  // On parents in nested lists, and on a single product with a family
+  variants?: Product[];
+  // Only on a single variant
+  parent?: Pick<Product, 'id' | 'name' | 'variant_attributes'> | null;
+  version?: number;
+  // remaining_stock is the total over all locations; this is its breakdown
+  stock_locations?: ProductLocationStock[];
+  // Only on lists filtered by location
+  location_stock?: number;
+  // Only on search results
+  exact_match?: boolean;
+  relevance?: number;
+  highlight?: SearchHighlight | null;
   created_at: string;
   updated_at: string;
 }
+
+export type ProductAvailability = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+// What customers see after scanning a shelf-tag QR code
+export type PublicProduct = Pick<
+  Product,
+  | 'id'
+  | 'name'
+  | 'name_ar'
+  | 'name_fr'
+  | 'description'
+  | 'description_ar'
+  | 'description_fr'
+  | 'selling_price'
+  | 'unit'
+  | 'brand'
+  | 'image_url'
+  | 'warranty_months'
+> & {
+  category: Pick<Category, 'name' | 'name_ar' | 'name_fr'> | null;
+  availability: ProductAvailability;
+};
+
+// Fields printed on a shelf label
+export type LabelProduct = Pick<
+  Product,
+  'id' | 'name' | 'name_ar' | 'name_fr' | 'selling_price' | 'unit' | 'barcode' | 'sku' | 'brand'
+>;
+
+// One spreadsheet row of a product import; missing fields keep the current value
+export type ProductImportRow = Partial<
+  Pick<
+    Product,
+    | 'name'
+    | 'name_ar'
+    | 'name_fr'
+    | 'description'
+    | 'description_ar'
+    | 'description_fr'
+    | 'category_id'
+    | 'purchase_price'
+    | 'selling_price'
+    | 'remaining_stock'
+    | 'min_stock_level'
+    | 'max_stock_level'
+    | 'unit'
+    | 'image_url'
+    | 'barcode'
+    | 'sku'
+    | 'brand'
+    | 'location'
+    | 'weight'
+    | 'dimensions'
+    | 'warranty_months'
+    | 'is_active'
+    | 'is_featured'
+    | 'tags'
+  >
+>;
+
+export interface ProductImportResult {
+  // Index in the submitted rows
+  row: number;
+  action: 'create' | 'update';
+  product_id: number | null;
+  error?: string;
+}
+
+export type ProductExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+// Search, category and sort of a product list, as sent to GET /api/products
+export interface ProductListFilters {
+  search: string;
+  category: string;
+  // A location id, or 'all' for stock over every location
+  location_id: string;
+  sortBy: string;
+  sortOrder: string;
+}
+
+// flat: every product, variants included; nested: parents and standalone
+// products, each parent with its variants
+export type ProductListVariants = 'flat' | 'nested';
+
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+// pending: waiting for the backend; failed: the backend refused it;
+// conflict: the product changed on the server since it was edited offline
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+// A product change made offline, replayed in order once the backend is reachable
+export interface OutboxEntry {
+  // Generated on the device; a replayed create sends it as Idempotency-Key
+  id: string;
+  operation: OutboxOperation;
+  // Negative for a product created offline, until the server assigns its id
+  productId: number;
+  productName: string;
+  data?: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'category_name'> & { id?: number };
+  // The product as last loaded from the server, to detect changes made there since
+  base?: Product | null;
+  status: OutboxStatus;
+  error?: string;
+  // What the server holds when a conflict was found; null if it was deleted
+  serverProduct?: Product | null;
+  createdAt: string;
+}
+
+export interface PaginationInfo {
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  itemsPerPage: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export type StockMovementType = 'IN' | 'OUT' | 'ADJUSTMENT';
+
+export interface StockMovement {
+  id: number;
+  product_id: number;
+  movement_type: StockMovementType;
+  quantity: number;
+  reason?: string;
+  reference_number?: string;
+  notes?: string;
+  location_id: number | null;
+  location_name?: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface StockMovementInput {
+  movement_type: StockMovementType;
+  quantity: number;
+  reason?: string;
+  reference_number?: string;
+  notes?: string;
+  // Defaults to the default location
+  location_id?: number;
+}
+
+export type PaymentType = 'cash' | 'card' | 'credit';
+
+export interface CartItem {
+  product_id: number;
+  name: string;
+  unit_price: number;
+  quantity: number;
+  discount: number;
+  available_stock: number;
+}
+
+export interface SaleInput {
+  items: { product_id: number; quantity: number; discount: number }[];
+  payment_type: PaymentType;
+  customer_id?: number;
+  // Defaults to the default location
+  location_id?: number;
+  notes?: string;
+}
+
+export interface SaleItem {
+  id: number;
+  sale_id: number;
+  product_id: number | null;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  line_total: number;
+}
+
+export interface Sale {
+  id: number;
+  sale_number: string;
+  customer_id?: number | null;
+  payment_type: PaymentType;
+  subtotal: number;
+  discount_total: number;
+  total: number;
+  notes?: string;
+  created_by: string;
+  created_at: string;
+  items?: SaleItem[];
+}
+
+export interface Customer {
+  id: number;
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  credit_limit: number;
+  notes?: string;
+  is_active: boolean | number;
+  balance: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomerInput = Pick<Customer, 'name' | 'phone' | 'email' | 'address' | 'credit_limit' | 'notes'> & {
+  is_active?: boolean;
+};
+
+export type CustomerPaymentMethod = 'cash' | 'card' | 'transfer' | 'cheque';
+
+export interface CustomerPaymentInput {
+  amount: number;
+  method: CustomerPaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface StatementEntry {
+  date: string;
+  type: 'sale' | 'payment';
+  reference: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: Customer;
+  from: string | null;
+  to: string | null;
+  opening_balance: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contact_name?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  tax_id?: string;
+  payment_terms?: string;
+  lead_time_days: number;
+  notes?: string;
+  is_active: boolean | number;
+  product_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SupplierInput = Pick<
+  Supplier,
+  'name' | 'contact_name' | 'phone' | 'email' | 'address' | 'tax_id' | 'payment_terms' | 'lead_time_days' | 'notes'
+> & {
+  is_active?: boolean;
+};
+
+export type LocationType = 'shop' | 'depot' | 'branch';
+
+// A place stock is kept: the shop floor, a depot, another branch
+export interface Location {
+  id: number;
+  name: string;
+  type: LocationType;
+  address?: string | null;
+  // Sales, receipts and imports use the default location
+  is_default: boolean | number;
+  is_active: boolean | number;
+  product_count?: number;
+  stock_units?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LocationInput = Pick<Location, 'name' | 'type' | 'address'> & {
+  is_default?: boolean;
+  is_active?: boolean;
+};
+
+export interface StockTransferItem {
+  id: number;
+  transfer_id: number;
+  product_id: number | null;
+  product_name: string;
+  quantity: number;
+  sku?: string;
+  barcode?: string;
+}
+
+export interface StockTransfer {
+  id: number;
+  reference: string;
+  from_location_id: number;
+  from_location_name: string;
+  to_location_id: number;
+  to_location_name: string;
+  notes?: string;
+  item_count?: number;
+  total_quantity?: number;
+  items?: StockTransferItem[];
+  created_by: string;
+  created_at: string;
+}
+
+export interface StockTransferInput {
+  from_location_id: number;
+  to_location_id: number;
+  notes?: string;
+  items: { product_id: number; quantity: number }[];
+}
+
+export interface SupplierProduct {
+  id: number;
+  name: string;
+  sku?: string;
+  barcode?: string;
+  category_name?: string;
+  remaining_stock: number;
+  min_stock_level: number;
+  selling_price: number;
+  purchase_price: number;
+  last_purchase_price: number;
+  last_received_at: string | null;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: number;
+  purchase_order_id: number;
+  product_id: number | null;
+  product_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  last_received_at: string | null;
+  sku?: string;
+  barcode?: string;
+  remaining_stock?: number;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  po_number: string;
+  supplier_id: number;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  notes?: string;
+  total: number;
+  item_count?: number;
+  items?: PurchaseOrderItem[];
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderInput {
+  supplier_id: number;
+  expected_date?: string;
+  notes?: string;
+  items: {
+    product_id: number;
+    quantity: number;
+    unit_cost?: number;
+  }[];
+}
+
+export interface PurchaseOrderReceiptInput {
+  items: {
+    item_id: number;
+    quantity: number;
+    unit_cost?: number;
+  }[];
+  reference?: string;
+  // Defaults to the default location
+  location_id?: number;
+  notes?: string;
+}
+
+export interface ReorderSuggestion {
+  product_id: number;
+  name: string;
+  sku?: string;
+  barcode?: string;
+  remaining_stock: number;
+  min_stock_level: number;
+  max_stock_level: number;
+  on_order: number;
+  avg_daily_sales: number;
+  suggested_quantity: number;
+  unit_cost: number;
+}
+
+export interface ReorderGroup {
+  supplier_id: number | null;
+  supplier_name: string | null;
+  lead_time_days: number;
+  items: ReorderSuggestion[];
+  total: number;
+}
+
+export type StocktakeStatus = 'open' | 'approved' | 'cancelled';
+export type StocktakeScope = 'all' | 'category' | 'location';
+
+export interface StocktakeItem {
+  id: number;
+  stocktake_id: number;
+  product_id: number | null;
+  product_name: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  unit_cost: number;
+  counted_by: string | null;
+  counted_at: string | null;
+  variance_quantity: number | null;
+  variance_value: number | null;
+  sku?: string;
+  barcode?: string;
+  location?: string | null;
+}
+
+export interface Stocktake {
+  id: number;
+  reference: string;
+  scope_type: StocktakeScope;
+  scope_value: string | null;
+  category_name?: string | null;
+  location_id: number;
+  location_name?: string;
+  status: StocktakeStatus;
+  notes?: string;
+  item_count: number;
+  counted_count: number;
+  variance_quantity: number;
+  variance_value: number;
+  items?: StocktakeItem[];
+  created_by: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StocktakeInput {
+  scope_type: StocktakeScope;
+  scope_value?: string;
+  // Stock location being counted; defaults to the default location
+  location_id?: number;
+  notes?: string;
+}
+
+// 'add' increments the count (one per scan), 'set' replaces it; a null 'set' clears it
+export interface StocktakeCount {
+  product_id: number;
+  quantity: number | null;
+  mode: 'add' | 'set';
+}
+
+export type AuditEntityType = 'product' | 'category' | 'sale' | 'customer' | 'supplier' | 'purchase_order' | 'stocktake' | 'location' | 'stock_transfer' | 'user' | 'upload';
+
+export interface AuditEntry {
+  id: number;
+  entity_type: AuditEntityType;
+  entity_id: number | null;
+  action: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  user_id: number | null;
+  user_name: string | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface AuditFilters {
+  entity_type?: AuditEntityType;
+  entity_id?: number;
+  user_id?: number;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface PriceHistoryEntry {
+  id: number;
+  product_id: number;
+  purchase_price: number;
+  selling_price: number;
+  margin: number;
+  margin_percent: number | null;
+  source: 'initial' | 'create' | 'edit' | 'purchase_order' | string;
+  reference_number?: string | null;
+  changed_by: string;
+  changed_at: string;
+}
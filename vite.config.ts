@@ -1,10 +1,39 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
 import path from "path";
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { type Plugin, defineConfig } from "vite";
+
+// Files in public/ the app shell needs besides the bundle
+const PUBLIC_SHELL_FILES = ["/manifest.webmanifest", "/icons/icon.svg", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+// Emit dist/sw.js from src/service-worker.js with the list of built files to
+// precache. The version is a hash of that list, so every build that changes
+// a file installs a new worker and drops the old precache.
+function serviceWorker(): Plugin {
+  return {
+    name: "service-worker",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const urls = [
+        "/",
+        ...Object.keys(bundle)
+          .filter((fileName) => !fileName.endsWith(".map"))
+          .map((fileName) => `/${fileName}`),
+        ...PUBLIC_SHELL_FILES,
+      ];
+      const version = createHash("sha256").update(urls.join("\n")).digest("hex").slice(0, 12);
+      const source = readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf8")
+        .replace("self.__PRECACHE_URLS__", JSON.stringify(urls))
+        .replace("self.__VERSION__", JSON.stringify(version));
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -17,6 +46,8 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
         ws: true,
+        // Pass the browser's address on, so the API can throttle logins per client
+        xfwd: true,
       },
     },
   },